@@ -58,6 +58,27 @@ async function main() {
       case 'component':
         await commands.component(args, ctx);
         break;
+      case 'doctor':
+        await commands.doctor(args, ctx);
+        break;
+      case 'backup':
+        await commands.backup(args, ctx);
+        break;
+      case 'undo':
+        await commands.undo(args, ctx);
+        break;
+      case 'plan':
+        await commands.plan(args, ctx);
+        break;
+      case 'apply':
+        await commands.apply(args, ctx);
+        break;
+      case 'adopt':
+        await commands.adopt(args, ctx);
+        break;
+      case 'permissions':
+        await commands.permissions(args, ctx);
+        break;
       case 'version':
         const { getCliVersion: getVersion } = await import('./lib/version');
         console.log(getVersion());
@@ -92,28 +113,70 @@ Commands:
               Usage: rns init <name> [--target expo|bare] [--lang ts|js] [--pm npm|pnpm|yarn] [--platforms ios,android] [--rn-version <version>] [--locales en,ru,de] [--yes]
               Note: Use --yes to skip all prompts and use defaults for features, locales, plugins, and dependencies
               Note: Use --locales to specify which locales to use for i18n (e.g., --locales en,ru,de). English is always included.
-  plugin      Manage plugins (list, add, remove, status, doctor)
-  module      Manage modules (list, add, status, doctor)
+              Note: Use --preset <name|file.json> for a non-interactive init from a preset (built-in: minimal, firebase-full, offline-first)
+              Note: Use --from-manifest <.rn-init.json|project dir> to recreate a project's stack, plugins and modules
+  plugin      Manage plugins (list, add, remove, upgrade, configure, replace, status, doctor)
+  module      Manage modules (list, add, remove, status, doctor)
   component   Generate UI components (add)
+  doctor      Validate environment and project (--env, --project, --fix, --json)
+  backup      Inspect and restore operation backups (list, show, restore, prune)
+  undo        Undo the most recent operation (restores its backup)
+  plan        Preview plugin add/remove as file diffs, dependency table and permissions delta (--json)
+  apply       Converge plugins and modules on rns.config.json / rns.config.ts (--config, --dry-run, --yes)
+  adopt       Bring an existing Expo / bare React Native app under CLI management (--entry, --dry-run, --yes)
+  permissions Show required permissions, which plugin needs them and native status (list, explain, why, sync)
   version     Show CLI version
   help        Show this help message
 
 Plugin Commands:
   rns plugin list [--json]                    List available plugins
-  rns plugin add [ids...] [--dry-run] [--yes] Install plugins
-  rns plugin remove [ids...] [--dry-run] [--yes] Remove plugins
+  rns plugin add [ids...] [--dry-run] [--yes] Install plugins (--option key=value, --options-file file)
+  rns plugin remove [ids...] [--cascade] [--dry-run] [--yes] Remove plugins (--cascade: also remove dependents)
+  rns plugin upgrade [ids...] [--dry-run] [--yes] Upgrade installed plugins
+  rns plugin configure <id> [--option key=value] Change plugin options
+  rns plugin replace <old> <new> [--dry-run] [--yes] Swap plugins in the same slot
   rns plugin status [--json]                 Show installed vs available
   rns plugin doctor [--fix]                  Validate installed plugins
 
 Module Commands:
   rns module list [--json] [--category <cat>] [--target <target>] List available modules
   rns module add [ids...] [--dry-run] [--yes] [--verbose]         Generate modules
+  rns module remove [ids...] [--dry-run] [--yes] [--force]         Remove generated modules
   rns module status [--json]                                       Show installed vs available
   rns module doctor                                                Validate installed modules
 
 Component Commands:
   rns component add <name> [names...] [--dry-run] [--yes] [--verbose]  Generate UI components
 
+Doctor Commands:
+  rns doctor [--target expo|bare] [--json]   Run environment + project checks
+  rns doctor --env [--target expo|bare]      Check machine tooling only
+  rns doctor --project [--fix]               Check project state only (--fix applies safe SYSTEM ZONE fixes)
+
+Backup Commands:
+  rns backup list [--json]                   List backups (operation, capability, timestamp, files)
+  rns backup show <id> [--json]              Show a backup with a diff against current files
+  rns backup restore <id> [--dry-run] [--yes] Restore files from a backup
+  rns backup prune [--keep N] [--older-than 7d] [--dry-run] Remove old backups
+  rns undo [--dry-run] [--yes]               Undo the most recent operation
+
+Plan Commands:
+  rns plan plugin add <ids...> [--option key=value] [--json]  Preview installing plugins
+  rns plan plugin remove <ids...> [--cascade] [--json]        Preview removing plugins
+
+Apply Commands:
+  rns apply [--config <file>] [--dry-run] [--yes]  Install/remove/reconfigure to match rns.config.json
+
+Adopt Commands:
+  rns adopt [--dry-run] [--yes]              Attach packages/@rns, infer options and write the manifest
+  rns adopt --entry rnsapp                   Register RnsApp in the entry instead of adding markers to App.tsx
+
+Permissions Commands:
+  rns permissions list [--json]              List permissions: required by, mandatory/optional, iOS keys, Android permissions
+  rns permissions explain <id> [--json]      Explain a permission ID (plugins, catalog entries, native status)
+  rns permissions why <key|permission> [--json] Show why an Info.plist key / Android permission is required
+  rns permissions sync [--dry-run]           Regenerate iOS usage descriptions (Info.plist/InfoPlist.strings or Expo locales)
+
 Global Options:
   --cwd <dir>     Working directory (default: current directory)
   --yes           Auto-confirm all prompts
@@ -0,0 +1,46 @@
+/**
+ * FILE: src/commands/adopt.ts
+ * PURPOSE: Thin entrypoint for adopt command - delegates to lib/adopt.
+ * OWNERSHIP: CLI
+ */
+
+import { ParsedArgs } from '../lib/args';
+import { RuntimeContext } from '../lib/runtime';
+import { runAdopt, type AdoptEntryMode, type AdoptOptions } from '../lib/adopt';
+import { CliError, ExitCode } from '../lib/errors';
+import { PROJECT_STATE_FILE } from '../lib/constants';
+
+/**
+ * Handles rns adopt (bring an existing React Native app under CLI management)
+ */
+export async function handleAdopt(args: ParsedArgs, context: RuntimeContext): Promise<void> {
+  const options: AdoptOptions = {
+    yes: args.yes || false,
+    dryRun: args.dryRun || false,
+    verbose: args.verbose || false,
+    entry: typeof args.entry === 'string' ? (args.entry as AdoptEntryMode) : undefined,
+  };
+
+  try {
+    const result = await runAdopt(options, context);
+    if (!result.applied) {
+      if (options.dryRun) {
+        context.logger.info('\nDry-run complete: no changes made');
+      }
+      return;
+    }
+
+    context.logger.info(`\n✓ Adopted ${result.detection.projectName} (${PROJECT_STATE_FILE} written)`);
+    context.logger.info('Next steps:');
+    context.logger.info(`  1. Run "${result.detection.packageManager} install" to link the packages/@rns workspaces`);
+    context.logger.info('  2. Add plugins with "rns plugin add <id>"');
+  } catch (error) {
+    if (error instanceof CliError) {
+      throw error;
+    }
+    throw new CliError(
+      `Adopt failed: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * FILE: src/commands/apply.ts
+ * PURPOSE: Thin entrypoint for apply command - delegates to lib/project-config.
+ * OWNERSHIP: CLI
+ */
+
+import { ParsedArgs } from '../lib/args';
+import { RuntimeContext } from '../lib/runtime';
+import { applyProjectConfig, type ApplyOptions } from '../lib/project-config';
+import { CliError, ExitCode } from '../lib/errors';
+
+/**
+ * Handles rns apply (converge on rns.config.json / rns.config.ts)
+ */
+export async function handleApply(args: ParsedArgs, context: RuntimeContext): Promise<void> {
+  const options: ApplyOptions = {
+    yes: args.yes || false,
+    dryRun: args.dryRun || false,
+    verbose: args.verbose || false,
+    configFile: typeof args.config === 'string' ? args.config : undefined,
+  };
+
+  try {
+    const result = await applyProjectConfig(options, context);
+    if (!result.applied) {
+      if (options.dryRun) {
+        context.logger.info('\nDry-run complete: no changes made');
+      }
+      return;
+    }
+
+    const outcomes = [...result.plugins.map(r => ({ ...r, id: r.pluginId })), ...result.modules.map(r => ({ ...r, id: r.moduleId }))];
+    const successful = outcomes.filter(r => r.success && !r.skipped).length;
+    const skipped = outcomes.filter(r => r.skipped).length;
+    const failed = outcomes.filter(r => !r.success && !r.skipped);
+    context.logger.info(`\nSummary: ${successful} applied, ${skipped} skipped, ${failed.length} failed`);
+
+    if (failed.length > 0) {
+      throw new CliError(
+        `Project did not converge on ${result.config.file}: ${failed.map(r => r.id).join(', ')} failed. Fix the errors and run "rns apply" again.`,
+        ExitCode.GENERIC_FAILURE
+      );
+    }
+  } catch (error) {
+    if (error instanceof CliError) {
+      throw error;
+    }
+    throw new CliError(
+      `Apply failed: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+}
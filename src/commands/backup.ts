@@ -0,0 +1,79 @@
+/**
+ * FILE: src/commands/backup.ts
+ * PURPOSE: Thin entrypoint for backup commands - delegates to lib/backup-history.
+ * OWNERSHIP: CLI
+ */
+
+import { ParsedArgs } from '../lib/args';
+import { RuntimeContext } from '../lib/runtime';
+import {
+  runBackupList,
+  runBackupShow,
+  runBackupRestore,
+  runBackupPrune,
+} from '../lib/backup-history';
+import { CliError, ExitCode } from '../lib/errors';
+
+/**
+ * Handles backup commands
+ */
+export async function handleBackup(args: ParsedArgs, context: RuntimeContext): Promise<void> {
+  // args._[0] = 'backup', args._[1] = subcommand, args._[2] = backup ID
+  const subcommand = args._[1];
+
+  if (!subcommand) {
+    context.logger.error('Backup command requires a subcommand: list, show, restore, prune');
+    context.logger.info('');
+    context.logger.info('Usage:');
+    context.logger.info('  rns backup list [--json]');
+    context.logger.info('  rns backup show <id> [--json]');
+    context.logger.info('  rns backup restore <id> [--dry-run] [--yes]');
+    context.logger.info('  rns backup prune [--keep <N>] [--older-than <duration>] [--dry-run]');
+    throw new CliError('Missing subcommand', ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const backupId = args._[2];
+  const json = args.json === true;
+  const dryRun = args.dryRun || false;
+
+  try {
+    switch (subcommand) {
+      case 'list':
+        runBackupList({ json }, context);
+        break;
+
+      case 'show':
+        runBackupShow(backupId, { json }, context);
+        break;
+
+      case 'restore':
+        await runBackupRestore(backupId, { yes: args.yes || false, dryRun }, context);
+        break;
+
+      case 'prune':
+        runBackupPrune(
+          {
+            keep: args.keep !== undefined ? String(args.keep) : undefined,
+            olderThan: args['older-than'] !== undefined ? String(args['older-than']) : undefined,
+            dryRun,
+          },
+          context
+        );
+        break;
+
+      default:
+        throw new CliError(
+          `Unknown backup subcommand: "${subcommand}". Valid commands: list, show, restore, prune`,
+          ExitCode.VALIDATION_STATE_FAILURE
+        );
+    }
+  } catch (error) {
+    if (error instanceof CliError) {
+      throw error;
+    }
+    throw new CliError(
+      `Backup command failed: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+}
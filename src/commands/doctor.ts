@@ -0,0 +1,36 @@
+/**
+ * FILE: src/commands/doctor.ts
+ * PURPOSE: Thin entrypoint for doctor command - delegates to lib/doctor.
+ * OWNERSHIP: CLI
+ */
+
+import { ParsedArgs } from '../lib/args';
+import { RuntimeContext } from '../lib/runtime';
+import { runDoctorCommand, type DoctorCommandOptions } from '../lib/doctor';
+import { CliError, ExitCode } from '../lib/errors';
+import type { RnsTarget } from '../lib/types/common';
+
+/**
+ * Handles doctor command
+ */
+export async function handleDoctor(args: ParsedArgs, context: RuntimeContext): Promise<void> {
+  const options: DoctorCommandOptions = {
+    env: args.env === true,
+    project: args.project === true,
+    fix: args.fix === true,
+    json: args.json === true,
+    target: args.target as RnsTarget | undefined,
+  };
+
+  try {
+    await runDoctorCommand(options, context);
+  } catch (error) {
+    if (error instanceof CliError) {
+      throw error;
+    }
+    throw new CliError(
+      `Doctor command failed: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+}
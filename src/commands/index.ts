@@ -10,6 +10,13 @@ import { runInit } from '../lib/init';
 import { handlePlugin } from './plugin';
 import { handleModule } from './module';
 import { handleComponent } from './component';
+import { handleDoctor } from './doctor';
+import { handleBackup } from './backup';
+import { handleUndo } from './undo';
+import { handlePlan } from './plan';
+import { handleApply } from './apply';
+import { handleAdopt } from './adopt';
+import { handlePermissions } from './permissions';
 
 /**
  * Init command - creates a new React Native app with CORE baseline
@@ -17,13 +24,15 @@ import { handleComponent } from './component';
  */
 export async function init(ctx: RuntimeContext, args: ParsedArgs): Promise<void> {
   // args._[0] is the command 'init', so skip it
-  // Extract flags: --target, --lang, --pm, --platforms, --rn-version, --locales
+  // Extract flags: --target, --lang, --pm, --platforms, --rn-version, --locales, --preset, --from-manifest
   const target = args.target as 'expo' | 'bare' | undefined;
   const language = args.lang as 'ts' | 'js' | undefined;
   const packageManager = args.pm as 'npm' | 'pnpm' | 'yarn' | undefined;
   const platforms = args.platforms ? String(args.platforms).split(',').map(p => p.trim()) : undefined;
   const reactNativeVersion = args['rn-version'] as string | undefined;
   const locales = args.locales ? String(args.locales).split(',').map(l => l.trim()).filter(l => l.length > 0) : undefined;
+  const preset = typeof args.preset === 'string' ? args.preset : undefined;
+  const fromManifest = typeof args['from-manifest'] === 'string' ? args['from-manifest'] : undefined;
 
   await runInit({
     projectName: args._[1],
@@ -34,6 +43,8 @@ export async function init(ctx: RuntimeContext, args: ParsedArgs): Promise<void>
     platforms,
     reactNativeVersion,
     locales,
+    preset,
+    fromManifest,
     context: ctx,
   });
 }
@@ -45,7 +56,7 @@ export async function init(ctx: RuntimeContext, args: ParsedArgs): Promise<void>
 export { handlePlugin as plugin };
 
 /**
- * Module command - manages modules (list, add, status, doctor)
+ * Module command - manages modules (list, add, remove, status, doctor)
  * This is a thin entrypoint; all logic lives in src/lib/module.ts
  */
 export { handleModule as module };
@@ -55,3 +66,45 @@ export { handleModule as module };
  * This is a thin entrypoint; all logic lives in src/lib/component.ts
  */
 export { handleComponent as component };
+
+/**
+ * Doctor command - environment + project validation (--env, --project, --fix, --json)
+ * This is a thin entrypoint; all logic lives in src/lib/doctor.ts
+ */
+export { handleDoctor as doctor };
+
+/**
+ * Backup command - inspects and restores operation backups (list, show, restore, prune)
+ * This is a thin entrypoint; all logic lives in src/lib/backup-history.ts
+ */
+export { handleBackup as backup };
+
+/**
+ * Undo command - restores the backup of the most recent operation
+ * This is a thin entrypoint; all logic lives in src/lib/backup-history.ts
+ */
+export { handleUndo as undo };
+
+/**
+ * Plan command - previews plugin add/remove as diffs, dependency table and permissions delta
+ * This is a thin entrypoint; all logic lives in src/lib/plan-preview.ts
+ */
+export { handlePlan as plan };
+
+/**
+ * Apply command - converges plugins/modules on the declarative project config (rns.config.json)
+ * This is a thin entrypoint; all logic lives in src/lib/project-config.ts
+ */
+export { handleApply as apply };
+
+/**
+ * Adopt command - brings an existing Expo / bare React Native app under CLI management
+ * This is a thin entrypoint; all logic lives in src/lib/adopt.ts
+ */
+export { handleAdopt as adopt };
+
+/**
+ * Permissions command - shows project permissions, the plugins requiring them and native status (list, explain, why)
+ * This is a thin entrypoint; all logic lives in src/lib/permissions-report.ts
+ */
+export { handlePermissions as permissions };
@@ -9,6 +9,7 @@ import { RuntimeContext } from '../lib/runtime';
 import {
   listModules,
   addModules,
+  removeModules,
   getModuleStatus,
   runModuleDoctor,
   type ListModulesOptions,
@@ -25,11 +26,12 @@ export async function handleModule(args: ParsedArgs, context: RuntimeContext): P
   const subcommand = args._[1];
   
   if (!subcommand) {
-    context.logger.error('Module command requires a subcommand: list, add, status, doctor');
+    context.logger.error('Module command requires a subcommand: list, add, remove, status, doctor');
     context.logger.info('');
     context.logger.info('Usage:');
     context.logger.info('  rns module list [--json] [--category <category>] [--target <target>]');
     context.logger.info('  rns module add [module-ids...] [--dry-run] [--yes] [--verbose]');
+    context.logger.info('  rns module remove [module-ids...] [--dry-run] [--yes] [--force]');
     context.logger.info('  rns module status [--json]');
     context.logger.info('  rns module doctor');
     throw new CliError('Missing subcommand', ExitCode.VALIDATION_STATE_FAILURE);
@@ -40,6 +42,7 @@ export async function handleModule(args: ParsedArgs, context: RuntimeContext): P
     yes: args.yes || false,
     dryRun: args.dryRun || false,
     verbose: args.verbose || false,
+    force: args.force === true,
   };
 
   try {
@@ -77,6 +80,29 @@ export async function handleModule(args: ParsedArgs, context: RuntimeContext): P
         break;
       }
 
+      case 'remove': {
+        const results = await removeModules(moduleIds, options, context);
+        
+        // Summary
+        const successful = results.filter(r => r.success && !r.skipped).length;
+        const skipped = results.filter(r => r.skipped).length;
+        const failed = results.filter(r => !r.success && !r.skipped).length;
+        
+        if (options.dryRun) {
+          context.logger.info(`\nDry-run complete: ${successful} module(s) would be removed`);
+        } else {
+          context.logger.info(`\nSummary: ${successful} removed, ${skipped} skipped, ${failed} failed`);
+        }
+        
+        if (failed > 0) {
+          throw new CliError(
+            `Failed to remove ${failed} module(s)`,
+            ExitCode.GENERIC_FAILURE
+          );
+        }
+        break;
+      }
+
       case 'status': {
         const status = await getModuleStatus(context);
         
@@ -129,7 +155,7 @@ export async function handleModule(args: ParsedArgs, context: RuntimeContext): P
 
       default:
         throw new CliError(
-          `Unknown module subcommand: "${subcommand}". Valid commands: list, add, status, doctor`,
+          `Unknown module subcommand: "${subcommand}". Valid commands: list, add, remove, status, doctor`,
           ExitCode.VALIDATION_STATE_FAILURE
         );
     }
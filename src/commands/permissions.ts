@@ -0,0 +1,54 @@
+/**
+ * FILE: src/commands/permissions.ts
+ * PURPOSE: Thin entrypoint for permissions commands - delegates to lib/permissions-report and lib/usage-descriptions.
+ * OWNERSHIP: CLI
+ */
+
+import { ParsedArgs } from '../lib/args';
+import { RuntimeContext } from '../lib/runtime';
+import { runPermissionsList, runPermissionsExplain, runPermissionsWhy } from '../lib/permissions-report';
+import { runPermissionsSync } from '../lib/usage-descriptions';
+import { CliError, ExitCode } from '../lib/errors';
+
+/**
+ * Handles permissions commands
+ */
+export async function handlePermissions(args: ParsedArgs, context: RuntimeContext): Promise<void> {
+  // args._[0] = 'permissions', args._[1] = subcommand, args._[2] = permission ID / platform permission
+  const subcommand = args._[1] || 'list';
+  const json = args.json === true;
+
+  try {
+    switch (subcommand) {
+      case 'list':
+        runPermissionsList({ json }, context);
+        break;
+
+      case 'explain':
+        runPermissionsExplain(args._[2], { json }, context);
+        break;
+
+      case 'why':
+        runPermissionsWhy(args._[2], { json }, context);
+        break;
+
+      case 'sync':
+        await runPermissionsSync({ json }, context);
+        break;
+
+      default:
+        throw new CliError(
+          `Unknown permissions subcommand: "${subcommand}". Valid commands: list, explain, why, sync`,
+          ExitCode.VALIDATION_STATE_FAILURE
+        );
+    }
+  } catch (error) {
+    if (error instanceof CliError) {
+      throw error;
+    }
+    throw new CliError(
+      `Permissions command failed: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+}
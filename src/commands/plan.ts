@@ -0,0 +1,54 @@
+/**
+ * FILE: src/commands/plan.ts
+ * PURPOSE: Thin entrypoint for plan command - delegates to lib/plan-preview.
+ * OWNERSHIP: CLI
+ */
+
+import { ParsedArgs } from '../lib/args';
+import { RuntimeContext } from '../lib/runtime';
+import { runPlan, type PlanRequest } from '../lib/plan-preview';
+import { collectPluginOptionArgs } from '../lib/plugin-options';
+import { CliError, ExitCode } from '../lib/errors';
+
+/**
+ * Handles plan commands (rns plan plugin add|remove <ids...>)
+ */
+export async function handlePlan(args: ParsedArgs, context: RuntimeContext): Promise<void> {
+  // args._[0] = 'plan', args._[1] = 'plugin', args._[2] = add|remove, args._[3+] = plugin IDs
+  const [, kind, action] = args._;
+  const pluginIds = args._.slice(3);
+
+  if (kind !== 'plugin' || (action !== 'add' && action !== 'remove')) {
+    context.logger.error('Plan command requires an operation: plugin add, plugin remove');
+    context.logger.info('');
+    context.logger.info('Usage:');
+    context.logger.info('  rns plan plugin add <plugin-ids...> [--option key=value] [--options-file file] [--json]');
+    context.logger.info('  rns plan plugin remove <plugin-ids...> [--cascade] [--json]');
+    throw new CliError('Missing or unknown plan operation', ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const request: PlanRequest = action === 'add'
+    ? {
+        operation: 'install',
+        pluginIds,
+        pluginOptions: collectPluginOptionArgs(
+          pluginIds,
+          args.option === undefined ? undefined : ([] as unknown[]).concat(args.option).map(String),
+          typeof args['options-file'] === 'string' ? args['options-file'] : undefined,
+          context.resolvedRoot
+        ),
+      }
+    : { operation: 'remove', pluginIds, cascade: args.cascade === true };
+
+  try {
+    await runPlan(request, { json: args.json === true }, context);
+  } catch (error) {
+    if (error instanceof CliError) {
+      throw error;
+    }
+    throw new CliError(
+      `Plan failed: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+}
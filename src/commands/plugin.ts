@@ -10,11 +10,15 @@ import {
   listPlugins,
   addPlugins,
   removePlugins,
+  upgradePlugins,
+  configurePlugin,
+  replacePlugin,
   getPluginStatus,
   runPluginDoctor,
   type ListPluginsOptions,
   type PluginCommandOptions,
 } from '../lib/plugin';
+import { formatPluginSource } from '../lib/plugin-sources';
 import { CliError, ExitCode } from '../lib/errors';
 
 /**
@@ -26,12 +30,15 @@ export async function handlePlugin(args: ParsedArgs, context: RuntimeContext): P
   const subcommand = args._[1];
   
   if (!subcommand) {
-    context.logger.error('Plugin command requires a subcommand: list, add, remove, status, doctor');
+    context.logger.error('Plugin command requires a subcommand: list, add, remove, upgrade, configure, replace, status, doctor');
     context.logger.info('');
     context.logger.info('Usage:');
     context.logger.info('  rns plugin list [--json]');
-    context.logger.info('  rns plugin add [plugin-ids...] [--dry-run] [--yes]');
-    context.logger.info('  rns plugin remove [plugin-ids...] [--dry-run] [--yes]');
+    context.logger.info('  rns plugin add [plugin-ids...] [--option key=value] [--options-file file] [--dry-run] [--yes]');
+    context.logger.info('  rns plugin remove [plugin-ids...] [--cascade] [--dry-run] [--yes]');
+    context.logger.info('  rns plugin upgrade [plugin-ids...] [--dry-run] [--yes]');
+    context.logger.info('  rns plugin configure <plugin-id> [--option key=value] [--options-file file] [--dry-run] [--yes]');
+    context.logger.info('  rns plugin replace <old-id> <new-id> [--option key=value] [--dry-run] [--yes]');
     context.logger.info('  rns plugin status [--json]');
     context.logger.info('  rns plugin doctor [--fix]');
     throw new CliError('Missing subcommand', ExitCode.VALIDATION_STATE_FAILURE);
@@ -42,6 +49,9 @@ export async function handlePlugin(args: ParsedArgs, context: RuntimeContext): P
     yes: args.yes || false,
     dryRun: args.dryRun || false,
     verbose: args.verbose || false,
+    cascade: args.cascade === true,
+    optionArgs: args.option === undefined ? undefined : ([] as unknown[]).concat(args.option).map(String),
+    optionsFile: typeof args['options-file'] === 'string' ? args['options-file'] : undefined,
   };
 
   try {
@@ -102,6 +112,65 @@ export async function handlePlugin(args: ParsedArgs, context: RuntimeContext): P
         break;
       }
 
+      case 'upgrade': {
+        const results = await upgradePlugins(pluginIds, options, context);
+
+        // Summary
+        const successful = results.filter(r => r.success && !r.skipped).length;
+        const skipped = results.filter(r => r.skipped).length;
+        const failed = results.filter(r => !r.success && !r.skipped).length;
+
+        if (options.dryRun) {
+          context.logger.info(`\nDry-run complete: ${successful} plugin(s) would be upgraded`);
+        } else if (results.length > 0) {
+          context.logger.info(`\nSummary: ${successful} upgraded, ${skipped} skipped, ${failed} failed`);
+        }
+
+        if (failed > 0) {
+          throw new CliError(
+            `Failed to upgrade ${failed} plugin(s)`,
+            ExitCode.GENERIC_FAILURE
+          );
+        }
+        break;
+      }
+
+      case 'configure': {
+        if (pluginIds.length !== 1) {
+          throw new CliError(
+            'Usage: rns plugin configure <plugin-id> [--option key=value] [--options-file file]',
+            ExitCode.VALIDATION_STATE_FAILURE
+          );
+        }
+
+        const result = await configurePlugin(pluginIds[0], options, context);
+        if (!result.success) {
+          throw new CliError(
+            `Failed to configure plugin "${pluginIds[0]}"`,
+            ExitCode.GENERIC_FAILURE
+          );
+        }
+        break;
+      }
+
+      case 'replace': {
+        if (pluginIds.length !== 2) {
+          throw new CliError(
+            'Usage: rns plugin replace <old-id> <new-id> [--option key=value] [--dry-run] [--yes]',
+            ExitCode.VALIDATION_STATE_FAILURE
+          );
+        }
+
+        const result = await replacePlugin(pluginIds[0], pluginIds[1], options, context);
+        if (!result.success) {
+          throw new CliError(
+            `Failed to replace plugin "${pluginIds[0]}" with "${pluginIds[1]}"`,
+            ExitCode.GENERIC_FAILURE
+          );
+        }
+        break;
+      }
+
       case 'status': {
         const status = await getPluginStatus(context);
         
@@ -115,7 +184,7 @@ export async function handlePlugin(args: ParsedArgs, context: RuntimeContext): P
             context.logger.info(`Installed (${status.installed.length}):`);
             for (const plugin of status.installed) {
               const available = plugin.available ? '✓' : '✗';
-              context.logger.info(`  ${available} ${plugin.id} v${plugin.version} (installed ${plugin.installedAt})`);
+              context.logger.info(`  ${available} ${plugin.id} v${plugin.version} (installed ${plugin.installedAt}) [${formatPluginSource(plugin.source)}]`);
               if (!plugin.available) {
                 context.logger.info(`    Warning: Plugin not found in registry`);
               }
@@ -128,7 +197,7 @@ export async function handlePlugin(args: ParsedArgs, context: RuntimeContext): P
             if (notInstalled.length > 0) {
               context.logger.info(`Available (${notInstalled.length} not installed):`);
               for (const plugin of notInstalled) {
-                context.logger.info(`  - ${plugin.id} v${plugin.version} - ${plugin.name}`);
+                context.logger.info(`  - ${plugin.id} v${plugin.version} - ${plugin.name}${plugin.source.type !== 'builtin' ? ` [${formatPluginSource(plugin.source)}]` : ''}`);
                 if (plugin.description) {
                   context.logger.info(`    ${plugin.description}`);
                 }
@@ -154,7 +223,7 @@ export async function handlePlugin(args: ParsedArgs, context: RuntimeContext): P
 
       default:
         throw new CliError(
-          `Unknown plugin subcommand: "${subcommand}". Valid commands: list, add, remove, status, doctor`,
+          `Unknown plugin subcommand: "${subcommand}". Valid commands: list, add, remove, upgrade, configure, replace, status, doctor`,
           ExitCode.VALIDATION_STATE_FAILURE
         );
     }
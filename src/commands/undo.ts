@@ -0,0 +1,27 @@
+/**
+ * FILE: src/commands/undo.ts
+ * PURPOSE: Thin entrypoint for undo command - delegates to lib/backup-history.
+ * OWNERSHIP: CLI
+ */
+
+import { ParsedArgs } from '../lib/args';
+import { RuntimeContext } from '../lib/runtime';
+import { runUndo } from '../lib/backup-history';
+import { CliError, ExitCode } from '../lib/errors';
+
+/**
+ * Handles undo command (restores the most recent operation's backup)
+ */
+export async function handleUndo(args: ParsedArgs, context: RuntimeContext): Promise<void> {
+  try {
+    await runUndo({ yes: args.yes || false, dryRun: args.dryRun || false }, context);
+  } catch (error) {
+    if (error instanceof CliError) {
+      throw error;
+    }
+    throw new CliError(
+      `Undo failed: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+}
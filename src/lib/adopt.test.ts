@@ -0,0 +1,205 @@
+/**
+ * FILE: src/lib/adopt.test.ts
+ * PURPOSE: Unit/spec tests for rns adopt (existing React Native apps)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Detection of target, language, package manager, RN version, root component and entry
+ * - selectedOptions inferred from package.json (target-incompatible / single-slot conflicts warned)
+ * - Markers inserted into an existing root component
+ * - The plan is built on a scratch copy; adoption writes packages/@rns, workspaces and a valid manifest
+ * - --entry rnsapp registers RnsApp and renders the app's root inside it
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { detectExistingProject, insertAdoptionMarkers, runAdopt } from './adopt';
+import { getManifestSelectedOptions, readManifest, validateManifest } from './manifest';
+import { PROJECT_STATE_FILE } from './constants';
+import type { RuntimeContext } from './runtime';
+
+const APP_TSX = `import React from 'react';
+import { SafeAreaView, Text } from 'react-native';
+
+export default function App() {
+  return (
+    <SafeAreaView style={{ flex: 1 }}>
+      <Text>Legacy</Text>
+    </SafeAreaView>
+  );
+}
+`;
+
+const INDEX_JS = `import { AppRegistry } from 'react-native';
+import App from './App';
+import { name as appName } from './app.json';
+
+AppRegistry.registerComponent(appName, () => App);
+`;
+
+describe('adopt', () => {
+  let appRoot: string;
+  let context: RuntimeContext;
+
+  beforeEach(async () => {
+    appRoot = await mkdtemp(join(tmpdir(), 'rns-test-adopt-'));
+    await writeFile(join(appRoot, 'package.json'), JSON.stringify({
+      name: 'legacy-app',
+      version: '1.0.0',
+      workspaces: ['tools/*'],
+      dependencies: {
+        'react': '18.2.0',
+        'react-native': '^0.74.1',
+        '@react-navigation/native': '^6.1.0',
+        'zustand': '^4.5.0',
+        'nativewind': '^4.0.0',
+        'react-native-purchases': '^7.0.0',
+        'react-native-adapty': '^2.0.0',
+        'expo-router': '^3.0.0',
+      },
+      devDependencies: { typescript: '^5.0.0' },
+    }, null, 2));
+    await writeFile(join(appRoot, 'yarn.lock'), '');
+    await writeFile(join(appRoot, 'tsconfig.json'), '{}');
+    await writeFile(join(appRoot, 'app.json'), JSON.stringify({ name: 'LegacyApp', displayName: 'Legacy App' }));
+    await writeFile(join(appRoot, 'App.tsx'), APP_TSX);
+    await writeFile(join(appRoot, 'index.js'), INDEX_JS);
+
+    context = {
+      resolvedRoot: appRoot,
+      flags: { yes: true, verbose: false, dryRun: false },
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+      runId: 'test-run-id',
+    } as RuntimeContext;
+  });
+
+  afterEach(async () => {
+    await rm(appRoot, { recursive: true, force: true });
+  });
+
+  it('should detect the stack and infer selectedOptions from package.json', () => {
+    const detection = detectExistingProject(appRoot);
+
+    expect(detection).toMatchObject({
+      projectName: 'LegacyApp',
+      target: 'bare',
+      language: 'ts',
+      packageManager: 'yarn',
+      packageManagerSource: 'lockfile',
+      reactNativeVersion: '0.74.1',
+      entryFile: 'index.js',
+      rootComponent: 'App.tsx',
+      libraries: ['@react-navigation/native', 'nativewind', 'react-native-adapty', 'zustand'],
+    });
+    expect(detection.selectedOptions).toMatchObject({
+      i18n: false,
+      reactNavigation: true,
+      styling: 'nativewind',
+      state: { zustand: true },
+      iap: { adapty: true },
+      expoRouter: false,
+    });
+    expect(detection.warnings).toEqual([
+      'expo-router: expoRouter is not available for target "bare" (ignored)',
+      'react-native-purchases: only one iap provider can be selected, keeping adapty (ignored)',
+    ]);
+  });
+
+  it('should refuse directories that are not adoptable', async () => {
+    await writeFile(join(appRoot, PROJECT_STATE_FILE), '{}');
+    expect(() => detectExistingProject(appRoot)).toThrow(/already managed by the CLI/);
+
+    await rm(join(appRoot, PROJECT_STATE_FILE));
+    await writeFile(join(appRoot, 'package.json'), JSON.stringify({ name: 'web-app', dependencies: { react: '18.2.0' } }));
+    expect(() => detectExistingProject(appRoot)).toThrow(/does not look like a React Native app/);
+  });
+
+  it('should insert markers into an existing root component', () => {
+    const { content, providers } = insertAdoptionMarkers(APP_TSX);
+
+    expect(providers).toBe(true);
+    expect(content).toContain(`import { SafeAreaView, Text } from 'react-native';
+import { initCore } from '@rns/runtime/core-init';
+// @rns-marker:imports:start
+// Plugin imports will be injected here
+// @rns-marker:imports:end
+
+initCore();
+`);
+    expect(content).toContain(`    <SafeAreaView style={{ flex: 1 }}>
+      {/* @rns-marker:providers:start */}
+      {/* Plugin providers will wrap children here */}
+      {/* @rns-marker:providers:end */}
+      <Text>Legacy</Text>`);
+    expect(insertAdoptionMarkers(content).content).toBe(content);
+
+    const selfClosing = insertAdoptionMarkers(`export default function App() {\n  return (\n    <Main />\n  );\n}\n`);
+    expect(selfClosing.providers).toBe(false);
+    expect(selfClosing.content.startsWith(`import { initCore } from '@rns/runtime/core-init';`)).toBe(true);
+  });
+
+  it('should show the plan without touching the app on --dry-run', async () => {
+    const result = await runAdopt({ dryRun: true }, context);
+
+    expect(result.applied).toBe(false);
+    const changes = Object.fromEntries(result.files.map(file => [file.path, file.change]));
+    expect(changes).toMatchObject({
+      'App.tsx': 'modify',
+      'package.json': 'modify',
+      [PROJECT_STATE_FILE]: 'create',
+      'packages/@rns/core/package.json': 'create',
+      'packages/@rns/runtime/core-init.ts': 'create',
+    });
+    expect(changes['index.js']).toBeUndefined();
+    expect(changes['babel.config.js']).toBeUndefined();
+    expect(result.files.find(file => file.path === 'package.json')?.diff).toContain('+    "packages/@rns/*"');
+
+    expect(existsSync(join(appRoot, PROJECT_STATE_FILE))).toBe(false);
+    expect(existsSync(join(appRoot, 'packages'))).toBe(false);
+    expect(await readFile(join(appRoot, 'App.tsx'), 'utf-8')).toBe(APP_TSX);
+  });
+
+  it('should adopt the app: workspace packages, workspaces, markers and a valid manifest', async () => {
+    const result = await runAdopt({ yes: true }, context);
+
+    expect(result.applied).toBe(true);
+    const manifest = readManifest(appRoot)!;
+    expect(validateManifest(manifest).valid).toBe(true);
+    expect(manifest).toMatchObject({
+      identity: { name: 'LegacyApp' },
+      target: 'bare',
+      language: 'ts',
+      packageManager: 'yarn',
+      reactNativeVersion: '0.74.1',
+      plugins: [],
+    });
+    expect(getManifestSelectedOptions(manifest)).toMatchObject({ reactNavigation: true, styling: 'nativewind', state: { zustand: true } });
+
+    const packageJson = JSON.parse(await readFile(join(appRoot, 'package.json'), 'utf-8'));
+    expect(packageJson.workspaces).toEqual(['tools/*', 'packages/*', 'packages/@rns/*']);
+    expect(packageJson.private).toBe(true);
+
+    expect(existsSync(join(appRoot, 'packages', '@rns', 'runtime', 'core-init.ts'))).toBe(true);
+    expect(await readFile(join(appRoot, 'App.tsx'), 'utf-8')).toContain('@rns-marker:providers:start');
+    expect(await readFile(join(appRoot, 'index.js'), 'utf-8')).toBe(INDEX_JS);
+  });
+
+  it('should mount RnsApp from the entry with --entry rnsapp', async () => {
+    await runAdopt({ yes: true, entry: 'rnsapp' }, context);
+
+    expect(await readFile(join(appRoot, 'index.js'), 'utf-8')).toBe(`import { AppRegistry } from 'react-native';
+import { name as appName } from './app.json';
+import { RnsApp } from '@rns/runtime';
+
+AppRegistry.registerComponent(appName, () => RnsApp);
+`);
+    const runtimeIndex = await readFile(join(appRoot, 'packages', '@rns', 'runtime', 'index.tsx'), 'utf-8');
+    expect(runtimeIndex).toContain(`import HostApp from '../../../App';`);
+    expect(runtimeIndex).toMatch(/@rns-marker:root:start[\s\S]*<HostApp \/>[\s\S]*@rns-marker:root:end/);
+    expect(runtimeIndex).not.toContain('@rns/navigation');
+    expect(await readFile(join(appRoot, 'App.tsx'), 'utf-8')).toBe(APP_TSX);
+  });
+});
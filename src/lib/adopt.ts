@@ -0,0 +1,660 @@
+/**
+ * FILE: src/lib/adopt.ts
+ * PURPOSE: rns adopt - bring an existing Expo / bare React Native app under CLI management
+ * OWNERSHIP: CLI
+ *
+ * Adoption inspects the app (target, language, package manager, RN version, libraries),
+ * attaches the CORE base pack's workspace packages (packages/@rns only - host files such as
+ * App.tsx, babel/metro configs and index.js are left to the app), configures workspaces,
+ * wires the app root and writes the project manifest.
+ *
+ * The adoption is first run on a scratch copy of the app and shown as file diffs; the app
+ * itself is only written after confirmation (or --yes).
+ *
+ * Entry modes:
+ * - markers (default): keeps the app's root component and inserts the CORE init call and
+ *   @rns-marker regions into it (like the App.tsx `rns init` generates)
+ * - rnsapp: the entry registers RnsApp from @rns/runtime, which renders the app's root
+ *   component inside the runtime providers
+ */
+
+import { dirname, join, relative } from 'path';
+import { CliError, ExitCode } from './errors';
+import { isDirectory, isFile, readJsonFile, readTextFile, writeJsonFile, writeTextFile } from './fs';
+import { detectPackageManager } from './dependencies';
+import { readManifest, validateManifest } from './manifest';
+import { createScratchProject, diffProjects, removeScratchProject, type PlanFileChange } from './plan-preview';
+import { createStepRunner } from './step-runner';
+import { initializeCliFolders, installWorkspacePackages } from './init/host-app';
+import { configureTheme } from './init/theme';
+import { writeCoreBaselineMarker, writeProjectStateFile } from './init/utils-helpers';
+import { BARE_ONLY_OPTIONS, EXPO_ONLY_OPTIONS } from './init/preset';
+import { DEFAULT_CORE_TOGGLES } from './init/utils';
+import { generateCoreInitFile, generateRuntimeComposition } from './runtime-composition';
+import { promptConfirm, setPromptLogger } from './prompts';
+import { PROJECT_STATE_FILE } from './constants';
+import type { RuntimeContext } from './runtime';
+import type { InitInputs } from './init';
+import type { PackageManagerDetectionResult } from './types/dependencies';
+
+/**
+ * How the app root is wired to the CLI runtime
+ */
+export type AdoptEntryMode = 'markers' | 'rnsapp';
+
+/**
+ * Adopt command options
+ */
+export interface AdoptOptions {
+  yes?: boolean;
+  dryRun?: boolean;
+  verbose?: boolean;
+  entry?: AdoptEntryMode;
+}
+
+/**
+ * What adoption found in the existing app
+ */
+export interface AdoptDetection {
+  projectName: string;
+  target: InitInputs['target'];
+  language: InitInputs['language'];
+  packageManager: InitInputs['packageManager'];
+  packageManagerSource: PackageManagerDetectionResult['source'];
+  reactNativeVersion?: string;
+  /** Project-relative entry file (registers the root component), if the app has one */
+  entryFile?: string;
+  /** Project-relative root component (App.tsx, app/_layout.tsx, ...) */
+  rootComponent?: string;
+  /** Dependencies that mapped to selected options */
+  libraries: string[];
+  selectedOptions: InitInputs['selectedOptions'];
+  warnings: string[];
+}
+
+/**
+ * Adoption result
+ */
+export interface AdoptResult {
+  detection: AdoptDetection;
+  entry: AdoptEntryMode;
+  files: PlanFileChange[];
+  warnings: string[];
+  applied: boolean;
+}
+
+/**
+ * Libraries that imply a selected option (dot-separated option path)
+ */
+const LIBRARY_OPTIONS: Record<string, string> = {
+  '@react-navigation/native': 'reactNavigation',
+  'react-native-screens': 'reactNativeScreens',
+  'react-native-paper': 'reactNativePaper',
+  '@rneui/themed': 'reactNativeElements',
+  'react-native-elements': 'reactNativeElements',
+  '@ui-kitten/components': 'uiKitten',
+  'styled-components': 'styledComponents',
+  'react-native-web': 'reactNativeWeb',
+  'zustand': 'state.zustand',
+  'xstate': 'state.xstate',
+  'mobx': 'state.mobx',
+  '@tanstack/react-query': 'dataFetching.reactQuery',
+  'react-query': 'dataFetching.reactQuery',
+  '@apollo/client': 'dataFetching.apollo',
+  'swr': 'dataFetching.swr',
+  'axios': 'transport.axios',
+  '@react-native-firebase/auth': 'auth.firebase',
+  'amazon-cognito-identity-js': 'auth.cognito',
+  'react-native-auth0': 'auth.auth0',
+  'aws-amplify': 'aws.amplify',
+  'react-native-mmkv': 'storage.mmkv',
+  'expo-sqlite': 'storage.sqlite',
+  'react-native-sqlite-storage': 'storage.sqlite',
+  'expo-secure-store': 'storage.secure',
+  'expo-file-system': 'storage.filesystem',
+  '@react-native-firebase/firestore': 'firebase.firestore',
+  '@react-native-firebase/database': 'firebase.realtimeDatabase',
+  '@react-native-firebase/storage': 'firebase.storage',
+  '@react-native-firebase/remote-config': 'firebase.remoteConfig',
+  '@react-native-community/netinfo': 'offline.netinfo',
+  'expo-notifications': 'notifications.expo',
+  '@react-native-firebase/messaging': 'notifications.fcm',
+  'react-native-onesignal': 'notifications.onesignal',
+  'expo-location': 'maps.location',
+  '@react-native-community/geolocation': 'maps.location',
+  'react-native-maps': 'maps.google',
+  'expo-camera': 'media.camera',
+  'react-native-vision-camera': 'media.visionCamera',
+  'expo-image-picker': 'media.picker',
+  'react-native-image-picker': 'media.picker',
+  '@stripe/stripe-react-native': 'payments.stripe',
+  'react-native-purchases': 'iap.revenuecat',
+  'react-native-adapty': 'iap.adapty',
+  '@react-native-firebase/analytics': 'analytics.firebase',
+  '@amplitude/analytics-react-native': 'analytics.amplitude',
+  '@sentry/react-native': 'analytics.sentry',
+  '@bugsnag/react-native': 'analytics.bugsnag',
+  'algoliasearch': 'search.algolia',
+  'expo-updates': 'ota.expoUpdates',
+  'react-native-code-push': 'ota.codePush',
+  'expo-task-manager': 'background.tasks',
+  'expo-background-fetch': 'background.fetch',
+  'react-native-background-fetch': 'background.fetch',
+  'expo-tracking-transparency': 'privacy.att',
+  'react-native-tracking-transparency': 'privacy.att',
+  'expo-local-authentication': 'device.biometrics',
+  'react-native-biometrics': 'device.biometrics',
+  'react-native-ble-plx': 'device.bluetooth',
+  'detox': 'testing.detox',
+  'expo-router': 'expoRouter',
+  'expo-linking': 'expoLinking',
+  'expo-status-bar': 'expoStatusBar',
+  'expo-system-ui': 'expoSystemUI',
+  'expo-web-browser': 'expoWebBrowser',
+  'expo-dev-client': 'expoDevClient',
+  '@expo/vector-icons': 'expoVectorIcons',
+  'expo-image': 'expoImage',
+  'expo-linear-gradient': 'expoLinearGradient',
+  'expo-haptics': 'expoHaptics',
+  'expo-device': 'expoDevice',
+  'react-native-keychain': 'reactNativeKeychain',
+  'react-native-fs': 'reactNativeFS',
+  'react-native-permissions': 'reactNativePermissions',
+  'react-native-fast-image': 'reactNativeFastImage',
+};
+
+/**
+ * Styling libraries (selectedOptions.styling)
+ */
+const STYLING_LIBRARIES: Record<string, InitInputs['selectedOptions']['styling']> = {
+  'nativewind': 'nativewind',
+  'react-native-unistyles': 'unistyles',
+  'tamagui': 'tamagui',
+  '@shopify/restyle': 'restyle',
+};
+
+/**
+ * Single-slot option categories (at most one provider)
+ */
+const SINGLE_SLOT_CATEGORIES = ['iap', 'ota'] as const;
+
+/**
+ * Root component candidates, in order of preference
+ */
+const ROOT_COMPONENT_FILES = ['App.tsx', 'App.jsx', 'App.js', 'App.ts', 'src/App.tsx', 'src/App.jsx', 'src/App.js'];
+const EXPO_ROUTER_LAYOUT_FILES = ['app/_layout.tsx', 'app/_layout.jsx', 'app/_layout.js', 'src/app/_layout.tsx', 'src/app/_layout.jsx', 'src/app/_layout.js'];
+const ENTRY_FILES = ['index.ts', 'index.tsx', 'index.js'];
+
+/**
+ * Runtime package (relative to the project root)
+ */
+const RUNTIME_DIR = 'packages/@rns/runtime';
+
+/**
+ * Inspects an existing React Native app
+ *
+ * @param projectRoot - App root (contains package.json)
+ * @returns Detected stack, entry files and inferred selectedOptions
+ * @throws CliError if the directory is not a React Native app or is already managed by the CLI
+ */
+export function detectExistingProject(projectRoot: string): AdoptDetection {
+  if (isFile(join(projectRoot, PROJECT_STATE_FILE))) {
+    throw new CliError(
+      `${projectRoot} is already managed by the CLI (${PROJECT_STATE_FILE} exists); nothing to adopt.`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  const packageJsonPath = join(projectRoot, 'package.json');
+  if (!isFile(packageJsonPath)) {
+    throw new CliError(`No package.json found in ${projectRoot}. Run "rns adopt" from the app root.`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const packageJson = readJsonFile<Record<string, any>>(packageJsonPath);
+  const dependencies: Record<string, string> = { ...packageJson.devDependencies, ...packageJson.dependencies };
+  if (!dependencies['react-native']) {
+    throw new CliError(
+      `${projectRoot} does not look like a React Native app ("react-native" is not a dependency).`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  const warnings: string[] = [];
+  const target: InitInputs['target'] = dependencies.expo ? 'expo' : 'bare';
+  const language: InitInputs['language'] =
+    isFile(join(projectRoot, 'tsconfig.json')) || dependencies.typescript ? 'ts' : 'js';
+  const packageManager = detectPackageManager(projectRoot);
+  if (packageManager.source === 'default') {
+    warnings.push('No lockfile found; assuming npm');
+  }
+
+  const { libraries, selectedOptions } = inferSelectedOptions(dependencies, target, warnings);
+  const rootComponent = findFirstFile(projectRoot, selectedOptions.expoRouter ? EXPO_ROUTER_LAYOUT_FILES : ROOT_COMPONENT_FILES);
+  if (!rootComponent) {
+    warnings.push('No root component found (App.tsx / App.js); add the @rns-marker regions to your root manually');
+  }
+
+  return {
+    projectName: readAppName(projectRoot) ?? packageJson.name ?? 'App',
+    target,
+    language,
+    packageManager: packageManager.packageManager,
+    packageManagerSource: packageManager.source,
+    reactNativeVersion: String(dependencies['react-native']).replace(/^[\^~>=<\s]+/, ''),
+    entryFile: findEntryFile(projectRoot, packageJson.main),
+    rootComponent,
+    libraries,
+    selectedOptions,
+    warnings,
+  };
+}
+
+/**
+ * Infers selectedOptions from an app's dependencies
+ *
+ * CORE-generated features (i18n, theming) stay off: adoption doesn't generate their files,
+ * even if the app already uses i18next or a theme library of its own.
+ */
+export function inferSelectedOptions(
+  dependencies: Record<string, string>,
+  target: InitInputs['target'],
+  warnings: string[] = []
+): { libraries: string[]; selectedOptions: InitInputs['selectedOptions'] } {
+  const selectedOptions: InitInputs['selectedOptions'] = {
+    i18n: false,
+    theming: false,
+    reactNavigation: false,
+    styling: 'stylesheet',
+    expoRouter: false,
+    authentication: null,
+  };
+  const libraries: string[] = [];
+  const unavailable = target === 'expo' ? BARE_ONLY_OPTIONS : EXPO_ONLY_OPTIONS;
+  const options = selectedOptions as unknown as Record<string, unknown>;
+
+  for (const library of Object.keys(dependencies).sort()) {
+    const styling = STYLING_LIBRARIES[library];
+    if (styling) {
+      if (selectedOptions.styling !== 'stylesheet') {
+        warnings.push(`${library}: styling is already "${selectedOptions.styling}" (ignored)`);
+        continue;
+      }
+      selectedOptions.styling = styling;
+      libraries.push(library);
+      continue;
+    }
+
+    const option = LIBRARY_OPTIONS[library];
+    if (!option) continue;
+    if (unavailable.includes(option)) {
+      warnings.push(`${library}: ${option} is not available for target "${target}" (ignored)`);
+      continue;
+    }
+
+    const [category, key] = option.split('.');
+    if (!key) {
+      options[category] = true;
+    } else {
+      const group = (options[category] ?? {}) as Record<string, boolean>;
+      if ((SINGLE_SLOT_CATEGORIES as readonly string[]).includes(category) && Object.keys(group).length > 0) {
+        warnings.push(`${library}: only one ${category} provider can be selected, keeping ${Object.keys(group)[0]} (ignored)`);
+        continue;
+      }
+      options[category] = { ...group, [key]: true };
+    }
+    libraries.push(library);
+  }
+
+  return { libraries, selectedOptions };
+}
+
+/**
+ * Builds the init inputs recorded in the manifest for an adopted app
+ */
+export function buildAdoptionInputs(projectRoot: string, detection: AdoptDetection): InitInputs {
+  return {
+    projectName: detection.projectName,
+    destination: projectRoot,
+    target: detection.target,
+    language: detection.language,
+    packageManager: detection.packageManager,
+    reactNativeVersion: detection.reactNativeVersion,
+    locales: [],
+    selectedOptions: detection.selectedOptions,
+    coreToggles: { ...DEFAULT_CORE_TOGGLES },
+    plugins: [],
+    installCoreDependencies: false,
+  };
+}
+
+/**
+ * Runs rns adopt: plans the adoption on a scratch copy, shows it, then applies it after confirmation
+ *
+ * @param options - Adopt options
+ * @param context - Runtime context (resolvedRoot is the app root)
+ * @returns Detection, planned file changes and whether they were applied
+ */
+export async function runAdopt(options: AdoptOptions, context: RuntimeContext): Promise<AdoptResult> {
+  setPromptLogger(context.logger);
+  const projectRoot = context.resolvedRoot;
+  const entry = options.entry ?? 'markers';
+  if (entry !== 'markers' && entry !== 'rnsapp') {
+    throw new CliError(`Unknown --entry "${entry}". Use "markers" or "rnsapp".`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const detection = detectExistingProject(projectRoot);
+  const inputs = buildAdoptionInputs(projectRoot, detection);
+  const result: AdoptResult = { detection, entry, files: [], warnings: [...detection.warnings], applied: false };
+
+  const scratchRoot = createScratchProject(projectRoot);
+  try {
+    result.warnings.push(...adoptProject(scratchRoot, inputs, detection, entry, { ...context, resolvedRoot: scratchRoot }));
+    result.files = diffProjects(projectRoot, scratchRoot);
+  } finally {
+    removeScratchProject(scratchRoot);
+  }
+
+  formatAdoptionPlan(result).forEach(line => context.logger.info(line));
+  if (options.dryRun) {
+    return result;
+  }
+  if (!options.yes) {
+    const confirmed = await promptConfirm('Adopt this project?', true);
+    if (!confirmed) {
+      context.logger.info('Adoption cancelled.');
+      return result;
+    }
+  }
+
+  adoptProject(projectRoot, inputs, detection, entry, context);
+  result.applied = true;
+  return result;
+}
+
+/**
+ * Formats the adoption plan: detected stack, inferred options, file changes and diffs
+ */
+export function formatAdoptionPlan(result: AdoptResult): string[] {
+  const { detection } = result;
+  const lines = [
+    `Adopting ${detection.projectName}:`,
+    `  Target:          ${detection.target}`,
+    `  Language:        ${detection.language}`,
+    `  Package manager: ${detection.packageManager} (${detection.packageManagerSource})`,
+    `  React Native:    ${detection.reactNativeVersion ?? 'unknown'}`,
+    `  Root component:  ${detection.rootComponent ?? '(not found)'}`,
+    `  Entry:           ${result.entry === 'rnsapp' ? `${detection.entryFile ?? 'index'} mounts RnsApp` : 'markers in the root component'}`,
+    '',
+    'Detected libraries:',
+    ...(detection.libraries.length > 0 ? detection.libraries.map(library => `  ${library}`) : ['  (none)']),
+    '',
+    `Files (${result.files.length}):`,
+    ...result.files.map(file => `  ${file.change.padEnd(6)}  ${file.path}`),
+  ];
+  for (const file of result.files) {
+    lines.push('', file.binary ? `Binary file ${file.path} ${file.change}d` : file.diff.trimEnd());
+  }
+  if (result.warnings.length > 0) {
+    lines.push('', 'Warnings:');
+    result.warnings.forEach(warning => lines.push(`  ! ${warning}`));
+  }
+  return lines;
+}
+
+/**
+ * Performs the adoption in projectRoot (the scratch copy while planning)
+ *
+ * @returns Warnings (e.g. markers that have to be placed by hand)
+ */
+function adoptProject(
+  projectRoot: string,
+  inputs: InitInputs,
+  detection: AdoptDetection,
+  entry: AdoptEntryMode,
+  context: RuntimeContext
+): string[] {
+  const warnings: string[] = [];
+  const stepRunner = createStepRunner(context);
+  const runtimeDir = join(projectRoot, RUNTIME_DIR);
+
+  initializeCliFolders(projectRoot);
+  installWorkspacePackages(projectRoot, inputs, stepRunner, context, ['packages/@rns']);
+  configureTheme(projectRoot, inputs);
+
+  if (entry === 'rnsapp') {
+    // RnsApp (with the runtime marker regions) renders the app's root; core-init as `rns init` generates it
+    generateCoreInitFile(runtimeDir, inputs);
+    mountRnsApp(projectRoot, detection);
+  } else {
+    generateRuntimeComposition(runtimeDir, inputs);
+    if (detection.rootComponent) {
+      const rootPath = join(projectRoot, detection.rootComponent);
+      const { content, providers } = insertAdoptionMarkers(readTextFile(rootPath));
+      writeTextFile(rootPath, content);
+      if (!providers) {
+        warnings.push(`Could not find the root JSX in ${detection.rootComponent}; add the providers markers around it manually`);
+      }
+    }
+  }
+
+  writeCoreBaselineMarker(projectRoot, inputs);
+  writeProjectStateFile(projectRoot, inputs);
+
+  const validation = validateManifest(readManifest(projectRoot)!);
+  if (!validation.valid) {
+    throw new CliError(`Adoption produced an invalid manifest: ${validation.errors?.join(', ')}`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+  return warnings;
+}
+
+/**
+ * Inserts the CORE init call and @rns-marker regions into an app's root component
+ *
+ * The imports region goes after the last top-level import; the providers region goes inside
+ * the outermost JSX element returned by the default export.
+ *
+ * @returns Updated content; providers is false when no suitable JSX element was found
+ */
+export function insertAdoptionMarkers(content: string): { content: string; providers: boolean } {
+  if (content.includes('@rns-marker:imports:start')) {
+    return { content, providers: content.includes('@rns-marker:providers:start') };
+  }
+
+  const imports = [
+    `import { initCore } from '@rns/runtime/core-init';`,
+    '// @rns-marker:imports:start',
+    '// Plugin imports will be injected here',
+    '// @rns-marker:imports:end',
+    '',
+    'initCore();',
+  ].join('\n');
+
+  const importPattern = /^import\s[\s\S]*?['"][^'"\n]+['"];?[ \t]*$/gm;
+  let insertAt = 0;
+  for (let match = importPattern.exec(content); match; match = importPattern.exec(content)) {
+    insertAt = match.index + match[0].length;
+  }
+  let updated = insertAt === 0
+    ? `${imports}\n\n${content}`
+    : `${content.slice(0, insertAt)}\n${imports}\n${content.slice(insertAt)}`;
+
+  // Outermost JSX element of the default export: `return (` followed by an opening tag on its own line
+  const exportIndex = updated.search(/^export default\b/m);
+  const rootJsx = /return \(\r?\n([ \t]*)<(?:[A-Za-z][^\n]*[^/\n])?>[ \t]*\r?\n/g;
+  rootJsx.lastIndex = Math.max(exportIndex, 0);
+  const match = exportIndex >= 0 ? rootJsx.exec(updated) : null;
+  if (!match) {
+    return { content: updated, providers: false };
+  }
+
+  const indent = `${match[1]}  `;
+  const providers = [
+    `${indent}{/* @rns-marker:providers:start */}`,
+    `${indent}{/* Plugin providers will wrap children here */}`,
+    `${indent}{/* @rns-marker:providers:end */}`,
+  ].join('\n');
+  const end = match.index + match[0].length;
+  updated = `${updated.slice(0, end)}${providers}\n${updated.slice(end)}`;
+  return { content: updated, providers: true };
+}
+
+/**
+ * Rewrites the entry to register RnsApp and renders the app's root component inside RnsApp
+ *
+ * @throws CliError for Expo Router apps or entries without a recognizable registration
+ */
+function mountRnsApp(projectRoot: string, detection: AdoptDetection): void {
+  if (detection.selectedOptions.expoRouter) {
+    throw new CliError(
+      'Expo Router apps are mounted by expo-router/entry; use "rns adopt --entry markers" instead.',
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  if (!detection.rootComponent) {
+    throw new CliError('No root component found (App.tsx / App.js) to mount inside RnsApp.', ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  // Runtime: RnsApp renders the app's root component inside the runtime providers
+  const hostImport = relative(join(projectRoot, RUNTIME_DIR), join(projectRoot, detection.rootComponent))
+    .split('\\').join('/')
+    .replace(/\.(tsx?|jsx?)$/, '');
+  writeTextFile(join(projectRoot, RUNTIME_DIR, 'index.tsx'), generateAdoptedRuntimeIndex(hostImport));
+
+  // Entry: register RnsApp instead of the app's root component
+  const registration = detection.target === 'expo'
+    ? /registerRootComponent\(\s*([A-Za-z_$][\w$]*)\s*\)/
+    : /(AppRegistry\.registerComponent\([^,]+,\s*\(\)\s*=>\s*)([A-Za-z_$][\w$]*)(\s*\))/;
+
+  if (!detection.entryFile) {
+    if (detection.target !== 'expo') {
+      throw new CliError('No entry file found (index.js / index.ts) to register RnsApp in.', ExitCode.VALIDATION_STATE_FAILURE);
+    }
+    // expo/AppEntry: give the app an entry of its own
+    const entryFile = detection.language === 'ts' ? 'index.ts' : 'index.js';
+    writeTextFile(join(projectRoot, entryFile), `import { registerRootComponent } from 'expo';
+import { RnsApp } from '@rns/runtime';
+
+registerRootComponent(RnsApp);
+`);
+    const packageJsonPath = join(projectRoot, 'package.json');
+    writeJsonFile(packageJsonPath, { ...readJsonFile<Record<string, unknown>>(packageJsonPath), main: entryFile });
+    return;
+  }
+
+  const entryPath = join(projectRoot, detection.entryFile);
+  const entryContent = readTextFile(entryPath);
+  const match = registration.exec(entryContent);
+  if (!match) {
+    throw new CliError(
+      `Could not find the root component registration in ${detection.entryFile}; use "rns adopt --entry markers" instead.`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  const component = detection.target === 'expo' ? match[1] : match[2];
+  let updated = detection.target === 'expo'
+    ? entryContent.replace(registration, 'registerRootComponent(RnsApp)')
+    : entryContent.replace(registration, '$1RnsApp$3');
+  // Drop the default import of the replaced component once it's unused
+  const componentImport = new RegExp(`^import ${component} from ['"][^'"]+['"];?[ \\t]*\\r?\\n`, 'm');
+  const withoutImport = updated.replace(componentImport, '');
+  if (!new RegExp(`\\b${component}\\b`).test(withoutImport)) {
+    updated = withoutImport;
+  }
+  writeTextFile(entryPath, addImportAfterLastImport(updated, `import { RnsApp } from '@rns/runtime';`));
+}
+
+/**
+ * Generates packages/@rns/runtime/index.tsx for --entry rnsapp
+ * (template runtime without the bare navigation / minimal UI: the app's root is the content)
+ */
+function generateAdoptedRuntimeIndex(hostImport: string): string {
+  return `/**
+ * FILE: packages/@rns/runtime/index.tsx
+ * PURPOSE: Runtime composition for an adopted app - RnsApp renders the app's root component
+ * OWNERSHIP: CORE
+ */
+
+import React from 'react';
+import { SplashScreen, useCoreReady } from './splash';
+import { ThemeProvider } from '@rns/core/theme';
+import HostApp from '${hostImport}';
+
+// @rns-marker:imports:start
+// Plugin imports will be injected here
+// @rns-marker:imports:end
+
+export { initCore, initCoreAsync } from './core-init';
+
+function RootProvider({ children }: { children: React.ReactNode }): React.ReactElement {
+  return (
+    <ThemeProvider>
+      {/* @rns-marker:providers:start */}
+      {/* Plugin providers will wrap children here */}
+      {children}
+      {/* @rns-marker:providers:end */}
+    </ThemeProvider>
+  );
+}
+
+export function RnsApp(): React.ReactElement {
+  // Splash until CORE init (incl. async/conditional plugin init steps) completes
+  const ready = useCoreReady();
+  if (!ready) {
+    return <SplashScreen />;
+  }
+
+  // @rns-marker:root:start
+  return (
+    <RootProvider>
+      <HostApp />
+    </RootProvider>
+  );
+  // @rns-marker:root:end
+}
+`;
+}
+
+/**
+ * Adds an import after the last top-level import (or at the top)
+ */
+function addImportAfterLastImport(content: string, statement: string): string {
+  const importPattern = /^import\s[\s\S]*?['"][^'"\n]+['"];?[ \t]*$/gm;
+  let insertAt = -1;
+  for (let match = importPattern.exec(content); match; match = importPattern.exec(content)) {
+    insertAt = match.index + match[0].length;
+  }
+  return insertAt < 0 ? `${statement}\n${content}` : `${content.slice(0, insertAt)}\n${statement}${content.slice(insertAt)}`;
+}
+
+/**
+ * Reads the app name from app.json (bare: name, Expo: expo.name)
+ */
+function readAppName(projectRoot: string): string | undefined {
+  const appJsonPath = join(projectRoot, 'app.json');
+  if (!isFile(appJsonPath)) {
+    return undefined;
+  }
+  const appJson = readJsonFile<{ name?: string; expo?: { name?: string } }>(appJsonPath);
+  return appJson.expo?.name ?? appJson.name;
+}
+
+/**
+ * Finds the app's own entry file (package.json main when it's a local file, else index.*)
+ */
+function findEntryFile(projectRoot: string, main: unknown): string | undefined {
+  if (typeof main === 'string' && isFile(join(projectRoot, main))) {
+    return relative(projectRoot, join(projectRoot, main)).split('\\').join('/');
+  }
+  if (typeof main === 'string' && !main.startsWith('.') && !isDirectory(join(projectRoot, dirname(main)))) {
+    // Package entry such as expo/AppEntry or expo-router/entry
+    return undefined;
+  }
+  return findFirstFile(projectRoot, ENTRY_FILES);
+}
+
+/**
+ * Returns the first candidate (project-relative) that exists
+ */
+function findFirstFile(projectRoot: string, candidates: string[]): string | undefined {
+  return candidates.find(candidate => isFile(join(projectRoot, candidate)));
+}
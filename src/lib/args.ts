@@ -16,6 +16,11 @@ export interface ParsedArgs {
   [key: string]: unknown;
 }
 
+/**
+ * Flags whose repeated values collect into an array (other flags: last value wins)
+ */
+const REPEATABLE_FLAGS = new Set(['option']);
+
 /**
  * Simple argument parser
  */
@@ -30,7 +35,13 @@ export function parseArgs(argv: string[]): ParsedArgs {
       const next = argv[i + 1];
 
       if (next && !next.startsWith('-')) {
-        args[key] = next;
+        // Repeatable flags (e.g. --option a=1 --option b=2) collect into an array
+        const existing = args[key];
+        args[key] = !REPEATABLE_FLAGS.has(key)
+          ? next
+          : typeof existing === 'string'
+            ? [existing, next]
+            : Array.isArray(existing) ? [...existing, next] : next;
         i++;
       } else {
         args[key] = true;
@@ -29,6 +29,8 @@ export interface AttachmentOptions {
   mode: AttachmentMode;
   options?: Record<string, unknown>;
   dryRun?: boolean;
+  /** Only attach pack files under these pack-relative paths (e.g. ['packages/@rns']) */
+  include?: string[];
 }
 
 /**
@@ -74,6 +76,7 @@ export function attachPack(opts: AttachmentOptions): AttachmentReport {
     mode,
     options,
     dryRun = false,
+    include,
   } = opts;
 
   // Validate pack path exists
@@ -131,6 +134,7 @@ export function attachPack(opts: AttachmentOptions): AttachmentReport {
       report,
       dryRun,
       projectRoot,
+      include,
       resolvedPackPath // Pass variant path to skip variant directory when copying root
     );
     
@@ -141,7 +145,8 @@ export function attachPack(opts: AttachmentOptions): AttachmentReport {
       packManifest,
       report,
       dryRun,
-      projectRoot
+      projectRoot,
+      include
     );
   } else {
     // No variant or variant is root - just copy normally
@@ -151,7 +156,8 @@ export function attachPack(opts: AttachmentOptions): AttachmentReport {
       packManifest,
       report,
       dryRun,
-      projectRoot
+      projectRoot,
+      include
     );
   }
 
@@ -177,6 +183,7 @@ function resolveDestinationRoot(
  * Files are processed in sorted order for reproducibility.
  * Ownership rules are enforced (section 6.3, 6.5).
  * 
+ * @param include Optional pack-relative paths to restrict the copy to
  * @param variantPath Optional variant path to exclude from root copy (when merging root + variant)
  */
 function copyPackContent(
@@ -186,6 +193,7 @@ function copyPackContent(
   report: AttachmentReport,
   dryRun: boolean,
   projectRoot: string,
+  include?: string[],
   variantPath?: string
 ): void {
   // Get all files to copy (excluding ignore patterns)
@@ -196,8 +204,8 @@ function copyPackContent(
     const relativePath = relative(sourcePath, sourceFile);
     const destFile = join(destPath, relativePath);
 
-    // Check if file should be ignored
-    if (shouldIgnoreFile(relativePath)) {
+    // Check if file should be ignored (or is outside the included paths)
+    if (shouldIgnoreFile(relativePath) || (include && !include.some(path => relativePath === path || relativePath.startsWith(`${path}/`)))) {
       report.skipped.push(relativePath);
       continue;
     }
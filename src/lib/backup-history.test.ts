@@ -0,0 +1,145 @@
+/**
+ * FILE: src/lib/backup-history.test.ts
+ * PURPOSE: Unit/spec tests for backup history (list, diff, restore/undo, prune)
+ * OWNERSHIP: CLI
+ * 
+ * Tests validate:
+ * - Backup directory names are parsed into timestamp, operation and capability
+ * - Diffs compare backed-up files with the current project state
+ * - Undo restores modified files, deletes created files and is itself reversible
+ * - Retention policy (--keep, --older-than) prunes the right backups
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import {
+  parseBackupId,
+  parseOperationId,
+  listBackups,
+  findBackup,
+  findLastUndoableBackup,
+  diffBackup,
+  restoreBackup,
+  pruneBackups,
+  parseDuration,
+} from './backup-history';
+import { createUnifiedDiff } from './diff';
+import { FileTransaction } from './transaction';
+import { createBackupDirectory } from './backup';
+import { CLI_BACKUPS_DIR } from './constants';
+import { pathExists } from './fs';
+
+describe('backup-history', () => {
+  let testProjectRoot: string;
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-project-'));
+    await writeFile(join(testProjectRoot, 'package.json'), '{ "name": "app" }\n');
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testProjectRoot, { recursive: true, force: true });
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  /**
+   * Runs a committed transaction that modifies package.json and creates src/new/file.ts
+   */
+  async function runOperation(operationId: string): Promise<string> {
+    const transaction = new FileTransaction(testProjectRoot, createBackupDirectory(testProjectRoot, operationId), operationId);
+    transaction.track('package.json');
+    transaction.track('src/new/file.ts');
+    await writeFile(join(testProjectRoot, 'package.json'), '{ "name": "app", "dependencies": { "zustand": "^4.0.0" } }\n');
+    await mkdir(join(testProjectRoot, 'src', 'new'), { recursive: true });
+    await writeFile(join(testProjectRoot, 'src', 'new', 'file.ts'), 'export {};\n');
+    transaction.commit();
+    return transaction.backupDir;
+  }
+
+  it('should parse backup IDs and operation IDs', () => {
+    expect(parseBackupId('2026-01-31_12-30-45-123Z-modulator-state.zustand')).toEqual({
+      createdAt: '2026-01-31T12:30:45.123Z',
+      operationId: 'modulator-state.zustand',
+    });
+    expect(parseBackupId('not-a-backup')).toBeNull();
+    expect(parseOperationId('modulator-state.zustand')).toEqual({ kind: 'modulator', capabilityId: 'state.zustand' });
+    expect(parseOperationId('module-remove-auth')).toEqual({ kind: 'module-remove', capabilityId: 'auth' });
+    expect(parseOperationId('custom')).toEqual({ kind: 'custom' });
+  });
+
+  it('should list backups with files and diff them against current files', async () => {
+    await runOperation('modulator-state.zustand');
+
+    const backups = listBackups(testProjectRoot);
+    expect(backups).toHaveLength(1);
+    expect(backups[0].capabilityId).toBe('state.zustand');
+    expect(backups[0].files).toEqual(['package.json']);
+    expect(findBackup(testProjectRoot, backups[0].id.slice(0, 10)).id).toBe(backups[0].id);
+
+    const diffs = diffBackup(testProjectRoot, backups[0]);
+    expect(diffs.map(d => [d.file, d.status])).toEqual([
+      ['package.json', 'modified'],
+      ['src/new/file.ts', 'created'],
+    ]);
+    expect(diffs[0].diff).toContain('-{ "name": "app" }');
+    expect(diffs[0].diff).toContain('+{ "name": "app", "dependencies": { "zustand": "^4.0.0" } }');
+  });
+
+  it('should undo the last operation and allow reverting the undo', async () => {
+    await runOperation('modulator-state.zustand');
+
+    const backup = findLastUndoableBackup(testProjectRoot);
+    expect(backup?.operationId).toBe('modulator-state.zustand');
+
+    const result = restoreBackup(testProjectRoot, backup!);
+    expect(result.restored).toEqual(['package.json']);
+    expect(result.deleted).toEqual(['src/new/file.ts']);
+    expect(await readFile(join(testProjectRoot, 'package.json'), 'utf-8')).toBe('{ "name": "app" }\n');
+    expect(pathExists(join(testProjectRoot, 'src', 'new'))).toBe(false);
+
+    // Undone operation is no longer undoable; restores are skipped
+    expect(findLastUndoableBackup(testProjectRoot)).toBeNull();
+    expect(() => restoreBackup(testProjectRoot, findBackup(testProjectRoot, backup!.id))).toThrow(/already restored/);
+
+    // Restoring the restore brings the operation's changes back
+    const restoreBackupEntry = listBackups(testProjectRoot).find(b => b.kind === 'restore')!;
+    restoreBackup(testProjectRoot, restoreBackupEntry);
+    expect(await readFile(join(testProjectRoot, 'package.json'), 'utf-8')).toContain('zustand');
+    expect(await readFile(join(testProjectRoot, 'src', 'new', 'file.ts'), 'utf-8')).toBe('export {};\n');
+  });
+
+  it('should prune backups by count and age', async () => {
+    const backupsRoot = join(testProjectRoot, CLI_BACKUPS_DIR);
+    for (const id of [
+      '2026-01-01_00-00-00-000Z-plugin-a',
+      '2026-01-05_00-00-00-000Z-plugin-b',
+      '2026-01-09_00-00-00-000Z-plugin-c',
+    ]) {
+      await mkdir(join(backupsRoot, id), { recursive: true });
+    }
+    const now = new Date('2026-01-10T00:00:00.000Z');
+
+    expect(pruneBackups(testProjectRoot, { keep: 2, dryRun: true }, now).map(b => b.operationId)).toEqual(['plugin-a']);
+    expect(pruneBackups(testProjectRoot, { olderThanMs: parseDuration('3d') }, now).map(b => b.operationId)).toEqual([
+      'plugin-b',
+      'plugin-a',
+    ]);
+    expect(listBackups(testProjectRoot).map(b => b.operationId)).toEqual(['plugin-c']);
+    expect(() => parseDuration('7 days')).toThrow(/Invalid duration/);
+  });
+
+  it('should create unified diffs with hunks', () => {
+    const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n') + '\n';
+    const after = before.replace('b\n', 'B\n');
+
+    expect(createUnifiedDiff(before, before, 'a', 'b')).toBe('');
+    expect(createUnifiedDiff(before, after, 'old', 'new')).toBe(
+      ['--- old', '+++ new', '@@ -1,5 +1,5 @@', ' a', '-b', '+B', ' c', ' d', ' e', ''].join('\n')
+    );
+  });
+});
@@ -0,0 +1,552 @@
+/**
+ * FILE: src/lib/backup-history.ts
+ * PURPOSE: Backup history commands (section 8) - list/show/restore/prune backups and undo the last operation
+ * OWNERSHIP: CLI
+ *
+ * Every mutating operation writes its backups to `.rns/backups/<timestamp>-<operationId>/`.
+ * Transactional operations (modulator apply) also write `transaction.json`, which records
+ * created files so a restore can delete them.
+ *
+ * Restores are themselves transactional (`restore-<backupId>`), so a restore can be restored.
+ */
+
+import { basename, join } from 'path';
+import { readdirSync, rmSync, statSync } from 'fs';
+import { pathExists, isFile, readTextFile, readJsonFile, writeJsonFile } from './fs';
+import { createBackupDirectory, listBackupDirectories, restoreFromBackup } from './backup';
+import { FileTransaction, TRANSACTION_RECORD_FILE, removeDirIfEmpty } from './transaction';
+import { createUnifiedDiff } from './diff';
+import { promptConfirm } from './prompts';
+import { CliError, ExitCode } from './errors';
+import type { RuntimeContext } from './runtime';
+import type { TransactionRecord } from './types/transaction';
+
+/**
+ * Backup directory name: <timestamp>-<operationId>, timestamp like 2026-01-31_12-00-00-000Z
+ */
+const BACKUP_ID_PATTERN = /^(\d{4}-\d{2}-\d{2})_(\d{2})-(\d{2})-(\d{2})-(\d{3})Z-(.+)$/;
+
+/**
+ * Operation ID prefixes written by the CLI (longest first so "module-remove" wins over "module")
+ */
+const OPERATION_KINDS = ['module-remove', 'modulator', 'restore', 'plugin', 'module', 'patch', 'wire', 'core'];
+
+/**
+ * Duration units for --older-than
+ */
+const DURATION_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * A backup directory in .rns/backups
+ */
+export interface BackupEntry {
+  /** Backup ID (directory name) */
+  id: string;
+  /** Absolute path to the backup directory */
+  path: string;
+  /** Creation timestamp (ISO) */
+  createdAt: string;
+  /** Operation ID (e.g. "modulator-state.zustand") */
+  operationId: string;
+  /** Operation kind (operation ID prefix, e.g. "modulator", "module-remove") */
+  kind: string;
+  /** Capability ID the operation targeted (if derivable from the operation ID) */
+  capabilityId?: string;
+  /** Project-relative files stored in the backup */
+  files: string[];
+  /** Transaction record (transactional operations only) */
+  transaction?: TransactionRecord;
+}
+
+/**
+ * Diff between a backed-up file and its current state
+ */
+export interface BackupFileDiff {
+  /** Project-relative file path */
+  file: string;
+  /** unchanged: current equals backup; modified: differs; missing: deleted since; created: file was created by the operation */
+  status: 'unchanged' | 'modified' | 'missing' | 'created';
+  /** Unified diff (backup → current), empty when unchanged */
+  diff: string;
+}
+
+/**
+ * Result of restoring a backup
+ */
+export interface BackupRestoreResult {
+  /** Backup that was restored */
+  backupId: string;
+  /** Files written back from the backup */
+  restored: string[];
+  /** Files deleted (created by the original operation) */
+  deleted: string[];
+  /** Backup directory of the restore itself (absent in dry-run) */
+  restoreBackupDir?: string;
+}
+
+/**
+ * Options for pruning backups
+ */
+export interface BackupPruneOptions {
+  /** Keep the N newest backups */
+  keep?: number;
+  /** Remove backups older than this many milliseconds */
+  olderThanMs?: number;
+  dryRun?: boolean;
+}
+
+/**
+ * Parses a backup directory name into timestamp + operation ID
+ *
+ * @returns Parsed parts, or null if the name doesn't follow the backup naming scheme
+ */
+export function parseBackupId(id: string): { createdAt: string; operationId: string } | null {
+  const match = id.match(BACKUP_ID_PATTERN);
+  if (!match) {
+    return null;
+  }
+  const [, date, hours, minutes, seconds, millis, operationId] = match;
+  return {
+    createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+    operationId,
+  };
+}
+
+/**
+ * Splits an operation ID into kind + capability ID
+ */
+export function parseOperationId(operationId: string): { kind: string; capabilityId?: string } {
+  for (const kind of OPERATION_KINDS) {
+    if (operationId.startsWith(`${kind}-`)) {
+      return { kind, capabilityId: operationId.slice(kind.length + 1) };
+    }
+  }
+  return { kind: operationId };
+}
+
+/**
+ * Reads a backup directory
+ */
+export function readBackupEntry(backupPath: string): BackupEntry {
+  const id = basename(backupPath);
+  const parsed = parseBackupId(id);
+  const transactionPath = join(backupPath, TRANSACTION_RECORD_FILE);
+  const transaction = isFile(transactionPath)
+    ? readJsonFile<TransactionRecord>(transactionPath)
+    : undefined;
+
+  const operationId = parsed?.operationId ?? transaction?.operationId ?? id;
+  const { kind, capabilityId } = parseOperationId(operationId);
+
+  return {
+    id,
+    path: backupPath,
+    createdAt: parsed?.createdAt ?? statSync(backupPath).mtime.toISOString(),
+    operationId,
+    kind,
+    capabilityId,
+    files: listBackupFiles(backupPath),
+    transaction,
+  };
+}
+
+/**
+ * Lists backups, newest first
+ */
+export function listBackups(projectRoot: string): BackupEntry[] {
+  return listBackupDirectories(projectRoot)
+    .map(readBackupEntry)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id.localeCompare(a.id));
+}
+
+/**
+ * Finds a backup by ID (exact match or unique prefix)
+ */
+export function findBackup(projectRoot: string, id: string): BackupEntry {
+  const backups = listBackups(projectRoot);
+  const exact = backups.find(b => b.id === id);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = backups.filter(b => b.id.startsWith(id));
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length > 1) {
+    throw new CliError(
+      `Backup ID "${id}" is ambiguous (${matches.length} matches). Use the full ID from "rns backup list".`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  throw new CliError(
+    `Backup not found: ${id}. Run "rns backup list" to see available backups.`,
+    ExitCode.VALIDATION_STATE_FAILURE
+  );
+}
+
+/**
+ * Finds the most recent operation that can be undone
+ * (committed transaction that hasn't been restored; restores themselves are skipped)
+ */
+export function findLastUndoableBackup(projectRoot: string): BackupEntry | null {
+  return listBackups(projectRoot).find(
+    b => b.kind !== 'restore' && b.transaction?.status === 'committed' && !b.transaction.restoredBy
+  ) ?? null;
+}
+
+/**
+ * Diffs backed-up files against the current project state
+ */
+export function diffBackup(projectRoot: string, backup: BackupEntry): BackupFileDiff[] {
+  const diffs: BackupFileDiff[] = [];
+
+  for (const file of backup.files) {
+    const current = join(projectRoot, file);
+    const before = readTextFile(join(backup.path, file));
+    const after = isFile(current) ? readTextFile(current) : null;
+    const diff = createUnifiedDiff(before, after ?? '', `backup/${file}`, after === null ? '/dev/null' : `current/${file}`);
+    diffs.push({
+      file,
+      status: after === null ? 'missing' : diff ? 'modified' : 'unchanged',
+      diff,
+    });
+  }
+
+  for (const file of backup.transaction?.created ?? []) {
+    const current = join(projectRoot, file);
+    if (!isFile(current)) {
+      continue;
+    }
+    diffs.push({
+      file,
+      status: 'created',
+      diff: createUnifiedDiff('', readTextFile(current), '/dev/null', `current/${file}`),
+    });
+  }
+
+  return diffs.sort((a, b) => a.file.localeCompare(b.file));
+}
+
+/**
+ * Restores a backup: writes backed-up files back and, for transactional backups,
+ * deletes files the operation created. The restore runs as its own transaction.
+ */
+export function restoreBackup(
+  projectRoot: string,
+  backup: BackupEntry,
+  options: { dryRun?: boolean } = {}
+): BackupRestoreResult {
+  if (backup.transaction?.restoredBy) {
+    throw new CliError(
+      `Backup ${backup.id} was already restored by ${backup.transaction.restoredBy}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  if (backup.transaction?.status === 'rolled-back') {
+    throw new CliError(
+      `Operation ${backup.operationId} was already rolled back; nothing to restore`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  const toRestore = backup.transaction ? backup.transaction.modified : backup.files;
+  const toDelete = (backup.transaction?.created ?? []).filter(file => isFile(join(projectRoot, file)));
+
+  if (options.dryRun) {
+    return { backupId: backup.id, restored: [...toRestore], deleted: toDelete };
+  }
+
+  const operationId = `restore-${backup.id}`;
+  const transaction = new FileTransaction(projectRoot, createBackupDirectory(projectRoot, operationId), operationId);
+
+  try {
+    for (const file of [...toRestore, ...toDelete]) {
+      transaction.track(file);
+    }
+
+    for (const file of toRestore) {
+      restoreFromBackup(join(backup.path, file), join(projectRoot, file));
+    }
+    for (const file of toDelete) {
+      rmSync(join(projectRoot, file), { force: true });
+    }
+
+    // Deepest directories first
+    const createdDirs = [...(backup.transaction?.createdDirs ?? [])].sort((a, b) => b.length - a.length);
+    for (const dir of createdDirs) {
+      removeDirIfEmpty(join(projectRoot, dir));
+    }
+  } catch (error) {
+    transaction.rollback();
+    throw new CliError(
+      `Failed to restore backup ${backup.id}: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+
+  transaction.commit();
+
+  if (backup.transaction) {
+    writeJsonFile(join(backup.path, TRANSACTION_RECORD_FILE), {
+      ...backup.transaction,
+      restoredBy: basename(transaction.backupDir),
+    });
+  }
+
+  return {
+    backupId: backup.id,
+    restored: [...toRestore],
+    deleted: toDelete,
+    restoreBackupDir: transaction.backupDir,
+  };
+}
+
+/**
+ * Removes backups outside the retention policy.
+ * A backup is removed if it is not among the `keep` newest, or if it is older than `olderThanMs`.
+ *
+ * @returns Backups that were (or would be, in dry-run) removed
+ */
+export function pruneBackups(
+  projectRoot: string,
+  options: BackupPruneOptions,
+  now: Date = new Date()
+): BackupEntry[] {
+  const backups = listBackups(projectRoot);
+  const pruned = backups.filter((backup, index) => {
+    if (options.keep !== undefined && index >= options.keep) {
+      return true;
+    }
+    if (options.olderThanMs !== undefined) {
+      return now.getTime() - new Date(backup.createdAt).getTime() > options.olderThanMs;
+    }
+    return false;
+  });
+
+  if (!options.dryRun) {
+    for (const backup of pruned) {
+      rmSync(backup.path, { recursive: true, force: true });
+    }
+  }
+
+  return pruned;
+}
+
+/**
+ * Parses a duration like "30m", "12h", "7d", "2w" into milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = value.trim().match(/^(\d+)([mhdw])$/);
+  if (!match) {
+    throw new CliError(
+      `Invalid duration: "${value}". Use <number><unit> with unit m, h, d or w (e.g. 7d).`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]];
+}
+
+/**
+ * Lists backups (rns backup list)
+ */
+export function runBackupList(options: { json?: boolean }, ctx: RuntimeContext): void {
+  const backups = listBackups(ctx.resolvedRoot);
+
+  if (options.json) {
+    console.log(JSON.stringify(backups.map(({ path: _path, ...backup }) => backup), null, 2));
+    return;
+  }
+
+  if (backups.length === 0) {
+    ctx.logger.info('No backups found.');
+    return;
+  }
+
+  ctx.logger.info(`Backups (${backups.length}, newest first):`);
+  ctx.logger.info('');
+  for (const backup of backups) {
+    const status = backup.transaction
+      ? ` [${backup.transaction.restoredBy ? 'restored' : backup.transaction.status}]`
+      : '';
+    ctx.logger.info(`  ${backup.id}${status}`);
+    ctx.logger.info(`    operation: ${backup.operationId}${backup.capabilityId ? ` (capability: ${backup.capabilityId})` : ''}`);
+    ctx.logger.info(`    created:   ${backup.createdAt}`);
+    const created = backup.transaction?.created.length ?? 0;
+    ctx.logger.info(`    files:     ${backup.files.length} backed up${created > 0 ? `, ${created} created` : ''}`);
+  }
+}
+
+/**
+ * Shows a backup with a diff against current files (rns backup show <id>)
+ */
+export function runBackupShow(id: string | undefined, options: { json?: boolean }, ctx: RuntimeContext): void {
+  if (!id) {
+    throw new CliError('Backup ID is required: rns backup show <id>', ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const backup = findBackup(ctx.resolvedRoot, id);
+  const diffs = diffBackup(ctx.resolvedRoot, backup);
+
+  if (options.json) {
+    const { path: _path, ...entry } = backup;
+    console.log(JSON.stringify({ ...entry, diffs }, null, 2));
+    return;
+  }
+
+  ctx.logger.info(`Backup: ${backup.id}`);
+  ctx.logger.info(`Operation: ${backup.operationId}`);
+  if (backup.capabilityId) {
+    ctx.logger.info(`Capability: ${backup.capabilityId}`);
+  }
+  ctx.logger.info(`Created: ${backup.createdAt}`);
+  if (backup.transaction) {
+    ctx.logger.info(`Status: ${backup.transaction.restoredBy ? `restored by ${backup.transaction.restoredBy}` : backup.transaction.status}`);
+  }
+  ctx.logger.info('');
+
+  if (diffs.length === 0) {
+    ctx.logger.info('No files in backup.');
+    return;
+  }
+
+  for (const fileDiff of diffs) {
+    ctx.logger.info(`${fileDiff.status.padEnd(9)} ${fileDiff.file}`);
+  }
+  for (const fileDiff of diffs.filter(d => d.diff)) {
+    console.log('');
+    console.log(fileDiff.diff.trimEnd());
+  }
+}
+
+/**
+ * Restores a backup (rns backup restore <id>)
+ */
+export async function runBackupRestore(
+  id: string | undefined,
+  options: { yes?: boolean; dryRun?: boolean },
+  ctx: RuntimeContext
+): Promise<BackupRestoreResult | null> {
+  if (!id) {
+    throw new CliError('Backup ID is required: rns backup restore <id>', ExitCode.VALIDATION_STATE_FAILURE);
+  }
+  return restoreWithConfirm(findBackup(ctx.resolvedRoot, id), options, ctx);
+}
+
+/**
+ * Undoes the most recent operation (rns undo)
+ */
+export async function runUndo(
+  options: { yes?: boolean; dryRun?: boolean },
+  ctx: RuntimeContext
+): Promise<BackupRestoreResult | null> {
+  const backup = findLastUndoableBackup(ctx.resolvedRoot);
+  if (!backup) {
+    throw new CliError('Nothing to undo: no committed operation found in backups', ExitCode.VALIDATION_STATE_FAILURE);
+  }
+  ctx.logger.info(`Last operation: ${backup.operationId} (${backup.createdAt})`);
+  return restoreWithConfirm(backup, options, ctx);
+}
+
+/**
+ * Prunes backups (rns backup prune --keep N --older-than 7d)
+ */
+export function runBackupPrune(
+  options: { keep?: string; olderThan?: string; dryRun?: boolean },
+  ctx: RuntimeContext
+): BackupEntry[] {
+  if (options.keep === undefined && options.olderThan === undefined) {
+    throw new CliError(
+      'Backup prune requires a retention policy: --keep <N> and/or --older-than <duration>',
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  let keep: number | undefined;
+  if (options.keep !== undefined) {
+    keep = Number(options.keep);
+    if (!Number.isInteger(keep) || keep < 0) {
+      throw new CliError(`Invalid --keep value: "${options.keep}" (expected a non-negative integer)`, ExitCode.VALIDATION_STATE_FAILURE);
+    }
+  }
+
+  const pruned = pruneBackups(ctx.resolvedRoot, {
+    keep,
+    olderThanMs: options.olderThan !== undefined ? parseDuration(options.olderThan) : undefined,
+    dryRun: options.dryRun,
+  });
+
+  if (pruned.length === 0) {
+    ctx.logger.info('No backups to prune.');
+    return pruned;
+  }
+
+  for (const backup of pruned) {
+    ctx.logger.info(`  ${options.dryRun ? 'would remove' : 'removed'} ${backup.id}`);
+  }
+  ctx.logger.info(`\n${options.dryRun ? 'Dry-run: ' : ''}${pruned.length} backup(s) ${options.dryRun ? 'would be ' : ''}removed`);
+  return pruned;
+}
+
+/**
+ * Shows what a restore will do, asks for confirmation, then restores
+ */
+async function restoreWithConfirm(
+  backup: BackupEntry,
+  options: { yes?: boolean; dryRun?: boolean },
+  ctx: RuntimeContext
+): Promise<BackupRestoreResult | null> {
+  const plan = restoreBackup(ctx.resolvedRoot, backup, { dryRun: true });
+
+  ctx.logger.info(`Restoring ${backup.id}:`);
+  for (const file of plan.restored) {
+    ctx.logger.info(`  restore ${file}`);
+  }
+  for (const file of plan.deleted) {
+    ctx.logger.info(`  delete  ${file}`);
+  }
+
+  if (options.dryRun) {
+    ctx.logger.info(`\nDry-run: ${plan.restored.length} file(s) would be restored, ${plan.deleted.length} deleted`);
+    return plan;
+  }
+
+  if (!options.yes) {
+    const confirmed = await promptConfirm('Proceed with restore?', false);
+    if (!confirmed) {
+      ctx.logger.info('Restore cancelled.');
+      return null;
+    }
+  }
+
+  const result = restoreBackup(ctx.resolvedRoot, backup);
+  ctx.logger.info(`\n✓ Restored ${result.restored.length} file(s), deleted ${result.deleted.length}`);
+  if (result.restoreBackupDir) {
+    ctx.logger.info(`  To revert this restore: rns backup restore ${basename(result.restoreBackupDir)}`);
+  }
+  return result;
+}
+
+/**
+ * Lists files stored in a backup directory (project-relative, excluding the transaction record)
+ */
+function listBackupFiles(backupPath: string, prefix: string = ''): string[] {
+  if (!pathExists(backupPath)) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of readdirSync(backupPath, { withFileTypes: true })) {
+    const relativePath = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...listBackupFiles(join(backupPath, entry.name), relativePath));
+    } else if (relativePath !== TRANSACTION_RECORD_FILE) {
+      files.push(relativePath);
+    }
+  }
+  return files.sort();
+}
@@ -15,6 +15,17 @@ export const CLI_STATE_DIR = '.rns';
 export const CLI_LOGS_DIR = '.rns/logs';
 export const CLI_BACKUPS_DIR = '.rns/backups';
 export const CLI_AUDIT_DIR = '.rns/audit';
+export const CLI_CONFIG_FILE = '.rns/config.json';
+
+/**
+ * Declarative project config (desired plugins/modules for `rns apply`), in lookup order
+ */
+export const PROJECT_CONFIG_FILES = ['rns.config.json', 'rns.config.ts', 'rns.config.js'];
+
+/**
+ * Project-level iOS usage-description texts, keyed by Info.plist key (see usage-descriptions.ts)
+ */
+export const USAGE_DESCRIPTIONS_FILE = 'rns.usage-descriptions.json';
 
 /**
  * Option A: Workspace Packages Model
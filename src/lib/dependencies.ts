@@ -8,8 +8,8 @@
  * never mixes package managers, and provides clear error output.
  */
 
-import { join } from 'path';
-import { pathExists, readTextFile } from './fs';
+import { join, relative } from 'path';
+import { pathExists, readJsonFile, readTextFile, writeTextFile } from './fs';
 import { PROJECT_STATE_FILE } from './constants';
 import { CliError, ExitCode } from './errors';
 import { execPackageManager } from './exec';
@@ -209,6 +209,16 @@ export function addRuntimeDependencies(
     };
   }
 
+  if (options.manifestOnly) {
+    writePackageJsonDependencies(cwd, 'dependencies', dependencies);
+    return {
+      success: true,
+      scope,
+      dependencies,
+      action: 'installed',
+    };
+  }
+
   try {
     // Build install command
     const depsSpecs = dependencies.map(dep => `${dep.name}@${dep.version}`);
@@ -279,6 +289,16 @@ export function addDevDependencies(
     };
   }
 
+  if (options.manifestOnly) {
+    writePackageJsonDependencies(cwd, 'devDependencies', dependencies);
+    return {
+      success: true,
+      scope,
+      dependencies,
+      action: 'installed',
+    };
+  }
+
   try {
     // Build install command
     const depsSpecs = dependencies.map(dep => `${dep.name}@${dep.version}`);
@@ -312,6 +332,83 @@ export function addDevDependencies(
   }
 }
 
+/**
+ * Uninstalls dependencies (runtime or dev)
+ * 
+ * @param projectRoot - Project root directory
+ * @param packageNames - Package names to uninstall
+ * @param options - Installation options
+ * @returns Installation result
+ */
+export function removeDependencies(
+  projectRoot: string,
+  packageNames: string[],
+  options: DependencyInstallOptions = {}
+): DependencyInstallResult {
+  const dependencies = packageNames.map(name => ({ name, version: '*' }));
+  if (packageNames.length === 0) {
+    return {
+      success: true,
+      scope: options.scope || 'workspace',
+      dependencies: [],
+      action: 'skipped',
+    };
+  }
+
+  const packageManager = resolvePackageManager(projectRoot);
+  validateLockfileDiscipline(projectRoot, packageManager);
+
+  const scope = options.scope || 'workspace';
+  const cwd = resolveScopePath(projectRoot, scope, options.cwd);
+
+  if (options.dryRun) {
+    return {
+      success: true,
+      scope,
+      dependencies,
+      action: 'removed',
+    };
+  }
+
+  if (options.manifestOnly) {
+    removePackageJsonDependencies(cwd, packageNames);
+    return {
+      success: true,
+      scope,
+      dependencies,
+      action: 'removed',
+    };
+  }
+
+  try {
+    const removeArgs = packageManager === 'npm'
+      ? ['uninstall', ...packageNames]
+      : ['remove', ...packageNames];
+
+    const result = execPackageManager(packageManager, removeArgs, {
+      cwd,
+      stdio: options.verbose ? 'inherit' : 'pipe',
+    });
+
+    return {
+      success: true,
+      scope,
+      dependencies,
+      action: 'removed',
+      stdout: result.stdout,
+      stderr: result.stderr,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      scope,
+      dependencies,
+      action: 'error',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
 /**
  * Runs package installation (install from lockfile)
  * 
@@ -338,6 +435,15 @@ export function installDependencies(
     };
   }
 
+  if (options.manifestOnly) {
+    return {
+      success: true,
+      scope,
+      dependencies: [],
+      action: 'skipped',
+    };
+  }
+
   try {
     const result = execPackageManager(packageManager, ['install'], {
       cwd,
@@ -363,6 +469,28 @@ export function installDependencies(
   }
 }
 
+/**
+ * Lists files the dependency layer may write for a scope (package.json + lockfiles),
+ * relative to project root. Used to snapshot state before dependency changes.
+ * 
+ * @param projectRoot - Project root directory
+ * @param scope - Dependency scope
+ * @returns Project-relative file paths (existing or not)
+ */
+export function getDependencyFiles(projectRoot: string, scope: DependencyScope = 'workspace'): string[] {
+  const scopePath = resolveScopePath(projectRoot, scope);
+  const dirs = scopePath === projectRoot ? [projectRoot] : [projectRoot, scopePath];
+  const lockfiles = Object.values(LOCKFILE_PATTERNS).flat();
+
+  const files: string[] = [];
+  for (const dir of dirs) {
+    for (const file of ['package.json', ...lockfiles]) {
+      files.push(relative(projectRoot, join(dir, file)));
+    }
+  }
+  return files;
+}
+
 /**
  * Resolves the path for a dependency scope
  * 
@@ -399,3 +527,35 @@ function resolveScopePath(
 
   return projectRoot;
 }
+
+/**
+ * Adds dependencies to a package.json section (manifestOnly installs; versions as declared)
+ */
+function writePackageJsonDependencies(
+  cwd: string,
+  section: 'dependencies' | 'devDependencies',
+  dependencies: DependencySpec[]
+): void {
+  const packageJsonPath = join(cwd, 'package.json');
+  const packageJson = readJsonFile<Record<string, unknown>>(packageJsonPath);
+  const entries = { ...((packageJson[section] as Record<string, string> | undefined) || {}) };
+  dependencies.forEach(dep => {
+    entries[dep.name] = dep.version;
+  });
+  // Package managers keep dependency sections sorted
+  packageJson[section] = Object.fromEntries(Object.entries(entries).sort(([a], [b]) => a.localeCompare(b)));
+  writeTextFile(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`);
+}
+
+/**
+ * Removes packages from every package.json dependency section (manifestOnly uninstalls)
+ */
+function removePackageJsonDependencies(cwd: string, packageNames: string[]): void {
+  const packageJsonPath = join(cwd, 'package.json');
+  const packageJson = readJsonFile<Record<string, unknown>>(packageJsonPath);
+  for (const section of ['dependencies', 'devDependencies']) {
+    const entries = packageJson[section] as Record<string, string> | undefined;
+    packageNames.forEach(name => entries && delete entries[name]);
+  }
+  writeTextFile(packageJsonPath, `${JSON.stringify(packageJson, null, 2)}\n`);
+}
@@ -0,0 +1,153 @@
+/**
+ * FILE: src/lib/diff.ts
+ * PURPOSE: Minimal line-based unified diff (no external dependency)
+ * OWNERSHIP: CLI
+ */
+
+/**
+ * Diff operation for a single line
+ */
+interface DiffLine {
+  type: 'equal' | 'add' | 'remove';
+  text: string;
+}
+
+/**
+ * Max LCS table size before falling back to a whole-file replace
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Creates a unified diff between two texts
+ *
+ * @param oldText - Original content ('' for a new file)
+ * @param newText - Updated content ('' for a deleted file)
+ * @param oldLabel - Label for the original (--- line)
+ * @param newLabel - Label for the updated (+++ line)
+ * @param contextLines - Number of unchanged context lines around changes
+ * @returns Unified diff text, or '' if texts are identical
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  oldLabel: string,
+  newLabel: string,
+  contextLines: number = 3
+): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const lines = diffLines(oldLines, newLines);
+
+  const output: string[] = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  // Group changes into hunks with surrounding context
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === 'equal') {
+      i++;
+      continue;
+    }
+
+    const hunkStart = Math.max(0, i - contextLines);
+    let hunkEnd = i;
+    let lastChange = i;
+    while (hunkEnd < lines.length) {
+      if (lines[hunkEnd].type !== 'equal') {
+        lastChange = hunkEnd;
+      } else if (hunkEnd - lastChange > contextLines * 2) {
+        break;
+      }
+      hunkEnd++;
+    }
+    hunkEnd = Math.min(lines.length, lastChange + contextLines + 1);
+
+    // Line numbers (1-based) at hunk start
+    let oldStart = 1;
+    let newStart = 1;
+    for (let k = 0; k < hunkStart; k++) {
+      if (lines[k].type !== 'add') oldStart++;
+      if (lines[k].type !== 'remove') newStart++;
+    }
+
+    const hunk = lines.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter(l => l.type !== 'add').length;
+    const newCount = hunk.filter(l => l.type !== 'remove').length;
+    output.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    for (const line of hunk) {
+      const prefix = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+      output.push(`${prefix}${line.text}`);
+    }
+
+    i = hunkEnd;
+  }
+
+  return output.join('\n') + '\n';
+}
+
+/**
+ * Splits text into lines (a trailing newline does not produce an extra empty line)
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+  return lines;
+}
+
+/**
+ * Computes line diff via longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(text => ({ type: 'remove' as const, text })),
+      ...newLines.map(text => ({ type: 'add' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lcs: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = oldLines[i] === newLines[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'equal', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'remove', text: oldLines[i] });
+      i++;
+    } else {
+      result.push({ type: 'add', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < n) {
+    result.push({ type: 'remove', text: oldLines[i++] });
+  }
+  while (j < m) {
+    result.push({ type: 'add', text: newLines[j++] });
+  }
+
+  return result;
+}
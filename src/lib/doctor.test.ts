@@ -0,0 +1,158 @@
+/**
+ * FILE: src/lib/doctor.test.ts
+ * PURPOSE: Unit/spec tests for doctor command (merged env + project reports, CI exit code)
+ * OWNERSHIP: CLI
+ * 
+ * Tests validate:
+ * - Environment and project findings are merged and tagged by source
+ * - Fixed findings replace failed ones
+ * - --project mode skips environment checks
+ * - Failing error-severity findings fail the command with VALIDATION_STATE_FAILURE
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import {
+  mergeDoctorReports,
+  runDoctor,
+  runDoctorCommand,
+} from './doctor';
+import { CliError, ExitCode } from './errors';
+import type { RuntimeContext } from './runtime';
+import type { RnsTarget } from './types/common';
+import type { EnvironmentDoctorReport, ProjectDoctorReport, DoctorFinding } from './types/doctor';
+
+describe('doctor', () => {
+  let testProjectRoot: string;
+  let context: RuntimeContext;
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-project-'));
+    await mkdir(join(testProjectRoot, '.rns'), { recursive: true });
+
+    context = {
+      resolvedRoot: testProjectRoot,
+      flags: {
+        yes: false,
+        verbose: false,
+        dryRun: false,
+      },
+      logger: {
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+        debug: vi.fn(),
+      },
+      runId: 'test-run-id',
+    };
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testProjectRoot, { recursive: true, force: true });
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('mergeDoctorReports', () => {
+    const nodeFinding: DoctorFinding = {
+      checkId: 'node.version',
+      name: 'Node.js version',
+      severity: 'error',
+      passed: true,
+      value: 'v20.0.0',
+    };
+    const manifestFinding: DoctorFinding = {
+      checkId: 'manifest.valid',
+      name: 'Manifest valid',
+      severity: 'error',
+      passed: false,
+      message: 'Schema version mismatch',
+      fix: 'Run manifest migration',
+    };
+
+    const envReport: EnvironmentDoctorReport = {
+      target: 'expo',
+      findings: [nodeFinding],
+      passed: true,
+      criticalErrors: [],
+      warnings: [],
+    };
+    const projectReport: ProjectDoctorReport = {
+      findings: [manifestFinding],
+      passed: false,
+      errors: [manifestFinding],
+      warnings: [],
+      fixable: [manifestFinding],
+    };
+
+    it('should merge findings and tag them by source', () => {
+      const report = mergeDoctorReports(envReport, projectReport);
+
+      expect(report.target).toBe('expo');
+      expect(report.findings.map(f => f.source)).toEqual(['env', 'project']);
+      expect(report.passed).toBe(false);
+      expect(report.errors).toHaveLength(1);
+      expect(report.errors[0].checkId).toBe('manifest.valid');
+    });
+
+    it('should replace failed findings with fixed ones', () => {
+      const fixed = [{ ...manifestFinding, passed: true, message: 'Manifest migrated successfully' }];
+      const report = mergeDoctorReports(envReport, projectReport, fixed);
+
+      expect(report.passed).toBe(true);
+      expect(report.errors).toHaveLength(0);
+      expect(report.fixed).toHaveLength(1);
+      expect(report.fixed[0].source).toBe('project');
+    });
+
+    it('should handle a single report', () => {
+      const report = mergeDoctorReports(null, projectReport);
+
+      expect(report.target).toBeUndefined();
+      expect(report.findings.every(f => f.source === 'project')).toBe(true);
+    });
+  });
+
+  describe('runDoctor', () => {
+    it('should skip environment checks in --project mode', async () => {
+      const report = await runDoctor({ project: true }, context);
+
+      expect(report.findings.length).toBeGreaterThan(0);
+      expect(report.findings.every(f => f.source === 'project')).toBe(true);
+    });
+
+    it('should report missing manifest as a failing error with fix text', async () => {
+      const report = await runDoctor({ project: true }, context);
+
+      const manifestCheck = report.errors.find(f => f.checkId === 'manifest.exists');
+      expect(manifestCheck).toBeDefined();
+      expect(manifestCheck?.fix).toContain('rns init');
+    });
+
+    it('should reject invalid targets', async () => {
+      await expect(
+        runDoctor({ env: true, target: 'web' as unknown as RnsTarget }, context)
+      ).rejects.toThrow(/Invalid target/);
+    });
+  });
+
+  describe('runDoctorCommand', () => {
+    it('should fail with VALIDATION_STATE_FAILURE when error-severity findings fail', async () => {
+      try {
+        await runDoctorCommand({ project: true }, context);
+        expect.fail('Expected doctor to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(CliError);
+        expect((error as CliError).exitCode).toBe(ExitCode.VALIDATION_STATE_FAILURE);
+      }
+
+      // Fix text is printed for failed checks
+      const infoCalls = (context.logger.info as ReturnType<typeof vi.fn>).mock.calls.map(c => c[0]);
+      expect(infoCalls.some((line: string) => line.includes('Fix: '))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * FILE: src/lib/doctor.ts
+ * PURPOSE: Doctor command implementation (sections 17-18) - runs environment and/or project doctor
+ * OWNERSHIP: CLI
+ *
+ * Modes:
+ * - `rns doctor`            → environment + project checks
+ * - `rns doctor --env`      → environment checks only
+ * - `rns doctor --project`  → project checks only
+ * - `rns doctor --fix`      → apply safe SYSTEM ZONE fixes (project checks)
+ * - `rns doctor --json`     → machine-readable merged report
+ *
+ * Any failing error-severity finding fails the command (CI-friendly exit code).
+ */
+
+import { readManifest } from './manifest';
+import { runEnvironmentDoctor } from './environment-doctor';
+import { runProjectDoctor, applySafeFixes } from './project-doctor';
+import { CliError, ExitCode } from './errors';
+import type { RuntimeContext } from './runtime';
+import type { RnsTarget } from './types/common';
+import type {
+  DoctorFinding,
+  EnvironmentDoctorReport,
+  ProjectDoctorReport,
+} from './types/doctor';
+
+/**
+ * Options for doctor command
+ */
+export interface DoctorCommandOptions {
+  /** Run environment checks only (unless project is also set) */
+  env?: boolean;
+  /** Run project checks only (unless env is also set) */
+  project?: boolean;
+  /** Apply safe fixes in SYSTEM ZONE */
+  fix?: boolean;
+  /** Print merged report as JSON */
+  json?: boolean;
+  /** Target for environment checks (defaults to manifest target, then expo) */
+  target?: RnsTarget;
+}
+
+/**
+ * Source of a doctor finding (which doctor produced it)
+ */
+export type DoctorSource = 'env' | 'project';
+
+/**
+ * Doctor finding tagged with its source
+ */
+export interface SourcedDoctorFinding extends DoctorFinding {
+  source: DoctorSource;
+}
+
+/**
+ * Merged doctor report (environment + project)
+ */
+export interface CombinedDoctorReport {
+  /** Target used for environment checks (if env checks ran) */
+  target?: RnsTarget;
+  /** All findings, environment first */
+  findings: SourcedDoctorFinding[];
+  /** True when no error-severity finding failed */
+  passed: boolean;
+  /** Failed error-severity findings */
+  errors: SourcedDoctorFinding[];
+  /** Failed warning-severity findings */
+  warnings: SourcedDoctorFinding[];
+  /** Findings fixed by --fix */
+  fixed: SourcedDoctorFinding[];
+}
+
+/**
+ * Merges environment and project reports into a single report.
+ * Findings fixed by --fix replace their failed counterparts.
+ */
+export function mergeDoctorReports(
+  envReport: EnvironmentDoctorReport | null,
+  projectReport: ProjectDoctorReport | null,
+  fixed: DoctorFinding[] = []
+): CombinedDoctorReport {
+  const findings: SourcedDoctorFinding[] = [];
+
+  if (envReport) {
+    findings.push(...envReport.findings.map(f => ({ ...f, source: 'env' as const })));
+  }
+
+  if (projectReport) {
+    for (const finding of projectReport.findings) {
+      const fix = fixed.find(f => f.checkId === finding.checkId && f.name === finding.name);
+      findings.push({ ...(fix || finding), source: 'project' });
+    }
+  }
+
+  const errors = findings.filter(f => f.severity === 'error' && !f.passed);
+  const warnings = findings.filter(f => f.severity === 'warning' && !f.passed);
+
+  return {
+    target: envReport?.target,
+    findings,
+    passed: errors.length === 0,
+    errors,
+    warnings,
+    fixed: fixed.map(f => ({ ...f, source: 'project' as const })),
+  };
+}
+
+/**
+ * Resolves target for environment checks: explicit flag → manifest → expo
+ */
+function resolveDoctorTarget(projectRoot: string, target?: RnsTarget): RnsTarget {
+  if (target) {
+    if (target !== 'expo' && target !== 'bare') {
+      throw new CliError(
+        `Invalid target: "${target}". Valid targets: expo, bare`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+    return target;
+  }
+
+  try {
+    const manifest = readManifest(projectRoot);
+    if (manifest?.target) {
+      return manifest.target;
+    }
+  } catch {
+    // Invalid manifest is reported by project checks; fall back to default target
+  }
+
+  return 'expo';
+}
+
+/**
+ * Runs doctor checks and returns merged report (does not print)
+ */
+export async function runDoctor(
+  options: DoctorCommandOptions,
+  context: RuntimeContext
+): Promise<CombinedDoctorReport> {
+  // Neither flag (or both) → run everything
+  const runAll = options.env === options.project;
+  const runEnv = runAll || options.env === true;
+  const runProject = runAll || options.project === true;
+
+  const envReport = runEnv
+    ? runEnvironmentDoctor(resolveDoctorTarget(context.resolvedRoot, options.target))
+    : null;
+
+  let projectReport: ProjectDoctorReport | null = null;
+  let fixed: DoctorFinding[] = [];
+  if (runProject) {
+    projectReport = await runProjectDoctor(context.resolvedRoot, options.fix === true);
+    if (options.fix && projectReport.fixable.length > 0) {
+      fixed = applySafeFixes(context.resolvedRoot, projectReport.fixable);
+    }
+  }
+
+  return mergeDoctorReports(envReport, projectReport, fixed);
+}
+
+/**
+ * Prints merged report grouped by source, with fix instructions for failed checks
+ */
+export function printDoctorReport(report: CombinedDoctorReport, context: RuntimeContext): void {
+  const groups: Array<{ source: DoctorSource; title: string }> = [
+    { source: 'env', title: report.target ? `Environment (${report.target})` : 'Environment' },
+    { source: 'project', title: 'Project' },
+  ];
+
+  for (const group of groups) {
+    const findings = report.findings.filter(f => f.source === group.source);
+    if (findings.length === 0) {
+      continue;
+    }
+
+    context.logger.info(`${group.title}:`);
+    for (const finding of findings) {
+      const value = finding.value ? ` (${finding.value})` : '';
+      if (finding.passed) {
+        context.logger.info(`  ✓ ${finding.name}${value}`);
+        continue;
+      }
+
+      const message = finding.message ? `: ${finding.message}` : '';
+      if (finding.severity === 'error') {
+        context.logger.error(`  ✗ ${finding.name}${value}${message}`);
+      } else if (finding.severity === 'warning') {
+        context.logger.warn(`  ! ${finding.name}${value}${message}`);
+      } else {
+        context.logger.info(`  - ${finding.name}${value}${message}`);
+      }
+      if (finding.fix) {
+        context.logger.info(`    Fix: ${finding.fix}`);
+      }
+    }
+    context.logger.info('');
+  }
+
+  if (report.fixed.length > 0) {
+    context.logger.info(`Fixed (${report.fixed.length}):`);
+    for (const finding of report.fixed) {
+      context.logger.info(`  ✓ ${finding.name}${finding.message ? `: ${finding.message}` : ''}`);
+    }
+    context.logger.info('');
+  }
+
+  const summary = `Summary: ${report.errors.length} error(s), ${report.warnings.length} warning(s)`;
+  if (report.passed) {
+    context.logger.info(`✓ ${summary}`);
+  } else {
+    context.logger.error(`✗ ${summary}`);
+  }
+}
+
+/**
+ * Doctor command: runs checks, prints (or emits JSON), fails on error-severity findings
+ */
+export async function runDoctorCommand(options: DoctorCommandOptions, context: RuntimeContext): Promise<CombinedDoctorReport> {
+  const report = await runDoctor(options, context);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printDoctorReport(report, context);
+  }
+
+  if (!report.passed) {
+    throw new CliError(
+      `Doctor found ${report.errors.length} error(s): ${report.errors.map(f => f.name).join(', ')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  return report;
+}
@@ -0,0 +1,152 @@
+/**
+ * FILE: src/lib/expo-config.test.ts
+ * PURPOSE: Unit/spec tests for expo-config patches on dynamic Expo configs (app.config.js/ts)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - set / merge / append through the exported config object (object, function, variable)
+ * - Idempotency via operation markers; revert restores the source (including replaced expressions)
+ * - New properties merge with a spread config instead of hiding it
+ * - app.json patches fall back to app.config.* when app.json is absent
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdtemp, rm, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { applyDynamicConfigPatch, revertDynamicConfigPatch, resolveExpoConfigFile } from './expo-config';
+import { applyPatchOp, revertPatchOp } from './patch-ops';
+import type { ExpoConfigPatchOp } from './types/patch-ops';
+
+describe('expo-config', () => {
+  let testProjectRoot: string;
+
+  const patch = (extra: Partial<ExpoConfigPatchOp>): ExpoConfigPatchOp => ({
+    type: 'expo-config',
+    file: 'app.config.ts',
+    capabilityId: 'camera.plugin',
+    operationId: 'camera-plugin-config',
+    path: 'expo.plugins',
+    value: ['expo-camera'],
+    mode: 'append',
+    ...extra,
+  });
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-expo-config-'));
+  });
+
+  afterEach(async () => {
+    await rm(testProjectRoot, { recursive: true, force: true });
+  });
+
+  it('should append to arrays of a function-style config and revert exactly', () => {
+    const source = `import type { ExpoConfig, ConfigContext } from 'expo/config';
+
+export default ({ config }: ConfigContext): ExpoConfig => ({
+  ...config,
+  name: 'MyApp',
+  plugins: ['expo-router'],
+});
+`;
+    const patched = applyDynamicConfigPatch(source, patch({}));
+
+    expect(patched).toContain(`plugins: ['expo-router', /* @rns-patch:camera-plugin-config */ 'expo-camera'],`);
+    expect(applyDynamicConfigPatch(patched, patch({}))).toBe(patched);
+    expect(revertDynamicConfigPatch(patched, patch({}), []).content).toBe(source);
+  });
+
+  it('should set nested values and merge objects in an exported variable', () => {
+    const source = `const config = {
+  expo: {
+    name: 'MyApp',
+    ios: { supportsTablet: true },
+  },
+};
+
+module.exports = config;
+`;
+    const set = patch({ operationId: 'camera-bundle', path: 'expo.android.package', value: 'com.myapp', mode: 'set' });
+    const merge = patch({ operationId: 'camera-ios', path: 'expo.ios', value: { infoPlist: { NSCameraUsageDescription: 'Scan' } }, mode: 'merge' });
+
+    const patched = applyDynamicConfigPatch(applyDynamicConfigPatch(source, set), merge);
+
+    expect(patched).toContain(`package: /* @rns-patch:camera-bundle */ 'com.myapp'`);
+    expect(patched).toContain(`infoPlist: /* @rns-patch:camera-ios */ { NSCameraUsageDescription: 'Scan' }`);
+    expect(patched).toContain('supportsTablet: true');
+
+    const reverted = revertDynamicConfigPatch(revertDynamicConfigPatch(patched, merge, []).content, set, []).content;
+    expect(reverted).not.toContain('@rns-patch');
+    expect(reverted).not.toContain('com.myapp');
+  });
+
+  it('should restore the expressions a patch replaced', () => {
+    const source = `export default {
+  name: 'MyApp',
+  android: { package: process.env.APP_ID ?? 'com.user.app' },
+  ios: { infoPlist: { NSCameraUsageDescription: /* keep */ \`Take */ photos\` } },
+};
+`;
+    const set = patch({ operationId: 'camera-bundle', path: 'expo.android.package', value: 'com.myapp', mode: 'set' });
+    const merge = patch({ operationId: 'camera-ios', path: 'expo.ios', value: { infoPlist: { NSCameraUsageDescription: 'Scan' } }, mode: 'merge' });
+
+    const patched = applyDynamicConfigPatch(applyDynamicConfigPatch(source, set), merge);
+
+    expect(patched).toContain(`package: /* @rns-patch:camera-bundle replaced: process.env.APP_ID ?? 'com.user.app' */ 'com.myapp'`);
+    expect(patched).toContain('NSCameraUsageDescription: /* keep */ /* @rns-patch:camera-ios replaced: `Take *\\/ photos` */ \'Scan\'');
+    expect(applyDynamicConfigPatch(patched, set)).toBe(patched);
+
+    const reverted = revertDynamicConfigPatch(revertDynamicConfigPatch(patched, merge, []).content, set, []).content;
+    expect(reverted).toBe(source);
+  });
+
+  it('should merge new properties with a spread config', () => {
+    const source = `export default ({ config }) => ({
+  ...config,
+  name: 'MyApp',
+});
+`;
+    const merge = patch({ operationId: 'camera-ios', path: 'expo.ios', value: { infoPlist: { NSCameraUsageDescription: 'Scan' } }, mode: 'merge' });
+
+    const patched = applyDynamicConfigPatch(applyDynamicConfigPatch(source, patch({})), merge);
+
+    expect(patched).toContain(`plugins: /* @rns-patch:camera-plugin-config */ [...(config.plugins ?? []), 'expo-camera']`);
+    expect(patched).toContain(
+      `ios: /* @rns-patch:camera-ios */ { ...config.ios, infoPlist: { ...config.ios?.infoPlist, NSCameraUsageDescription: 'Scan' } }`
+    );
+
+    const reverted = revertDynamicConfigPatch(revertDynamicConfigPatch(patched, merge, []).content, patch({}), []).content;
+    expect(reverted).not.toContain('@rns-patch');
+    expect(reverted).not.toContain('plugins');
+  });
+
+  it('should keep entries other plugins still declare', () => {
+    const source = `export default { plugins: [] };\n`;
+    const gallery = patch({ capabilityId: 'gallery.plugin', operationId: 'gallery-plugin-config' });
+    const patched = applyDynamicConfigPatch(source, patch({}));
+
+    const result = revertDynamicConfigPatch(patched, patch({}), [gallery]);
+
+    expect(result.action).toBe('retained');
+    expect(result.retainedBy).toBe('gallery.plugin');
+    expect(result.content).toContain(`/* @rns-patch:gallery-plugin-config */ 'expo-camera'`);
+  });
+
+  it('should patch app.config.ts when a descriptor targets a missing app.json', async () => {
+    await writeFile(join(testProjectRoot, 'app.config.ts'), `export default {\n  name: 'MyApp',\n};\n`);
+    const appJsonPatch = patch({ file: 'app.json' });
+
+    expect(resolveExpoConfigFile(testProjectRoot, 'app.json')).toBe('app.config.ts');
+
+    const result = applyPatchOp(testProjectRoot, appJsonPatch, false);
+    expect(result).toMatchObject({ success: true, action: 'applied', file: 'app.config.ts' });
+    expect(applyPatchOp(testProjectRoot, appJsonPatch, false).action).toBe('skipped');
+    expect(await readFile(join(testProjectRoot, 'app.config.ts'), 'utf-8'))
+      .toContain(`plugins: /* @rns-patch:camera-plugin-config */ ['expo-camera']`);
+
+    expect(revertPatchOp(testProjectRoot, appJsonPatch, [], false).action).toBe('reverted');
+    const reverted = await readFile(join(testProjectRoot, 'app.config.ts'), 'utf-8');
+    expect(reverted).not.toContain('plugins');
+    expect(reverted).toContain(`name: 'MyApp'`);
+  });
+});
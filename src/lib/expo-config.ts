@@ -0,0 +1,513 @@
+/**
+ * FILE: src/lib/expo-config.ts
+ * PURPOSE: expo-config patch ops on dynamic Expo configs (app.config.js / app.config.ts) via ts-morph
+ * OWNERSHIP: CLI
+ *
+ * The exported config object literal is located through common shapes:
+ * - export default { ... } / module.exports = { ... }
+ * - export default ({ config }) => ({ ...config, ... }) (arrow/function, expression or return)
+ * - const config = { ... }; export default config
+ * - export default defineConfig({ ... }) (first argument)
+ * Dynamic configs usually export the Expo config itself, so a leading "expo." path segment is
+ * dropped when the object has no `expo` property.
+ *
+ * Every value written is prefixed with a `/* @rns-patch:<operationId> *\/` comment: it makes
+ * the operation idempotent and lets revert find (and hand over) exactly what was added. A value
+ * that replaced an existing expression carries it in the marker
+ * (`/* @rns-patch:<operationId> replaced: <expression> *\/`) and revert puts it back.
+ *
+ * Properties added to an object that spreads another (`({ config }) => ({ ...config })`) merge
+ * with the spread value instead of hiding it: `plugins: [...(config.plugins ?? []), ...]`,
+ * `ios: { ...config.ios, ... }`.
+ */
+
+import { basename, dirname, join } from 'path';
+import { Project, Node, SyntaxKind, IndentationText } from 'ts-morph';
+import { pathExists } from './fs';
+import type { Expression, ObjectLiteralExpression, SourceFile } from 'ts-morph';
+import type { ExpoConfigPatchOp } from './types/patch-ops';
+
+/**
+ * Dynamic config file pattern (app.config.js, app.config.ts, .mjs, .cjs)
+ */
+const DYNAMIC_CONFIG_PATTERN = /\.(js|ts|mjs|cjs)$/;
+
+/**
+ * Expo config files in the order Expo resolves them when app.json is absent
+ */
+const EXPO_CONFIG_FILES = ['app.json', 'app.config.ts', 'app.config.js', 'app.config.mjs', 'app.config.cjs'];
+
+/**
+ * Result of reverting a dynamic config patch
+ */
+export interface DynamicConfigRevert {
+  content: string;
+  action: 'reverted' | 'retained' | 'skipped';
+  retainedBy?: string;
+}
+
+/**
+ * Checks whether an expo-config patch targets a dynamic (JS/TS) config
+ */
+export function isDynamicExpoConfig(file: string): boolean {
+  return DYNAMIC_CONFIG_PATTERN.test(file);
+}
+
+/**
+ * Resolves the config file an expo-config patch should edit
+ * 
+ * Descriptors usually target app.json; projects that replaced it with a dynamic config get the
+ * patch on app.config.* instead. An existing app.json wins (a dynamic config receives it as `config`).
+ *
+ * @param projectRoot - Project root directory
+ * @param file - File declared by the patch (relative to project root)
+ * @returns File to patch (relative to project root)
+ */
+export function resolveExpoConfigFile(projectRoot: string, file: string): string {
+  if (pathExists(join(projectRoot, file)) || !EXPO_CONFIG_FILES.includes(basename(file))) {
+    return file;
+  }
+  const dir = dirname(file);
+  const candidate = EXPO_CONFIG_FILES
+    .map(name => (dir === '.' ? name : join(dir, name)))
+    .find(candidateFile => pathExists(join(projectRoot, candidateFile)));
+  return candidate ?? file;
+}
+
+/**
+ * Checks whether a patch was already applied to a dynamic config
+ */
+export function hasDynamicConfigPatch(content: string, operationId: string): boolean {
+  return createMarkerPattern(operationId).test(content);
+}
+
+/**
+ * Reads the exported config object of a JS/TS config file as plain data (never executed)
+ *
+ * Also used for other declarative configs with the same shapes (rns.config.ts).
+ *
+ * @param content - Config source
+ * @param file - File name (selects JS or TS parsing)
+ * @returns Config object
+ * @throws Error if the config object can't be located or holds non-literal values
+ */
+export function readDynamicConfigObject(content: string, file: string): Record<string, unknown> {
+  const config = findConfigObject(createSourceFile(content, file));
+  if (!isLiteralTree(config)) {
+    throw new Error('The exported config object must only contain literal values (strings, numbers, booleans, null, arrays, objects)');
+  }
+  return readLiteral(config) as Record<string, unknown>;
+}
+
+/**
+ * Applies an expo-config patch to dynamic config source
+ *
+ * @param content - app.config.js/ts source
+ * @param patch - Patch operation (set / merge / append)
+ * @returns Updated source
+ * @throws Error if the config object or a path segment can't be located statically
+ */
+export function applyDynamicConfigPatch(content: string, patch: ExpoConfigPatchOp): string {
+  if (hasDynamicConfigPatch(content, patch.operationId)) {
+    return content;
+  }
+
+  const sourceFile = createSourceFile(content, patch.file);
+  const config = findConfigObject(sourceFile);
+  const path = resolveConfigPath(config, patch.path);
+  const comment = formatPatchComment(patch.operationId);
+
+  let target = config;
+  for (const segment of path.slice(0, -1)) {
+    const property = getProperty(target, segment);
+    if (!property) {
+      const spread = getSpreadSource(target);
+      target = target.addPropertyAssignment({
+        name: formatPropertyName(segment),
+        initializer: spread ? `{ ...${accessSpread(spread, segment)} }` : '{}',
+      }).getInitializerIfKindOrThrow(SyntaxKind.ObjectLiteralExpression);
+      continue;
+    }
+    const initializer = property.getInitializer();
+    if (!initializer || !Node.isObjectLiteralExpression(initializer)) {
+      throw new Error(`Cannot patch "${patch.path}" in ${patch.file}: "${segment}" is not an object literal`);
+    }
+    target = initializer;
+  }
+
+  const key = path[path.length - 1];
+  const mode = patch.mode || 'set';
+  const existing = getProperty(target, key)?.getInitializer();
+  const spread = existing ? undefined : getSpreadSource(target);
+
+  if (mode === 'merge' && isPlainObject(patch.value) && existing && Node.isObjectLiteralExpression(existing)) {
+    mergeIntoObject(existing, patch.value, patch.operationId);
+  } else if (mode === 'merge' && isPlainObject(patch.value) && spread) {
+    setProperty(target, key, toMergedSourceLiteral(patch.value, accessSpread(spread, key)), patch.operationId);
+  } else if (mode === 'append' && existing && Node.isArrayLiteralExpression(existing)) {
+    const items = Array.isArray(patch.value) ? patch.value : [patch.value];
+    const present = existing.getElements().map(readLiteral);
+    for (const item of items) {
+      if (!present.some(value => isSameValue(value, item))) {
+        existing.addElement(`${comment} ${toSourceLiteral(item)}`);
+      }
+    }
+  } else {
+    const value = mode === 'append' && !Array.isArray(patch.value) ? [patch.value] : patch.value;
+    const source = mode === 'append' && spread
+      ? `[...(${accessSpread(spread, key)} ?? []), ${(value as unknown[]).map(toSourceLiteral).join(', ')}]`
+      : toSourceLiteral(value);
+    setProperty(target, key, source, patch.operationId);
+  }
+
+  return sourceFile.getFullText();
+}
+
+/**
+ * Reverts an expo-config patch in dynamic config source: removes marked properties and array
+ * elements (restoring the expression a marked value replaced), or hands the marker over to a
+ * retained patch declaring the same value
+ *
+ * @param content - app.config.js/ts source
+ * @param patch - Patch operation to revert
+ * @param retained - expo-config patches of plugins that stay installed (same file)
+ */
+export function revertDynamicConfigPatch(
+  content: string,
+  patch: ExpoConfigPatchOp,
+  retained: ExpoConfigPatchOp[]
+): DynamicConfigRevert {
+  if (!hasDynamicConfigPatch(content, patch.operationId)) {
+    return { content, action: 'skipped' };
+  }
+
+  const sourceFile = createSourceFile(content, patch.file);
+  const samePath = retained.filter(other => other.path === patch.path);
+
+  // Collect first, then edit (removing nodes invalidates later traversal)
+  // Leading trivia rather than getLeadingCommentRanges(): ts-morph drops comments on the previous token's line
+  const getMarker = (node: Node) => node.getFullText().slice(0, node.getLeadingTriviaWidth()).match(createMarkerPattern(patch.operationId));
+  const marked = sourceFile.getDescendants().filter((node): node is Expression => {
+    const parent = node.getParent();
+    const isValue = Node.isArrayLiteralExpression(parent) ? parent.getElements().includes(node as Expression) : Node.isPropertyAssignment(parent) && parent.getInitializer() === node;
+    return isValue && getMarker(node) !== null;
+  });
+
+  const owners = marked.map(value => findRetainingPatch(value, patch, samePath));
+  for (let i = marked.length - 1; i >= 0; i--) {
+    if (owners[i]) continue;
+    const marker = getMarker(marked[i])!;
+    const parent = marked[i].getParentOrThrow();
+    if (Node.isArrayLiteralExpression(parent)) {
+      parent.removeElement(marked[i]);
+    } else if (marker[1] !== undefined) {
+      // Replace marker and value together (setInitializer keeps the leading comment)
+      const start = marked[i].getPos() + marker.index!;
+      sourceFile.replaceText([start, marked[i].getEnd()], unescapeComment(marker[1]));
+    } else if (Node.isPropertyAssignment(parent)) {
+      parent.remove();
+    }
+  }
+
+  // Remaining markers (document order) are handed over to the retaining plugins
+  const retainedOwners = owners.filter((owner): owner is ExpoConfigPatchOp => owner !== undefined);
+  let index = 0;
+  const updated = sourceFile.getFullText().replace(createMarkerPattern(patch.operationId, 'g'), (_marker, replaced?: string) =>
+    formatPatchComment(retainedOwners[index++]?.operationId ?? patch.operationId, replaced && unescapeComment(replaced))
+  );
+  const retainedBy = retainedOwners[0]?.capabilityId;
+
+  return {
+    content: updated,
+    action: retainedBy ? 'retained' : 'reverted',
+    retainedBy,
+  };
+}
+
+/**
+ * Finds a retained patch that declares the same value as a marked node
+ */
+function findRetainingPatch(
+  value: Expression,
+  patch: ExpoConfigPatchOp,
+  samePath: ExpoConfigPatchOp[]
+): ExpoConfigPatchOp | undefined {
+  const parent = value.getParentOrThrow();
+  if (Node.isArrayLiteralExpression(parent)) {
+    const item = readLiteral(value);
+    return samePath.find(other =>
+      (Array.isArray(other.value) ? other.value : [other.value]).some(candidate => isSameValue(candidate, item))
+    );
+  }
+
+  // The patched property itself, or a key merged into it
+  const key = Node.isPropertyAssignment(parent) ? unquote(parent.getName()) : '';
+  const isMergedKey = isPlainObject(patch.value) && key in patch.value && key !== patch.path.split('.').pop();
+  if (!isMergedKey) {
+    return samePath[0];
+  }
+  return samePath.find(other => (other.mode || 'set') === 'set' || (isPlainObject(other.value) && key in other.value));
+}
+
+/**
+ * Merges object keys into an object literal (nested object literals merge recursively, new
+ * objects merge with what the literal spreads)
+ */
+function mergeIntoObject(target: ObjectLiteralExpression, value: Record<string, unknown>, operationId: string): void {
+  const spread = getSpreadSource(target);
+  for (const [key, item] of Object.entries(value)) {
+    const existing = getProperty(target, key)?.getInitializer();
+    if (isPlainObject(item) && existing && Node.isObjectLiteralExpression(existing)) {
+      mergeIntoObject(existing, item, operationId);
+    } else if (isPlainObject(item) && !existing && spread) {
+      setProperty(target, key, toMergedSourceLiteral(item, accessSpread(spread, key)), operationId);
+    } else {
+      setProperty(target, key, toSourceLiteral(item), operationId);
+    }
+  }
+}
+
+/**
+ * Sets (replaces or adds) a marked property value; a replaced expression is kept in the marker
+ */
+function setProperty(target: ObjectLiteralExpression, key: string, value: string, operationId: string): void {
+  const property = getProperty(target, key);
+  if (property) {
+    const original = property.getInitializerOrThrow().getText();
+    property.setInitializer(`${formatPatchComment(operationId, original)} ${value}`);
+  } else {
+    target.addPropertyAssignment({ name: formatPropertyName(key), initializer: `${formatPatchComment(operationId)} ${value}` });
+  }
+}
+
+/**
+ * Gets the expression an object literal spreads (e.g. "config" for `{ ...config, name }`)
+ */
+function getSpreadSource(target: ObjectLiteralExpression): string | undefined {
+  return target.getProperties().find(Node.isSpreadAssignment)?.getExpression().getText();
+}
+
+/**
+ * Accesses a key of a spread source ("config" + "ios" -> "config.ios", deeper levels optional)
+ */
+function accessSpread(source: string, key: string): string {
+  const optional = /[.[]/.test(source) ? '?.' : '';
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${source}${optional || '.'}${key}`
+    : `${source}${optional}['${key.replace(/'/g, "\\'")}']`;
+}
+
+/**
+ * Formats an object as a source literal that spreads the value it merges into (nested objects too)
+ */
+function toMergedSourceLiteral(value: Record<string, unknown>, source: string): string {
+  const entries = Object.entries(value).map(([key, item]) =>
+    `${formatPropertyName(key)}: ${isPlainObject(item) ? toMergedSourceLiteral(item, accessSpread(source, key)) : toSourceLiteral(item)}`
+  );
+  return `{ ${[`...${source}`, ...entries].join(', ')} }`;
+}
+
+/**
+ * Gets a property assignment by (unquoted) name
+ */
+function getProperty(target: ObjectLiteralExpression, key: string) {
+  return target.getProperties()
+    .filter(Node.isPropertyAssignment)
+    .find(property => unquote(property.getName()) === key);
+}
+
+/**
+ * Locates the exported config object literal
+ */
+function findConfigObject(sourceFile: SourceFile): ObjectLiteralExpression {
+  const exported =
+    sourceFile.getExportAssignment(assignment => !assignment.isExportEquals())?.getExpression() ??
+    sourceFile.getFunctions().find(fn => fn.isDefaultExport()) ??
+    sourceFile.getStatements()
+      .filter(Node.isExpressionStatement)
+      .map(statement => statement.getExpression())
+      .filter(Node.isBinaryExpression)
+      .find(binary => binary.getLeft().getText() === 'module.exports')
+      ?.getRight();
+
+  const config = exported ? resolveObjectLiteral(exported, sourceFile, 0) : undefined;
+  if (!config) {
+    throw new Error('Cannot locate the exported Expo config object (expected an object literal, a function returning one, or a variable holding one)');
+  }
+  return config;
+}
+
+/**
+ * Follows wrappers (parentheses, casts, functions, variables, calls) to an object literal
+ */
+function resolveObjectLiteral(node: Node, sourceFile: SourceFile, depth: number): ObjectLiteralExpression | undefined {
+  if (depth > 10) {
+    return undefined;
+  }
+  const next = (child: Node | undefined) => (child ? resolveObjectLiteral(child, sourceFile, depth + 1) : undefined);
+
+  if (Node.isObjectLiteralExpression(node)) {
+    return node;
+  }
+  if (Node.isParenthesizedExpression(node) || Node.isAsExpression(node) || Node.isSatisfiesExpression(node)) {
+    return next(node.getExpression());
+  }
+  if (Node.isIdentifier(node)) {
+    return next(sourceFile.getVariableDeclaration(node.getText())?.getInitializer() ?? sourceFile.getFunction(node.getText()));
+  }
+  if (Node.isCallExpression(node)) {
+    return next(node.getArguments()[0]);
+  }
+  if (Node.isArrowFunction(node) || Node.isFunctionExpression(node) || Node.isFunctionDeclaration(node)) {
+    const body = node.getBody();
+    if (body && Node.isBlock(body)) {
+      const returns = body.getStatements().filter(Node.isReturnStatement);
+      return next(returns[returns.length - 1]?.getExpression());
+    }
+    return next(body);
+  }
+  return undefined;
+}
+
+/**
+ * Splits a patch path, dropping "expo." when the config object is the Expo config itself
+ */
+function resolveConfigPath(config: ObjectLiteralExpression, path: string): string[] {
+  const segments = path.split('.');
+  if (segments[0] === 'expo' && segments.length > 1 && !getProperty(config, 'expo')) {
+    return segments.slice(1);
+  }
+  return segments;
+}
+
+/**
+ * Creates an in-memory source file (indentation follows the file's own)
+ */
+function createSourceFile(content: string, file: string): SourceFile {
+  const indent = content.match(/\n([ \t]+)\S/)?.[1] ?? '  ';
+  const project = new Project({
+    skipAddingFilesFromTsConfig: true,
+    skipFileDependencyResolution: true,
+    skipLoadingLibFiles: true,
+    useInMemoryFileSystem: true,
+    manipulationSettings: {
+      indentationText: indent.startsWith('\t')
+        ? IndentationText.Tab
+        : indent.length >= 4 ? IndentationText.FourSpaces : IndentationText.TwoSpaces,
+    },
+  });
+  const extension = file.match(DYNAMIC_CONFIG_PATTERN)?.[1] ?? 'ts';
+  return project.createSourceFile(`app.config.${extension === 'ts' ? 'ts' : 'js'}`, content);
+}
+
+/**
+ * Reads a literal expression's value (undefined for non-literal expressions)
+ */
+function readLiteral(node: Node): unknown {
+  if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+    return node.getLiteralText();
+  }
+  if (Node.isNumericLiteral(node)) {
+    return node.getLiteralValue();
+  }
+  if (Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) {
+    return node.getLiteralValue();
+  }
+  if (Node.isNullLiteral(node)) {
+    return null;
+  }
+  if (Node.isArrayLiteralExpression(node)) {
+    return node.getElements().map(readLiteral);
+  }
+  if (Node.isObjectLiteralExpression(node)) {
+    const entries = node.getProperties().map(property =>
+      Node.isPropertyAssignment(property) ? [unquote(property.getName()), readLiteral(property.getInitializerOrThrow())] : undefined
+    );
+    return entries.every(Boolean) ? Object.fromEntries(entries as Array<[string, unknown]>) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Checks that an expression is made of literals only (readLiteral reads it completely)
+ */
+function isLiteralTree(node: Node): boolean {
+  if (Node.isArrayLiteralExpression(node)) {
+    return node.getElements().every(isLiteralTree);
+  }
+  if (Node.isObjectLiteralExpression(node)) {
+    return node.getProperties().every(property =>
+      Node.isPropertyAssignment(property) && isLiteralTree(property.getInitializerOrThrow())
+    );
+  }
+  return readLiteral(node) !== undefined;
+}
+
+/**
+ * Formats a JSON value as a source literal (single-quoted strings, unquoted identifier keys)
+ */
+function toSourceLiteral(value: unknown): string {
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`;
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(toSourceLiteral).join(', ')}]`;
+  }
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value).map(([key, item]) => `${formatPropertyName(key)}: ${toSourceLiteral(item)}`);
+    return entries.length > 0 ? `{ ${entries.join(', ')} }` : '{}';
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * Quotes property names that aren't valid identifiers
+ */
+function formatPropertyName(key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? key : `'${key.replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Strips quotes from a property name
+ */
+function unquote(name: string): string {
+  return /^(['"`]).*\1$/.test(name) ? name.slice(1, -1) : name;
+}
+
+/**
+ * Formats the marker comment for an operation (with the expression it replaced, if any)
+ */
+function formatPatchComment(operationId: string, replaced?: string): string {
+  return replaced === undefined
+    ? `/* @rns-patch:${operationId} */`
+    : `/* @rns-patch:${operationId} replaced: ${replaced.replace(/\*\//g, '*\\/')} */`;
+}
+
+/**
+ * Matches an operation's marker comments (group 1: the escaped replaced expression)
+ */
+function createMarkerPattern(operationId: string, flags: string = ''): RegExp {
+  const id = operationId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`/\\* @rns-patch:${id}(?: replaced: ([\\s\\S]*?))? \\*/`, flags);
+}
+
+/**
+ * Restores a replaced expression stored in a marker comment
+ */
+function unescapeComment(text: string): string {
+  return text.replace(/\*\\\//g, '*/');
+}
+
+/**
+ * Checks for a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compares JSON values structurally
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
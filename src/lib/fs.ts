@@ -16,6 +16,7 @@ import {
   unlinkSync,
   rmdirSync,
 } from 'fs';
+import { createHash } from 'crypto';
 import { join, dirname, basename, extname } from 'path';
 import { PROJECT_STATE_FILE } from './constants';
 
@@ -112,6 +113,31 @@ export function readTextFile(filePath: string): string {
   return readFileSync(filePath, 'utf-8');
 }
 
+/**
+ * Computes sha256 hash of a file's content (hex)
+ */
+export function hashFile(filePath: string): string {
+  return createHash('sha256').update(readFileSync(filePath)).digest('hex');
+}
+
+/**
+ * Computes sha256 hashes of files under a base directory
+ *
+ * @param baseDir - Directory the file paths are relative to
+ * @param files - Relative file paths
+ * @returns Map of relative path to hash (missing files are skipped)
+ */
+export function hashFiles(baseDir: string, files: string[]): Record<string, string> {
+  const hashes: Record<string, string> = {};
+  for (const file of files) {
+    const filePath = join(baseDir, file);
+    if (isFile(filePath)) {
+      hashes[file] = hashFile(filePath);
+    }
+  }
+  return hashes;
+}
+
 /**
  * Writes a text file (non-atomic, use atomicWrite for critical files)
  */
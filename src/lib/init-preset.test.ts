@@ -0,0 +1,170 @@
+/**
+ * FILE: src/lib/init-preset.test.ts
+ * PURPOSE: Unit/spec tests for init presets (rns init --preset / --from-manifest)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Built-in presets load and pass the published schema
+ * - A preset answers init without prompts; command-line flags override it
+ * - Schema violations and target-incompatible options fail with clear errors
+ * - --from-manifest replays a project's stack, plugins (with options) and modules
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { collectInitInputs } from './init/collect-inputs';
+import { listBuiltinPresets, loadInitPreset } from './init/preset';
+import { addModuleToManifest, addPluginToManifest, createManifest } from './manifest';
+import type { RuntimeContext } from './runtime';
+import type { InitInputs } from './init/types';
+
+vi.mock('./prompts', () => {
+  const fail = () => {
+    throw new Error('Unexpected prompt');
+  };
+  return { promptText: fail, promptSelect: fail, promptMultiSelect: fail, promptConfirm: fail };
+});
+
+describe('init-preset', () => {
+  let testDir: string;
+  let context: RuntimeContext;
+
+  const writePreset = async (preset: unknown): Promise<string> => {
+    const file = join(testDir, 'company-preset.json');
+    await writeFile(file, JSON.stringify(preset));
+    return file;
+  };
+
+  beforeEach(async () => {
+    testDir = await mkdtemp(join(tmpdir(), 'rns-test-preset-'));
+    context = {
+      resolvedRoot: testDir,
+      flags: { yes: false, verbose: false, dryRun: false },
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+      runId: 'test-run-id',
+    } as RuntimeContext;
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should ship valid built-in presets', () => {
+    expect(listBuiltinPresets()).toEqual(['firebase-full', 'minimal', 'offline-first']);
+    for (const name of listBuiltinPresets()) {
+      expect(() => loadInitPreset(name, testDir)).not.toThrow();
+    }
+    expect(loadInitPreset('offline-first', testDir).selectedOptions?.offline).toEqual({ netinfo: true, outbox: true, sync: true });
+    expect(() => loadInitPreset('enterprise', testDir)).toThrow(/Preset not found: enterprise.*minimal/);
+  });
+
+  it('should collect every input from the preset without prompting', async () => {
+    const preset = await writePreset({
+      target: 'bare',
+      packageManager: 'pnpm',
+      navigationPreset: 'drawer',
+      locales: ['de', 'fr'],
+      selectedOptions: {
+        reactNavigation: true,
+        styling: 'nativewind',
+        state: { zustand: true },
+        reactNativeKeychain: true,
+      },
+      coreToggles: { svg: false },
+      plugins: ['state.zustand', { id: 'example', options: { level: 'debug' } }],
+      installCoreDependencies: false,
+    });
+
+    const inputs = await collectInitInputs({ projectName: 'MyApp', language: 'js', preset, context });
+
+    expect(inputs).toMatchObject({
+      projectName: 'MyApp',
+      destination: join(testDir, 'MyApp'),
+      target: 'bare',
+      language: 'js',
+      packageManager: 'pnpm',
+      reactNativeVersion: 'latest',
+      navigationPreset: 'drawer',
+      locales: ['en', 'de', 'fr'],
+      coreToggles: { alias: true, svg: false, fonts: true, env: true },
+      plugins: ['state.zustand', 'example'],
+      pluginOptions: { example: { level: 'debug' } },
+      installCoreDependencies: false,
+    });
+    expect(inputs.selectedOptions).toMatchObject({
+      i18n: true,
+      reactNavigation: true,
+      styling: 'nativewind',
+      state: { zustand: true },
+      reactNativeKeychain: true,
+    });
+  });
+
+  it('should let command-line flags override the preset', async () => {
+    const inputs = await collectInitInputs({ projectName: 'MyApp', target: 'expo', preset: 'firebase-full', context });
+
+    expect(inputs.target).toBe('expo');
+    expect(inputs.selectedOptions.firebase).toEqual({ firestore: true, realtimeDatabase: true, storage: true, remoteConfig: true });
+    expect(inputs.navigationPreset).toBe('stack-tabs');
+  });
+
+  it('should reject presets that violate the schema or the target', async () => {
+    const invalid = await writePreset({ target: 'web', selectedOptions: { stylng: 'nativewind' }, plugins: [{ options: {} }] });
+    await expect(collectInitInputs({ projectName: 'MyApp', preset: invalid, context })).rejects.toThrow(
+      /preset\.target: must be one of "expo", "bare"[\s\S]*preset\.selectedOptions: unknown property "stylng"[\s\S]*preset\.plugins\[0\]: does not match/
+    );
+
+    const expoOnly = await writePreset({ target: 'bare', selectedOptions: { expoRouter: true, notifications: { expo: true } } });
+    await expect(collectInitInputs({ projectName: 'MyApp', preset: expoOnly, context })).rejects.toThrow(
+      'Preset selects option(s) not available for target "bare": expoRouter, notifications.expo'
+    );
+
+    const twoSlots = await writePreset({ selectedOptions: { iap: { revenuecat: true, adapty: true } } });
+    await expect(collectInitInputs({ projectName: 'MyApp', preset: twoSlots, context })).rejects.toThrow(/more than one iap provider/);
+  });
+
+  it('should recreate the inputs of an existing project from its manifest', async () => {
+    const sourceRoot = join(testDir, 'OldApp');
+    createManifest(sourceRoot, {
+      projectName: 'OldApp',
+      destination: sourceRoot,
+      target: 'bare',
+      language: 'ts',
+      packageManager: 'yarn',
+      reactNativeVersion: '0.74',
+      navigationPreset: 'tabs-only',
+      locales: ['en', 'ru'],
+      selectedOptions: { i18n: true, theming: true, reactNavigation: true, styling: 'restyle', storage: { mmkv: true } },
+      coreToggles: { alias: true, svg: true, fonts: true, env: true },
+      plugins: [],
+      installCoreDependencies: true,
+    } as InitInputs);
+    addPluginToManifest(sourceRoot, { id: 'state.zustand', version: '1.0.0', installedAt: '2024-01-01T00:00:00.000Z' });
+    addPluginToManifest(sourceRoot, { id: 'example', version: '1.0.0', installedAt: '2024-01-01T00:00:00.000Z', options: { level: 'debug' } });
+    addModuleToManifest(sourceRoot, { id: 'auth', version: '1.0.0', installedAt: '2024-01-01T00:00:00.000Z' });
+
+    const inputs = await collectInitInputs({ projectName: 'NewApp', fromManifest: sourceRoot, context });
+
+    expect(inputs).toMatchObject({
+      projectName: 'NewApp',
+      target: 'bare',
+      packageManager: 'yarn',
+      reactNativeVersion: '0.74',
+      navigationPreset: 'tabs-only',
+      locales: ['en', 'ru'],
+      plugins: ['state.zustand', 'example'],
+      pluginOptions: { example: { level: 'debug' } },
+      modules: ['auth'],
+      moduleOptions: {},
+      installCoreDependencies: true,
+    });
+    expect(inputs.selectedOptions).toMatchObject({ theming: true, styling: 'restyle', storage: { mmkv: true } });
+
+    await expect(collectInitInputs({ projectName: 'NewApp', fromManifest: sourceRoot, preset: 'minimal', context }))
+      .rejects.toThrow('Use either --preset or --from-manifest, not both');
+    await expect(collectInitInputs({ projectName: 'NewApp', fromManifest: testDir, context }))
+      .rejects.toThrow(/Project manifest not found/);
+  });
+});
@@ -16,7 +16,7 @@ export function generateAppJsContent(inputs: InitInputs): string {
   
   // Base imports
   let imports = `import React, { useEffect } from 'react';
-import { initCore } from '@rns/runtime/core-init';
+import { initCoreAsync } from '@rns/runtime/core-init';
 `;
   
   if (inputs.selectedOptions?.i18n === true) {
@@ -87,7 +87,7 @@ export default function App() {
  */
 export default function App() {
   useEffect(() => {
-    initCore();
+    initCoreAsync();
   }, []);
 
   return (
@@ -139,7 +139,7 @@ ${content}`;
  */
 export default function App() {
   useEffect(() => {
-    initCore();
+    initCoreAsync();
   }, []);
 
   return (
@@ -30,7 +30,7 @@ export function configureExpoRouter(appRoot: string, inputs: InitInputs): void {
       let layoutImports = `import { useEffect } from 'react';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { Stack } from 'expo-router';
-import { initCore } from '@rns/runtime/core-init';
+import { initCoreAsync } from '@rns/runtime/core-init';
 // @rns-marker:imports:start
 // Plugin imports will be injected here
 // @rns-marker:imports:end
@@ -63,7 +63,7 @@ import { initCore } from '@rns/runtime/core-init';
  */
 export default function RootLayout() {
   useEffect(() => {
-    initCore();
+    initCoreAsync();
   }, []);
 
   return (
@@ -84,7 +84,7 @@ ${layoutProviders}
  */
 export default function RootLayout() {
   useEffect(() => {
-    initCore();
+    initCoreAsync();
   }, []);
 
   return (
@@ -21,13 +21,21 @@ import {
   DEFAULT_CORE_TOGGLES,
   AVAILABLE_LOCALES,
 } from './utils';
+import { getPresetPlugins, loadInitPreset, loadManifestPreset, resolvePresetSelectedOptions } from './preset';
 
 /**
  * Collects init inputs from user (or uses defaults if --yes flag is set)
+ * With --preset (or --from-manifest), the preset answers the questions it covers and the rest use the --yes defaults.
  */
 export async function collectInitInputs(options: InitOptions): Promise<InitInputs> {
   const { context } = options;
-  const isNonInteractive = context.flags.yes;
+  if (options.preset && options.fromManifest) {
+    throw new CliError('Use either --preset or --from-manifest, not both', ExitCode.VALIDATION_STATE_FAILURE);
+  }
+  const preset = options.fromManifest
+    ? loadManifestPreset(options.fromManifest, process.cwd())
+    : options.preset ? loadInitPreset(options.preset, process.cwd()) : undefined;
+  const isNonInteractive = context.flags.yes || preset !== undefined;
 
   // 1. Project name
   let projectName = options.projectName;
@@ -58,6 +66,8 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
   if (options.target) {
     // Use provided target from command-line flag
     target = options.target;
+  } else if (preset?.target) {
+    target = preset.target;
   } else if (isNonInteractive) {
     target = DEFAULT_TARGET;
   } else {
@@ -72,6 +82,8 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
   if (options.language) {
     // Use provided language from command-line flag
     language = options.language;
+  } else if (preset?.language) {
+    language = preset.language;
   } else if (isNonInteractive) {
     language = DEFAULT_LANGUAGE;
   } else {
@@ -86,6 +98,8 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
   if (options.packageManager) {
     // Use provided package manager from command-line flag
     packageManager = options.packageManager;
+  } else if (preset?.packageManager) {
+    packageManager = preset.packageManager;
   } else if (isNonInteractive) {
     packageManager = DEFAULT_PACKAGE_MANAGER;
   } else {
@@ -102,6 +116,8 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
     if (options.reactNativeVersion) {
       // Use provided React Native version from command-line flag
       reactNativeVersion = options.reactNativeVersion;
+    } else if (preset?.reactNativeVersion) {
+      reactNativeVersion = preset.reactNativeVersion;
     } else if (isNonInteractive) {
       reactNativeVersion = DEFAULT_RN_VERSION;
     } else {
@@ -142,6 +158,9 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
       // Deprecated options (always null/false - use plugin system)
       authentication: null,
     };
+    if (preset) {
+      selectedOptions = resolvePresetSelectedOptions(selectedOptions, preset, target);
+    }
   } else {
     // Build option choices based on target (section 30)
     // Common options (available for both targets)
@@ -743,7 +762,7 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
   const navigationPreset: InitInputs['navigationPreset'] | undefined =
     selectedOptions.reactNavigation
       ? isNonInteractive
-        ? DEFAULT_NAV_PRESET
+        ? preset?.navigationPreset ?? DEFAULT_NAV_PRESET
         : await promptSelect(
             'Select React Navigation preset',
             [
@@ -761,9 +780,9 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
   let locales: string[];
   if (!selectedOptions.i18n) {
     locales = [];
-  } else if (options.locales) {
-    // Use provided locales from --locales flag
-    const providedLocales = options.locales;
+  } else if (options.locales || preset?.locales) {
+    // Use provided locales from --locales flag (or the preset)
+    const providedLocales = options.locales ?? [...preset!.locales!];
     
     // Validate that all provided locale codes exist in AVAILABLE_LOCALES
     const availableCodes = AVAILABLE_LOCALES.map(l => l.code);
@@ -813,14 +832,14 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
     locales = selectedLocales;
   }
 
-  // 7. CORE toggles (always enabled - non-negotiable)
-  // All CORE features are always enabled: alias, svg, fonts, env
-  const coreToggles = DEFAULT_CORE_TOGGLES;
+  // 7. CORE toggles (always enabled unless a preset turns one off)
+  // All CORE features are enabled by default: alias, svg, fonts, env
+  const coreToggles = { ...DEFAULT_CORE_TOGGLES, ...preset?.coreToggles };
 
   // 8. Optional plugins (checkbox list from registry)
   // For now, plugins registry is not yet implemented, so we'll skip this
   // This will be implemented when plugin framework is ready
-  const plugins: string[] = [];
+  const { plugins, pluginOptions, modules, moduleOptions } = preset ? getPresetPlugins(preset) : { plugins: [] as string[] };
   if (!isNonInteractive) {
     const applyPlugins = await promptConfirm(
       'Apply plugins after init? (plugin system not yet implemented) (default: yes)',
@@ -831,7 +850,7 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
 
   // 9. Install CORE dependencies (default: yes)
   const installCoreDependencies = isNonInteractive
-    ? true
+    ? preset?.installCoreDependencies ?? true
     : await promptConfirm('Install CORE dependencies? (default: yes)', true);
 
   return {
@@ -846,6 +865,9 @@ export async function collectInitInputs(options: InitOptions): Promise<InitInput
     selectedOptions,
     coreToggles,
     plugins,
+    pluginOptions,
+    modules,
+    moduleOptions,
     installCoreDependencies,
   };
 }
@@ -162,12 +162,15 @@ export function initializeCliFolders(appRoot: string): void {
  * TEMPLATES REQUIRED (section 05):
  * - Must use templates/base via attachment engine
  * - Do NOT generate packages directly - use attachPack() instead
+ *
+ * @param include - Restricts the attachment to these pack-relative paths (rns adopt attaches packages/@rns only)
  */
 export function installWorkspacePackages(
   appRoot: string,
   inputs: InitInputs,
   stepRunner: ReturnType<typeof createStepRunner>,
-  context: RuntimeContext
+  context: RuntimeContext,
+  include?: string[]
 ): void {
   stepRunner.start('Install workspace packages via attachment engine');
   
@@ -194,6 +197,7 @@ export function installWorkspacePackages(
       mode: 'CORE',
       options: inputs.coreToggles,
       dryRun: false,
+      include,
     });
     
     // Log attachment report using context logger
@@ -275,17 +279,22 @@ function configureWorkspacesInHostPackageJson(
   // Ensure private: true (required for workspace packages)
   hostPackageJson.private = true;
   
-  // Add workspaces configuration
+  // Add workspaces configuration (keeping globs an existing app already declares)
+  const withRnsWorkspaces = (existing: unknown): string[] => {
+    const globs = Array.isArray(existing) ? existing.filter((glob): glob is string => typeof glob === 'string') : [];
+    return Array.from(new Set([...globs, 'packages/*', 'packages/@rns/*']));
+  };
   if (inputs.packageManager === 'pnpm') {
     hostPackageJson.pnpm = {
       ...hostPackageJson.pnpm,
-      workspaces: ['packages/*', 'packages/@rns/*'],
+      workspaces: withRnsWorkspaces(hostPackageJson.pnpm?.workspaces),
     };
-  } else if (inputs.packageManager === 'yarn') {
-    hostPackageJson.workspaces = ['packages/*', 'packages/@rns/*'];
+  } else if (hostPackageJson.workspaces && !Array.isArray(hostPackageJson.workspaces)) {
+    // yarn object form: { packages: [...], nohoist: [...] }
+    hostPackageJson.workspaces.packages = withRnsWorkspaces(hostPackageJson.workspaces.packages);
   } else {
-    // npm
-    hostPackageJson.workspaces = ['packages/*', 'packages/@rns/*'];
+    // npm / yarn
+    hostPackageJson.workspaces = withRnsWorkspaces(hostPackageJson.workspaces);
   }
   
   writeJsonFile(hostPackageJsonPath, hostPackageJson);
@@ -35,6 +35,7 @@ import {
   verifyMetroConfigLoads,
   runBootSanityChecks,
   applyPlugins,
+  applyModules,
   printNextSteps,
   ensureAppNpmRc,
   ensureReactPeerCompatibility,
@@ -354,8 +355,9 @@ export async function runInit(options: InitOptions): Promise<void> {
     // 11. Run boot sanity checks
     runBootSanityChecks(appRoot, inputs, stepRunner);
     
-    // 12. Apply plugins if selected
+    // 12. Apply plugins if selected, then modules (preset / --from-manifest)
     await applyPlugins(appRoot, inputs.plugins, inputs, options.context, stepRunner);
+    await applyModules(appRoot, inputs, options.context, stepRunner);
     
     // 13. Print next steps
     printNextSteps(appRoot, inputs);
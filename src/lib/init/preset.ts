@@ -0,0 +1,211 @@
+/**
+ * FILE: src/lib/init/preset.ts
+ * PURPOSE: Init presets (--preset) - answers for a non-interactive `rns init`
+ * OWNERSHIP: CLI
+ *
+ * A preset is a built-in name (templates/presets/<name>.json) or a path to a JSON file.
+ * Presets are validated against templates/presets/init-preset.schema.json, then against the
+ * chosen target (Expo-only / Bare-only options, single-slot categories).
+ * Precedence: command-line flags > preset > `--yes` defaults.
+ *
+ * --from-manifest replays an existing project manifest the same way: the manifest is turned
+ * into a preset (stack, options, installed plugins/modules with their recorded options).
+ */
+
+import { basename, join, resolve } from 'path';
+import { readdirSync } from 'fs';
+import { CliError, ExitCode } from '../errors';
+import { isDirectory, isFile, readJsonFile } from '../fs';
+import { resolveCliRoot } from '../pack-locations';
+import { validateJsonSchema, type JsonSchema } from '../json-schema';
+import { getManifestSelectedOptions, validateManifest } from '../manifest';
+import { migrateManifestSchema, type StoredManifest } from '../manifest-migrations';
+import { PROJECT_STATE_FILE } from '../constants';
+import type { InitInputs, InitPreset } from './types';
+import type { InstalledPluginRecord, RnsProjectManifest } from '../types/manifest';
+
+/**
+ * Built-in presets and the published schema (relative to the CLI root)
+ */
+export const PRESETS_DIR = 'templates/presets';
+export const INIT_PRESET_SCHEMA_FILE = 'init-preset.schema.json';
+
+/**
+ * Options that only exist for one target
+ */
+export const EXPO_ONLY_OPTIONS = [
+  'expoRouter', 'expoLinking', 'expoStatusBar', 'expoSystemUI', 'expoWebBrowser', 'expoDevClient',
+  'expoVectorIcons', 'expoImage', 'expoLinearGradient', 'expoHaptics', 'expoDevice', 'notifications.expo',
+];
+export const BARE_ONLY_OPTIONS = [
+  'reactNativeKeychain', 'reactNativeFS', 'reactNativePermissions', 'reactNativeFastImage',
+  'nativeModulesSupport', 'media.visionCamera',
+];
+
+/**
+ * Categories where at most one option can be selected
+ */
+const SINGLE_SLOT_CATEGORIES = ['iap', 'ota'] as const;
+
+/**
+ * Lists built-in preset names
+ */
+export function listBuiltinPresets(): string[] {
+  const dir = join(resolveCliRoot(), PRESETS_DIR);
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json') && file !== INIT_PRESET_SCHEMA_FILE)
+    .map(file => basename(file, '.json'))
+    .sort();
+}
+
+/**
+ * Loads and validates a preset
+ *
+ * @param spec - Built-in preset name or path to a preset JSON file
+ * @param cwd - Directory relative paths are resolved against
+ * @throws CliError for unknown presets or schema violations
+ */
+export function loadInitPreset(spec: string, cwd: string): InitPreset {
+  const filePath = resolvePresetFile(spec, cwd);
+  const preset = readJsonFile<unknown>(filePath);
+  const schema = readJsonFile<JsonSchema>(join(resolveCliRoot(), PRESETS_DIR, INIT_PRESET_SCHEMA_FILE));
+
+  const errors = validateJsonSchema(preset, schema, 'preset');
+  if (errors.length > 0) {
+    throw new CliError(
+      `Invalid preset ${filePath}:\n${errors.map(error => `  - ${error}`).join('\n')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return preset as InitPreset;
+}
+
+/**
+ * Loads a project manifest as a preset (--from-manifest)
+ *
+ * @param spec - Manifest file, or a project directory containing one
+ * @param cwd - Directory relative paths are resolved against
+ * @throws CliError if the manifest is missing or invalid
+ */
+export function loadManifestPreset(spec: string, cwd: string): InitPreset {
+  const resolved = resolve(cwd, spec);
+  const filePath = isDirectory(resolved) ? join(resolved, PROJECT_STATE_FILE) : resolved;
+  if (!isFile(filePath)) {
+    throw new CliError(`Project manifest not found: ${filePath}`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const manifest = readJsonFile<StoredManifest>(filePath);
+  const validation = validateManifest(manifest);
+  if (!validation.valid) {
+    throw new CliError(
+      `Invalid project manifest ${filePath}: ${validation.errors?.join(', ')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return presetFromManifest(migrateManifestSchema(manifest).manifest);
+}
+
+/**
+ * Converts a project manifest into the preset that recreates it
+ */
+export function presetFromManifest(manifest: RnsProjectManifest): InitPreset {
+  const toEntry = (record: InstalledPluginRecord) =>
+    record.options && Object.keys(record.options).length > 0 ? { id: record.id, options: record.options } : record.id;
+
+  return {
+    target: manifest.target,
+    language: manifest.language,
+    packageManager: manifest.packageManager,
+    reactNativeVersion: manifest.reactNativeVersion,
+    navigationPreset: manifest.navigationPreset,
+    locales: manifest.locales && manifest.locales.length > 0 ? manifest.locales : undefined,
+    selectedOptions: getManifestSelectedOptions(manifest),
+    coreToggles: manifest.coreToggles,
+    plugins: manifest.plugins.map(toEntry),
+    modules: (manifest.modules || []).map(toEntry),
+  };
+}
+
+/**
+ * Applies a preset's selectedOptions over the `--yes` defaults for the chosen target
+ *
+ * @param defaults - Non-interactive selectedOptions for the target
+ * @param preset - Validated preset
+ * @param target - Chosen target
+ * @throws CliError if the preset selects options the target doesn't support or fills a single slot twice
+ */
+export function resolvePresetSelectedOptions(
+  defaults: InitInputs['selectedOptions'],
+  preset: InitPreset,
+  target: InitInputs['target']
+): InitInputs['selectedOptions'] {
+  const selected = preset.selectedOptions || {};
+  const unsupported = (target === 'expo' ? BARE_ONLY_OPTIONS : EXPO_ONLY_OPTIONS)
+    .filter(option => getOption(selected, option) === true);
+  if (unsupported.length > 0) {
+    throw new CliError(
+      `Preset selects option(s) not available for target "${target}": ${unsupported.join(', ')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  for (const category of SINGLE_SLOT_CATEGORIES) {
+    const chosen = Object.entries(selected[category] || {}).filter(([, enabled]) => enabled).map(([key]) => key);
+    if (chosen.length > 1) {
+      throw new CliError(
+        `Preset selects more than one ${category} provider (${chosen.join(', ')}); only one is allowed`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+  }
+
+  return { ...defaults, ...selected };
+}
+
+/**
+ * Splits preset plugin and module entries into IDs and per-ID options
+ */
+export function getPresetPlugins(
+  preset: InitPreset
+): Pick<InitInputs, 'plugins' | 'pluginOptions' | 'modules' | 'moduleOptions'> {
+  const split = (list: InitPreset['plugins']) => {
+    const entries = (list || []).map(entry => (typeof entry === 'string' ? { id: entry } : entry));
+    return {
+      ids: entries.map(entry => entry.id),
+      options: Object.fromEntries(entries.filter(entry => entry.options).map(entry => [entry.id, entry.options!])),
+    };
+  };
+  const plugins = split(preset.plugins);
+  const modules = split(preset.modules);
+  return { plugins: plugins.ids, pluginOptions: plugins.options, modules: modules.ids, moduleOptions: modules.options };
+}
+
+/**
+ * Resolves a preset spec to a file (existing path first, then built-in name)
+ */
+function resolvePresetFile(spec: string, cwd: string): string {
+  const filePath = resolve(cwd, spec);
+  if (isFile(filePath)) {
+    return filePath;
+  }
+
+  const builtin = join(resolveCliRoot(), PRESETS_DIR, `${spec}.json`);
+  if (/^[a-z0-9-]+$/.test(spec) && isFile(builtin)) {
+    return builtin;
+  }
+
+  throw new CliError(
+    `Preset not found: ${spec}. Use a path to a preset JSON file or a built-in preset: ${listBuiltinPresets().join(', ')}`,
+    ExitCode.VALIDATION_STATE_FAILURE
+  );
+}
+
+/**
+ * Reads a (possibly nested, dot-separated) selected option
+ */
+function getOption(selected: Partial<InitInputs['selectedOptions']>, option: string): unknown {
+  return option.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    selected
+  );
+}
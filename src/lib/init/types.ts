@@ -15,6 +15,10 @@ export interface InitOptions {
   reactNativeVersion?: string;
   platforms?: string[];
   locales?: string[];
+  /** Built-in preset name or path to a preset JSON file (--preset) */
+  preset?: string;
+  /** Project manifest to replay (--from-manifest): file or project directory */
+  fromManifest?: string;
   context: RuntimeContext;
 }
 
@@ -219,5 +223,27 @@ export interface InitInputs {
     env: boolean;
   };
   plugins: string[]; // Plugin IDs to apply after init
+  pluginOptions?: Record<string, Record<string, unknown>>; // Options per plugin ID (from a preset)
+  modules?: string[]; // Module IDs to generate after plugins (from a preset/manifest)
+  moduleOptions?: Record<string, Record<string, unknown>>; // Options per module ID
   installCoreDependencies: boolean; // Whether to install CORE dependencies during init
 }
+
+/**
+ * Init preset (--preset): answers for a non-interactive init
+ * Schema: templates/presets/init-preset.schema.json
+ */
+export interface InitPreset {
+  description?: string;
+  target?: InitInputs['target'];
+  language?: InitInputs['language'];
+  packageManager?: InitInputs['packageManager'];
+  reactNativeVersion?: string;
+  navigationPreset?: InitInputs['navigationPreset'];
+  locales?: string[];
+  selectedOptions?: Partial<InitInputs['selectedOptions']>;
+  coreToggles?: Partial<InitInputs['coreToggles']>;
+  plugins?: Array<string | { id: string; options?: Record<string, unknown> }>;
+  modules?: Array<string | { id: string; options?: Record<string, unknown> }>;
+  installCoreDependencies?: boolean;
+}
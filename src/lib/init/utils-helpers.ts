@@ -18,6 +18,8 @@ import { generateCoreContracts } from '../core-contracts';
 import { generateRuntimeComposition } from '../runtime-composition';
 import { configureImportAliases, configureSvgPipeline, configureFontsPipeline, configureEnvPipeline, configureBaseScripts } from '../dx-config';
 import { generateCiCdWorkflows } from '../cicd-workflows';
+import { addPlugins } from '../plugin';
+import { addModules } from '../module';
 import type { InitInputs } from './types';
 import type { RuntimeContext } from '../runtime';
 
@@ -284,11 +286,57 @@ export async function applyPlugins(
   
   stepRunner.start('Apply plugins');
   
-  // TODO: Apply plugins using standard plugin apply pipeline (section 13)
+  // Standard plugin apply pipeline (section 13), run against the new app
+  const results = await addPlugins(
+    plugins,
+    { yes: true, verbose: context.flags.verbose, pluginOptions: inputs.pluginOptions },
+    { ...context, resolvedRoot: appRoot }
+  );
+  const failed = results.filter(result => !result.success && !result.skipped);
+  if (failed.length > 0) {
+    throw new CliError(
+      `Failed to apply plugin(s): ${failed.map(result => `${result.pluginId} (${result.error})`).join('; ')}\n` +
+        `The project was created; retry from ${appRoot} with: rns plugin add ${failed.map(result => result.pluginId).join(' ')}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
   
   stepRunner.ok('Apply plugins');
 }
 
+/**
+ * Generates modules after init (from a preset or a replayed manifest)
+ */
+export async function applyModules(
+  appRoot: string,
+  inputs: InitInputs,
+  context: RuntimeContext,
+  stepRunner: ReturnType<typeof createStepRunner>
+): Promise<void> {
+  const modules = inputs.modules || [];
+  if (modules.length === 0) {
+    return;
+  }
+
+  stepRunner.start('Generate modules');
+
+  const results = await addModules(
+    modules,
+    { yes: true, verbose: context.flags.verbose, moduleOptions: inputs.moduleOptions },
+    { ...context, resolvedRoot: appRoot }
+  );
+  const failed = results.filter(result => !result.success && !result.skipped);
+  if (failed.length > 0) {
+    throw new CliError(
+      `Failed to generate module(s): ${failed.map(result => `${result.moduleId} (${result.error})`).join('; ')}\n` +
+        `The project was created; retry from ${appRoot} with: rns module add ${failed.map(result => result.moduleId).join(' ')}`,
+      ExitCode.GENERIC_FAILURE
+    );
+  }
+
+  stepRunner.ok('Generate modules');
+}
+
 /**
  * Prints next steps for the user
  */
@@ -0,0 +1,125 @@
+/**
+ * FILE: src/lib/json-schema.ts
+ * PURPOSE: Minimal JSON Schema validation for the schemas the CLI publishes (templates/**.schema.json)
+ * OWNERSHIP: CLI
+ *
+ * Supports the draft-07 subset those schemas use: type, enum, properties, required,
+ * additionalProperties, items, anyOf, minItems, minLength, pattern. Other keywords
+ * ($schema, $id, title, description, ...) are ignored.
+ */
+
+/**
+ * JSON Schema (supported subset)
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  minItems?: number;
+  minLength?: number;
+  pattern?: string;
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+/**
+ * Validates a value against a schema
+ *
+ * @param value - Value to validate
+ * @param schema - JSON Schema
+ * @param path - Path of the value in error messages
+ * @returns Error messages ("<path>: <problem>"), empty when valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => validateJsonSchema(value, option, path).length === 0);
+    if (!matches) {
+      return [`${path}: does not match any allowed shape`];
+    }
+  }
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => isType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+    return [`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`];
+  }
+
+  const errors: string[] = [];
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must not be empty`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${index}]`)));
+    }
+  }
+
+  if (isType(value, 'object')) {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (!(key in object)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+    for (const [key, item] of Object.entries(object)) {
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        errors.push(...validateJsonSchema(item, propertySchema, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unknown property "${key}"`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Checks a value against a JSON Schema type
+ */
+function isType(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Describes a value's JSON type for error messages
+ */
+function describeType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  return Array.isArray(value) ? 'array' : typeof value;
+}
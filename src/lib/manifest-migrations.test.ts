@@ -0,0 +1,192 @@
+/**
+ * FILE: src/lib/manifest-migrations.test.ts
+ * PURPOSE: Unit/spec tests for versioned manifest migrations (schema 1.0.0 -> 2.0.0)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Migrations form an ordered chain ending at the current schema version
+ * - 1.0.0 -> 2.0.0 normalizes selectedOptions into initOptions records (deprecated options mapped)
+ * - Plugin/module sources are recorded and owned file hashes computed from the project
+ * - initOptions records convert back into selectedOptions
+ * - Unknown/newer schema versions fail with a clear error
+ * - Writing an upgraded manifest keeps a backup of the old file
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { createHash } from 'crypto';
+import {
+  MANIFEST_MIGRATIONS,
+  fromInitOptionRecords,
+  migrateManifestSchema,
+  toInitOptionRecords,
+  type StoredManifest,
+} from './manifest-migrations';
+import { getManifestSelectedOptions, migrateManifestFile, readManifest, writeManifest } from './manifest';
+import { CLI_BACKUPS_DIR, PROJECT_STATE_FILE } from './constants';
+import { CURRENT_MANIFEST_SCHEMA_VERSION } from './types/manifest';
+
+const sha256 = (content: string) => createHash('sha256').update(content).digest('hex');
+
+function createV1Manifest(overrides: Partial<StoredManifest> = {}): StoredManifest {
+  return {
+    schemaVersion: '1.0.0',
+    cliVersion: '0.3.0',
+    workspaceModel: 'Option A',
+    identity: { name: 'LegacyApp' },
+    target: 'bare',
+    language: 'ts',
+    packageManager: 'yarn',
+    selectedOptions: {
+      i18n: true,
+      theming: false,
+      reactNavigation: true,
+      styling: 'nativewind',
+      state: { zustand: true, mobx: false },
+      storage: { mmkv: true },
+      authentication: 'firebase',
+    },
+    plugins: [
+      { id: 'state.zustand', version: '1.0.0', installedAt: '2024-01-02T00:00:00.000Z', ownedFiles: ['index.ts', 'gone.ts'] },
+      {
+        id: 'example',
+        version: '1.0.0',
+        installedAt: '2024-01-02T00:00:00.000Z',
+        source: { type: 'local', path: 'rns-plugins/example' },
+      },
+    ],
+    modules: [
+      { id: 'auth', version: '1.0.0', installedAt: '2024-01-03T00:00:00.000Z', ownedFiles: ['src/modules/auth/index.ts'] },
+    ],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-03T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('manifest-migrations', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'rns-test-migrations-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should chain migrations in order up to the current schema', () => {
+    MANIFEST_MIGRATIONS.forEach((migration, index) => {
+      if (index > 0) {
+        expect(migration.from).toBe(MANIFEST_MIGRATIONS[index - 1].to);
+      }
+    });
+    expect(MANIFEST_MIGRATIONS[MANIFEST_MIGRATIONS.length - 1].to).toBe(CURRENT_MANIFEST_SCHEMA_VERSION);
+  });
+
+  it('should up-convert a 1.0.0 manifest to 2.0.0', () => {
+    const legacy = createV1Manifest();
+    const { manifest, applied, warnings } = migrateManifestSchema(legacy);
+
+    expect(applied.map(migration => `${migration.from}->${migration.to}`)).toEqual(['1.0.0->2.0.0']);
+    expect(warnings).toEqual([]);
+    expect(manifest.schemaVersion).toBe('2.0.0');
+    expect('selectedOptions' in manifest).toBe(false);
+    expect(manifest.initOptions).toEqual(
+      ['i18n', 'reactNavigation', 'styling.nativewind', 'state.zustand', 'storage.mmkv', 'auth.firebase'].map(id => ({
+        id,
+        version: '0.3.0',
+        installedAt: '2024-01-01T00:00:00.000Z',
+        source: { type: 'init' },
+      }))
+    );
+    expect(manifest.plugins.map(plugin => plugin.source)).toEqual([
+      { type: 'builtin' },
+      { type: 'local', path: 'rns-plugins/example' },
+    ]);
+    expect(manifest.modules![0].source).toEqual({ type: 'builtin' });
+    expect(manifest).toMatchObject({ identity: { name: 'LegacyApp' }, target: 'bare', createdAt: '2024-01-01T00:00:00.000Z' });
+
+    // Input is not modified
+    expect(legacy.schemaVersion).toBe('1.0.0');
+    expect(legacy.selectedOptions?.authentication).toBe('firebase');
+  });
+
+  it('should hash owned files that exist in the project', async () => {
+    await mkdir(join(projectRoot, 'packages', '@rns', 'state', 'zustand'), { recursive: true });
+    await writeFile(join(projectRoot, 'packages', '@rns', 'state', 'zustand', 'index.ts'), 'export const store = 1;\n');
+    await mkdir(join(projectRoot, 'src', 'modules', 'auth'), { recursive: true });
+    await writeFile(join(projectRoot, 'src', 'modules', 'auth', 'index.ts'), 'export const auth = 1;\n');
+
+    const { manifest } = migrateManifestSchema(createV1Manifest(), projectRoot);
+
+    expect(manifest.plugins[0].fileHashes).toEqual({ 'index.ts': sha256('export const store = 1;\n') });
+    expect(manifest.plugins[1].fileHashes).toBeUndefined();
+    expect(manifest.modules![0].fileHashes).toEqual({ 'src/modules/auth/index.ts': sha256('export const auth = 1;\n') });
+  });
+
+  it('should warn about deprecated options without a replacement', () => {
+    const legacy = createV1Manifest();
+    legacy.selectedOptions!.authentication = 'supabase';
+
+    const { manifest, warnings } = migrateManifestSchema(legacy);
+
+    expect(warnings).toEqual(['selectedOptions.authentication "supabase" has no replacement option (dropped)']);
+    expect(manifest.initOptions.map(option => option.id)).not.toContain('auth.firebase');
+  });
+
+  it('should convert initOptions records back into selectedOptions', () => {
+    const records = toInitOptionRecords(
+      { i18n: false, theming: true, reactNavigation: false, styling: 'restyle', offline: { netinfo: true, sync: true }, expoRouter: true },
+      '2024-01-01T00:00:00.000Z',
+      '1.0.0'
+    );
+
+    expect(records.map(record => record.id)).toEqual(['theming', 'styling.restyle', 'offline.netinfo', 'offline.sync', 'expoRouter']);
+    expect(fromInitOptionRecords(records)).toEqual({
+      i18n: false,
+      theming: true,
+      reactNavigation: false,
+      styling: 'restyle',
+      offline: { netinfo: true, sync: true },
+      expoRouter: true,
+    });
+    expect(getManifestSelectedOptions(migrateManifestSchema(createV1Manifest()).manifest)).toMatchObject({
+      i18n: true,
+      styling: 'nativewind',
+      state: { zustand: true },
+      auth: { firebase: true },
+    });
+  });
+
+  it('should reject unknown or newer schema versions', () => {
+    expect(() => migrateManifestSchema(createV1Manifest({ schemaVersion: '9.0.0' as never }))).toThrow(
+      /Cannot migrate project manifest from schema 9\.0\.0 \(this CLI supports up to 2\.0\.0\)/
+    );
+    expect(() => migrateManifestSchema(createV1Manifest({ schemaVersion: undefined }))).toThrow(/from schema \(missing\)/);
+  });
+
+  it('should read old manifests migrated and back them up when the file is upgraded', async () => {
+    const manifestPath = join(projectRoot, PROJECT_STATE_FILE);
+    const legacy = JSON.stringify(createV1Manifest(), null, 2);
+    await writeFile(manifestPath, legacy);
+
+    const read = readManifest(projectRoot)!;
+    expect(read.schemaVersion).toBe('2.0.0');
+    expect(await readFile(manifestPath, 'utf-8')).toBe(legacy);
+
+    writeManifest(projectRoot, read);
+    const backups = await readdir(join(projectRoot, CLI_BACKUPS_DIR));
+    expect(backups).toHaveLength(1);
+    expect(backups[0]).toMatch(/-manifest-1\.0\.0$/);
+    expect(await readFile(join(projectRoot, CLI_BACKUPS_DIR, backups[0], PROJECT_STATE_FILE), 'utf-8')).toBe(legacy);
+    expect(JSON.parse(await readFile(manifestPath, 'utf-8')).schemaVersion).toBe('2.0.0');
+
+    // Current manifests are neither migrated nor backed up again
+    expect(migrateManifestFile(projectRoot)).toBeNull();
+    writeManifest(projectRoot, read);
+    expect(await readdir(join(projectRoot, CLI_BACKUPS_DIR))).toHaveLength(1);
+  });
+});
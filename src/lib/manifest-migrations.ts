@@ -0,0 +1,200 @@
+/**
+ * FILE: src/lib/manifest-migrations.ts
+ * PURPOSE: Versioned project manifest migrations (section 13)
+ * OWNERSHIP: CLI
+ *
+ * Migrations are ordered: each one upgrades exactly one schema version to the next, and
+ * migrateManifestSchema() chains them from the manifest's version up to
+ * CURRENT_MANIFEST_SCHEMA_VERSION. Migrators are pure up-conversions of the parsed manifest
+ * (they may read the project to fill new fields, never write); persisting the result and
+ * backing up the old manifest is done by src/lib/manifest.ts.
+ *
+ * Adding a schema version: extend ManifestSchemaVersion, bump CURRENT_MANIFEST_SCHEMA_VERSION
+ * and append a migration from the previous version here.
+ */
+
+import { hashFiles } from './fs';
+import { resolvePackDestinationPath } from './pack-locations';
+import { CliError, ExitCode } from './errors';
+import {
+  CURRENT_MANIFEST_SCHEMA_VERSION,
+  type InstalledPluginRecord,
+  type ManifestSchemaVersion,
+  type RnsProjectManifest,
+} from './types/manifest';
+import type { InitInputs } from './init/types';
+
+/**
+ * Init-selected options as stored in schema 1.0.0 manifests (selectedOptions)
+ */
+export type LegacySelectedOptions = InitInputs['selectedOptions'];
+
+/**
+ * Manifest as parsed from disk (any schema version)
+ */
+export type StoredManifest = Partial<RnsProjectManifest> & {
+  /** Schema 1.0.0 */
+  selectedOptions?: LegacySelectedOptions;
+};
+
+/**
+ * Context passed to migrators
+ */
+export interface ManifestMigrationContext {
+  /** Project root (enables migrations that read project files, e.g. owned file hashes) */
+  projectRoot?: string;
+  /** Collects non-fatal notes (dropped options, skipped files) */
+  warnings: string[];
+}
+
+/**
+ * One schema step (from -> to)
+ */
+export interface ManifestMigration {
+  from: ManifestSchemaVersion;
+  to: ManifestSchemaVersion;
+  description: string;
+  up(manifest: StoredManifest, context: ManifestMigrationContext): StoredManifest;
+}
+
+/**
+ * Result of migrating a manifest to the current schema
+ */
+export interface ManifestMigrationResult {
+  manifest: RnsProjectManifest;
+  /** Applied migrations, oldest first (empty if the manifest was current) */
+  applied: ManifestMigration[];
+  warnings: string[];
+}
+
+/**
+ * selectedOptions keys holding a string value (recorded as "<key>.<value>")
+ */
+const VALUE_OPTIONS = ['styling'] as const;
+
+/**
+ * selectedOptions keys that are no longer recorded
+ */
+const DEPRECATED_OPTIONS = ['authentication'];
+
+/**
+ * Ordered migrations (each `from` is the previous entry's `to`)
+ */
+export const MANIFEST_MIGRATIONS: ManifestMigration[] = [
+  {
+    from: '1.0.0',
+    to: '2.0.0',
+    description: 'Normalize selectedOptions into initOptions records; record plugin sources and owned file hashes',
+    up(manifest, context) {
+      const { selectedOptions, ...rest } = manifest;
+      const options = selectedOptions ? { ...selectedOptions } : undefined;
+
+      // Deprecated `authentication` maps to the auth plugin options that replaced it
+      if (options?.authentication === 'firebase') {
+        options.auth = { ...options.auth, firebase: true };
+      } else if (options?.authentication) {
+        context.warnings.push(`selectedOptions.authentication "${options.authentication}" has no replacement option (dropped)`);
+      }
+
+      const installedAt = manifest.createdAt || new Date().toISOString();
+      const version = manifest.cliVersion || '0.0.0';
+      const withDefaults = (record: InstalledPluginRecord, baseDir: string | undefined): InstalledPluginRecord => ({
+        ...record,
+        source: record.source || { type: 'builtin' },
+        fileHashes: record.fileHashes || (baseDir && record.ownedFiles ? hashFiles(baseDir, record.ownedFiles) : undefined),
+      });
+      const projectRoot = context.projectRoot;
+
+      return {
+        ...rest,
+        schemaVersion: '2.0.0',
+        initOptions: options ? toInitOptionRecords(options, installedAt, version) : [],
+        // Plugin owned files are pack-relative, module owned files project-relative
+        plugins: (manifest.plugins || []).map(plugin =>
+          withDefaults(plugin, projectRoot && resolvePackDestinationPath('plugin', plugin.id, projectRoot))
+        ),
+        modules: manifest.modules?.map(module => withDefaults(module, projectRoot)),
+      };
+    },
+  },
+];
+
+/**
+ * Migrates a manifest to CURRENT_MANIFEST_SCHEMA_VERSION
+ *
+ * @param manifest - Parsed manifest (not modified)
+ * @param projectRoot - Project root, for migrations that read project files
+ * @returns Migrated manifest and the applied migrations
+ * @throws CliError if the schema version is missing, unknown or newer than this CLI supports
+ */
+export function migrateManifestSchema(manifest: StoredManifest, projectRoot?: string): ManifestMigrationResult {
+  const context: ManifestMigrationContext = { projectRoot, warnings: [] };
+  const applied: ManifestMigration[] = [];
+  let current: StoredManifest = manifest;
+
+  while (current.schemaVersion !== CURRENT_MANIFEST_SCHEMA_VERSION) {
+    const migration = MANIFEST_MIGRATIONS.find(m => m.from === current.schemaVersion);
+    if (!migration) {
+      throw new CliError(
+        `Cannot migrate project manifest from schema ${current.schemaVersion ?? '(missing)'} ` +
+        `(this CLI supports up to ${CURRENT_MANIFEST_SCHEMA_VERSION}). Update the CLI or restore the manifest from .rns/backups.`,
+        ExitCode.INVALID_STATE
+      );
+    }
+    current = { ...migration.up(current, context), schemaVersion: migration.to };
+    applied.push(migration);
+  }
+
+  return { manifest: current as RnsProjectManifest, applied, warnings: context.warnings };
+}
+
+/**
+ * Checks if a schema version can be migrated to the current one
+ */
+export function isMigratableSchemaVersion(version: string | undefined): boolean {
+  return MANIFEST_MIGRATIONS.some(migration => migration.from === version);
+}
+
+/**
+ * Converts init selectedOptions into initOptions records
+ * true -> "<key>", nested true -> "<key>.<sub>", string -> "<key>.<value>"; false/null are skipped
+ */
+export function toInitOptionRecords(
+  selectedOptions: Partial<LegacySelectedOptions>,
+  installedAt: string,
+  version: string
+): InstalledPluginRecord[] {
+  const ids: string[] = [];
+  for (const [key, value] of Object.entries(selectedOptions)) {
+    if (DEPRECATED_OPTIONS.includes(key)) {
+      continue;
+    }
+    if (value === true) {
+      ids.push(key);
+    } else if (typeof value === 'string') {
+      ids.push(`${key}.${value}`);
+    } else if (value && typeof value === 'object') {
+      ids.push(...Object.entries(value).filter(([, enabled]) => enabled === true).map(([sub]) => `${key}.${sub}`));
+    }
+  }
+
+  return ids.map(id => ({ id, version, installedAt, source: { type: 'init' } }));
+}
+
+/**
+ * Converts initOptions records back into init selectedOptions (inverse of toInitOptionRecords)
+ */
+export function fromInitOptionRecords(records: InstalledPluginRecord[]): LegacySelectedOptions {
+  const selected: Record<string, unknown> = { i18n: false, theming: false, reactNavigation: false, styling: 'stylesheet' };
+  for (const { id } of records) {
+    const [key, sub] = id.split('.');
+    if (sub === undefined) {
+      selected[key] = true;
+    } else if ((VALUE_OPTIONS as readonly string[]).includes(key)) {
+      selected[key] = sub;
+    } else {
+      selected[key] = { ...(selected[key] as Record<string, boolean> | undefined), [sub]: true };
+    }
+  }
+  return selected as LegacySelectedOptions;
+}
@@ -23,7 +23,7 @@ import {
   addPluginToManifest,
   removePluginFromManifest,
 } from './manifest';
-import type { RnsProjectManifest } from './types/manifest';
+import { CURRENT_MANIFEST_SCHEMA_VERSION, type RnsProjectManifest } from './types/manifest';
 import { PROJECT_STATE_FILE } from './constants';
 import type { InitInputs } from './init';
 
@@ -221,7 +221,7 @@ describe('manifest', () => {
 
       const read = readManifest(testProjectRoot);
       expect(read).toBeDefined();
-      expect(read!.schemaVersion).toBe('1.0.0');
+      expect(read!.schemaVersion).toBe(CURRENT_MANIFEST_SCHEMA_VERSION);
       expect(read!.cliVersion).toBeDefined();
       expect(read!.navigationPreset).toBe('stack-tabs');
     });
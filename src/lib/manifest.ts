@@ -7,11 +7,19 @@
  * for what was generated and what is installed. Every CLI command must validate state before acting.
  */
 
-import { join } from 'path';
+import { join, relative } from 'path';
 import { readJsonFile, writeJsonFile, pathExists } from './fs';
 import { PROJECT_STATE_FILE } from './constants';
 import { CliError, ExitCode } from './errors';
 import { getCliVersion } from './version';
+import { backupFile, createBackupDirectory } from './backup';
+import {
+  fromInitOptionRecords,
+  isMigratableSchemaVersion,
+  migrateManifestSchema,
+  toInitOptionRecords,
+  type StoredManifest,
+} from './manifest-migrations';
 import {
   CURRENT_MANIFEST_SCHEMA_VERSION,
   type RnsProjectManifest,
@@ -22,8 +30,23 @@ import {
 } from './types/manifest';
 import type { InitInputs } from './init';
 
+/**
+ * Result of migrating the manifest file (see migrateManifestFile)
+ */
+export interface ManifestFileMigration {
+  from: ManifestSchemaVersion;
+  to: ManifestSchemaVersion;
+  /** Applied migration descriptions, oldest first */
+  applied: string[];
+  warnings: string[];
+  /** Backup of the old manifest (project-relative under .rns/backups) */
+  backupPath: string | null;
+}
+
 /**
  * Reads the project manifest from .rns/rn-init.json
+ * Manifests with an older schema are migrated in memory; the file is upgraded (with a backup)
+ * on the next write or by `rns doctor --fix`.
  * 
  * @param projectRoot - Project root directory
  * @returns Project manifest or null if not found
@@ -36,9 +59,9 @@ export function readManifest(projectRoot: string): RnsProjectManifest | null {
   }
 
   try {
-    const manifest = readJsonFile<Partial<RnsProjectManifest>>(manifestPath);
+    const manifest = readJsonFile<StoredManifest>(manifestPath);
     
-    // Validate and migrate if needed
+    // Validate as stored, then migrate to the current schema (in memory)
     const validation = validateManifest(manifest);
     
     if (!validation.valid) {
@@ -48,16 +71,7 @@ export function readManifest(projectRoot: string): RnsProjectManifest | null {
       );
     }
 
-    // Migrate if needed
-    if (validation.migrated && manifest.schemaVersion !== CURRENT_MANIFEST_SCHEMA_VERSION) {
-      const migrated = migrateManifest(manifest, manifest.schemaVersion || '1.0.0');
-      if (migrated) {
-        writeManifest(projectRoot, migrated);
-        return migrated;
-      }
-    }
-
-    return manifest as RnsProjectManifest;
+    return migrateManifestSchema(manifest, projectRoot).manifest;
   } catch (error) {
     if (error instanceof CliError) {
       throw error;
@@ -76,6 +90,15 @@ export function readManifest(projectRoot: string): RnsProjectManifest | null {
  * @param manifest - Project manifest to write
  */
 export function writeManifest(projectRoot: string, manifest: RnsProjectManifest): void {
+  // Keep the old manifest when this write upgrades its schema
+  backupOutdatedManifest(projectRoot);
+  saveManifest(projectRoot, manifest);
+}
+
+/**
+ * Validates and writes the manifest (timestamps and schema version updated)
+ */
+function saveManifest(projectRoot: string, manifest: RnsProjectManifest): void {
   const manifestPath = join(projectRoot, PROJECT_STATE_FILE);
   
   // Update timestamps
@@ -123,7 +146,7 @@ export function createManifest(
     reactNativeVersion: inputs.reactNativeVersion,
     navigationPreset: inputs.navigationPreset,
     locales: inputs.locales,
-    selectedOptions: inputs.selectedOptions,
+    initOptions: toInitOptionRecords(inputs.selectedOptions, new Date().toISOString(), getCliVersion()),
     coreToggles: inputs.coreToggles,
     plugins: [],
     modules: [],
@@ -150,8 +173,12 @@ export function validateManifest(
   if (!manifest.schemaVersion) {
     errors.push('Missing schemaVersion');
   } else if (manifest.schemaVersion !== CURRENT_MANIFEST_SCHEMA_VERSION) {
-    // Schema version mismatch - will trigger migration
-    warnings.push(`Schema version ${manifest.schemaVersion} is not current (${CURRENT_MANIFEST_SCHEMA_VERSION})`);
+    if (isMigratableSchemaVersion(manifest.schemaVersion)) {
+      // Schema version mismatch - will trigger migration
+      warnings.push(`Schema version ${manifest.schemaVersion} is not current (${CURRENT_MANIFEST_SCHEMA_VERSION})`);
+    } else {
+      errors.push(`Unsupported schemaVersion ${manifest.schemaVersion} (this CLI supports up to ${CURRENT_MANIFEST_SCHEMA_VERSION})`);
+    }
   }
 
   // Check required fields (only if present - allow partial validation)
@@ -189,6 +216,9 @@ export function validateManifest(
       if (!plugin.installedAt || typeof plugin.installedAt !== 'string') {
         errors.push(`Plugin ${plugin.id || 'unknown'} missing installedAt`);
       }
+      if (plugin.source !== undefined && !['builtin', 'local', 'npm'].includes(plugin.source?.type)) {
+        errors.push(`Plugin ${plugin.id || 'unknown'} has invalid source (must be "builtin", "local", or "npm")`);
+      }
     }
   }
 
@@ -197,38 +227,117 @@ export function validateManifest(
     errors.push('Invalid modules array');
   }
 
+  // Validate initOptions records (schema 2.0.0+)
+  if (manifest.schemaVersion === CURRENT_MANIFEST_SCHEMA_VERSION) {
+    if (!Array.isArray(manifest.initOptions)) {
+      errors.push('Missing or invalid initOptions array');
+    } else if (manifest.initOptions.some(option => !option.id || option.source?.type !== 'init')) {
+      errors.push('Invalid initOptions record (needs id and source "init")');
+    }
+  }
+
   return {
     valid: errors.length === 0,
     errors: errors.length > 0 ? errors : undefined,
     warnings: warnings.length > 0 ? warnings : undefined,
-    migrated: false, // Migration handled separately
+    migrated: manifest.schemaVersion !== CURRENT_MANIFEST_SCHEMA_VERSION && errors.length === 0,
   };
 }
 
 /**
  * Migrates a manifest from an older schema version to the current version
+ * (runs the ordered migrations in src/lib/manifest-migrations.ts)
  * 
  * @param manifest - Manifest to migrate
  * @param fromVersion - Source schema version
+ * @param projectRoot - Project root (lets migrations hash owned files)
  * @returns Migrated manifest or null if migration not needed/possible
  */
 export function migrateManifest(
-  manifest: Partial<RnsProjectManifest>,
-  fromVersion: ManifestSchemaVersion
+  manifest: StoredManifest,
+  fromVersion: ManifestSchemaVersion,
+  projectRoot?: string
 ): RnsProjectManifest | null {
-  if (fromVersion === CURRENT_MANIFEST_SCHEMA_VERSION) {
-    return null; // Already current
+  if (fromVersion === CURRENT_MANIFEST_SCHEMA_VERSION || !isMigratableSchemaVersion(fromVersion)) {
+    return null;
   }
 
-  // For now, we only support 1.0.0
-  // Future migrations will be added here
-  if (fromVersion === '1.0.0') {
-    // Already current schema
-    return manifest as RnsProjectManifest;
+  return migrateManifestSchema({ ...manifest, schemaVersion: fromVersion }, projectRoot).manifest;
+}
+
+/**
+ * Upgrades the manifest file to the current schema, keeping a backup of the old one
+ * 
+ * @param projectRoot - Project root directory
+ * @returns Migration summary, or null if the manifest is missing or already current
+ * @throws CliError if the manifest is invalid or its schema can't be migrated
+ */
+export function migrateManifestFile(projectRoot: string): ManifestFileMigration | null {
+  const manifestPath = join(projectRoot, PROJECT_STATE_FILE);
+  if (!pathExists(manifestPath)) {
+    return null;
+  }
+
+  const stored = readJsonFile<StoredManifest>(manifestPath);
+  if (stored.schemaVersion === CURRENT_MANIFEST_SCHEMA_VERSION) {
+    return null;
   }
 
-  // Unknown version - return null to indicate migration not possible
-  return null;
+  const validation = validateManifest(stored);
+  if (!validation.valid) {
+    throw new CliError(
+      `Invalid project manifest: ${validation.errors?.join(', ')}`,
+      ExitCode.INVALID_STATE
+    );
+  }
+
+  const result = migrateManifestSchema(stored, projectRoot);
+  const backupPath = backupOutdatedManifest(projectRoot);
+  saveManifest(projectRoot, result.manifest);
+
+  return {
+    from: stored.schemaVersion as ManifestSchemaVersion,
+    to: CURRENT_MANIFEST_SCHEMA_VERSION,
+    applied: result.applied.map(migration => `${migration.from} -> ${migration.to}: ${migration.description}`),
+    warnings: result.warnings,
+    backupPath,
+  };
+}
+
+/**
+ * Gets the init-selected options of a project (from initOptions records)
+ * 
+ * @param manifest - Project manifest
+ * @returns selectedOptions in the shape `rns init` collects them
+ */
+export function getManifestSelectedOptions(manifest: RnsProjectManifest): InitInputs['selectedOptions'] {
+  return fromInitOptionRecords(manifest.initOptions || []);
+}
+
+/**
+ * Backs up the manifest file if it has an older schema version (before it is overwritten)
+ * 
+ * @returns Project-relative backup path, or null if nothing was backed up
+ */
+function backupOutdatedManifest(projectRoot: string): string | null {
+  const manifestPath = join(projectRoot, PROJECT_STATE_FILE);
+  if (!pathExists(manifestPath)) {
+    return null;
+  }
+
+  let schemaVersion: string | undefined;
+  try {
+    schemaVersion = readJsonFile<StoredManifest>(manifestPath).schemaVersion;
+  } catch {
+    return null;
+  }
+  if (schemaVersion === CURRENT_MANIFEST_SCHEMA_VERSION) {
+    return null;
+  }
+
+  const backupDir = createBackupDirectory(projectRoot, `manifest-${schemaVersion || 'unknown'}`);
+  const backupPath = backupFile(projectRoot, manifestPath, backupDir);
+  return backupPath ? relative(projectRoot, backupPath) : null;
 }
 
 /**
@@ -408,3 +517,25 @@ export function addModuleToManifest(
   
   writeManifest(projectRoot, manifest);
 }
+
+/**
+ * Removes a module from the manifest
+ * 
+ * @param projectRoot - Project root directory
+ * @param moduleId - Module ID to remove
+ * @returns true if module was removed, false if not found
+ */
+export function removeModuleFromManifest(
+  projectRoot: string,
+  moduleId: string
+): boolean {
+  const manifest = validateProjectInitialized(projectRoot);
+  
+  const modules = manifest.modules || [];
+  manifest.modules = modules.filter(m => m.id !== moduleId);
+  const removed = modules.length > manifest.modules.length;
+  
+  writeManifest(projectRoot, manifest);
+  
+  return removed;
+}
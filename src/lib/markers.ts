@@ -14,14 +14,16 @@ export type MarkerType =
   | 'imports'      // Import statements region
   | 'providers'    // Provider wrappers region
   | 'init-steps'   // Initialization steps region
+  | 'async-init-steps' // Async/conditional initialization steps (run by initCoreAsync)
   | 'root'         // Root component region
   | 'registrations'; // Registration calls region
 
 /**
  * Marker format: // @rns-marker:<type>:start and // @rns-marker:<type>:end
+ * (inside JSX: {/* @rns-marker:<type>:start *\/})
  */
-export const MARKER_START_PATTERN = /\/\/\s*@rns-marker:([^:]+):start/;
-export const MARKER_END_PATTERN = /\/\/\s*@rns-marker:([^:]+):end/;
+export const MARKER_START_PATTERN = /(?:\/\/|\/\*)\s*@rns-marker:([^:]+):start/;
+export const MARKER_END_PATTERN = /(?:\/\/|\/\*)\s*@rns-marker:([^:]+):end/;
 
 /**
  * Marker definition
@@ -56,6 +58,12 @@ export const CANONICAL_MARKERS: MarkerDefinition[] = [
     description: 'Initialization steps region for plugin init code',
     required: true,
   },
+  {
+    type: 'async-init-steps',
+    file: 'packages/@rns/runtime/core-init.ts',
+    description: 'Async/conditional initialization steps run by initCoreAsync()',
+    required: false, // Optional, runtimes generated before initCoreAsync don't have it
+  },
   {
     type: 'root',
     file: 'packages/@rns/runtime/index.ts',
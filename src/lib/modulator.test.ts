@@ -7,6 +7,8 @@
  * - Plan phase (dry-run deterministic)
  * - Apply phase (phases, reports, no USER ZONE edits)
  * - Remove phase (safe cleanup, no USER ZONE edits, NO-OP if absent)
+ * - Upgrade reverts dropped patches/wiring; migration patches are recorded for remove
+ * - Replace deletes the old pack and uninstalls dependencies only the old plugin declared
  * - Reports include: deps, runtime wiring ops, patch ops, permissions summary, conflicts, manifest updates
  */
 
@@ -418,6 +420,260 @@ describe('modulator', () => {
     });
   });
 
+  describe('transactional apply', () => {
+    /**
+     * Snapshot of all project files (excluding .rns/backups) → content
+     */
+    async function snapshotProject(): Promise<Record<string, string>> {
+      const { readdir, readFile } = await import('fs/promises');
+      const { relative } = await import('path');
+      const snapshot: Record<string, string> = {};
+      const walk = async (dir: string): Promise<void> => {
+        for (const entry of await readdir(dir, { withFileTypes: true })) {
+          const entryPath = join(dir, entry.name);
+          const relativePath = relative(testProjectRoot, entryPath);
+          if (relativePath.startsWith(join('.rns', 'backups'))) continue;
+          if (entry.isDirectory()) {
+            snapshot[`${relativePath}/`] = '';
+            await walk(entryPath);
+          } else {
+            snapshot[relativePath] = await readFile(entryPath, 'utf-8');
+          }
+        }
+      };
+      await walk(testProjectRoot);
+      return snapshot;
+    }
+
+    it('should roll back all changes when a phase fails', async () => {
+      const { initializePluginRegistry } = await import('./plugin-registry');
+      await initializePluginRegistry();
+      await writeFile(join(testProjectRoot, 'package.json'), '{ "name": "test-app" }\n');
+
+      const modulator = createModulator();
+      const plan = await modulator.plan(context, 'state.zustand', 'install', {});
+      // Skip network installs; force wire phase failure (missing target file)
+      plan.dependencies.runtime = [];
+      plan.dependencies.dev = [];
+      plan.runtimeWiring.push({
+        contribution: { type: 'import', imports: [{ symbol: 'X', source: 'x' }] },
+        markerType: 'imports',
+        file: 'packages/@rns/runtime/missing.ts',
+        capabilityId: 'state.zustand',
+      });
+
+      const before = await snapshotProject();
+      const result = await modulator.apply(context, plan, false);
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.manifestUpdated).toBe(false);
+      expect(result.phases.map(p => p.phase)).toEqual(['doctor', 'scaffold', 'link', 'wire']);
+      expect(result.changes?.created.length).toBeGreaterThan(0);
+      expect(await snapshotProject()).toEqual(before);
+    });
+
+    it('should record created and modified files on success', async () => {
+      const { initializePluginRegistry } = await import('./plugin-registry');
+      await initializePluginRegistry();
+
+      const modulator = createModulator();
+      const plan = await modulator.plan(context, 'state.zustand', 'install', {});
+      plan.dependencies.runtime = [];
+      plan.dependencies.dev = [];
+
+      const result = await modulator.apply(context, plan, false);
+
+      expect(result.success).toBe(true);
+      expect(result.rolledBack).toBe(false);
+      expect(result.changes?.modified).toContain(PROJECT_STATE_FILE);
+      expect(result.changes?.created).toContain(join('src', 'state', 'zustand.ts'));
+    });
+    it('should record json-merge additions and revert only those on remove', async () => {
+      const { initializePluginRegistry } = await import('./plugin-registry');
+      await initializePluginRegistry();
+      const easJson = JSON.stringify({ build: { production: { channel: 'production' } } }, null, 2) + '\n';
+      await writeFile(join(testProjectRoot, 'eas.json'), easJson);
+      const patch = {
+        type: 'json-merge' as const,
+        file: 'eas.json',
+        capabilityId: 'state.zustand',
+        operationId: 'zustand-eas',
+        path: 'build.production',
+        value: { channel: 'production', env: { STORE: 'zustand' } },
+      };
+
+      const modulator = createModulator();
+      const plan = await modulator.plan(context, 'state.zustand', 'install', {});
+      plan.dependencies.runtime = [];
+      plan.dependencies.dev = [];
+      plan.patches = [patch];
+      expect((await modulator.apply(context, plan, false)).success).toBe(true);
+
+      // As if the descriptor declared the patch
+      const record = readManifest(testProjectRoot)!.plugins.find(p => p.id === 'state.zustand')!;
+      expect(record.patchAdditions).toEqual({ 'zustand-eas': [{ path: ['build', 'production', 'env'], value: { STORE: 'zustand' } }] });
+      addPluginToManifest(testProjectRoot, { ...record, descriptor: { ...record.descriptor!, patches: [patch] } });
+
+      const removePlan = await modulator.plan(context, 'state.zustand', 'remove');
+      const result = await modulator.apply(context, removePlan, false);
+
+      expect(result.revertedPatches?.map(r => r.action)).toEqual(['reverted']);
+      const { readFile } = await import('fs/promises');
+      expect(await readFile(join(testProjectRoot, 'eas.json'), 'utf-8')).toBe(easJson);
+    });
+  });
+
+  describe('replace', () => {
+    it('should require the old plugin to be installed and share a single slot', async () => {
+      const { initializePluginRegistry } = await import('./plugin-registry');
+      await initializePluginRegistry();
+      const modulator = createModulator();
+
+      await expect(modulator.planReplace(context, 'state.zustand', 'example')).rejects.toThrow(/is not installed/);
+
+      addPluginToManifest(testProjectRoot, {
+        id: 'state.zustand',
+        version: '1.0.0',
+        installedAt: new Date().toISOString(),
+      });
+      await expect(modulator.planReplace(context, 'state.zustand', 'state.zustand')).rejects.toThrow(/with itself/);
+      // state.zustand only occupies a multi slot
+      await expect(modulator.planReplace(context, 'state.zustand', 'example')).rejects.toThrow(/does not fill the same slot/);
+    });
+
+    it('should delete the old pack and uninstall dependencies only the old plugin declared', async () => {
+      const { initializePluginRegistry } = await import('./plugin-registry');
+      const { clearPluginSources } = await import('./plugin-sources');
+      const { readFile } = await import('fs/promises');
+      const { pathExists } = await import('./fs');
+      const writePlugin = async (id: string, dependencies: string[]) => {
+        const dir = join(testProjectRoot, 'rns-plugins', id);
+        await mkdir(dir, { recursive: true });
+        await writeFile(join(dir, 'pack.json'), JSON.stringify({
+          id, type: 'plugin', delivery: 'workspace', supportedTargets: ['expo', 'bare'], supportedLanguages: ['ts'],
+        }));
+        await writeFile(join(dir, 'plugin.json'), JSON.stringify({
+          id,
+          name: id,
+          version: '1.0.0',
+          category: 'state',
+          support: { targets: ['expo', 'bare'] },
+          slots: [{ slot: 'state.store', mode: 'single' }],
+          dependencies: { runtime: dependencies.map(name => ({ name, version: '^1.0.0' })) },
+        }));
+        await writeFile(join(dir, 'index.ts'), `export const store = '${id}';\n`);
+      };
+      await writePlugin('state.alpha', ['alpha-store', 'immer']);
+      await writePlugin('state.beta', ['beta-store', 'immer']);
+      await writeFile(join(testProjectRoot, '.rns', 'config.json'), JSON.stringify({ pluginSources: ['./rns-plugins'] }));
+      await writeFile(join(testProjectRoot, 'package.json'), JSON.stringify({ name: 'test-app', dependencies: { react: '18.2.0' } }, null, 2) + '\n');
+      context.simulate = true;
+
+      try {
+        await initializePluginRegistry(testProjectRoot);
+        const modulator = createModulator();
+        const installPlan = await modulator.plan(context, 'state.alpha', 'install', {});
+        expect((await modulator.apply(context, installPlan, false)).success).toBe(true);
+        const alphaPack = join(testProjectRoot, 'packages', '@rns', 'state', 'alpha');
+        expect(await readFile(join(alphaPack, 'index.ts'), 'utf-8')).toContain('state.alpha');
+
+        context.manifest = readManifest(testProjectRoot)!;
+        const plan = await modulator.planReplace(context, 'state.alpha', 'state.beta');
+        expect(plan.filesToRemove).toContain(join('packages', '@rns', 'state', 'alpha', 'index.ts'));
+        expect(plan.dependencies.remove).toEqual(['alpha-store']);
+        const result = await modulator.apply(context, plan, false);
+
+        expect(result.success).toBe(true);
+        expect(pathExists(alphaPack)).toBe(false);
+        expect(await readFile(join(testProjectRoot, 'packages', '@rns', 'state', 'beta', 'index.ts'), 'utf-8')).toContain('state.beta');
+        expect(JSON.parse(await readFile(join(testProjectRoot, 'package.json'), 'utf-8')).dependencies).toEqual({
+          react: '18.2.0',
+          immer: '^1.0.0',
+          'beta-store': '^1.0.0',
+        });
+        expect(readManifest(testProjectRoot)!.plugins.map(p => p.id)).toEqual(['state.beta']);
+      } finally {
+        clearPluginSources();
+      }
+    });
+  });
+
+  describe('upgrade', () => {
+    it('should revert what the new version drops and record migration patches for remove', async () => {
+      const { initializePluginRegistry, getPluginRegistry } = await import('./plugin-registry');
+      const { readFile } = await import('fs/promises');
+      await initializePluginRegistry();
+      const runtimeIndex = '// @rns-marker:imports:start\n// @rns-marker:imports:end\n\nexport {};\n';
+      const easJson = JSON.stringify({ build: { production: { channel: 'production' } } }, null, 2) + '\n';
+      await writeFile(join(testProjectRoot, 'packages', '@rns', 'runtime', 'index.ts'), runtimeIndex);
+      await writeFile(join(testProjectRoot, 'eas.json'), easJson);
+      const droppedPatch = {
+        type: 'json-merge' as const,
+        file: 'eas.json',
+        capabilityId: 'state.zustand',
+        operationId: 'zustand-eas',
+        path: 'build.production',
+        value: { env: { STORE: 'zustand' } },
+      };
+      const droppedImport = { type: 'import' as const, imports: [{ symbol: 'LegacyStore', source: '@rns/plugin-state-zustand' }] };
+      const migrationPatch = {
+        type: 'json-merge' as const,
+        file: 'eas.json',
+        capabilityId: 'state.zustand',
+        operationId: 'zustand-eas-dev',
+        path: 'build',
+        value: { development: { developmentClient: true } },
+      };
+
+      // Install 0.9.0: a patch and runtime wiring the current version (1.0.0) no longer declares
+      const modulator = createModulator();
+      const plan = await modulator.plan(context, 'state.zustand', 'install', {});
+      plan.dependencies.runtime = [];
+      plan.dependencies.dev = [];
+      plan.patches = [droppedPatch];
+      plan.runtimeWiring = [{ contribution: droppedImport, capabilityId: 'state.zustand', markerType: 'imports', file: 'packages/@rns/runtime/index.ts' }];
+      expect((await modulator.apply(context, plan, false)).success).toBe(true);
+      const record = readManifest(testProjectRoot)!.plugins.find(p => p.id === 'state.zustand')!;
+      addPluginToManifest(testProjectRoot, {
+        ...record,
+        version: '0.9.0',
+        descriptor: { ...record.descriptor!, version: '0.9.0', patches: [droppedPatch], runtimeContributions: [droppedImport] },
+      });
+      expect(await readFile(join(testProjectRoot, 'packages', '@rns', 'runtime', 'index.ts'), 'utf-8')).toContain('LegacyStore');
+
+      const descriptor = getPluginRegistry().getPluginOrThrow('state.zustand');
+      descriptor.migrations = [{ range: '<1.0.0', patches: [migrationPatch] }];
+      try {
+        context.manifest = readManifest(testProjectRoot)!;
+        const upgradePlan = await modulator.plan(context, 'state.zustand', 'upgrade');
+        upgradePlan.dependencies.runtime = [];
+        upgradePlan.dependencies.dev = [];
+        const result = await modulator.apply(context, upgradePlan, false);
+
+        expect(result.success).toBe(true);
+        expect(result.warnings.filter(w => w.includes('review manually'))).toEqual([]);
+        expect(result.revertedPatches?.map(r => `${r.operationId}:${r.action}`)).toEqual(['zustand-eas:reverted']);
+        expect(await readFile(join(testProjectRoot, 'packages', '@rns', 'runtime', 'index.ts'), 'utf-8')).not.toContain('LegacyStore');
+        expect(JSON.parse(await readFile(join(testProjectRoot, 'eas.json'), 'utf-8'))).toEqual({
+          build: { production: { channel: 'production' }, development: { developmentClient: true } },
+        });
+        const upgraded = readManifest(testProjectRoot)!.plugins.find(p => p.id === 'state.zustand')!;
+        expect(upgraded.version).toBe('1.0.0');
+        expect(upgraded.migrationPatches).toEqual([migrationPatch]);
+        expect(Object.keys(upgraded.patchAdditions || {})).toEqual(['zustand-eas-dev']);
+      } finally {
+        delete descriptor.migrations;
+      }
+
+      // Remove reverts the migration patch too
+      context.manifest = readManifest(testProjectRoot)!;
+      const removePlan = await modulator.plan(context, 'state.zustand', 'remove');
+      expect((await modulator.apply(context, removePlan, false)).success).toBe(true);
+      expect(await readFile(join(testProjectRoot, 'eas.json'), 'utf-8')).toBe(easJson);
+    });
+  });
+
   describe('remove phase', () => {
     it('should remove plugin safely (NO-OP if absent)', async () => {
       const modulator = createModulator();
@@ -7,28 +7,41 @@
  * - Plans changes (dry-run) deterministically
  * - Applies changes in stable phases
  * - Removes plugins safely (NO-OP if absent, never touches USER ZONE)
+ * - Upgrades plugins by applying the delta between the installed and current descriptor
+ * - Reconfigures plugins (new options) by re-planning the pack attachment with the new options
+ * - Replaces a plugin with another one filling the same slot (remove + install, one transaction)
  * 
  * Plan/apply/remove reports: deps, runtime wiring ops, patch ops, permissions summary, conflicts, manifest updates.
  */
 
-import { join } from 'path';
-import { validateProjectInitialized } from './manifest';
-import { addRuntimeDependencies, addDevDependencies, installDependencies } from './dependencies';
-import { wireRuntimeContributions } from './runtime-wiring';
-import { applyPatchOps } from './patch-ops';
+import { join, relative } from 'path';
+import { readdirSync, rmdirSync, rmSync } from 'fs';
+import { readManifest, validateProjectInitialized } from './manifest';
+import { hashFiles, isDirectory, isFile } from './fs';
+import { isCliManagedZone } from './idempotency';
+import { addRuntimeDependencies, addDevDependencies, removeDependencies, installDependencies, getDependencyFiles } from './dependencies';
+import { isScheduledInitStep, unwireRuntimeContributions, wireRuntimeContributions } from './runtime-wiring';
+import { applyPatchOps, resolvePatchFile, revertPatchOps } from './patch-ops';
 import { addPluginToManifest, removePluginFromManifest, getPluginFromManifest } from './manifest';
 import { attachPack } from './attachment-engine';
 import { createBackupDirectory } from './backup';
-import { getPluginRegistry, initializePluginRegistry } from './plugin-registry';
+import { FileTransaction } from './transaction';
+import { getPluginRegistry, initializePluginRegistry, supportsReactNativeVersion } from './plugin-registry';
+import { getPluginSourceRecord } from './plugin-sources';
+import { computeUpgradeDelta, createDescriptorSnapshot, isUpgradeAvailable, selectMigrations } from './plugin-upgrade';
+import { validatePluginOptions } from './plugin-options';
 import { resolvePermissions, aggregatePermissions, loadPermissionsCatalog } from './permissions';
-import { resolveCliRoot, resolvePackSourcePath } from './pack-locations';
+import { getUsageDescriptionFiles, syncUsageDescriptions } from './usage-descriptions';
+import { resolveCliRoot, resolvePackSourcePath, resolvePackDestinationPath } from './pack-locations';
 import { listPacks } from './pack-discovery';
 import { resolvePackVariant, normalizeOptionsKey } from './pack-variants';
 import { loadPackManifest } from './pack-manifest';
 import { CliError, ExitCode } from './errors';
-import { generatePluginReExport, removePluginReExport } from './plugin-reexports';
+import { generatePluginReExport, removePluginReExport, getPluginCategory } from './plugin-reexports';
+import { PROJECT_STATE_FILE, USER_SRC_DIR } from './constants';
 import type {
   ModulatorContext,
+  ModulatorOperation,
   ModulatorPlan,
   ModulatorResult,
   PhaseResult,
@@ -37,10 +50,12 @@ import type {
   DependencyPlan,
   PermissionsSummary,
 } from './types/modulator';
-import type { RuntimeWiringOp } from './types/runtime';
-import type { PatchOp } from './types/patch-ops';
+import type { PatchOp, PatchOpResult } from './types/patch-ops';
 import type { DependencySpec } from './types/dependencies';
 import type { PluginDescriptor } from './types/plugin';
+import type { InstalledPluginRecord } from './types/manifest';
+import type { RuntimeContribution, RuntimeWiringOp } from './types/runtime';
+import type { MarkerType } from './markers';
 
 /**
  * Modulator engine implementation
@@ -51,14 +66,14 @@ export class ModulatorEngine implements IModulator {
    * 
    * @param context - Modulator context
    * @param capabilityId - Plugin/module ID to plan
-   * @param operation - Operation type (install/remove)
-   * @param options - Installation options
+   * @param operation - Operation type (install/remove/upgrade/configure)
+   * @param options - Installation options (install, configure)
    * @returns Plan of changes
    */
   async plan(
     context: ModulatorContext,
     capabilityId: string,
-    operation: 'install' | 'remove',
+    operation: Exclude<ModulatorOperation, 'replace'>,
     options?: Record<string, unknown>
   ): Promise<ModulatorPlan> {
     // Validate project is initialized
@@ -66,6 +81,8 @@ export class ModulatorEngine implements IModulator {
 
     if (operation === 'remove') {
       return this.planRemove(context, capabilityId);
+    } else if (operation === 'upgrade' || operation === 'configure') {
+      return this.planUpgrade(context, capabilityId, operation, options);
     } else {
       return this.planInstall(context, capabilityId, options);
     }
@@ -79,11 +96,9 @@ export class ModulatorEngine implements IModulator {
     capabilityId: string,
     options?: Record<string, unknown>
   ): Promise<ModulatorPlan> {
-    // Initialize plugin registry if needed
+    // Initialize plugin registry (includes the project's third-party plugin sources)
+    await initializePluginRegistry(context.projectRoot);
     const registry = getPluginRegistry();
-    if (!registry.hasPlugin(capabilityId)) {
-      await initializePluginRegistry();
-    }
 
     // Load plugin descriptor
     const descriptor = registry.getPluginOrThrow(capabilityId);
@@ -91,6 +106,9 @@ export class ModulatorEngine implements IModulator {
     // Check compatibility (target/platform support)
     this.validatePluginSupport(descriptor, context);
 
+    // Validate options against optionsSchema (defaults applied)
+    const pluginOptions = validatePluginOptions(descriptor, options);
+
     // Check conflicts (slots, dependencies, etc.)
     const conflicts = await this.checkConflicts(descriptor, context);
     
@@ -113,22 +131,7 @@ export class ModulatorEngine implements IModulator {
     };
 
     // Build runtime wiring operations
-    const runtimeWiring: RuntimeWiringOp[] = (descriptor.runtimeContributions || []).map(contribution => {
-      const markerType = this.getMarkerTypeForContribution(contribution);
-      const file = this.getMarkerFileForType(markerType);
-      if (!file) {
-        throw new CliError(
-          `Cannot determine marker file for contribution type: ${(contribution as any).type}`,
-          ExitCode.VALIDATION_STATE_FAILURE
-        );
-      }
-      return {
-        contribution,
-        capabilityId,
-        markerType,
-        file,
-      };
-    });
+    const runtimeWiring = this.buildWiringOps(descriptor.runtimeContributions || [], capabilityId);
 
     // Build patch operations
     const patches: PatchOp[] = (descriptor.patches || []).map(patch => ({
@@ -137,16 +140,7 @@ export class ModulatorEngine implements IModulator {
     }));
 
     // Resolve permissions
-    const permissionIds = (descriptor.permissions || []).map(p => p.permissionId);
-    const catalog = loadPermissionsCatalog(resolveCliRoot());
-    const resolvedPermissions = resolvePermissions(permissionIds, catalog, context.target);
-    
-    const permissions: PermissionsSummary = {
-      permissionIds,
-      iosKeys: Array.from(resolvedPermissions.values()).flatMap(r => r.iosKeys || []),
-      androidPermissions: Array.from(resolvedPermissions.values()).flatMap(r => r.androidPermissions || []),
-      androidFeatures: Array.from(resolvedPermissions.values()).flatMap(r => r.androidFeatures || []),
-    };
+    const permissions = this.buildPermissionsSummary(descriptor, context);
 
     // Determine files that will be created/modified
     // Files will be determined during scaffold phase, but we can estimate from pack attachment
@@ -155,8 +149,9 @@ export class ModulatorEngine implements IModulator {
 
     // Files modified by patches
     patches.forEach(patch => {
-      if (!filesToModify.includes(patch.file)) {
-        filesToModify.push(patch.file);
+      const file = resolvePatchFile(context.projectRoot, patch);
+      if (!filesToModify.includes(file)) {
+        filesToModify.push(file);
       }
     });
 
@@ -182,7 +177,7 @@ export class ModulatorEngine implements IModulator {
         plugins: [{
           id: capabilityId,
           version: descriptor.version,
-          options: options || {},
+          options: pluginOptions,
         }],
       },
     };
@@ -190,6 +185,241 @@ export class ModulatorEngine implements IModulator {
     return plan;
   }
 
+  /**
+   * Plans upgrade of an installed plugin to the current registry descriptor
+   * 
+   * The plan contains only the delta: new/changed dependencies (and dropped ones to uninstall),
+   * new wiring contributions, new/changed patches plus patches of selected migrations. Wiring the
+   * new version drops is unwired and dropped/changed patches are reverted (`plan.revertPatches`)
+   * before the new ones are applied.
+   * 
+   * `configure` uses the same pipeline at the installed version: the pack is re-attached with the
+   * new options (variant may change) and the options are persisted in the manifest.
+   */
+  private async planUpgrade(
+    context: ModulatorContext,
+    capabilityId: string,
+    operation: 'upgrade' | 'configure',
+    options?: Record<string, unknown>
+  ): Promise<ModulatorPlan> {
+    const installed = getPluginFromManifest(context.projectRoot, capabilityId);
+    if (!installed) {
+      throw new CliError(
+        `Plugin "${capabilityId}" is not installed. Install it first: rns plugin add ${capabilityId}`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+
+    await initializePluginRegistry(context.projectRoot);
+    const descriptor = getPluginRegistry().getPluginOrThrow(capabilityId);
+
+    this.validatePluginSupport(descriptor, context);
+
+    if (operation === 'configure' && isUpgradeAvailable(installed.version, descriptor.version)) {
+      throw new CliError(
+        `Plugin "${capabilityId}" v${installed.version} has an upgrade available (v${descriptor.version}). ` +
+          `Upgrade it first: rns plugin upgrade ${capabilityId}`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+    // Upgrade keeps installed options (plus new ones, e.g. newly required); configure replaces them
+    const pluginOptions = validatePluginOptions(
+      descriptor,
+      operation === 'configure' ? options : { ...installed.options, ...options }
+    );
+
+    const conflicts = await this.checkConflicts(descriptor, context);
+    const errorConflicts = conflicts.filter(c => c.severity === 'error');
+    if (errorConflicts.length > 0) {
+      const conflictMessages = errorConflicts.map(c => `  - ${c.description}`).join('\n');
+      throw new CliError(
+        `Cannot upgrade plugin "${capabilityId}" due to conflicts:\n${conflictMessages}`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+
+    // Configure stays at the installed version: without a snapshot, the current descriptor is the baseline
+    const baseline = operation === 'configure' && !installed.descriptor
+      ? { ...installed, descriptor: createDescriptorSnapshot(descriptor) }
+      : installed;
+    const delta = computeUpgradeDelta(baseline, descriptor, contributions => this.buildWiringOps(contributions, capabilityId));
+    const migrations = selectMigrations(descriptor, installed.version);
+
+    // Dependencies: install added + changed (new versions), uninstall dropped
+    const toInstall = new Set([
+      ...delta.dependencies.added.map(d => d.name),
+      ...delta.dependencies.changed.map(d => d.name),
+    ]);
+    const dependencies: DependencyPlan = {
+      runtime: (descriptor.dependencies?.runtime || []).filter(d => toInstall.has(d.name)),
+      dev: (descriptor.dependencies?.dev || []).filter(d => toInstall.has(d.name)),
+      scope: 'workspace',
+      remove: delta.dependencies.removed,
+    };
+
+    // Dropped and changed patches are reverted as recorded; migration patches run before the new version's patches
+    const replaced = new Set([...delta.patches.removed, ...delta.patches.changed].map(p => p.operationId));
+    const revertPatches = this.getRecordedPatches(baseline).filter(p => replaced.has(p.operationId));
+    const patches: PatchOp[] = [
+      ...migrations.flatMap(m => (m.patches || []).map(patch => ({ ...patch, capabilityId }))),
+      ...delta.patches.added,
+      ...delta.patches.changed,
+    ];
+
+    const filesToModify: string[] = [];
+    for (const file of [
+      ...[...revertPatches, ...patches].map(p => resolvePatchFile(context.projectRoot, p)),
+      ...[...delta.runtimeWiring.removed, ...delta.runtimeWiring.added].map(op => op.file),
+    ]) {
+      if (!filesToModify.includes(file)) {
+        filesToModify.push(file);
+      }
+    }
+
+    return {
+      capabilityId,
+      operation,
+      dependencies,
+      runtimeWiring: delta.runtimeWiring.added,
+      patches,
+      revertPatches,
+      permissions: this.buildPermissionsSummary(descriptor, context),
+      conflicts,
+      filesToCreate: [],
+      filesToModify,
+      filesToRemove: migrations.flatMap(m => m.removeFiles || []),
+      manifestUpdates: {
+        plugins: [{
+          id: capabilityId,
+          version: descriptor.version,
+          options: pluginOptions,
+        }],
+      },
+      upgrade: delta,
+    };
+  }
+
+  /**
+   * Plans replacing an installed plugin with another plugin filling the same slot
+   * 
+   * The old plugin's removal plan and the new plugin's install plan (planned as if the old
+   * plugin were already gone) are combined; apply runs both in one transaction with one backup.
+   * The removal deletes the old pack files and uninstalls dependencies only the old plugin declared.
+   */
+  async planReplace(
+    context: ModulatorContext,
+    fromId: string,
+    toId: string,
+    options?: Record<string, unknown>
+  ): Promise<ModulatorPlan> {
+    validateProjectInitialized(context.projectRoot);
+
+    if (fromId === toId) {
+      throw new CliError(`Cannot replace plugin "${fromId}" with itself`, ExitCode.VALIDATION_STATE_FAILURE);
+    }
+    if (!getPluginFromManifest(context.projectRoot, fromId)) {
+      throw new CliError(`Plugin "${fromId}" is not installed`, ExitCode.VALIDATION_STATE_FAILURE);
+    }
+    if (getPluginFromManifest(context.projectRoot, toId)) {
+      throw new CliError(`Plugin "${toId}" is already installed`, ExitCode.VALIDATION_STATE_FAILURE);
+    }
+
+    await initializePluginRegistry(context.projectRoot);
+    const registry = getPluginRegistry();
+    const fromDescriptor = registry.getPluginOrThrow(fromId);
+    const toDescriptor = registry.getPluginOrThrow(toId);
+
+    // The new plugin must take over the old plugin's single slot(s)
+    const singleSlots = (descriptor: PluginDescriptor) =>
+      (descriptor.slots || []).filter(s => s.mode === 'single').map(s => s.slot);
+    const sharedSlots = singleSlots(fromDescriptor).filter(slot => singleSlots(toDescriptor).includes(slot));
+    if (sharedSlots.length === 0) {
+      const fromSlots = singleSlots(fromDescriptor);
+      throw new CliError(
+        `Plugin "${toId}" does not fill the same slot as "${fromId}"` +
+          (fromSlots.length > 0 ? ` (${fromSlots.join(', ')})` : ` ("${fromId}" occupies no single slot)`) +
+          `. Use rns plugin remove ${fromId} and rns plugin add ${toId} instead.`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+
+    const removal = await this.planRemove(context, fromId);
+
+    // Plan the install as if the old plugin were already removed
+    const installContext: ModulatorContext = {
+      ...context,
+      manifest: {
+        ...context.manifest,
+        plugins: context.manifest.plugins.filter(p => p.id !== fromId),
+      },
+    };
+    const install = await this.planInstall(installContext, toId, options);
+
+    // The old plugin's pack files go with it, and so do dependencies no remaining plugin declares
+    const fromPackRoot = resolvePackDestinationPath('plugin', fromId, context.projectRoot);
+    removal.filesToRemove = (removal.filesToRemove || []).map(file => relative(context.projectRoot, join(fromPackRoot, file)));
+    const keptDependencies = new Set([
+      ...[...install.dependencies.runtime, ...install.dependencies.dev].map(d => d.name),
+      ...[...installContext.manifest.plugins, ...(context.manifest.initOptions || [])].flatMap(record => this.getDependencyNames(record)),
+    ]);
+    removal.dependencies = {
+      runtime: [],
+      dev: [],
+      scope: 'workspace',
+      remove: this.getDependencyNames(getPluginFromManifest(context.projectRoot, fromId)!).filter(name => !keptDependencies.has(name)),
+    };
+
+    return {
+      ...install,
+      operation: 'replace',
+      dependencies: { ...install.dependencies, remove: removal.dependencies.remove },
+      filesToRemove: removal.filesToRemove,
+      replace: {
+        fromId,
+        slots: sharedSlots,
+        plans: [removal, install],
+      },
+    };
+  }
+
+  /**
+   * Builds wiring operations (marker type + file) for runtime contributions
+   */
+  private buildWiringOps(contributions: RuntimeContribution[], capabilityId: string): RuntimeWiringOp[] {
+    return contributions.map(contribution => {
+      const markerType = this.getMarkerTypeForContribution(contribution);
+      const file = this.getMarkerFileForType(markerType);
+      if (!file) {
+        throw new CliError(
+          `Cannot determine marker file for contribution type: ${contribution.type}`,
+          ExitCode.VALIDATION_STATE_FAILURE
+        );
+      }
+      return {
+        contribution,
+        capabilityId,
+        markerType,
+        file,
+      };
+    });
+  }
+
+  /**
+   * Resolves a descriptor's permissions against the catalog
+   */
+  private buildPermissionsSummary(descriptor: PluginDescriptor, context: ModulatorContext): PermissionsSummary {
+    const permissionIds = (descriptor.permissions || []).map(p => p.permissionId);
+    const catalog = loadPermissionsCatalog(resolveCliRoot());
+    const resolvedPermissions = resolvePermissions(permissionIds, catalog, context.target);
+
+    return {
+      permissionIds,
+      iosKeys: Array.from(resolvedPermissions.values()).flatMap(r => r.iosKeys || []),
+      androidPermissions: Array.from(resolvedPermissions.values()).flatMap(r => r.androidPermissions || []),
+      androidFeatures: Array.from(resolvedPermissions.values()).flatMap(r => r.androidFeatures || []),
+    };
+  }
+
   /**
    * Validates plugin support for target/platform
    */
@@ -210,12 +440,13 @@ export class ModulatorEngine implements IModulator {
     }
 
     // Check React Native version constraints if specified
-    if (descriptor.support.minReactNativeVersion || descriptor.support.maxReactNativeVersion) {
-      const rnVersion = context.manifest.reactNativeVersion;
-      if (rnVersion) {
-        // Basic version comparison could be added here
-        // For now, we just note that version constraints exist
-      }
+    if (!supportsReactNativeVersion(descriptor.support, context.manifest.reactNativeVersion)) {
+      const { minReactNativeVersion: min, maxReactNativeVersion: max } = descriptor.support;
+      throw new CliError(
+        `Plugin "${descriptor.id}" does not support React Native ${context.manifest.reactNativeVersion}. ` +
+        `Supported range: ${min ? `>=${min}` : ''}${min && max ? ' ' : ''}${max ? `<=${max}` : ''}.`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
     }
   }
 
@@ -228,11 +459,12 @@ export class ModulatorEngine implements IModulator {
   ): Promise<ConflictResult[]> {
     const conflicts: ConflictResult[] = [];
     const installedPlugins = context.manifest.plugins || [];
+    const pendingPlugins = context.pendingPlugins || [];
 
     // Check explicit conflicts
     if (descriptor.conflictsWith) {
       for (const conflictingId of descriptor.conflictsWith) {
-        const installed = installedPlugins.find(p => p.id === conflictingId);
+        const installed = installedPlugins.find(p => p.id === conflictingId) || pendingPlugins.includes(conflictingId);
         if (installed) {
           conflicts.push({
             type: 'dependency',
@@ -251,7 +483,12 @@ export class ModulatorEngine implements IModulator {
         if (slot.mode === 'single') {
           // Find installed plugins that occupy the same slot
           const registry = getPluginRegistry();
-          for (const installed of installedPlugins) {
+          const occupants = [...installedPlugins, ...pendingPlugins.map(id => ({ id }))];
+          for (const installed of occupants) {
+            // A plugin never conflicts with itself (upgrade)
+            if (installed.id === descriptor.id) {
+              continue;
+            }
             const installedDescriptor = registry.getPlugin(installed.id);
             if (installedDescriptor?.slots) {
               const conflictingSlot = installedDescriptor.slots.find(s => s.slot === slot.slot && s.mode === 'single');
@@ -275,7 +512,7 @@ export class ModulatorEngine implements IModulator {
     if (descriptor.requires) {
       const registry = getPluginRegistry();
       for (const requiredId of descriptor.requires) {
-        const installed = installedPlugins.find(p => p.id === requiredId);
+        const installed = installedPlugins.find(p => p.id === requiredId) || pendingPlugins.includes(requiredId);
         if (!installed) {
           // Check if required plugin exists in registry
           const requiredPlugin = registry.getPlugin(requiredId);
@@ -311,13 +548,23 @@ export class ModulatorEngine implements IModulator {
   /**
    * Gets marker type for a runtime contribution
    */
-  private getMarkerTypeForContribution(contribution: any): 'imports' | 'providers' | 'init-steps' | 'root' | 'registrations' {
-    if (contribution.type === 'import') return 'imports';
-    if (contribution.type === 'provider') return 'providers';
-    if (contribution.type === 'init-step') return 'init-steps';
-    if (contribution.type === 'registration') return 'registrations';
-    if (contribution.type === 'root') return 'root';
-    return 'imports'; // default
+  private getMarkerTypeForContribution(contribution: RuntimeContribution): MarkerType {
+    switch (contribution.type) {
+      case 'import':
+        return 'imports';
+      case 'provider':
+        return 'providers';
+      case 'init-step':
+        return isScheduledInitStep(contribution) ? 'async-init-steps' : 'init-steps';
+      case 'registration':
+        return 'registrations';
+      case 'root':
+        return 'root';
+      default: {
+        const unreachable: never = contribution;
+        throw new Error(`Unknown contribution type: ${JSON.stringify(unreachable)}`);
+      }
+    }
   }
 
   /**
@@ -330,6 +577,7 @@ export class ModulatorEngine implements IModulator {
       case 'root':
         return 'packages/@rns/runtime/index.ts';
       case 'init-steps':
+      case 'async-init-steps':
       case 'registrations':
         return 'packages/@rns/runtime/core-init.ts';
       default:
@@ -366,21 +614,32 @@ export class ModulatorEngine implements IModulator {
 
     // TODO: Plan removal based on installed plugin record
     // - Reverse dependencies (remove deps if no other plugins use them)
-    // - Reverse runtime wiring (remove contributions)
-    // - Reverse patches (remove patch operations)
     // - Remove owned files (only in SYSTEM ZONE)
     // - Update manifest
 
+    // Patches to revert (the patch phase runs their inverse for remove plans)
+    await initializePluginRegistry(context.projectRoot);
+    const patches = this.getRecordedPatches(installed);
+
+    // Runtime wiring to remove (the wire phase unwires for remove plans)
+    const contributions = installed.descriptor?.runtimeContributions
+      ?? getPluginRegistry().getPlugin(installed.id)?.runtimeContributions
+      ?? [];
+    const runtimeWiring = this.buildWiringOps(contributions, capabilityId);
+
     const plan: ModulatorPlan = {
       capabilityId,
       operation: 'remove',
       dependencies: { runtime: [], dev: [] },
-      runtimeWiring: [],
-      patches: [],
+      runtimeWiring,
+      patches,
       permissions: { permissionIds: [] },
       conflicts: [],
       filesToCreate: [],
-      filesToModify: [],
+      filesToModify: Array.from(new Set([
+        ...patches.map(patch => resolvePatchFile(context.projectRoot, patch)),
+        ...runtimeWiring.map(op => op.file),
+      ])),
       filesToRemove: installed.ownedFiles || [],
       manifestUpdates: {},
     };
@@ -389,7 +648,33 @@ export class ModulatorEngine implements IModulator {
   }
 
   /**
-   * Applies planned changes
+   * Gets the package names an installed plugin declared (descriptor snapshot, else current descriptor)
+   */
+  private getDependencyNames(record: InstalledPluginRecord): string[] {
+    const dependencies = record.descriptor?.dependencies ?? getPluginRegistry().getPlugin(record.id)?.dependencies;
+    return [...(dependencies?.runtime || []), ...(dependencies?.dev || [])].map(d => d.name);
+  }
+
+  /**
+   * Gets the patches an installed plugin applied (descriptor snapshot, else current descriptor,
+   * plus patches of migrations run by upgrades)
+   */
+  private getRecordedPatches(record: InstalledPluginRecord): PatchOp[] {
+    const patches = [
+      ...(record.descriptor?.patches ?? getPluginRegistry().getPlugin(record.id)?.patches ?? []),
+      ...(record.migrationPatches || []),
+    ];
+    return patches.map(patch => patch.type === 'json-merge'
+      ? { ...patch, capabilityId: record.id, added: record.patchAdditions?.[patch.operationId] }
+      : { ...patch, capabilityId: record.id });
+  }
+
+  /**
+   * Applies planned changes as a transaction
+   * 
+   * Every file a phase creates or modifies (including package.json and lockfiles) is recorded;
+   * if a required phase fails, backups are restored and new files deleted so the project
+   * returns to its pre-apply state. node_modules is not restored.
    * 
    * @param context - Modulator context
    * @param plan - Plan to apply
@@ -405,6 +690,12 @@ export class ModulatorEngine implements IModulator {
     const warnings: string[] = [];
     const errors: string[] = [];
     let backupDir: string | undefined;
+    let transaction: FileTransaction | undefined;
+    let manifestUpdated = false;
+    const revertedPatches: PatchOpResult[] = [];
+
+    // A replace plan applies its sub-plans (remove, then install) in the same transaction
+    const plans = plan.replace ? plan.replace.plans : [plan];
 
     try {
       // Phase 1: Doctor gate (already validated in plan)
@@ -414,85 +705,168 @@ export class ModulatorEngine implements IModulator {
         action: 'executed',
       });
 
-      // Phase 2: Scaffold (attach plugin pack)
-      if (plan.operation === 'install') {
-        const scaffoldResult = await this.executeScaffold(context, plan, dryRun);
-        phases.push(scaffoldResult);
-        if (!scaffoldResult.success) {
-          errors.push(scaffoldResult.error || 'Scaffold phase failed');
-        }
-      }
-
-      // Create backup directory
-      if (!dryRun && plan.operation === 'install') {
-        backupDir = createBackupDirectory(context.projectRoot, `modulator-${plan.capabilityId}`);
+      // Backup directory doubles as the transaction log for this operation
+      if (!dryRun) {
+        const operationId = `modulator-${plan.capabilityId}`;
+        backupDir = createBackupDirectory(context.projectRoot, operationId);
+        transaction = new FileTransaction(context.projectRoot, backupDir, operationId);
       }
 
-      // Phase 3: Link (install dependencies)
-      const linkResult = await this.executeLink(context, plan, dryRun);
-      phases.push(linkResult);
-      if (!linkResult.success) {
-        errors.push(linkResult.error || 'Link phase failed');
-      }
+      for (const subPlan of plans) {
+        for (const step of this.buildApplySteps(context, subPlan, dryRun, revertedPatches)) {
+          // Scaffold only applies to installs and upgrades (and deletes the pack a replace swaps out)
+          if (step.phase === 'scaffold' && subPlan.operation === 'remove' && !plan.replace) {
+            continue;
+          }
 
-      // Phase 4: Wire runtime (AST-based wiring)
-      const wireResult = await this.executeWire(context, plan, dryRun);
-      phases.push(wireResult);
-      if (!wireResult.success) {
-        errors.push(wireResult.error || 'Wire phase failed');
-      }
+          if (transaction) {
+            step.track(transaction);
+          }
 
-      // Phase 5: Patch (native/config patches)
-      const patchResult = await this.executePatch(context, plan, dryRun);
-      phases.push(patchResult);
-      if (!patchResult.success) {
-        errors.push(patchResult.error || 'Patch phase failed');
-      }
+          const result = await step.run();
+          phases.push(result);
 
-      // Phase 5.5: Generate plugin re-exports (User Zone convenience re-exports)
-      const reexportResult = await this.executeReExport(context, plan, dryRun);
-      phases.push(reexportResult);
-      if (!reexportResult.success) {
-        warnings.push(reexportResult.error || 'Re-export generation failed');
-      }
+          if (step.phase === 'manifest') {
+            manifestUpdated = result.success;
+          }
 
-      // Phase 6: Update manifest
-      const manifestResult = await this.executeManifestUpdate(context, plan, dryRun);
-      phases.push(manifestResult);
-      if (!manifestResult.success) {
-        errors.push(manifestResult.error || 'Manifest update phase failed');
-      }
+          if (!result.success) {
+            if (step.required) {
+              errors.push(result.error || `${step.phase} phase failed`);
+              break;
+            }
+            warnings.push(result.error || `${step.phase} phase failed`);
+          }
+          if ((step.phase === 'verify' || step.phase === 'patch') && result.warnings) {
+            warnings.push(...result.warnings);
+          }
+        }
 
-      // Phase 7: Verify (check for duplicates, markers intact)
-      const verifyResult = await this.executeVerify(context, plan, dryRun);
-      phases.push(verifyResult);
-      if (!verifyResult.success) {
-        warnings.push(...(verifyResult.warnings || []));
+        if (errors.length > 0) {
+          break;
+        }
+        if (subPlan.upgrade && !subPlan.upgrade.baselineKnown) {
+          warnings.push(`No descriptor snapshot recorded for ${subPlan.capabilityId}@${subPlan.upgrade.fromVersion}; delta was computed against an empty baseline`);
+        }
       }
-
-      return {
-        success: errors.length === 0,
-        operation: plan.operation,
-        capabilityId: plan.capabilityId,
-        phases,
-        warnings,
-        errors,
-        manifestUpdated: manifestResult.success,
-        backupDir,
-      };
     } catch (error) {
       errors.push(error instanceof Error ? error.message : String(error));
-      return {
-        success: false,
-        operation: plan.operation,
-        capabilityId: plan.capabilityId,
-        phases,
-        warnings,
-        errors,
-        manifestUpdated: false,
-        backupDir,
-      };
     }
+
+    let rolledBack = false;
+    let changes: ModulatorResult['changes'];
+    if (transaction) {
+      try {
+        changes = transaction.getChanges();
+        if (errors.length > 0) {
+          transaction.rollback();
+          rolledBack = true;
+          manifestUpdated = false;
+          warnings.push(`Rolled back ${changes.created.length} created and ${changes.modified.length} modified file(s) (backup: ${backupDir})`);
+        } else {
+          transaction.commit();
+        }
+      } catch (error) {
+        errors.push(`Rollback failed: ${error instanceof Error ? error.message : String(error)}. Restore manually from ${backupDir}`);
+      }
+    }
+
+    return {
+      success: errors.length === 0,
+      operation: plan.operation,
+      capabilityId: plan.capabilityId,
+      phases,
+      warnings,
+      errors,
+      manifestUpdated,
+      backupDir,
+      changes,
+      rolledBack,
+      revertedPatches: revertedPatches.length > 0 ? revertedPatches : undefined,
+    };
+  }
+
+  /**
+   * Builds the apply phases for a plan
+   * 
+   * Phases run in order; a failing required phase stops the pipeline and rolls back.
+   * `track` registers what the phase is about to write so the transaction can restore it.
+   * Patch revert results of remove/upgrade plans are collected into `revertedPatches`; the manifest phase
+   * records what this plan's patches added (json-merge) and hands kept additions over.
+   */
+  private buildApplySteps(
+    context: ModulatorContext,
+    plan: ModulatorPlan,
+    dryRun: boolean,
+    revertedPatches: PatchOpResult[]
+  ): Array<{
+    phase: string;
+    required: boolean;
+    track: (tx: FileTransaction) => void;
+    run: () => Promise<PhaseResult>;
+  }> {
+    const patchResults: PatchOpResult[] = [];
+    return [
+      {
+        phase: 'scaffold',
+        required: true,
+        track: tx => {
+          tx.trackDir(resolvePackDestinationPath('plugin', plan.capabilityId, context.projectRoot));
+          (plan.filesToRemove || []).forEach(f => tx.track(f));
+        },
+        run: () => plan.operation === 'remove'
+          ? this.executePackRemoval(context, plan, dryRun)
+          : this.executeScaffold(context, plan, dryRun),
+      },
+      {
+        phase: 'link',
+        required: true,
+        track: tx => getDependencyFiles(context.projectRoot, plan.dependencies.scope).forEach(f => tx.track(f)),
+        run: () => this.executeLink(context, plan, dryRun),
+      },
+      {
+        phase: 'wire',
+        required: true,
+        track: tx => [...plan.runtimeWiring, ...(plan.upgrade?.runtimeWiring.removed || [])].forEach(op => tx.track(op.file)),
+        run: () => this.executeWire(context, plan, dryRun),
+      },
+      {
+        phase: 'patch',
+        required: true,
+        track: tx => [...(plan.revertPatches || []), ...plan.patches].forEach(patch => tx.track(resolvePatchFile(context.projectRoot, patch))),
+        run: () => this.executePatch(context, plan, dryRun, revertedPatches, patchResults),
+      },
+      {
+        // Plugin re-exports (User Zone convenience re-exports) - failure is a warning
+        phase: 'reexport',
+        required: false,
+        track: tx => tx.trackDir(join(context.projectRoot, USER_SRC_DIR, getPluginCategory(plan.capabilityId))),
+        run: () => this.executeReExport(context, plan, dryRun),
+      },
+      {
+        phase: 'manifest',
+        required: true,
+        track: tx => tx.track(PROJECT_STATE_FILE),
+        run: () => this.executeManifestUpdate(context, plan, dryRun, patchResults),
+      },
+      {
+        // iOS usage descriptions (Info.plist / InfoPlist.strings or Expo config) - failure is a warning
+        phase: 'usage-descriptions',
+        required: false,
+        track: tx => {
+          const manifest = readManifest(context.projectRoot);
+          (manifest ? getUsageDescriptionFiles(context.projectRoot, manifest) : []).forEach(f => tx.track(f));
+        },
+        run: () => this.executeUsageDescriptions(context, dryRun),
+      },
+      {
+        // Verify (check for duplicates, markers intact) - findings are warnings
+        phase: 'verify',
+        required: false,
+        track: () => undefined,
+        run: () => this.executeVerify(context, plan, dryRun),
+      },
+    ];
   }
 
   /**
@@ -587,6 +961,13 @@ export class ModulatorEngine implements IModulator {
       // Update plan with files that will be created
       plan.filesToCreate.push(...attachmentReport.created);
       plan.filesToModify.push(...attachmentReport.updated);
+
+      // Upgrade/configure: delete pack files the new version/variant no longer ships, plus migration removals
+      if (plan.upgrade) {
+        this.removeStalePackFiles(context, plan, attachmentReport.ownedFilesCandidate, attachmentReport.skipped, dryRun);
+        plan.upgrade.packFiles.added = [...attachmentReport.created];
+        plan.upgrade.packFiles.updated = [...attachmentReport.updated];
+      }
       
       return {
         phase: 'scaffold',
@@ -606,6 +987,76 @@ export class ModulatorEngine implements IModulator {
     }
   }
 
+  /**
+   * Executes scaffold phase for the plugin a replace swaps out: deletes its pack files (SYSTEM
+   * ZONE only) and the pack directories they leave empty
+   */
+  private async executePackRemoval(
+    context: ModulatorContext,
+    plan: ModulatorPlan,
+    dryRun: boolean
+  ): Promise<PhaseResult> {
+    try {
+      for (const file of plan.filesToRemove || []) {
+        const filePath = join(context.projectRoot, file);
+        if (!isCliManagedZone(filePath, context.projectRoot)) {
+          throw new Error(`Replace may only remove SYSTEM ZONE files (packages/@rns/**): ${file}`);
+        }
+        if (!dryRun && isFile(filePath)) {
+          rmSync(filePath);
+        }
+      }
+      if (!dryRun) {
+        removeEmptyDirs(resolvePackDestinationPath('plugin', plan.capabilityId, context.projectRoot));
+      }
+
+      return {
+        phase: 'scaffold',
+        success: true,
+        action: dryRun ? 'skipped' : 'executed',
+      };
+    } catch (error) {
+      return {
+        phase: 'scaffold',
+        success: false,
+        action: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Deletes pack files dropped by an upgrade and files removed by migrations (SYSTEM ZONE only)
+   */
+  private removeStalePackFiles(
+    context: ModulatorContext,
+    plan: ModulatorPlan,
+    packFiles: string[],
+    skippedFiles: string[],
+    dryRun: boolean
+  ): void {
+    const installed = getPluginFromManifest(context.projectRoot, plan.capabilityId);
+    const current = new Set([...packFiles, ...skippedFiles]);
+    const packRoot = resolvePackDestinationPath('plugin', plan.capabilityId, context.projectRoot);
+    const removedPackFiles = (installed?.ownedFiles || []).filter(file => !current.has(file));
+    plan.upgrade!.packFiles.removed = removedPackFiles;
+
+    const filesToRemove = [
+      ...removedPackFiles.map(file => relative(context.projectRoot, join(packRoot, file))),
+      ...(plan.filesToRemove || []),
+    ];
+    for (const file of filesToRemove) {
+      const filePath = join(context.projectRoot, file);
+      if (!isCliManagedZone(filePath, context.projectRoot)) {
+        throw new Error(`Upgrade may only remove SYSTEM ZONE files (packages/@rns/**): ${file}`);
+      }
+      if (!dryRun && isFile(filePath)) {
+        rmSync(filePath);
+      }
+    }
+    plan.filesToRemove = Array.from(new Set(filesToRemove));
+  }
+
   /**
    * Executes link phase (install dependencies)
    */
@@ -616,19 +1067,36 @@ export class ModulatorEngine implements IModulator {
   ): Promise<PhaseResult> {
     try {
       // Skip if no dependencies to install/remove
-      if (plan.dependencies.runtime.length === 0 && plan.dependencies.dev.length === 0) {
+      const toRemove = plan.dependencies.remove || [];
+      if (plan.dependencies.runtime.length === 0 && plan.dependencies.dev.length === 0 && toRemove.length === 0) {
         return {
           phase: 'link',
           success: true,
           action: 'skipped',
         };
       }
+
+      if (toRemove.length > 0) {
+        const removeResult = removeDependencies(
+          context.projectRoot,
+          toRemove,
+          { scope: plan.dependencies.scope, dryRun, verbose: context.runtimeContext.flags.verbose, manifestOnly: context.simulate }
+        );
+        if (!removeResult.success) {
+          return {
+            phase: 'link',
+            success: false,
+            action: 'error',
+            error: removeResult.error,
+          };
+        }
+      }
       
       if (plan.dependencies.runtime.length > 0) {
         const runtimeResult = addRuntimeDependencies(
           context.projectRoot,
           plan.dependencies.runtime,
-          { scope: plan.dependencies.scope, dryRun, verbose: context.runtimeContext.flags.verbose }
+          { scope: plan.dependencies.scope, dryRun, verbose: context.runtimeContext.flags.verbose, manifestOnly: context.simulate }
         );
         if (!runtimeResult.success) {
           return {
@@ -644,7 +1112,7 @@ export class ModulatorEngine implements IModulator {
         const devResult = addDevDependencies(
           context.projectRoot,
           plan.dependencies.dev,
-          { scope: plan.dependencies.scope, dryRun, verbose: context.runtimeContext.flags.verbose }
+          { scope: plan.dependencies.scope, dryRun, verbose: context.runtimeContext.flags.verbose, manifestOnly: context.simulate }
         );
         if (!devResult.success) {
           return {
@@ -658,10 +1126,10 @@ export class ModulatorEngine implements IModulator {
 
       // Only install dependencies if we added any (for install operations)
       // For remove operations or NO-OP, skip installation
-      if (plan.operation === 'install' && (plan.dependencies.runtime.length > 0 || plan.dependencies.dev.length > 0)) {
+      if (plan.operation !== 'remove' && (plan.dependencies.runtime.length > 0 || plan.dependencies.dev.length > 0)) {
         const installResult = installDependencies(
           context.projectRoot,
-          { scope: plan.dependencies.scope, dryRun, verbose: context.runtimeContext.flags.verbose }
+          { scope: plan.dependencies.scope, dryRun, verbose: context.runtimeContext.flags.verbose, manifestOnly: context.simulate }
         );
         if (!installResult.success) {
           return {
@@ -690,6 +1158,8 @@ export class ModulatorEngine implements IModulator {
 
   /**
    * Executes wire phase (runtime wiring)
+   * Remove plans unwire the plugin's contributions instead; upgrades unwire what the new version
+   * drops before wiring what it adds
    */
   private async executeWire(
     context: ModulatorContext,
@@ -697,12 +1167,14 @@ export class ModulatorEngine implements IModulator {
     dryRun: boolean
   ): Promise<PhaseResult> {
     try {
-      if (plan.runtimeWiring.length > 0) {
-        const results = wireRuntimeContributions(
-          context.projectRoot,
-          plan.runtimeWiring,
-          dryRun
-        );
+      const dropped = plan.upgrade?.runtimeWiring.removed || [];
+      if (plan.runtimeWiring.length > 0 || dropped.length > 0) {
+        const results = plan.operation === 'remove'
+          ? unwireRuntimeContributions(context.projectRoot, plan.runtimeWiring, dryRun)
+          : [
+            ...unwireRuntimeContributions(context.projectRoot, dropped, dryRun),
+            ...wireRuntimeContributions(context.projectRoot, plan.runtimeWiring, dryRun),
+          ];
 
         const errors = results.filter(r => !r.success);
         if (errors.length > 0) {
@@ -732,19 +1204,50 @@ export class ModulatorEngine implements IModulator {
 
   /**
    * Executes patch phase (native/config patches)
+   * 
+   * Remove plans revert the plugin's patches, upgrades revert the patches the new version drops
+   * or changes before applying; entries other installed plugins also declare are kept. A patch
+   * that can't be reverted (e.g. edited block) is a warning, not a failure.
+   * Every result is collected into `patchResults` for the manifest phase.
    */
   private async executePatch(
     context: ModulatorContext,
     plan: ModulatorPlan,
-    dryRun: boolean
+    dryRun: boolean,
+    revertedPatches: PatchOpResult[],
+    patchResults: PatchOpResult[]
   ): Promise<PhaseResult> {
     try {
+      const toRevert = plan.operation === 'remove' ? plan.patches : plan.revertPatches || [];
+      const warnings: string[] = [];
+      if (toRevert.length > 0) {
+        const retained = context.manifest.plugins
+          .filter(p => p.id !== plan.capabilityId)
+          .flatMap(p => this.getRecordedPatches(p));
+        const results = revertPatchOps(context.projectRoot, toRevert, retained, dryRun);
+        revertedPatches.push(...results);
+        patchResults.push(...results);
+        warnings.push(...results
+          .filter(r => !r.success)
+          .map(r => `Patch "${r.operationId}" not reverted: ${r.error} - review manually`));
+      }
+
+      if (plan.operation === 'remove') {
+        return {
+          phase: 'patch',
+          success: true,
+          action: plan.patches.length === 0 || dryRun ? 'skipped' : 'executed',
+          warnings: warnings.length > 0 ? warnings : undefined,
+        };
+      }
+
       if (plan.patches.length > 0) {
         const results = applyPatchOps(
           context.projectRoot,
           plan.patches,
           dryRun
         );
+        patchResults.push(...results);
 
         const errors = results.filter(r => !r.success);
         if (errors.length > 0) {
@@ -761,6 +1264,7 @@ export class ModulatorEngine implements IModulator {
         phase: 'patch',
         success: true,
         action: dryRun ? 'skipped' : 'executed',
+        warnings: warnings.length > 0 ? warnings : undefined,
       };
     } catch (error) {
       return {
@@ -791,7 +1295,7 @@ export class ModulatorEngine implements IModulator {
 
       const language = context.manifest.language || 'ts';
 
-      if (plan.operation === 'install') {
+      if (plan.operation !== 'remove') {
         // Generate re-export file for installed plugin
         generatePluginReExport(context.projectRoot, plan.capabilityId, language);
       } else if (plan.operation === 'remove') {
@@ -820,7 +1324,8 @@ export class ModulatorEngine implements IModulator {
   private async executeManifestUpdate(
     context: ModulatorContext,
     plan: ModulatorPlan,
-    dryRun: boolean
+    dryRun: boolean,
+    patchResults: PatchOpResult[]
   ): Promise<PhaseResult> {
     try {
       if (dryRun) {
@@ -831,14 +1336,66 @@ export class ModulatorEngine implements IModulator {
         };
       }
 
+      // json-merge additions other plugins still declare now belong to them
+      for (const handedOver of patchResults.flatMap(result => result.handedOver || [])) {
+        const holder = getPluginFromManifest(context.projectRoot, handedOver.capabilityId);
+        if (holder) {
+          addPluginToManifest(context.projectRoot, {
+            ...holder,
+            patchAdditions: recordPatchAdditions(holder.patchAdditions, [{ operationId: handedOver.operationId, added: handedOver.added }]),
+          });
+        }
+      }
+
       if (plan.operation === 'install' && plan.manifestUpdates.plugins) {
         for (const plugin of plan.manifestUpdates.plugins) {
+          const descriptor = getPluginRegistry().getPlugin(plugin.id);
+          const packRoot = resolvePackDestinationPath('plugin', plugin.id, context.projectRoot);
           addPluginToManifest(context.projectRoot, {
             id: plugin.id,
             version: plugin.version,
             installedAt: new Date().toISOString(),
             options: plugin.options,
             ownedFiles: plan.filesToCreate,
+            fileHashes: hashFiles(packRoot, plan.filesToCreate),
+            source: getPluginSourceRecord(plugin.id),
+            descriptor: descriptor ? createDescriptorSnapshot(descriptor) : undefined,
+            permissions: toPermissionRecords(descriptor),
+            patchAdditions: recordPatchAdditions(undefined, patchResults),
+          });
+        }
+      } else if (plan.upgrade && plan.manifestUpdates.plugins) {
+        for (const plugin of plan.manifestUpdates.plugins) {
+          const installed = getPluginFromManifest(context.projectRoot, plugin.id);
+          const descriptor = getPluginRegistry().getPluginOrThrow(plugin.id);
+          const removed = new Set(plan.upgrade?.packFiles.removed || []);
+          const ownedFiles = Array.from(new Set([
+            ...(installed?.ownedFiles || []).filter(file => !removed.has(file)),
+            ...plan.filesToCreate,
+          ]));
+          const packRoot = resolvePackDestinationPath('plugin', plugin.id, context.projectRoot);
+          // Additions of reverted patches are gone; migration patches are kept for remove
+          const reverted = new Set((plan.revertPatches || []).map(patch => patch.operationId));
+          const migrationPatches = [
+            ...(installed?.migrationPatches || []),
+            ...(installed ? selectMigrations(descriptor, installed.version) : []).flatMap(m => m.patches || []),
+          ];
+          addPluginToManifest(context.projectRoot, {
+            id: plugin.id,
+            version: plugin.version,
+            installedAt: installed?.installedAt || new Date().toISOString(),
+            options: plugin.options,
+            ownedFiles,
+            // Owned files are pack-relative (hashed at their packages/@rns/** location)
+            fileHashes: hashFiles(packRoot, ownedFiles),
+            source: getPluginSourceRecord(plugin.id),
+            descriptor: createDescriptorSnapshot(descriptor),
+            permissions: toPermissionRecords(descriptor),
+            patchAdditions: recordPatchAdditions(
+              Object.fromEntries(Object.entries(installed?.patchAdditions || {}).filter(([operationId]) => !reverted.has(operationId))),
+              patchResults
+            ),
+            migrationPatches: migrationPatches.length > 0 ? migrationPatches : undefined,
           });
         }
       } else if (plan.operation === 'remove') {
@@ -869,6 +1426,40 @@ export class ModulatorEngine implements IModulator {
     }
   }
 
+  /**
+   * Executes usage-descriptions phase (regenerates iOS usage-description texts after the manifest changed)
+   */
+  private async executeUsageDescriptions(
+    context: ModulatorContext,
+    dryRun: boolean
+  ): Promise<PhaseResult> {
+    try {
+      const manifest = readManifest(context.projectRoot);
+      if (dryRun || !manifest) {
+        return {
+          phase: 'usage-descriptions',
+          success: true,
+          action: 'skipped',
+        };
+      }
+
+      const result = syncUsageDescriptions(context.projectRoot, manifest);
+      return {
+        phase: 'usage-descriptions',
+        success: true,
+        action: result.written.length > 0 ? 'executed' : 'skipped',
+        warnings: result.warnings.length > 0 ? result.warnings : undefined,
+      };
+    } catch (error) {
+      return {
+        phase: 'usage-descriptions',
+        success: false,
+        action: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
   /**
    * Executes verify phase (check for duplicates, markers intact)
    */
@@ -902,6 +1493,42 @@ export class ModulatorEngine implements IModulator {
   }
 }
 
+/**
+ * Permission records for the manifest (aggregated into manifest.permissions)
+ */
+function toPermissionRecords(descriptor: PluginDescriptor | undefined): InstalledPluginRecord['permissions'] {
+  return descriptor?.permissions?.map(({ permissionId, mandatory }) => ({ permissionId, mandatory }));
+}
+
+/**
+ * Adds what applied json-merge patches added to a plugin's recorded additions
+ */
+function recordPatchAdditions(
+  recorded: InstalledPluginRecord['patchAdditions'],
+  results: Array<Pick<PatchOpResult, 'operationId' | 'added'>>
+): InstalledPluginRecord['patchAdditions'] {
+  const additions = { ...recorded };
+  for (const result of results.filter(r => r.added && r.added.length > 0)) {
+    additions[result.operationId] = [...(additions[result.operationId] || []), ...result.added!];
+  }
+  return Object.keys(additions).length > 0 ? additions : undefined;
+}
+
+/**
+ * Deletes a directory tree's empty directories, the directory itself included if it ends up empty
+ */
+function removeEmptyDirs(dir: string): void {
+  if (!isDirectory(dir)) {
+    return;
+  }
+  for (const entry of readdirSync(dir)) {
+    removeEmptyDirs(join(dir, entry));
+  }
+  if (readdirSync(dir).length === 0) {
+    rmdirSync(dir);
+  }
+}
+
 /**
  * Creates a modulator engine instance
  */
@@ -7,8 +7,8 @@
  * Modules generate to USER ZONE (src/modules/<moduleId>) and can register through SYSTEM ZONE registries.
  */
 
-import { join } from 'path';
-import { pathExists, isDirectory } from './fs';
+import { join, relative } from 'path';
+import { pathExists, isDirectory, hashFile } from './fs';
 import { CliError, ExitCode } from './errors';
 import { attachPack, type AttachmentOptions, type AttachmentReport } from './attachment-engine';
 import { resolvePackSourcePath, resolvePackDestinationPath } from './pack-locations';
@@ -149,13 +149,28 @@ export async function generateModule(
     }
 
     // 7. Update manifest (track installed module)
+    // Owned files are recorded project-relative with content hashes so `rns module remove`
+    // can detect files edited since generation
     if (!dryRun) {
+      const ownedFiles: string[] = [];
+      const fileHashes: Record<string, string> = {};
+      for (const packRelativePath of attachmentReport.ownedFilesCandidate) {
+        const destFile = attachmentReport.resolvedDestinations[packRelativePath];
+        const ownedPath = relative(projectRoot, destFile);
+        ownedFiles.push(ownedPath);
+        if (pathExists(destFile)) {
+          fileHashes[ownedPath] = hashFile(destFile);
+        }
+      }
+
       const moduleRecord: InstalledPluginRecord = {
         id: moduleId,
         version: descriptor.version,
         installedAt: new Date().toISOString(),
         options,
-        ownedFiles: attachmentReport.ownedFilesCandidate,
+        ownedFiles,
+        ownedDirs: [relative(projectRoot, resolvePackDestinationPath('module', moduleId, projectRoot))],
+        fileHashes,
       };
 
       addModuleToManifest(projectRoot, moduleRecord);
@@ -0,0 +1,218 @@
+/**
+ * FILE: src/lib/module-remover.test.ts
+ * PURPOSE: Unit/spec tests for module removal (safe teardown of generated feature code)
+ * OWNERSHIP: CLI
+ * 
+ * Tests validate:
+ * - Owned files/directories are removed and backed up
+ * - Registrations wired by generateModule are unwired
+ * - Navigation registry entries referencing the module are removed
+ * - Files edited since generation block removal unless force
+ * - Manifest modules list is updated
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { removeModule, removeNavigationRegistryEntries } from './module-remover';
+import { wireRuntimeContributions } from './runtime-wiring';
+import { createManifest, writeManifest, addModuleToManifest, readManifest } from './manifest';
+import { hashFile, pathExists } from './fs';
+import type { InitInputs } from './init';
+import type { InstalledPluginRecord } from './types/manifest';
+import type { ModuleDescriptor } from './types/module';
+
+/**
+ * Helper to create default InitInputs for tests
+ */
+function createTestInitInputs(overrides: Partial<InitInputs> = {}): InitInputs {
+  return {
+    projectName: 'TestApp',
+    destination: '/tmp/test',
+    target: 'expo',
+    language: 'ts',
+    packageManager: 'npm',
+    locales: ['en'],
+    selectedOptions: {
+      i18n: true,
+      theming: false,
+      reactNavigation: false,
+      expoRouter: false,
+      authentication: null,
+      styling: 'stylesheet',
+    },
+    coreToggles: {
+      alias: true,
+      svg: true,
+      fonts: true,
+      env: true,
+    },
+    plugins: [],
+    installCoreDependencies: false,
+    ...overrides,
+  };
+}
+
+const CORE_INIT = `import { logger } from '@rns/core';
+
+export function initCore(): void {
+  // @rns-marker:init-steps:start
+  // @rns-marker:init-steps:end
+
+  // @rns-marker:registrations:start
+  // Plugin registrations will be injected here
+  // @rns-marker:registrations:end
+}
+`;
+
+const REGISTRY = `import type { NavScreen } from '@rns/navigation';
+import { createRoute } from '@rns/navigation';
+import HomeScreen from '@/screens/HomeScreen';
+import ProfileScreen from '@/modules/module.profile/screens/ProfileScreen';
+
+export function getStackScreens(): NavScreen[] {
+  return [
+    { name: createRoute('SCREEN_HOME'), component: HomeScreen, order: 10 },
+    { name: createRoute('SCREEN_PROFILE'), component: ProfileScreen, order: 20 },
+  ];
+}
+`;
+
+describe('module-remover', () => {
+  let testProjectRoot: string;
+  const moduleId = 'module.profile';
+  const moduleDir = join('src', 'modules', moduleId);
+  const descriptor: ModuleDescriptor = {
+    id: moduleId,
+    name: 'Profile',
+    version: '1.0.0',
+    category: 'user',
+    support: { targets: ['expo', 'bare'] },
+    runtimeContributions: [
+      { type: 'import', imports: [{ symbol: 'registerProfile', source: '@/modules/module.profile' }] },
+      { type: 'registration', registration: { symbol: 'registerProfile', source: '@/modules/module.profile' } },
+    ],
+  };
+
+  async function generateTestModule(): Promise<InstalledPluginRecord> {
+    const files = [join(moduleDir, 'index.ts'), join(moduleDir, 'screens', 'ProfileScreen.tsx')];
+    await mkdir(join(testProjectRoot, moduleDir, 'screens'), { recursive: true });
+    await writeFile(join(testProjectRoot, files[0]), 'export function registerProfile() {}\n');
+    await writeFile(join(testProjectRoot, files[1]), 'export default function ProfileScreen() { return null; }\n');
+
+    wireRuntimeContributions(testProjectRoot, descriptor.runtimeContributions!.map(contribution => ({
+      contribution,
+      markerType: 'registrations' as const,
+      file: 'packages/@rns/runtime/core-init.ts',
+      capabilityId: moduleId,
+    })));
+
+    const record: InstalledPluginRecord = {
+      id: moduleId,
+      version: '1.0.0',
+      installedAt: new Date().toISOString(),
+      ownedFiles: files,
+      ownedDirs: [moduleDir],
+      fileHashes: Object.fromEntries(files.map(f => [f, hashFile(join(testProjectRoot, f))])),
+    };
+    addModuleToManifest(testProjectRoot, record);
+    return record;
+  }
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-project-'));
+    await mkdir(join(testProjectRoot, '.rns'), { recursive: true });
+    await mkdir(join(testProjectRoot, 'packages', '@rns', 'runtime'), { recursive: true });
+    await mkdir(join(testProjectRoot, 'src', 'app', 'navigation'), { recursive: true });
+    await writeFile(join(testProjectRoot, 'packages', '@rns', 'runtime', 'core-init.ts'), CORE_INIT);
+    await writeFile(join(testProjectRoot, 'src', 'app', 'navigation', 'registry.ts'), REGISTRY);
+
+    const manifest = createManifest(testProjectRoot, createTestInitInputs({ destination: testProjectRoot }));
+    writeManifest(testProjectRoot, manifest);
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testProjectRoot, { recursive: true, force: true });
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should remove owned files, unwire registrations and update manifest', async () => {
+    const record = await generateTestModule();
+    const coreInitPath = join(testProjectRoot, 'packages', '@rns', 'runtime', 'core-init.ts');
+    expect(await readFile(coreInitPath, 'utf-8')).toContain('registerProfile();');
+
+    const result = removeModule(testProjectRoot, record, descriptor);
+
+    expect(result.success).toBe(true);
+    expect(result.removed.files).toHaveLength(2);
+    expect(pathExists(join(testProjectRoot, moduleDir))).toBe(false);
+
+    const coreInit = await readFile(coreInitPath, 'utf-8');
+    expect(coreInit).not.toContain('registerProfile');
+    expect(coreInit).not.toContain(`@rns-inject:${moduleId}`);
+    expect(coreInit).toContain('// @rns-marker:registrations:end');
+
+    expect(readManifest(testProjectRoot)?.modules).toEqual([]);
+  });
+
+  it('should back up removed files', async () => {
+    const record = await generateTestModule();
+
+    const result = removeModule(testProjectRoot, record, descriptor);
+
+    expect(result.backupDir).toBeDefined();
+    expect(pathExists(join(result.backupDir!, moduleDir, 'index.ts'))).toBe(true);
+  });
+
+  it('should remove navigation registry entries referencing the module', async () => {
+    const record = await generateTestModule();
+
+    const result = removeModule(testProjectRoot, record, descriptor);
+
+    const registry = await readFile(join(testProjectRoot, 'src', 'app', 'navigation', 'registry.ts'), 'utf-8');
+    expect(result.registryEntriesRemoved).toBe(2);
+    expect(registry).not.toContain('ProfileScreen');
+    expect(registry).toContain('HomeScreen');
+  });
+
+  it('should refuse to remove files edited since generation unless force', async () => {
+    const record = await generateTestModule();
+    await writeFile(join(testProjectRoot, moduleDir, 'index.ts'), '// edited by user\n');
+    await writeFile(join(testProjectRoot, moduleDir, 'notes.md'), 'user file\n');
+
+    const refused = removeModule(testProjectRoot, record, descriptor);
+    expect(refused.success).toBe(false);
+    expect(refused.modified).toEqual([join(moduleDir, 'index.ts'), join(moduleDir, 'notes.md')]);
+    expect(refused.errors?.[0]).toContain('--force');
+    expect(pathExists(join(testProjectRoot, moduleDir, 'index.ts'))).toBe(true);
+    expect(readManifest(testProjectRoot)?.modules).toHaveLength(1);
+
+    const forced = removeModule(testProjectRoot, record, descriptor, { force: true });
+    expect(forced.success).toBe(true);
+    expect(pathExists(join(testProjectRoot, moduleDir))).toBe(false);
+    expect(pathExists(join(forced.backupDir!, moduleDir, 'notes.md'))).toBe(true);
+  });
+
+  it('should not write anything in dry-run', async () => {
+    const record = await generateTestModule();
+
+    const result = removeModule(testProjectRoot, record, descriptor, { dryRun: true });
+
+    expect(result.success).toBe(true);
+    expect(result.removed.files).toHaveLength(2);
+    expect(pathExists(join(testProjectRoot, moduleDir, 'index.ts'))).toBe(true);
+    expect(readManifest(testProjectRoot)?.modules).toHaveLength(1);
+  });
+
+  it('should leave registries without module references untouched', () => {
+    const content = `import HomeScreen from '@/screens/HomeScreen';\nexport const screens = [HomeScreen];\n`;
+    const result = removeNavigationRegistryEntries(content, moduleId, moduleDir);
+
+    expect(result.removed).toBe(0);
+    expect(result.content).toBe(content);
+  });
+});
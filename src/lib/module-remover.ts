@@ -0,0 +1,445 @@
+/**
+ * FILE: src/lib/module-remover.ts
+ * PURPOSE: Module removal engine (section 22) - safe teardown of generated feature code
+ * OWNERSHIP: CLI
+ *
+ * Reverses generateModule():
+ * - Deletes files recorded in the module record (ownedFiles/ownedDirs)
+ * - Unwires runtime contributions from the registrations marker (core-init.ts)
+ * - Removes navigation registry entries that reference the module (src/app/navigation/registry.*)
+ * - Removes the module from the manifest
+ *
+ * Files edited since generation (hash mismatch, no recorded hash, or untracked files in owned dirs)
+ * block removal unless force is set. Everything removed or modified is backed up first.
+ */
+
+import { join, relative, sep } from 'path';
+import { readdirSync, rmdirSync, unlinkSync } from 'fs';
+import { Project, Node, SyntaxKind } from 'ts-morph';
+import { pathExists, isDirectory, isFile, hashFile, readTextFile, writeTextFile } from './fs';
+import { backupFile, createBackupDirectory } from './backup';
+import { resolvePackDestinationPath } from './pack-locations';
+import { removeModuleFromManifest } from './manifest';
+import { USER_SRC_DIR } from './constants';
+import type { InstalledPluginRecord } from './types/manifest';
+import type { ModuleDescriptor } from './types/module';
+import type { ImportContribution } from './types/runtime';
+
+/**
+ * File that receives module registrations (see generateModule)
+ */
+const REGISTRATIONS_FILE = 'packages/@rns/runtime/core-init.ts';
+
+/**
+ * Candidate navigation registry files (USER ZONE)
+ */
+const NAVIGATION_REGISTRY_FILES = [
+  join(USER_SRC_DIR, 'app', 'navigation', 'registry.ts'),
+  join(USER_SRC_DIR, 'app', 'navigation', 'registry.js'),
+];
+
+/**
+ * Module removal options
+ */
+export interface ModuleRemovalOptions {
+  /** Remove files even if they were edited since generation */
+  force?: boolean;
+  /** Plan only, don't write changes */
+  dryRun?: boolean;
+}
+
+/**
+ * Module removal result
+ */
+export interface ModuleRemovalResult {
+  /** Whether removal succeeded */
+  success: boolean;
+  /** Removed (or, in dry-run, to-be-removed) files/directories (project-relative) */
+  removed: {
+    files: string[];
+    directories: string[];
+  };
+  /** Files edited since generation (project-relative) */
+  modified: string[];
+  /** Runtime contributions unwired from the registrations marker */
+  unwired: number;
+  /** Navigation registry entries removed */
+  registryEntriesRemoved: number;
+  /** Backup directory (if anything was written) */
+  backupDir?: string;
+  /** Errors if any */
+  errors?: string[];
+  /** Warnings if any */
+  warnings?: string[];
+}
+
+/**
+ * Removes a generated module
+ *
+ * @param projectRoot - Project root directory
+ * @param record - Installed module record from manifest
+ * @param descriptor - Module descriptor (optional; module may no longer be in registry)
+ * @param options - Removal options
+ * @returns Removal result
+ */
+export function removeModule(
+  projectRoot: string,
+  record: InstalledPluginRecord,
+  descriptor: ModuleDescriptor | undefined,
+  options: ModuleRemovalOptions = {}
+): ModuleRemovalResult {
+  const moduleId = record.id;
+  const result: ModuleRemovalResult = {
+    success: false,
+    removed: { files: [], directories: [] },
+    modified: [],
+    unwired: 0,
+    registryEntriesRemoved: 0,
+    errors: [],
+    warnings: [],
+  };
+
+  try {
+    const ownedDirs = resolveOwnedDirs(projectRoot, record);
+    const ownedFiles = resolveOwnedFiles(projectRoot, record, ownedDirs);
+
+    // 1. Detect files edited since generation
+    result.modified = detectModifiedFiles(projectRoot, record, ownedFiles, ownedDirs);
+    if (result.modified.length > 0 && !options.force) {
+      result.errors!.push(
+        `Module "${moduleId}" has files modified since generation: ${result.modified.join(', ')}. ` +
+        `Re-run with --force to remove them anyway (they will be backed up to .rns/backups).`
+      );
+      return result;
+    }
+
+    const filesToRemove = [
+      ...ownedFiles.filter(f => isFile(join(projectRoot, f))),
+      ...result.modified.filter(f => !ownedFiles.includes(f)),
+    ].sort();
+    const dirsToRemove = ownedDirs.filter(d => isDirectory(join(projectRoot, d)));
+
+    result.removed = { files: filesToRemove, directories: dirsToRemove };
+
+    if (options.dryRun) {
+      result.success = true;
+      return result;
+    }
+
+    const backupDir = createBackupDirectory(projectRoot, `module-remove-${moduleId}`);
+    result.backupDir = backupDir;
+
+    // 2. Delete owned files (backed up first)
+    for (const file of filesToRemove) {
+      const filePath = join(projectRoot, file);
+      backupFile(projectRoot, filePath, backupDir);
+      unlinkSync(filePath);
+    }
+
+    // 3. Delete owned directories (only if empty after file removal)
+    for (const dir of dirsToRemove) {
+      if (!removeEmptyDirs(join(projectRoot, dir))) {
+        result.warnings!.push(`Directory not empty, left in place: ${dir}`);
+      }
+    }
+
+    // 4. Unwire runtime contributions from registrations marker
+    const registrationsPath = join(projectRoot, REGISTRATIONS_FILE);
+    if (pathExists(registrationsPath)) {
+      const content = readTextFile(registrationsPath);
+      const unwired = unwireModuleContributions(content, moduleId, descriptor);
+      if (unwired.content !== content) {
+        backupFile(projectRoot, registrationsPath, backupDir);
+        writeTextFile(registrationsPath, unwired.content);
+      }
+      result.unwired = unwired.removed;
+    }
+
+    // 5. Remove navigation registry entries referencing the module
+    for (const registryFile of NAVIGATION_REGISTRY_FILES) {
+      const registryPath = join(projectRoot, registryFile);
+      if (!pathExists(registryPath)) {
+        continue;
+      }
+      const moduleDir = relative(projectRoot, resolvePackDestinationPath('module', moduleId, projectRoot));
+      const cleaned = removeNavigationRegistryEntries(readTextFile(registryPath), moduleId, moduleDir);
+      if (cleaned.removed > 0) {
+        backupFile(projectRoot, registryPath, backupDir);
+        writeTextFile(registryPath, cleaned.content);
+        result.registryEntriesRemoved += cleaned.removed;
+      }
+    }
+
+    // 6. Update manifest
+    removeModuleFromManifest(projectRoot, moduleId);
+
+    result.success = true;
+    return result;
+  } catch (error) {
+    result.errors!.push(error instanceof Error ? error.message : String(error));
+    result.success = false;
+    return result;
+  }
+}
+
+/**
+ * Resolves owned directories (project-relative), defaulting to the module destination
+ */
+function resolveOwnedDirs(projectRoot: string, record: InstalledPluginRecord): string[] {
+  if (record.ownedDirs && record.ownedDirs.length > 0) {
+    return [...record.ownedDirs];
+  }
+  return [relative(projectRoot, resolvePackDestinationPath('module', record.id, projectRoot))];
+}
+
+/**
+ * Resolves owned files to project-relative paths.
+ * Older records stored pack-relative paths (relative to the module directory).
+ */
+function resolveOwnedFiles(projectRoot: string, record: InstalledPluginRecord, ownedDirs: string[]): string[] {
+  const moduleDir = ownedDirs[0];
+  return (record.ownedFiles || []).map(file => {
+    const isProjectRelative = ownedDirs.some(dir => file.startsWith(dir + sep));
+    return isProjectRelative ? file : join(moduleDir, file);
+  });
+}
+
+/**
+ * Detects files that were edited (or added) since generation
+ * - Owned file whose hash differs from the recorded hash
+ * - Owned file without a recorded hash (cannot be verified)
+ * - File inside an owned directory that is not an owned file
+ */
+function detectModifiedFiles(
+  projectRoot: string,
+  record: InstalledPluginRecord,
+  ownedFiles: string[],
+  ownedDirs: string[]
+): string[] {
+  const modified: string[] = [];
+  const hashes = record.fileHashes || {};
+
+  for (const file of ownedFiles) {
+    const filePath = join(projectRoot, file);
+    if (!isFile(filePath)) {
+      continue;
+    }
+    const recorded = hashes[file];
+    if (!recorded || recorded !== hashFile(filePath)) {
+      modified.push(file);
+    }
+  }
+
+  const owned = new Set(ownedFiles);
+  for (const dir of ownedDirs) {
+    for (const file of listFilesRecursive(join(projectRoot, dir))) {
+      const relativePath = relative(projectRoot, file);
+      if (!owned.has(relativePath)) {
+        modified.push(relativePath);
+      }
+    }
+  }
+
+  return modified.sort();
+}
+
+/**
+ * Lists files under a directory (recursive)
+ */
+function listFilesRecursive(dir: string): string[] {
+  if (!isDirectory(dir)) {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFilesRecursive(entryPath));
+    } else {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Removes a directory tree bottom-up if it only contains empty directories
+ *
+ * @returns true if the directory was removed
+ */
+function removeEmptyDirs(dir: string): boolean {
+  if (!isDirectory(dir)) {
+    return true;
+  }
+  let empty = true;
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory() || !removeEmptyDirs(join(dir, entry.name))) {
+      empty = false;
+    }
+  }
+  if (empty) {
+    rmdirSync(dir);
+  }
+  return empty;
+}
+
+/**
+ * Removes a module's injected statements and tracking markers from registrations file content.
+ * Mirrors the layout written by runtime-wiring (inline marker line + statement line + blank line,
+ * tracking marker at end of file). Import contributions are removed via AST when their symbols
+ * are no longer referenced.
+ *
+ * @returns Updated content and number of contributions removed
+ */
+export function unwireModuleContributions(
+  content: string,
+  moduleId: string,
+  descriptor?: ModuleDescriptor
+): { content: string; removed: number } {
+  const id = escapeRegExp(moduleId);
+  const inlineMarker = new RegExp(`@rns-inject:${id}-(registration|init-step):`);
+  const trackingMarker = new RegExp(`^\\s*//\\s*@rns-inject:${id}-[a-z-]+-[a-z-]+:`);
+
+  const lines = content.split('\n');
+  const kept: string[] = [];
+  let removed = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (inlineMarker.test(line)) {
+      // Skip marker line + injected statement (+ trailing blank line)
+      i++;
+      if (i + 1 < lines.length && lines[i + 1].trim() === '') {
+        i++;
+      }
+      removed++;
+      continue;
+    }
+    if (trackingMarker.test(line)) {
+      continue;
+    }
+    kept.push(line);
+  }
+
+  let updated = kept.join('\n');
+
+  // Remove imports contributed by the module (only if no longer referenced)
+  const importContributions = (descriptor?.runtimeContributions || [])
+    .filter((c): c is ImportContribution => c.type === 'import');
+  if (importContributions.length > 0) {
+    const project = new Project({
+      skipAddingFilesFromTsConfig: true,
+      skipFileDependencyResolution: true,
+      skipLoadingLibFiles: true,
+      useInMemoryFileSystem: true,
+    });
+    const sourceFile = project.createSourceFile('registrations.ts', updated);
+    let importsRemoved = false;
+
+    for (const contribution of importContributions) {
+      for (const symbolRef of contribution.imports) {
+        const declaration = sourceFile.getImportDeclarations()
+          .find(imp => imp.getModuleSpecifierValue() === symbolRef.source);
+        const namedImport = declaration?.getNamedImports().find(n => n.getName() === symbolRef.symbol);
+        if (!declaration || !namedImport) {
+          continue;
+        }
+
+        const usages = sourceFile.getDescendantsOfKind(SyntaxKind.Identifier)
+          .filter(identifier => identifier.getText() === symbolRef.symbol)
+          .filter(identifier => !identifier.getFirstAncestorByKind(SyntaxKind.ImportDeclaration));
+        if (usages.length > 0) {
+          continue;
+        }
+
+        namedImport.remove();
+        if (declaration.getNamedImports().length === 0 && !declaration.getDefaultImport() && !declaration.getNamespaceImport()) {
+          declaration.remove();
+        }
+        importsRemoved = true;
+      }
+    }
+
+    if (importsRemoved) {
+      updated = sourceFile.getFullText();
+      removed += importContributions.length;
+    }
+  }
+
+  return { content: updated, removed };
+}
+
+/**
+ * Removes navigation registry entries that reference a module:
+ * import declarations from the module directory and array entries using the imported symbols.
+ *
+ * @returns Updated content and number of entries removed (imports + screen entries)
+ */
+export function removeNavigationRegistryEntries(
+  content: string,
+  moduleId: string,
+  moduleDir: string
+): { content: string; removed: number } {
+  const project = new Project({
+    skipAddingFilesFromTsConfig: true,
+    skipFileDependencyResolution: true,
+    skipLoadingLibFiles: true,
+    useInMemoryFileSystem: true,
+  });
+  const sourceFile = project.createSourceFile('registry.tsx', content);
+  const moduleSegment = `modules/${moduleId}`;
+
+  const referencesModule = (specifier: string): boolean =>
+    specifier === `@/${moduleSegment}` ||
+    specifier.startsWith(`@/${moduleSegment}/`) ||
+    specifier.includes(`/${moduleSegment}/`) ||
+    specifier.endsWith(`/${moduleSegment}`) ||
+    specifier.startsWith(moduleDir);
+
+  const symbols = new Set<string>();
+  let removed = 0;
+
+  for (const declaration of sourceFile.getImportDeclarations()) {
+    if (!referencesModule(declaration.getModuleSpecifierValue())) {
+      continue;
+    }
+    const defaultImport = declaration.getDefaultImport();
+    if (defaultImport) {
+      symbols.add(defaultImport.getText());
+    }
+    for (const named of declaration.getNamedImports()) {
+      symbols.add(named.getAliasNode()?.getText() || named.getName());
+    }
+    declaration.remove();
+    removed++;
+  }
+
+  if (symbols.size === 0) {
+    return { content, removed: 0 };
+  }
+
+  // Remove array entries (e.g. { name, component: ModuleScreen }) that use the module's symbols
+  for (const array of sourceFile.getDescendantsOfKind(SyntaxKind.ArrayLiteralExpression)) {
+    if (array.wasForgotten()) {
+      continue;
+    }
+    for (const element of [...array.getElements()].reverse()) {
+      const usesModule = Node.isIdentifier(element)
+        ? symbols.has(element.getText())
+        : element.getDescendantsOfKind(SyntaxKind.Identifier).some(identifier => symbols.has(identifier.getText()));
+      if (usesModule) {
+        array.removeElement(element);
+        removed++;
+      }
+    }
+  }
+
+  return { content: sourceFile.getFullText(), removed };
+}
+
+/**
+ * Escapes a string for use in a RegExp
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
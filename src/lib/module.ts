@@ -6,6 +6,7 @@
  * This module provides the implementation for module commands:
  * - list: List available modules
  * - add: Generate modules
+ * - remove: Remove generated modules
  * - status: Show installed vs available
  * - doctor: Module-specific validation
  */
@@ -13,7 +14,8 @@
 import { readManifest, validateProjectInitialized } from './manifest';
 import { getModuleRegistry, initializeModuleRegistry } from './module-registry';
 import { generateModule } from './module-generator';
-import { promptMultiSelect, promptText, setPromptLogger } from './prompts';
+import { removeModule } from './module-remover';
+import { promptMultiSelect, promptText, promptConfirm, setPromptLogger } from './prompts';
 import { CliError, ExitCode } from './errors';
 import type { RuntimeContext } from './runtime';
 import type { ModuleDescriptor, ModuleId, ModuleGenerationContext } from './types/module';
@@ -29,12 +31,16 @@ export interface ListModulesOptions {
 }
 
 /**
- * Options for add command
+ * Options for add/remove commands
  */
 export interface ModuleCommandOptions {
   yes?: boolean;
   dryRun?: boolean;
   verbose?: boolean;
+  /** remove: delete files edited since generation (backed up first) */
+  force?: boolean;
+  /** add: generation options per module ID (e.g. from rns.config.json), applied over defaults */
+  moduleOptions?: Record<string, Record<string, unknown>>;
 }
 
 /**
@@ -49,7 +55,10 @@ export interface ModuleCommandResult {
     filesGenerated?: number;
     directoriesGenerated?: number;
     registrations?: number;
+    filesRemoved?: number;
+    registryEntriesRemoved?: number;
   };
+  backupDir?: string;
 }
 
 /**
@@ -281,6 +290,8 @@ export async function addModules(
         }
       }
 
+      Object.assign(generationOptions, options.moduleOptions?.[moduleId]);
+
       // Create generation context
       const genContext = createModuleGenerationContext(context, moduleId, generationOptions);
       
@@ -334,6 +345,143 @@ export async function addModules(
   return results;
 }
 
+/**
+ * Removes one or more generated modules
+ */
+export async function removeModules(
+  moduleIds: string[],
+  options: ModuleCommandOptions,
+  context: RuntimeContext
+): Promise<ModuleCommandResult[]> {
+  setPromptLogger(context.logger);
+  validateProjectInitialized(context.resolvedRoot);
+
+  await initializeModuleRegistry();
+  const registry = getModuleRegistry();
+
+  const results: ModuleCommandResult[] = [];
+
+  // If no module IDs provided, show interactive selection from installed modules
+  if (moduleIds.length === 0) {
+    const manifest = readManifest(context.resolvedRoot);
+    const installedModules = manifest?.modules || [];
+
+    if (installedModules.length === 0) {
+      context.logger.info('No modules installed.');
+      return results;
+    }
+
+    const choices = installedModules.map(m => ({
+      label: `${m.id} v${m.version} (installed ${m.installedAt})`,
+      value: m.id,
+    }));
+
+    const selected = await promptMultiSelect(
+      'Select modules to remove:',
+      choices
+    );
+
+    if (selected.length === 0) {
+      context.logger.info('No modules selected.');
+      return results;
+    }
+
+    moduleIds = selected;
+  }
+
+  // Confirm removal unless --yes flag
+  if (!options.yes && !options.dryRun) {
+    const confirmed = await promptConfirm(
+      `Remove ${moduleIds.length} module(s)? This will delete generated module code and registrations.`,
+      false
+    );
+    if (!confirmed) {
+      context.logger.info('Removal cancelled.');
+      return results;
+    }
+  }
+
+  for (const moduleId of moduleIds) {
+    try {
+      // Re-read manifest to get latest state (after previous removals)
+      const manifest = readManifest(context.resolvedRoot);
+      const installed = manifest?.modules?.find(m => m.id === moduleId);
+      if (!installed) {
+        results.push({
+          moduleId,
+          success: false,
+          skipped: true,
+          error: `Module "${moduleId}" is not installed`,
+        });
+        continue;
+      }
+
+      const removal = removeModule(
+        context.resolvedRoot,
+        installed,
+        registry.getModule(moduleId),
+        { force: options.force, dryRun: options.dryRun }
+      );
+
+      if (!removal.success) {
+        const errorMessage = removal.errors?.join('; ') || 'Unknown error';
+        results.push({
+          moduleId,
+          success: false,
+          skipped: false,
+          error: errorMessage,
+        });
+        context.logger.error(`✗ ${moduleId} removal failed: ${errorMessage}`);
+        continue;
+      }
+
+      results.push({
+        moduleId,
+        success: true,
+        skipped: false,
+        summary: {
+          filesRemoved: removal.removed.files.length,
+          registrations: removal.unwired,
+          registryEntriesRemoved: removal.registryEntriesRemoved,
+        },
+        backupDir: removal.backupDir,
+      });
+
+      if (options.dryRun) {
+        context.logger.info(`Plan for removing ${moduleId}:`);
+        for (const file of removal.removed.files) {
+          const note = removal.modified.includes(file) ? ' (modified since generation)' : '';
+          context.logger.info(`  - ${file}${note}`);
+        }
+      } else {
+        context.logger.info(`✓ ${moduleId} removed successfully`);
+        if (options.verbose) {
+          context.logger.info(`  - Files removed: ${removal.removed.files.length}`);
+          context.logger.info(`  - Registrations unwired: ${removal.unwired}`);
+          context.logger.info(`  - Navigation registry entries removed: ${removal.registryEntriesRemoved}`);
+          if (removal.backupDir) {
+            context.logger.info(`  - Backup: ${removal.backupDir}`);
+          }
+        }
+      }
+      for (const warning of removal.warnings || []) {
+        context.logger.warn(`  Warning: ${warning}`);
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      results.push({
+        moduleId,
+        success: false,
+        skipped: false,
+        error: errorMessage,
+      });
+      context.logger.error(`✗ ${moduleId} removal failed: ${errorMessage}`);
+    }
+  }
+
+  return results;
+}
+
 /**
  * Gets module status (installed vs available)
  */
@@ -11,6 +11,7 @@ import { CliError, ExitCode } from './errors';
 import { resolvePackSourcePath, resolvePackDestinationPath, type PackType, type PackDelivery } from './pack-locations';
 import { loadPackManifest, hasPackManifest, type PackManifest } from './pack-manifest';
 import { resolvePackVariant, normalizeOptionsKey, type VariantResolutionInputs } from './pack-variants';
+import { getExternalPluginPacks } from './plugin-sources';
 
 /**
  * Pack discovery result
@@ -102,9 +103,9 @@ export function listPacks(packType: PackType): DiscoveredPack[] {
       throw new CliError(`Unknown pack type: ${packType}`, ExitCode.VALIDATION_STATE_FAILURE);
   }
   
-  // If directory doesn't exist, return empty array
+  // If directory doesn't exist, only third-party plugin packs are available
   if (!pathExists(packsDir) || !isDirectory(packsDir)) {
-    return packs;
+    return packType === 'plugin' ? listExternalPluginPacks() : packs;
   }
   
   // Scan directory for pack subdirectories
@@ -168,9 +169,25 @@ export function listPacks(packType: PackType): DiscoveredPack[] {
     }
   }
   
+  if (packType === 'plugin') {
+    packs.push(...listExternalPluginPacks());
+  }
+  
   return packs;
 }
 
+/**
+ * Lists third-party plugin packs from the active plugin sources (.rns/config.json pluginSources)
+ */
+function listExternalPluginPacks(): DiscoveredPack[] {
+  return getExternalPluginPacks().map(externalPack => ({
+    id: externalPack.id,
+    type: 'plugin' as const,
+    manifest: loadPackManifest(externalPack.path),
+    sourcePath: externalPack.path,
+  }));
+}
+
 /**
  * Discovers all packs (CORE, plugins, and modules)
  * 
@@ -5,6 +5,7 @@
  */
 
 import { join, dirname } from 'path';
+import { findExternalPluginPack } from './plugin-sources';
 
 /**
  * Pack type definitions
@@ -59,6 +60,7 @@ export function resolveCliRoot(): string {
  * 
  * Note: Plugin and module IDs may contain dots (e.g., "state.zustand"), but directory names
  * use dashes (e.g., "state-zustand"). This function normalizes the ID for path resolution.
+ * Plugins from third-party sources (.rns/config.json pluginSources) resolve to their source directory.
  */
 export function resolvePackSourcePath(packType: PackType, packId: string): string {
   const cliRoot = resolveCliRoot();
@@ -68,6 +70,10 @@ export function resolvePackSourcePath(packType: PackType, packId: string): strin
       // CORE base pack is at templates/base (no packId subdirectory)
       return join(cliRoot, CORE_BASE_DIR);
     case 'plugin':
+      const externalPack = findExternalPluginPack(packId);
+      if (externalPack) {
+        return externalPack.path;
+      }
       // Normalize plugin ID: dots -> dashes (e.g., "state.zustand" -> "state-zustand")
       const normalizedPluginId = packId.replace(/\./g, '-');
       return join(cliRoot, PLUGIN_PACKS_DIR, normalizedPluginId);
@@ -8,6 +8,9 @@
  * - Insert-once semantics (idempotent, no duplicates)
  * - Rollback safety (backups created, can restore)
  * - Patch types (expo-config, plist, entitlements, android-manifest, gradle, podfile, text-anchor)
+ * - Reverts (apply + revert restores the file; entries other plugins declare are kept)
+ * - Structured XML edits (nested plist key paths, dictionary values, <application> components)
+ * - File patch types (gradle-properties, strings-xml, json-merge) apply/revert round trips
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
@@ -17,6 +20,8 @@ import { tmpdir } from 'os';
 import {
   applyPatchOp,
   applyPatchOps,
+  revertPatchOp,
+  revertPatchOps,
 } from './patch-ops';
 import type {
   PatchOp,
@@ -24,6 +29,9 @@ import type {
   GradlePatchOp,
   PlistPatchOp,
   AndroidManifestPatchOp,
+  GradlePropertiesPatchOp,
+  StringsXmlPatchOp,
+  JsonMergePatchOp,
 } from './types/patch-ops';
 
 describe('patch-ops', () => {
@@ -462,4 +470,443 @@ describe('patch-ops', () => {
       expect(newContent).toBe(originalContent);
     });
   });
+
+  describe('revert', () => {
+    it('should restore plist, Android manifest and Gradle files after apply + revert', async () => {
+      await mkdir(join(testProjectRoot, 'ios', 'MyApp'), { recursive: true });
+      await mkdir(join(testProjectRoot, 'android', 'app', 'src', 'main'), { recursive: true });
+      const files: Record<string, string> = {
+        'ios/MyApp/Info.plist': `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+    <key>CFBundleDisplayName</key>
+    <string>MyApp</string>
+</dict>
+</plist>
+`,
+        'android/app/src/main/AndroidManifest.xml': `<?xml version="1.0" encoding="utf-8"?>
+<manifest xmlns:android="http://schemas.android.com/apk/res/android">
+    <application>
+    </application>
+</manifest>
+`,
+        'android/app/build.gradle': `dependencies {
+    implementation 'com.android.support:appcompat-v7:28.0.0'
+}
+`,
+      };
+      for (const [file, content] of Object.entries(files)) {
+        await writeFile(join(testProjectRoot, file), content);
+      }
+
+      const patches: PatchOp[] = [
+        {
+          type: 'plist',
+          file: 'ios/MyApp/Info.plist',
+          capabilityId: 'camera.plugin',
+          operationId: 'camera-plugin-plist',
+          key: 'NSCameraUsageDescription',
+          value: 'This app needs camera access',
+        },
+        {
+          type: 'android-manifest',
+          file: 'android/app/src/main/AndroidManifest.xml',
+          capabilityId: 'camera.plugin',
+          operationId: 'camera-plugin-manifest',
+          manifestOp: 'permission',
+          name: 'android.permission.CAMERA',
+          action: 'add',
+        },
+        {
+          type: 'gradle',
+          file: 'android/app/build.gradle',
+          capabilityId: 'camera.plugin',
+          operationId: 'camera-plugin-gradle',
+          anchor: "implementation 'com.android.support:appcompat-v7:28.0.0'",
+          content: "    implementation 'expo-camera:1.0.0'",
+          mode: 'after',
+        },
+      ];
+
+      applyPatchOps(testProjectRoot, patches, false);
+      const results = revertPatchOps(testProjectRoot, patches, [], false);
+
+      expect(results.map(r => r.action)).toEqual(['reverted', 'reverted', 'reverted']);
+      for (const [file, content] of Object.entries(files)) {
+        expect(await readFile(join(testProjectRoot, file), 'utf-8')).toBe(content);
+      }
+
+      // Nothing left to undo
+      expect(revertPatchOps(testProjectRoot, patches, [], false).map(r => r.action))
+        .toEqual(['skipped', 'skipped', 'skipped']);
+    });
+
+    it('should keep Expo config entries other plugins still declare', async () => {
+      const appJsonPath = join(testProjectRoot, 'app.json');
+      await writeFile(appJsonPath, JSON.stringify({ expo: { name: 'MyApp', plugins: [] } }, null, 2));
+
+      const camera: ExpoConfigPatchOp = {
+        type: 'expo-config',
+        file: 'app.json',
+        capabilityId: 'camera.plugin',
+        operationId: 'camera-plugin-config',
+        path: 'expo.plugins',
+        value: ['expo-camera', 'expo-media-library'],
+        mode: 'append',
+      };
+      const gallery: ExpoConfigPatchOp = {
+        ...camera,
+        capabilityId: 'gallery.plugin',
+        operationId: 'gallery-plugin-config',
+        value: ['expo-media-library'],
+      };
+      applyPatchOps(testProjectRoot, [camera, gallery], false);
+
+      const result = revertPatchOp(testProjectRoot, camera, [gallery], false);
+
+      expect(result.action).toBe('retained');
+      expect(result.retainedBy).toBe('gallery.plugin');
+      const config = JSON.parse(await readFile(appJsonPath, 'utf-8'));
+      expect(config.expo.plugins).toEqual(['expo-media-library']);
+      expect(config._rns_patches).toEqual(['gallery-plugin-config']);
+    });
+
+    it('should restore Expo config values that existed before the patch', async () => {
+      const appJsonPath = join(testProjectRoot, 'app.json');
+      const original = JSON.stringify({ expo: { name: 'MyApp', plugins: ['expo-camera'], ios: { bundleIdentifier: 'com.user.app' } } }, null, 2) + '\n';
+      await writeFile(appJsonPath, original);
+
+      const patches: ExpoConfigPatchOp[] = [
+        { type: 'expo-config', file: 'app.json', capabilityId: 'camera.plugin', operationId: 'camera-plugins', path: 'expo.plugins', value: ['expo-camera', 'expo-location'], mode: 'append' },
+        { type: 'expo-config', file: 'app.json', capabilityId: 'camera.plugin', operationId: 'camera-bundle', path: 'expo.ios.bundleIdentifier', value: 'com.rns.app' },
+        { type: 'expo-config', file: 'app.json', capabilityId: 'camera.plugin', operationId: 'camera-android', path: 'expo.android.config', value: { googleMaps: { apiKey: 'key' } }, mode: 'merge' },
+      ];
+      applyPatchOps(testProjectRoot, patches, false);
+
+      const patched = JSON.parse(await readFile(appJsonPath, 'utf-8'));
+      expect(patched.expo.plugins).toEqual(['expo-camera', 'expo-location']);
+      expect(patched.expo.ios.bundleIdentifier).toBe('com.rns.app');
+      expect(patched._rns_patch_changes['camera-bundle']).toEqual({ keys: [{ path: 'expo.ios.bundleIdentifier', replaced: 'com.user.app' }], items: [], created: [] });
+
+      expect(revertPatchOps(testProjectRoot, patches, [], false).map(r => r.action)).toEqual(['reverted', 'reverted', 'reverted']);
+      expect(await readFile(appJsonPath, 'utf-8')).toBe(original);
+    });
+
+    it('should hand Android manifest markers over to plugins that still need the entry', async () => {
+      const manifestPath = join(testProjectRoot, 'AndroidManifest.xml');
+      await writeFile(manifestPath, '<manifest xmlns:android="http://schemas.android.com/apk/res/android">\n</manifest>\n');
+
+      const camera: AndroidManifestPatchOp = {
+        type: 'android-manifest',
+        file: 'AndroidManifest.xml',
+        capabilityId: 'camera.plugin',
+        operationId: 'camera-plugin-manifest',
+        manifestOp: 'permission',
+        name: 'android.permission.CAMERA',
+        action: 'add',
+      };
+      const scanner: AndroidManifestPatchOp = { ...camera, capabilityId: 'scanner.plugin', operationId: 'scanner-plugin-manifest' };
+      applyPatchOps(testProjectRoot, [camera, scanner], false);
+
+      expect(revertPatchOp(testProjectRoot, camera, [scanner], false).action).toBe('retained');
+      let content = await readFile(manifestPath, 'utf-8');
+      expect(content).toContain('<!-- @rns-patch:scanner-plugin-manifest -->');
+      expect(content).toContain('android.permission.CAMERA');
+
+      expect(revertPatchOp(testProjectRoot, scanner, [], false).action).toBe('reverted');
+      content = await readFile(manifestPath, 'utf-8');
+      expect(content).not.toContain('android.permission.CAMERA');
+    });
+  });
+
+  describe('structured XML edits', () => {
+    it('should write nested plist key paths and dictionary values, then revert them', async () => {
+      const plistContent = `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0">
+<dict>
+  <key>CFBundleURLTypes</key>
+  <array>
+    <dict>
+      <key>CFBundleURLSchemes</key>
+      <array>
+        <string>myapp</string>
+      </array>
+    </dict>
+  </array>
+  <!-- keep this comment -->
+  <key>UIBackgroundModes</key>
+  <array>
+    <string>audio</string>
+  </array>
+</dict>
+</plist>
+`;
+      await writeFile(join(testProjectRoot, 'Info.plist'), plistContent);
+
+      const ats: PlistPatchOp = {
+        type: 'plist',
+        file: 'Info.plist',
+        capabilityId: 'network.client',
+        operationId: 'network-ats',
+        key: 'NSAppTransportSecurity.NSExceptionDomains',
+        value: { 'example.com': { NSIncludesSubdomains: true, NSExceptionMinimumTLSVersion: 'TLSv1.2' } },
+      };
+      const modes: PlistPatchOp = {
+        type: 'plist',
+        file: 'Info.plist',
+        capabilityId: 'network.client',
+        operationId: 'network-modes',
+        key: 'UIBackgroundModes',
+        value: ['audio', 'fetch'],
+        mode: 'append',
+      };
+
+      expect(applyPatchOps(testProjectRoot, [ats, modes], false).every(r => r.success)).toBe(true);
+      const patched = await readFile(join(testProjectRoot, 'Info.plist'), 'utf-8');
+      expect(patched).toContain(`  <!-- @rns-patch:network-ats -->
+  <key>NSAppTransportSecurity</key>
+  <dict>
+    <key>NSExceptionDomains</key>
+    <dict>
+      <key>example.com</key>
+      <dict>
+        <key>NSIncludesSubdomains</key>
+        <true/>
+        <key>NSExceptionMinimumTLSVersion</key>
+        <string>TLSv1.2</string>
+      </dict>
+    </dict>
+  </dict>
+</dict>`);
+      expect(patched).toContain(`    <string>audio</string>
+    <!-- @rns-patch:network-modes -->
+    <string>fetch</string>
+  </array>`);
+      expect(patched).toContain('<!-- keep this comment -->');
+
+      expect(revertPatchOps(testProjectRoot, [ats, modes], [], false).map(r => r.action)).toEqual(['reverted', 'reverted']);
+      expect(await readFile(join(testProjectRoot, 'Info.plist'), 'utf-8')).toBe(plistContent);
+    });
+
+    it('should place components inside <application> with intent filters and tools attributes', async () => {
+      const manifestContent = `<manifest xmlns:android="http://schemas.android.com/apk/res/android">
+  <uses-permission android:name="android.permission.INTERNET" />
+  <application android:name=".MainApplication">
+    <activity android:name=".MainActivity">
+      <intent-filter>
+        <action android:name="android.intent.action.MAIN" />
+      </intent-filter>
+    </activity>
+  </application>
+</manifest>
+`;
+      await writeFile(join(testProjectRoot, 'AndroidManifest.xml'), manifestContent);
+
+      const activity: AndroidManifestPatchOp = {
+        type: 'android-manifest',
+        file: 'AndroidManifest.xml',
+        capabilityId: 'auth.oauth',
+        operationId: 'auth-oauth-redirect',
+        manifestOp: 'activity',
+        name: 'net.openid.appauth.RedirectUriReceiverActivity',
+        attributes: { exported: 'true', 'tools:node': 'replace' },
+        intentFilters: [{
+          actions: ['android.intent.action.VIEW'],
+          categories: ['android.intent.category.DEFAULT', 'android.intent.category.BROWSABLE'],
+          data: [{ scheme: 'myapp', host: 'oauth' }],
+        }],
+        action: 'add',
+      };
+      const permission: AndroidManifestPatchOp = {
+        type: 'android-manifest',
+        file: 'AndroidManifest.xml',
+        capabilityId: 'auth.oauth',
+        operationId: 'auth-oauth-permission',
+        manifestOp: 'permission',
+        name: 'android.permission.USE_BIOMETRIC',
+        action: 'add',
+      };
+
+      expect(applyPatchOps(testProjectRoot, [activity, permission], false).every(r => r.success)).toBe(true);
+      const patched = await readFile(join(testProjectRoot, 'AndroidManifest.xml'), 'utf-8');
+      expect(patched).toContain('<manifest xmlns:android="http://schemas.android.com/apk/res/android" xmlns:tools="http://schemas.android.com/tools">');
+      expect(patched).toContain(`  <uses-permission android:name="android.permission.INTERNET" />
+  <!-- @rns-patch:auth-oauth-permission -->
+  <uses-permission android:name="android.permission.USE_BIOMETRIC" />
+  <application android:name=".MainApplication">`);
+      expect(patched).toContain(`    </activity>
+    <!-- @rns-patch:auth-oauth-redirect added: xmlns:tools -->
+    <activity android:name="net.openid.appauth.RedirectUriReceiverActivity" android:exported="true" tools:node="replace">
+      <intent-filter>
+        <action android:name="android.intent.action.VIEW" />
+        <category android:name="android.intent.category.DEFAULT" />
+        <category android:name="android.intent.category.BROWSABLE" />
+        <data android:scheme="myapp" android:host="oauth" />
+      </intent-filter>
+    </activity>
+  </application>`);
+
+      revertPatchOps(testProjectRoot, [activity, permission], [], false);
+      expect(await readFile(join(testProjectRoot, 'AndroidManifest.xml'), 'utf-8')).toBe(manifestContent);
+    });
+
+    it('should keep xmlns:tools on revert while another patch still uses tools: attributes', async () => {
+      const manifestContent = `<manifest xmlns:android="http://schemas.android.com/apk/res/android">
+  <application android:name=".MainApplication">
+    <activity android:name=".MainActivity" />
+  </application>
+</manifest>
+`;
+      await writeFile(join(testProjectRoot, 'AndroidManifest.xml'), manifestContent);
+
+      const service = (capabilityId: string, operationId: string, name: string): AndroidManifestPatchOp => ({
+        type: 'android-manifest',
+        file: 'AndroidManifest.xml',
+        capabilityId,
+        operationId,
+        manifestOp: 'service',
+        name,
+        attributes: { 'tools:node': 'merge' },
+        action: 'add',
+      });
+      const sync = service('sync.background', 'sync-service', '.SyncService');
+      const upload = service('media.upload', 'upload-service', '.UploadService');
+
+      expect(applyPatchOps(testProjectRoot, [sync, upload], false).every(r => r.success)).toBe(true);
+      const patched = await readFile(join(testProjectRoot, 'AndroidManifest.xml'), 'utf-8');
+      expect(patched).toContain('<!-- @rns-patch:sync-service added: xmlns:tools -->');
+      expect(patched).toContain('<!-- @rns-patch:upload-service -->');
+
+      expect(revertPatchOp(testProjectRoot, sync, [], false).action).toBe('reverted');
+      const afterSync = await readFile(join(testProjectRoot, 'AndroidManifest.xml'), 'utf-8');
+      expect(afterSync).toContain('xmlns:tools="http://schemas.android.com/tools"');
+      expect(afterSync).toContain('<!-- @rns-patch:upload-service added: xmlns:tools -->');
+      expect(afterSync).not.toContain('.SyncService');
+
+      expect(revertPatchOp(testProjectRoot, upload, [], false).action).toBe('reverted');
+      expect(await readFile(join(testProjectRoot, 'AndroidManifest.xml'), 'utf-8')).toBe(manifestContent);
+    });
+  });
+
+  describe('file patch types', () => {
+    it('should set gradle.properties keys and restore replaced values on revert', async () => {
+      const original = '# Project-wide Gradle settings\norg.gradle.jvmargs=-Xmx2048m\nnewArchEnabled=false\n';
+      await writeFile(join(testProjectRoot, 'gradle.properties'), original);
+
+      const patch: GradlePropertiesPatchOp = {
+        type: 'gradle-properties',
+        file: 'gradle.properties',
+        capabilityId: 'maps.google',
+        operationId: 'maps-gradle-properties',
+        properties: { newArchEnabled: 'true', 'android.useAndroidX': 'true' },
+      };
+
+      expect(applyPatchOp(testProjectRoot, patch, false).action).toBe('applied');
+      expect(applyPatchOp(testProjectRoot, patch, false).action).toBe('skipped');
+      expect(await readFile(join(testProjectRoot, 'gradle.properties'), 'utf-8')).toBe(
+        '# Project-wide Gradle settings\norg.gradle.jvmargs=-Xmx2048m\n' +
+        '# @rns-patch:maps-gradle-properties replaced: newArchEnabled=false\nnewArchEnabled=true\n' +
+        '# @rns-patch:maps-gradle-properties\nandroid.useAndroidX=true\n'
+      );
+
+      expect(revertPatchOp(testProjectRoot, patch, [], false).action).toBe('reverted');
+      expect(await readFile(join(testProjectRoot, 'gradle.properties'), 'utf-8')).toBe(original);
+    });
+
+    it('should add string resources and keep the ones another plugin declares', async () => {
+      const original = '<resources>\n  <string name="app_name">MyApp</string>\n</resources>\n';
+      await writeFile(join(testProjectRoot, 'strings.xml'), original);
+
+      const patch: StringsXmlPatchOp = {
+        type: 'strings-xml',
+        file: 'strings.xml',
+        capabilityId: 'auth.facebook',
+        operationId: 'facebook-strings',
+        strings: { app_name: 'Ignored', facebook_app_id: '1234', fb_login_protocol_scheme: 'fb1234' },
+      };
+      const other: StringsXmlPatchOp = { ...patch, capabilityId: 'analytics.facebook', operationId: 'fb-analytics-strings', strings: { facebook_app_id: '1234' } };
+
+      applyPatchOp(testProjectRoot, patch, false);
+      const patched = await readFile(join(testProjectRoot, 'strings.xml'), 'utf-8');
+      expect(patched).toBe(
+        '<resources>\n  <string name="app_name">MyApp</string>\n  <!-- @rns-patch:facebook-strings -->\n' +
+        '  <string name="facebook_app_id">1234</string>\n  <string name="fb_login_protocol_scheme">fb1234</string>\n</resources>\n'
+      );
+
+      const result = revertPatchOp(testProjectRoot, patch, [other], false);
+      expect(result).toMatchObject({ action: 'retained', retainedBy: 'analytics.facebook' });
+      const reverted = await readFile(join(testProjectRoot, 'strings.xml'), 'utf-8');
+      expect(reverted).toContain('<!-- @rns-patch:fb-analytics-strings -->\n  <string name="facebook_app_id">1234</string>\n</resources>');
+      expect(reverted).not.toContain('fb_login_protocol_scheme');
+
+      expect(revertPatchOp(testProjectRoot, other, [], false).action).toBe('reverted');
+      expect(await readFile(join(testProjectRoot, 'strings.xml'), 'utf-8')).toBe(original);
+    });
+
+    it('should merge into JSON files without markers and revert only what was added', async () => {
+      const original = '{\n    "cli": { "version": ">= 5.0.0" },\n    "build": {\n        "production": {}\n    }\n}\n';
+      await writeFile(join(testProjectRoot, 'eas.json'), original);
+
+      const patch: JsonMergePatchOp = {
+        type: 'json-merge',
+        file: 'eas.json',
+        capabilityId: 'notifications.expo',
+        operationId: 'notifications-eas',
+        path: 'build.production',
+        value: { env: { PUSH_ENABLED: 'true' }, channel: 'production' },
+      };
+
+      const applied = applyPatchOp(testProjectRoot, patch, false);
+      expect(applied.action).toBe('applied');
+      expect(applied.added).toEqual([
+        { path: ['build', 'production', 'env'], value: { PUSH_ENABLED: 'true' } },
+        { path: ['build', 'production', 'channel'], value: 'production' },
+      ]);
+      expect(applyPatchOp(testProjectRoot, patch, false).action).toBe('skipped');
+      const patched = await readFile(join(testProjectRoot, 'eas.json'), 'utf-8');
+      expect(JSON.parse(patched).build.production).toEqual({ env: { PUSH_ENABLED: 'true' }, channel: 'production' });
+      expect(patched).not.toContain('_rns_patches');
+      expect(patched).toContain('\n    "build": {\n        "production": {');
+
+      expect(revertPatchOp(testProjectRoot, { ...patch, added: applied.added }, [], false).action).toBe('reverted');
+      expect(JSON.parse(await readFile(join(testProjectRoot, 'eas.json'), 'utf-8'))).toEqual(JSON.parse(original));
+    });
+
+    it('should keep JSON values that were there before the merge', async () => {
+      const original = JSON.stringify({ build: { production: { channel: 'production' }, preview: { env: { A: '1' } } } }, null, 2) + '\n';
+      await writeFile(join(testProjectRoot, 'eas.json'), original);
+
+      const patch: JsonMergePatchOp = {
+        type: 'json-merge',
+        file: 'eas.json',
+        capabilityId: 'updates.expo',
+        operationId: 'updates-eas',
+        path: 'build',
+        value: { production: { channel: 'production', autoIncrement: true }, preview: { env: { A: '1', B: '2' } } },
+      };
+      const other: JsonMergePatchOp = { ...patch, capabilityId: 'ota.expo', operationId: 'ota-eas', value: { preview: { env: { B: '2' } } } };
+
+      const applied = applyPatchOp(testProjectRoot, patch, false);
+      expect(applied.added).toEqual([
+        { path: ['build', 'production', 'autoIncrement'], value: true },
+        { path: ['build', 'preview', 'env', 'B'], value: '2' },
+      ]);
+
+      const result = revertPatchOp(testProjectRoot, { ...patch, added: applied.added }, [other], false);
+      expect(result).toMatchObject({
+        action: 'retained',
+        retainedBy: 'ota.expo',
+        handedOver: [{ capabilityId: 'ota.expo', operationId: 'ota-eas', added: [{ path: ['build', 'preview', 'env', 'B'], value: '2' }] }],
+      });
+      expect(JSON.parse(await readFile(join(testProjectRoot, 'eas.json'), 'utf-8')).build).toEqual({
+        production: { channel: 'production' },
+        preview: { env: { A: '1', B: '2' } },
+      });
+
+      expect(revertPatchOp(testProjectRoot, { ...other, added: result.handedOver![0].added }, [], false).action).toBe('reverted');
+      expect(await readFile(join(testProjectRoot, 'eas.json'), 'utf-8')).toBe(original);
+      // Without a record there is nothing to undo
+      expect(revertPatchOp(testProjectRoot, patch, [], false).action).toBe('skipped');
+    });
+  });
 });
@@ -4,18 +4,70 @@
  * OWNERSHIP: CLI
  * 
  * This engine provides declarative, idempotent patch operations for:
- * - Expo config (app.json/app.config.*)
+ * - Expo config (app.json, or app.config.js/ts via ts-morph - see expo-config.ts)
  * - iOS plist keys / entitlements
  * - Android manifest permissions/features
  * - anchored text edits (Gradle/Podfile)
+ * - Xcode project files (see xcodeproj.ts), gradle.properties, strings.xml, generic JSON merges
  * 
  * Rules: anchored, insert-once, backed up under `.rns/backups/...`, traceable by plugin id.
+ * 
+ * Plist/entitlements and AndroidManifest.xml are edited as XML trees (see xml.ts, plist.ts):
+ * formatting and comments are preserved, plist keys may be nested paths and components are
+ * placed inside <application>.
+ * 
+ * Every patch type has an inverse (revertPatchOp), located via the `@rns-patch:` /
+ * `@rns-operation:` markers, the `_rns_patches` list and operationId-derived Xcode object IDs;
+ * json-merge has no marker: what it added is returned in the result, recorded in the manifest and
+ * passed back on the patch (`added`). Entries another installed plugin still declares are kept and
+ * their marker (or record) handed over to that plugin's operation.
  */
 
 import { join } from 'path';
-import { readTextFile, writeTextFile, writeJsonFile, readJsonFile, pathExists } from './fs';
+import { readTextFile, writeTextFile, readJsonFile, pathExists } from './fs';
 import { backupFile, createBackupDirectory } from './backup';
 import { hasInjectionMarker, createInjectionMarker } from './idempotency';
+import {
+  createElement,
+  findComment,
+  findParent,
+  getAttribute,
+  getChildElements,
+  getNextElement,
+  getRootElement,
+  getTextContent,
+  insertChildren,
+  parseXml,
+  removeAttribute,
+  removeChild,
+  serializeXml,
+  setAttribute,
+  type XmlComment,
+  type XmlDocument,
+  type XmlElement,
+} from './xml';
+import {
+  applyDynamicConfigPatch,
+  hasDynamicConfigPatch,
+  isDynamicExpoConfig,
+  resolveExpoConfigFile,
+  revertDynamicConfigPatch,
+} from './expo-config';
+import {
+  applyXcodeprojPatch,
+  hasXcodeprojPatch,
+  resolveXcodeprojFile,
+  revertXcodeprojPatch,
+} from './xcodeproj';
+import {
+  addDictEntry,
+  appendArrayItems,
+  findDictEntry,
+  getPlistRootDict,
+  isSamePlistValue,
+  readPlistValue,
+  resolveDictPath,
+} from './plist';
 import type {
   PatchOp,
   PatchOpResult,
@@ -26,6 +78,12 @@ import type {
   GradlePatchOp,
   PodfilePatchOp,
   TextAnchorPatchOp,
+  XcodeprojPatchOp,
+  GradlePropertiesPatchOp,
+  StringsXmlPatchOp,
+  JsonMergePatchOp,
+  JsonMergeAddition,
+  PlistValue,
 } from './types/patch-ops';
 
 /**
@@ -38,9 +96,10 @@ import type {
  */
 export function applyPatchOp(
   projectRoot: string,
-  patch: PatchOp,
+  declared: PatchOp,
   dryRun: boolean = false
 ): PatchOpResult {
+  const patch = { ...declared, file: resolvePatchFile(projectRoot, declared) } as PatchOp;
   const filePath = join(projectRoot, patch.file);
 
   // Validate file exists
@@ -58,7 +117,19 @@ export function applyPatchOp(
 
   // Check for duplicate operation (idempotency)
   // Different patch types use different idempotency tracking
-  if (patch.type === 'expo-config') {
+  if (patch.type === 'expo-config' && isDynamicExpoConfig(patch.file)) {
+    // app.config.js/ts use /* @rns-patch: */ comments on written values
+    if (hasDynamicConfigPatch(readTextFile(filePath), patch.operationId)) {
+      return {
+        success: true,
+        file: patch.file,
+        capabilityId: patch.capabilityId,
+        operationId: patch.operationId,
+        patchType: patch.type,
+        action: 'skipped',
+      };
+    }
+  } else if (patch.type === 'expo-config') {
     // Expo config uses _rns_patches array in the JSON
     try {
       const config = readJsonFile<Record<string, unknown>>(filePath);
@@ -89,6 +160,23 @@ export function applyPatchOp(
         action: 'skipped',
       };
     }
+  } else if (
+    patch.type === 'xcodeproj' ||
+    patch.type === 'gradle-properties' ||
+    patch.type === 'strings-xml' ||
+    patch.type === 'json-merge'
+  ) {
+    // Derived Xcode object IDs, # / <!-- --> markers, or (json-merge) all values already present
+    if (isFilePatchApplied(readTextFile(filePath), patch)) {
+      return {
+        success: true,
+        file: patch.file,
+        capabilityId: patch.capabilityId,
+        operationId: patch.operationId,
+        patchType: patch.type,
+        action: 'skipped',
+      };
+    }
   } else {
     // Other types (plist, android-manifest) use @rns-inject: markers or similar
     if (hasInjectionMarker(filePath, patch.operationId)) {
@@ -111,6 +199,7 @@ export function applyPatchOp(
   }
 
   // Apply patch based on type
+  let added: JsonMergeAddition[] | undefined;
   try {
     if (!dryRun) {
       switch (patch.type) {
@@ -118,10 +207,8 @@ export function applyPatchOp(
           applyExpoConfigPatch(filePath, patch);
           break;
         case 'plist':
-          applyPlistPatch(filePath, patch);
-          break;
         case 'entitlements':
-          applyEntitlementsPatch(filePath, patch);
+          applyPlistPatch(filePath, patch);
           break;
         case 'android-manifest':
           applyAndroidManifestPatch(filePath, patch);
@@ -131,8 +218,22 @@ export function applyPatchOp(
         case 'text-anchor':
           applyTextAnchorPatch(filePath, patch);
           break;
-        default:
-          throw new Error(`Unknown patch type: ${(patch as any).type}`);
+        case 'xcodeproj':
+          writeTextFile(filePath, applyXcodeprojPatch(readTextFile(filePath), patch));
+          break;
+        case 'gradle-properties':
+          applyGradlePropertiesPatch(filePath, patch);
+          break;
+        case 'strings-xml':
+          applyStringsXmlPatch(filePath, patch);
+          break;
+        case 'json-merge':
+          added = applyJsonMergePatch(filePath, patch);
+          break;
+        default: {
+          const unreachable: never = patch;
+          throw new Error(`Unknown patch type: ${JSON.stringify(unreachable)}`);
+        }
       }
     }
 
@@ -144,6 +245,7 @@ export function applyPatchOp(
       patchType: patch.type,
       action: 'applied',
       backupPath: backupPath || undefined,
+      added,
     };
   } catch (error) {
     return {
@@ -176,200 +278,369 @@ export function applyPatchOps(
 }
 
 /**
- * Applies Expo config patch
+ * Reverts a single patch operation (removes exactly what applyPatchOp added)
+ * 
+ * @param projectRoot - Project root directory
+ * @param patch - Patch operation to revert
+ * @param retained - Patches of plugins that stay installed (entries they also declare are kept)
+ * @param dryRun - If true, don't write changes
+ * @returns Patch result (reverted, retained, skipped if nothing to undo, or error)
+ */
+export function revertPatchOp(
+  projectRoot: string,
+  declared: PatchOp,
+  retained: PatchOp[] = [],
+  dryRun: boolean = false
+): PatchOpResult {
+  const patch = { ...declared, file: resolvePatchFile(projectRoot, declared) } as PatchOp;
+  const filePath = join(projectRoot, patch.file);
+  const result = (action: PatchOpResult['action'], extra: Partial<PatchOpResult> = {}): PatchOpResult => ({
+    success: action !== 'error',
+    file: patch.file,
+    capabilityId: patch.capabilityId,
+    operationId: patch.operationId,
+    patchType: patch.type,
+    action,
+    ...extra,
+  });
+
+  // Nothing to undo if the file is gone
+  if (!pathExists(filePath)) {
+    return result('skipped');
+  }
+
+  const sameTarget = retained.filter(other =>
+    other.type === patch.type && resolvePatchFile(projectRoot, other) === patch.file && other.capabilityId !== patch.capabilityId
+  );
+
+  try {
+    let reverted: RevertedContent;
+    switch (patch.type) {
+      case 'expo-config':
+        reverted = isDynamicExpoConfig(patch.file)
+          ? revertDynamicConfigPatch(readTextFile(filePath), patch, sameTarget as ExpoConfigPatchOp[])
+          : revertExpoConfigPatch(readTextFile(filePath), patch, sameTarget as ExpoConfigPatchOp[]);
+        break;
+      case 'plist':
+      case 'entitlements':
+        reverted = revertPlistPatch(readTextFile(filePath), patch, sameTarget as Array<PlistPatchOp | EntitlementsPatchOp>);
+        break;
+      case 'android-manifest':
+        reverted = revertAndroidManifestPatch(readTextFile(filePath), patch, sameTarget as AndroidManifestPatchOp[]);
+        break;
+      case 'gradle':
+      case 'podfile':
+      case 'text-anchor':
+        reverted = revertTextAnchorPatch(
+          readTextFile(filePath),
+          patch,
+          sameTarget as Array<GradlePatchOp | PodfilePatchOp | TextAnchorPatchOp>
+        );
+        break;
+      case 'xcodeproj':
+        reverted = revertXcodeprojFilePatch(readTextFile(filePath), patch, sameTarget as XcodeprojPatchOp[]);
+        break;
+      case 'gradle-properties':
+        reverted = revertGradlePropertiesPatch(readTextFile(filePath), patch, sameTarget as GradlePropertiesPatchOp[]);
+        break;
+      case 'strings-xml':
+        reverted = revertStringsXmlPatch(readTextFile(filePath), patch, sameTarget as StringsXmlPatchOp[]);
+        break;
+      case 'json-merge':
+        reverted = revertJsonMergePatch(readTextFile(filePath), patch, sameTarget as JsonMergePatchOp[]);
+        break;
+      default: {
+        const unreachable: never = patch;
+        throw new Error(`Unknown patch type: ${JSON.stringify(unreachable)}`);
+      }
+    }
+
+    if (reverted.action === 'skipped') {
+      return result('skipped');
+    }
+
+    let backupPath: string | null = null;
+    if (!dryRun) {
+      const backupDir = createBackupDirectory(projectRoot, `patch-${patch.capabilityId}`);
+      backupPath = backupFile(projectRoot, filePath, backupDir);
+      writeTextFile(filePath, reverted.content);
+    }
+    return result(reverted.action, {
+      retainedBy: reverted.retainedBy,
+      handedOver: reverted.handedOver,
+      backupPath: backupPath || undefined,
+    });
+  } catch (error) {
+    return result('error', { error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Resolves the file a patch edits (expo-config patches on app.json fall back to app.config.js/ts,
+ * xcodeproj patches may name the project as `*.xcodeproj`)
+ * 
+ * @param projectRoot - Project root directory
+ * @param patch - Patch operation
+ * @returns File path relative to project root
+ */
+export function resolvePatchFile(projectRoot: string, patch: PatchOp): string {
+  switch (patch.type) {
+    case 'expo-config':
+      return resolveExpoConfigFile(projectRoot, patch.file);
+    case 'xcodeproj':
+      return resolveXcodeprojFile(projectRoot, patch.file);
+    default:
+      return patch.file;
+  }
+}
+
+/**
+ * Reverts multiple patch operations (in reverse apply order)
+ * 
+ * @param projectRoot - Project root directory
+ * @param patches - Patch operations to revert (in the order they were applied)
+ * @param retained - Patches of plugins that stay installed
+ * @param dryRun - If true, don't write changes
+ * @returns Array of patch results (in revert order)
+ */
+export function revertPatchOps(
+  projectRoot: string,
+  patches: PatchOp[],
+  retained: PatchOp[] = [],
+  dryRun: boolean = false
+): PatchOpResult[] {
+  return [...patches].reverse().map(patch => revertPatchOp(projectRoot, patch, retained, dryRun));
+}
+
+/**
+ * What an app.json expo-config patch changed, stored next to `_rns_patches` under
+ * `_rns_patch_changes` (keyed by operation ID) so revert undoes exactly that
+ */
+interface ExpoConfigPatchChanges {
+  /** Keys the patch wrote (dot paths); `replaced` holds the value it overwrote (absent: the key was added) */
+  keys: Array<{ path: string; replaced?: unknown }>;
+  /** Items the patch appended to the array at its path */
+  items: unknown[];
+  /** Objects/arrays the patch created (dot paths), removed on revert when left empty */
+  created: string[];
+}
+
+/**
+ * Applies Expo config patch (app.json; dynamic configs go through expo-config.ts)
+ * 
+ * Values already present are not recorded; overwritten values are recorded so revert can restore them.
  */
 function applyExpoConfigPatch(filePath: string, patch: ExpoConfigPatchOp): void {
-  const config = readJsonFile<Record<string, unknown>>(filePath);
-  
-  // Navigate to the path and set/merge value
+  if (isDynamicExpoConfig(patch.file)) {
+    writeTextFile(filePath, applyDynamicConfigPatch(readTextFile(filePath), patch));
+    return;
+  }
+
+  const content = readTextFile(filePath);
+  const config = JSON.parse(content) as Record<string, unknown>;
+  const changes: ExpoConfigPatchChanges = { keys: [], items: [], created: [] };
+
+  // Writes one key, recording what it added or replaced
+  const setKey = (parent: Record<string, unknown>, key: string, path: string, value: unknown) => {
+    if (!(key in parent)) {
+      changes.keys.push({ path });
+    } else if (!isSameValue(parent[key], value)) {
+      changes.keys.push({ path, replaced: parent[key] });
+    } else {
+      return;
+    }
+    parent[key] = JSON.parse(JSON.stringify(value));
+  };
+  // Deep merges objects key by key (arrays and scalars are replaced)
+  const mergeKeys = (target: Record<string, unknown>, source: Record<string, unknown>, path: string) => {
+    for (const [key, value] of Object.entries(source)) {
+      if (isPlainObject(target[key]) && isPlainObject(value)) {
+        mergeKeys(target[key] as Record<string, unknown>, value, `${path}.${key}`);
+      } else {
+        setKey(target, key, `${path}.${key}`, value);
+      }
+    }
+  };
+
+  // Navigate to the parent object (created as needed)
   const pathParts = patch.path.split('.');
-  let current: any = config;
-  
-  // Navigate to parent object
-  for (let i = 0; i < pathParts.length - 1; i++) {
-    const part = pathParts[i];
-    if (!(part in current) || typeof current[part] !== 'object' || current[part] === null) {
-      current[part] = {};
+  let parent: Record<string, unknown> = config;
+  pathParts.slice(0, -1).forEach((part, index) => {
+    if (!isPlainObject(parent[part])) {
+      if (part in parent) {
+        changes.keys.push({ path: pathParts.slice(0, index + 1).join('.'), replaced: parent[part] });
+      } else {
+        changes.created.push(pathParts.slice(0, index + 1).join('.'));
+      }
+      parent[part] = {};
     }
-    current = current[part];
-  }
-  
+    parent = parent[part] as Record<string, unknown>;
+  });
+
   const lastKey = pathParts[pathParts.length - 1];
   const mode = patch.mode || 'set';
-  
+
   if (mode === 'set') {
-    current[lastKey] = patch.value;
+    setKey(parent, lastKey, patch.path, patch.value);
   } else if (mode === 'merge') {
-    // Deep merge objects, preserving structure
-    if (typeof current[lastKey] === 'object' && current[lastKey] !== null && typeof patch.value === 'object' && patch.value !== null) {
-      if (Array.isArray(current[lastKey]) || Array.isArray(patch.value)) {
-        // Arrays don't merge, replace
-        current[lastKey] = patch.value;
-      } else {
-        // Deep merge objects
-        current[lastKey] = deepMerge(current[lastKey] as Record<string, unknown>, patch.value as Record<string, unknown>);
-      }
+    if (isPlainObject(parent[lastKey]) && isPlainObject(patch.value)) {
+      mergeKeys(parent[lastKey] as Record<string, unknown>, patch.value, patch.path);
     } else {
-      current[lastKey] = patch.value;
+      // Arrays and scalars don't merge, replace
+      setKey(parent, lastKey, patch.path, patch.value);
     }
   } else if (mode === 'append') {
-    if (!Array.isArray(current[lastKey])) {
-      current[lastKey] = [];
-    }
-    const arr = current[lastKey] as unknown[];
-    
-    // If patch.value is an array, append each element individually
-    // If patch.value is a single value, append it if not already present
-    if (Array.isArray(patch.value)) {
-      // Append array elements (check for duplicates per element)
-      for (const item of patch.value) {
-        if (!arr.includes(item)) {
-          arr.push(item);
-        }
+    if (!Array.isArray(parent[lastKey])) {
+      if (lastKey in parent) {
+        changes.keys.push({ path: patch.path, replaced: parent[lastKey] });
+      } else {
+        changes.created.push(patch.path);
       }
-    } else {
-      // Append single value (check if already exists)
-      if (!arr.includes(patch.value)) {
-        arr.push(patch.value);
+      parent[lastKey] = [];
+    }
+    const arr = parent[lastKey] as unknown[];
+    // An array value appends each element, a single value appends itself (items already present are skipped)
+    for (const item of Array.isArray(patch.value) ? patch.value : [patch.value]) {
+      if (!arr.some(existing => isSameValue(existing, item))) {
+        arr.push(item);
+        changes.items.push(item);
       }
     }
   }
-  
-  // Add injection marker as comment in JSON (store in a metadata field)
-  // For JSON files, we'll add a comment field if possible, or use a special metadata object
-  // Since JSON doesn't support comments, we'll track idempotency via the operationId in a metadata field
-  if (!config._rns_patches) {
-    config._rns_patches = [];
-  }
-  const patches = (config._rns_patches as string[]) || [];
+
+  // JSON has no comments: idempotency is tracked via the operation ID in `_rns_patches`
+  const patches = (config._rns_patches as string[] | undefined) || [];
   if (!patches.includes(patch.operationId)) {
     patches.push(patch.operationId);
   }
   config._rns_patches = patches;
-  
-  writeJsonFile(filePath, config);
+  if (changes.keys.length > 0 || changes.items.length > 0 || changes.created.length > 0) {
+    config._rns_patch_changes = { ...(config._rns_patch_changes as Record<string, ExpoConfigPatchChanges> | undefined), [patch.operationId]: changes };
+  }
+
+  writeTextFile(filePath, formatJsonLike(content, config));
 }
 
 /**
- * Applies plist patch (XML-based)
+ * Applies plist/entitlements patch (structured edit of the <dict> tree)
+ * 
+ * A missing key is added (intermediate dictionaries created) with the marker on the line before
+ * the outermost new entry. 'append'/'merge' add missing items/keys to an existing array/dict,
+ * marked before the first addition. Values already present are never overwritten.
  */
-function applyPlistPatch(filePath: string, patch: PlistPatchOp): void {
-  let content = readTextFile(filePath);
-  
-  // Check if already patched
-  if (content.includes(`<!-- @rns-patch:${patch.operationId} -->`)) {
+function applyPlistPatch(filePath: string, patch: PlistPatchOp | EntitlementsPatchOp): void {
+  const doc = parseXml(readTextFile(filePath));
+  if (findPatchMarker(doc, patch.operationId)) {
     return; // Already applied
   }
-  
-  // Simple XML/plist manipulation
-  // Find the <dict> or <array> root and add key-value pair
-  const keyPattern = new RegExp(`<key>${escapeXml(patch.key)}</key>\\s*<[^>]+>`, 'g');
-  const exists = keyPattern.test(content);
-  
-  if (exists && patch.mode === 'append' && Array.isArray(patch.value)) {
-    // Append to existing array
-    const arrayPattern = new RegExp(`<key>${escapeXml(patch.key)}</key>\\s*<array>([\\s\\S]*?)</array>`, 'g');
-    content = content.replace(arrayPattern, (match, arrayContent) => {
-      const newItems = (patch.value as string[])
-        .filter((v: string) => !arrayContent.includes(`<string>${escapeXml(String(v))}</string>`))
-        .map((v: string) => `\n        <string>${escapeXml(String(v))}</string>`)
-        .join('');
-      return `<key>${escapeXml(patch.key)}</key>\n        <array>${arrayContent}${newItems}\n        </array>`;
-    });
-  } else if (!exists) {
-    // Add new key-value pair before </dict> or </plist>
-    const valueXml = formatPlistValue(patch.value);
-    const injectionMarker = `<!-- @rns-patch:${patch.operationId} -->`;
-    const newEntry = `\n    ${injectionMarker}\n    <key>${escapeXml(patch.key)}</key>\n    ${valueXml}`;
-    
-    // Insert before closing </dict> or </plist>
-    content = content.replace(/(\s*)(<\/dict>|<\/plist>)/, `${newEntry}$1$2`);
+
+  const path = getPlistKeyPath(patch);
+  const marker = createPatchMarker(patch.operationId);
+  let dict = getPlistRootDict(doc);
+
+  for (let i = 0; i < path.length; i++) {
+    const entry = findDictEntry(dict, path[i]);
+    if (!entry) {
+      // Outermost missing segment: the rest of the path is written as nested dictionaries
+      const value = path.slice(i + 1).reduceRight<PlistValue>((inner, key) => ({ [key]: inner }), patch.value);
+      addDictEntry(doc, dict, path[i], value, [marker]);
+      break;
+    }
+    if (i < path.length - 1) {
+      if (entry.valueElement.name !== 'dict') {
+        throw new Error(`Cannot patch "${patch.key}": "${path[i]}" is not a dictionary`);
+      }
+      dict = entry.valueElement;
+      continue;
+    }
+
+    const mode = patch.mode || 'set';
+    if (mode === 'append' && Array.isArray(patch.value) && entry.valueElement.name === 'array') {
+      const existing = getChildElements(entry.valueElement).map(readPlistValue);
+      const missing = patch.value.filter(item => !existing.some(value => isSamePlistValue(value, item)));
+      if (missing.length > 0) {
+        appendArrayItems(doc, entry.valueElement, missing, [marker]);
+      }
+    } else if (mode === 'merge' && isPlainObject(patch.value) && entry.valueElement.name === 'dict') {
+      const target = entry.valueElement;
+      const missing = Object.entries(patch.value).filter(([key]) => !findDictEntry(target, key));
+      missing.forEach(([key, value], index) => addDictEntry(doc, target, key, value, index === 0 ? [marker] : []));
+    }
   }
-  
-  writeTextFile(filePath, content);
+
+  writeTextFile(filePath, serializeXml(doc));
 }
 
 /**
- * Applies entitlements patch (XML-based, similar to plist)
+ * Applies Android manifest patch (structured edit of the <manifest> tree)
  */
-function applyEntitlementsPatch(filePath: string, patch: EntitlementsPatchOp): void {
-  let content = readTextFile(filePath);
-  
-  // Check if already patched
-  if (content.includes(`<!-- @rns-patch:${patch.operationId} -->`)) {
+function applyAndroidManifestPatch(filePath: string, patch: AndroidManifestPatchOp): void {
+  const doc = parseXml(readTextFile(filePath));
+  if (findPatchMarker(doc, patch.operationId)) {
     return; // Already applied
   }
-  
-  // Find or add entitlement key
-  const keyPattern = new RegExp(`<key>${escapeXml(patch.key)}</key>\\s*<[^>]+>`, 'g');
-  const exists = keyPattern.test(content);
-  
-  if (!exists) {
-    const valueXml = formatPlistValue(patch.value);
-    const injectionMarker = `<!-- @rns-patch:${patch.operationId} -->`;
-    const newEntry = `\n    ${injectionMarker}\n    <key>${escapeXml(patch.key)}</key>\n    ${valueXml}`;
-    
-    // Insert before closing </dict> or </plist>
-    content = content.replace(/(\s*)(<\/dict>|<\/plist>)/, `${newEntry}$1$2`);
+
+  const manifest = getRootElement(doc);
+  if (!manifest || manifest.name !== 'manifest') {
+    throw new Error('Not an Android manifest: expected <manifest> root element');
+  }
+  const application = getChildElements(manifest, 'application')[0];
+  const inApplication = APPLICATION_SCOPED_MANIFEST_OPS.includes(patch.manifestOp);
+  if (inApplication && !application) {
+    throw new Error(`Cannot add ${patch.manifestOp} "${patch.name}": <application> element not found`);
   }
-  
-  writeTextFile(filePath, content);
-}
 
-/**
- * Applies Android manifest patch
- */
-function applyAndroidManifestPatch(filePath: string, patch: AndroidManifestPatchOp): void {
-  let content = readTextFile(filePath);
-  
-  // Check if already patched
-  const patchMarker = `<!-- @rns-patch:${patch.operationId} -->`;
-  if (content.includes(patchMarker)) {
-    return; // Already applied
+  const parent = inApplication ? application : manifest;
+  const tag = getManifestTag(patch.manifestOp);
+  const existing = getChildElements(parent, tag).find(element => getAttribute(element, 'android:name') === patch.name);
+
+  if (patch.action === 'remove') {
+    if (existing) {
+      removeChild(parent, existing);
+      writeTextFile(filePath, serializeXml(doc));
+    }
+    return;
   }
-  
-  if (patch.action === 'add') {
-    // Build XML element
-    let element = '';
-    if (patch.manifestOp === 'permission') {
-      element = `<uses-permission android:name="${patch.name}" />`;
-    } else if (patch.manifestOp === 'feature') {
-      element = `<uses-feature android:name="${patch.name}" android:required="false" />`;
-    } else if (patch.manifestOp === 'meta-data') {
-      const value = patch.attributes?.value || '';
-      element = `<meta-data android:name="${patch.name}" android:value="${value}" />`;
-    } else {
-      // activity, service, receiver
-      const attrs = patch.attributes || {};
-      const attrsStr = Object.entries(attrs)
-        .map(([k, v]) => `android:${k}="${v}"`)
-        .join(' ');
-      element = `<${patch.manifestOp} android:name="${patch.name}" ${attrsStr} />`;
-    }
-    
-    // Check if element already exists
-    if (content.includes(element.replace(/\s+/g, ' ').trim())) {
-      return; // Already exists
-    }
-    
-    // Insert before </manifest>
-    const injectionMarker = `    ${patchMarker}\n    `;
-    content = content.replace(/(\s*)(<\/manifest>)/, `${injectionMarker}${element}\n$1$2`);
-  } else if (patch.action === 'remove') {
-    // Remove element (if it exists)
-    // This is more complex - we'd need to parse XML properly
-    // For now, we'll use a simple pattern match
-    const patterns = [
-      new RegExp(`\\s*<!-- @rns-patch:${patch.operationId} -->\\s*<uses-permission[^>]*android:name="${patch.name}"[^>]*/>\\s*`, 'g'),
-      new RegExp(`\\s*<!-- @rns-patch:${patch.operationId} -->\\s*<uses-feature[^>]*android:name="${patch.name}"[^>]*/>\\s*`, 'g'),
+  if (existing) {
+    return; // Already exists
+  }
+
+  const attributes: Record<string, string> = { 'android:name': patch.name };
+  if (patch.manifestOp === 'feature') {
+    attributes['android:required'] = 'false';
+  } else if (patch.manifestOp === 'meta-data') {
+    attributes['android:value'] = '';
+  }
+  Object.assign(attributes, qualifyManifestAttributes(patch.attributes));
+
+  const intentFilters = patch.intentFilters || [];
+  const usesTools = [attributes, ...intentFilters.map(f => qualifyManifestAttributes(f.attributes))]
+    .some(attrs => Object.keys(attrs).some(name => name.startsWith('tools:')));
+  const addsToolsNamespace = usesTools && getAttribute(manifest, 'xmlns:tools') === undefined;
+  if (addsToolsNamespace) {
+    setAttribute(manifest, 'xmlns:tools', ANDROID_TOOLS_NAMESPACE);
+  }
+
+  // uses-permission/uses-feature go before <application>; components inside it.
+  // The marker records an added xmlns:tools so revert can remove it again.
+  const element = createElement(tag, attributes);
+  const marker = createPatchMarker(patch.operationId, addsToolsNamespace ? TOOLS_NAMESPACE_NOTE : undefined);
+  insertChildren(doc, parent, [marker, element], inApplication ? undefined : application);
+
+  for (const filter of intentFilters) {
+    const filterElement = createElement('intent-filter', qualifyManifestAttributes(filter.attributes));
+    insertChildren(doc, element, [filterElement]);
+    const children = [
+      ...(filter.actions || []).map(name => createElement('action', { 'android:name': name })),
+      ...(filter.categories || []).map(name => createElement('category', { 'android:name': name })),
+      ...(filter.data || []).map(data => createElement('data', qualifyManifestAttributes(data))),
     ];
-    
-    for (const pattern of patterns) {
-      content = content.replace(pattern, '');
+    if (children.length > 0) {
+      insertChildren(doc, filterElement, children);
     }
   }
-  
-  writeTextFile(filePath, content);
+
+  writeTextFile(filePath, serializeXml(doc));
 }
 
 /**
@@ -414,61 +685,739 @@ function applyTextAnchorPatch(
 }
 
 /**
- * Formats a value as plist XML
+ * Checks whether an xcodeproj / gradle-properties / strings-xml / json-merge patch is applied
  */
-function formatPlistValue(value: string | number | boolean | string[]): string {
-  if (typeof value === 'string') {
-    return `<string>${escapeXml(value)}</string>`;
-  } else if (typeof value === 'number') {
-    return `<integer>${value}</integer>`;
-  } else if (typeof value === 'boolean') {
-    return value ? '<true/>' : '<false/>';
-  } else if (Array.isArray(value)) {
-    const items = value.map(v => `\n        <string>${escapeXml(v)}</string>`).join('');
-    return `<array>${items}\n        </array>`;
+function isFilePatchApplied(
+  content: string,
+  patch: XcodeprojPatchOp | GradlePropertiesPatchOp | StringsXmlPatchOp | JsonMergePatchOp
+): boolean {
+  switch (patch.type) {
+    case 'xcodeproj':
+      return hasXcodeprojPatch(content, patch);
+    case 'gradle-properties':
+      return content.split('\n').some(line => isPropertiesMarker(line, patch.operationId));
+    case 'strings-xml':
+      return findPatchMarker(parseXml(content), patch.operationId) !== undefined;
+    case 'json-merge':
+      return containsJson(JSON.parse(content), getJsonMergeValue(patch));
   }
-  return `<string>${escapeXml(String(value))}</string>`;
 }
 
 /**
- * Deep merges two objects, preserving nested structure
+ * Applies gradle.properties patch
+ * 
+ * Each written property follows a `# @rns-patch:<operationId>` line. Missing keys are appended;
+ * a key with a different value is set in place and its original line kept in the marker
+ * (`# @rns-patch:<id> replaced: key=old`) so revert can restore it.
  */
-function deepMerge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
-  const result = { ...target };
-  
-  for (const key in source) {
-    if (source.hasOwnProperty(key)) {
-      const sourceValue = source[key];
-      const targetValue = result[key];
-      
-      if (
-        typeof targetValue === 'object' &&
-        targetValue !== null &&
-        !Array.isArray(targetValue) &&
-        typeof sourceValue === 'object' &&
-        sourceValue !== null &&
-        !Array.isArray(sourceValue)
-      ) {
-        // Recursively merge nested objects
-        result[key] = deepMerge(targetValue as Record<string, unknown>, sourceValue as Record<string, unknown>);
+function applyGradlePropertiesPatch(filePath: string, patch: GradlePropertiesPatchOp): void {
+  const lines = readTextFile(filePath).split('\n');
+  const marker = `# @rns-patch:${patch.operationId}`;
+  const appended: string[] = [];
+
+  for (const [key, value] of Object.entries(patch.properties)) {
+    const index = lines.findIndex(line => parseProperty(line)?.key === key);
+    if (index === -1) {
+      appended.push(marker, `${key}=${value}`);
+    } else if (parseProperty(lines[index])!.value !== value) {
+      lines.splice(index, 1, `${marker} replaced: ${lines[index]}`, `${key}=${value}`);
+    }
+  }
+
+  if (appended.length > 0) {
+    if (lines[lines.length - 1] === '') {
+      lines.pop();
+    }
+    lines.push(...appended, '');
+  }
+  writeTextFile(filePath, lines.join('\n'));
+}
+
+/**
+ * Applies strings.xml patch: missing <string> resources are added after the operation marker
+ */
+function applyStringsXmlPatch(filePath: string, patch: StringsXmlPatchOp): void {
+  const doc = parseXml(readTextFile(filePath));
+  const resources = getRootElement(doc);
+  if (!resources || resources.name !== 'resources') {
+    throw new Error('Not an Android resources file: expected <resources> root element');
+  }
+
+  const existing = getChildElements(resources, 'string').map(element => getAttribute(element, 'name'));
+  const missing = Object.entries(patch.strings).filter(([name]) => !existing.includes(name));
+  if (missing.length === 0) {
+    return; // All names already defined
+  }
+
+  insertChildren(doc, resources, [
+    createPatchMarker(patch.operationId),
+    ...missing.map(([name, value]) => createElement('string', { name }, value)),
+  ]);
+  writeTextFile(filePath, serializeXml(doc));
+}
+
+/**
+ * Applies JSON merge patch (indentation and trailing newline of the file are kept)
+ * 
+ * @returns What the merge added (recorded by the caller; the file carries no marker)
+ */
+function applyJsonMergePatch(filePath: string, patch: JsonMergePatchOp): JsonMergeAddition[] {
+  const content = readTextFile(filePath);
+  const data = JSON.parse(content) as Record<string, unknown>;
+  const added: JsonMergeAddition[] = [];
+  mergeMissingJson(data, getJsonMergeValue(patch), [], added);
+  writeTextFile(filePath, formatJsonLike(content, data));
+  return added;
+}
+
+/**
+ * Computed inverse of a patch: new file content and what happened
+ */
+interface RevertedContent {
+  content: string;
+  action: 'reverted' | 'retained' | 'skipped';
+  retainedBy?: string;
+  handedOver?: PatchOpResult['handedOver'];
+}
+
+/**
+ * Reverts Expo config patch: undoes the changes recorded in `_rns_patch_changes` (added keys and
+ * appended items are removed, replaced values restored, created containers dropped when empty) and
+ * drops the operation ID from `_rns_patches`. Entries a retained patch also declares are kept and
+ * their record handed over to that patch.
+ */
+function revertExpoConfigPatch(content: string, patch: ExpoConfigPatchOp, retained: ExpoConfigPatchOp[]): RevertedContent {
+  const config = JSON.parse(content) as Record<string, unknown>;
+  const patches = (config._rns_patches as string[] | undefined) || [];
+  if (!patches.includes(patch.operationId)) {
+    return { content, action: 'skipped' };
+  }
+
+  const remaining = patches.filter(id => id !== patch.operationId);
+  if (remaining.length > 0) {
+    config._rns_patches = remaining;
+  } else {
+    delete config._rns_patches;
+  }
+
+  const records = { ...(config._rns_patch_changes as Record<string, ExpoConfigPatchChanges> | undefined) };
+  const own = records[patch.operationId] ?? { keys: [], items: [], created: [] };
+  delete records[patch.operationId];
+  let retainedBy: string | undefined;
+  const handOver = (holder: ExpoConfigPatchOp): ExpoConfigPatchChanges => {
+    retainedBy = retainedBy ?? holder.capabilityId;
+    return (records[holder.operationId] ??= { keys: [], items: [], created: [] });
+  };
+
+  for (const entry of [...own.keys].reverse()) {
+    const holder = retained.find(other => declaresExpoConfigKey(other, entry.path));
+    if (holder) {
+      // The holder's own record (if it overwrote this key later) replaced our value - it inherits ours
+      const record = handOver(holder);
+      record.keys = [...record.keys.filter(other => other.path !== entry.path), entry];
+    } else if ('replaced' in entry) {
+      setJsonPath(config, entry.path, entry.replaced);
+    } else {
+      deleteJsonPath(config, entry.path);
+    }
+  }
+
+  const array = getJsonPath(config, patch.path);
+  if (Array.isArray(array)) {
+    for (const item of own.items) {
+      const holder = retained.find(other =>
+        other.path === patch.path && other.mode === 'append' &&
+        (Array.isArray(other.value) ? other.value : [other.value]).some(value => isSameValue(value, item))
+      );
+      const index = array.findIndex(existing => isSameValue(existing, item));
+      if (holder) {
+        handOver(holder).items.push(item);
+      } else if (index !== -1) {
+        array.splice(index, 1);
+      }
+    }
+  }
+
+  for (const path of [...own.created].reverse()) {
+    const value = getJsonPath(config, path);
+    const isEmpty = (Array.isArray(value) && value.length === 0) || (isPlainObject(value) && Object.keys(value).length === 0);
+    const holder = retained.find(other => other.path === path || other.path.startsWith(`${path}.`));
+    if (isEmpty) {
+      deleteJsonPath(config, path);
+    } else if (holder && value !== undefined) {
+      handOver(holder).created.push(path);
+    }
+  }
+
+  if (Object.keys(records).length > 0) {
+    config._rns_patch_changes = records;
+  } else {
+    delete config._rns_patch_changes;
+  }
+
+  return {
+    content: formatJsonLike(content, config),
+    action: retainedBy ? 'retained' : 'reverted',
+    retainedBy,
+  };
+}
+
+/**
+ * Checks whether an expo-config patch declares a value at a dot path (its own path, or a key inside its object value)
+ */
+function declaresExpoConfigKey(patch: ExpoConfigPatchOp, path: string): boolean {
+  if ((patch.mode || 'set') === 'append') {
+    return false;
+  }
+  if (path === patch.path) {
+    return true;
+  }
+  if (!path.startsWith(`${patch.path}.`)) {
+    return false;
+  }
+  let value = patch.value;
+  for (const part of path.slice(patch.path.length + 1).split('.')) {
+    if (!isPlainObject(value) || !(part in value)) {
+      return false;
+    }
+    value = value[part];
+  }
+  return true;
+}
+
+/**
+ * Reads the value at a dot path (undefined when missing)
+ */
+function getJsonPath(data: Record<string, unknown>, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, part) => (isPlainObject(value) ? value[part] : undefined), data);
+}
+
+/**
+ * Sets the value at a dot path (creating parent objects)
+ */
+function setJsonPath(data: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let parent = data;
+  for (const part of parts.slice(0, -1)) {
+    if (!isPlainObject(parent[part])) {
+      parent[part] = {};
+    }
+    parent = parent[part] as Record<string, unknown>;
+  }
+  parent[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Deletes the key at a dot path (no-op when missing)
+ */
+function deleteJsonPath(data: Record<string, unknown>, path: string): void {
+  const parts = path.split('.');
+  const parent = parts.length === 1 ? data : getJsonPath(data, parts.slice(0, -1).join('.'));
+  if (isPlainObject(parent)) {
+    delete parent[parts[parts.length - 1]];
+  }
+}
+
+/**
+ * Reverts plist/entitlements patch: removes what follows the operation marker (the added entry,
+ * appended array items or merged keys), or hands the marker over to a retained patch for the
+ * same key path
+ */
+function revertPlistPatch(
+  content: string,
+  patch: PlistPatchOp | EntitlementsPatchOp,
+  retained: Array<PlistPatchOp | EntitlementsPatchOp>
+): RevertedContent {
+  const doc = parseXml(content);
+  const marker = findPatchMarker(doc, patch.operationId);
+  const parent = marker && findParent(doc, marker);
+  if (!marker || !parent) {
+    return { content, action: 'skipped' };
+  }
+
+  const path = getPlistKeyPath(patch);
+  const root = getPlistRootDict(doc);
+  const sameKey = retained.filter(other => getPlistKeyPath(other).join('.') === path.join('.'));
+  const toRemove: XmlElement[] = [];
+  let owner = sameKey[0];
+
+  const target = resolveDictPath(root, path.slice(0, -1));
+  const targetEntry = target ? findDictEntry(target, path[path.length - 1]) : undefined;
+
+  if (parent.name === 'array') {
+    // Appended items follow the marker
+    const items = Array.isArray(patch.value) ? patch.value : [];
+    const keep = sameKey.flatMap(other => (Array.isArray(other.value) ? other.value : []));
+    for (let item = getNextElement(parent, marker); item; item = getNextElement(parent, item)) {
+      const value = readPlistValue(item);
+      if (!items.some(own => isSamePlistValue(own, value))) break;
+      if (!keep.some(other => isSamePlistValue(other, value))) toRemove.push(item);
+    }
+  } else if (parent === targetEntry?.valueElement && isPlainObject(patch.value)) {
+    // Merged keys follow the marker
+    const keys = Object.keys(patch.value);
+    const keep = sameKey.flatMap(other => (isPlainObject(other.value) ? Object.keys(other.value) : []));
+    let keyElement = getNextElement(parent, marker);
+    while (keyElement?.name === 'key' && keys.includes(getTextContent(keyElement))) {
+      const valueElement = getNextElement(parent, keyElement);
+      if (!keep.includes(getTextContent(keyElement))) {
+        toRemove.push(keyElement, ...(valueElement ? [valueElement] : []));
+      }
+      keyElement = valueElement && getNextElement(parent, valueElement);
+    }
+  } else {
+    // Added entry (possibly the outermost of newly created nested dictionaries)
+    const keyElement = getNextElement(parent, marker);
+    const valueElement = keyElement && getNextElement(parent, keyElement);
+    const depth = path.findIndex((segment, i) =>
+      segment === (keyElement && getTextContent(keyElement)) && resolveDictPath(root, path.slice(0, i)) === parent
+    );
+    const createdPath = path.slice(0, depth + 1);
+    const sharing = retained.filter(other => getPlistKeyPath(other).slice(0, createdPath.length).join('.') === createdPath.join('.'));
+
+    if (sharing.length === 0 && keyElement && valueElement) {
+      toRemove.push(keyElement, valueElement);
+    } else if (sameKey.length === 0 && targetEntry) {
+      // Other plugins use the created dictionaries: drop only this patch's own key
+      const ownParent = findParent(doc, targetEntry.keyElement)!;
+      removeChild(ownParent, targetEntry.keyElement);
+      removeChild(ownParent, targetEntry.valueElement);
+      owner = sharing[0];
+    }
+  }
+
+  toRemove.forEach(node => removeChild(parent, node));
+  if (owner && (sameKey.length > 0 || toRemove.length === 0)) {
+    marker.value = ` @rns-patch:${owner.operationId} `;
+    return { content: serializeXml(doc), action: 'retained', retainedBy: owner.capabilityId };
+  }
+  removeChild(parent, marker);
+  return { content: serializeXml(doc), action: 'reverted' };
+}
+
+/**
+ * Reverts Android manifest patch: removes the marked element, or hands the marker over to a
+ * retained patch for the same element. 'remove' actions cannot be undone (skipped).
+ * xmlns:tools is removed when the patch added it and no tools: attribute is left (a patch whose
+ * element still uses tools: inherits the marker note).
+ */
+function revertAndroidManifestPatch(
+  content: string,
+  patch: AndroidManifestPatchOp,
+  retained: AndroidManifestPatchOp[]
+): RevertedContent {
+  const doc = parseXml(content);
+  const marker = findPatchMarker(doc, patch.operationId);
+  const parent = marker && findParent(doc, marker);
+  if (patch.action !== 'add' || !marker || !parent) {
+    return { content, action: 'skipped' };
+  }
+
+  const owner = retained.find(other =>
+    other.action === 'add' && other.manifestOp === patch.manifestOp && other.name === patch.name
+  );
+  const addedToolsNamespace = marker.value.trim().endsWith(` ${TOOLS_NAMESPACE_NOTE}`);
+  if (owner) {
+    marker.value = createPatchMarker(owner.operationId, addedToolsNamespace ? TOOLS_NAMESPACE_NOTE : undefined).value;
+    return { content: serializeXml(doc), action: 'retained', retainedBy: owner.capabilityId };
+  }
+
+  const element = getNextElement(parent, marker);
+  if (element && getAttribute(element, 'android:name') === patch.name) {
+    removeChild(parent, element);
+  }
+  removeChild(parent, marker);
+
+  // Another patch still using tools: attributes takes over the note; otherwise the namespace goes
+  const manifest = getRootElement(doc);
+  if (addedToolsNamespace && manifest) {
+    const heir = findToolsPatchMarker(manifest);
+    if (heir) {
+      heir.value = `${heir.value.trimEnd()} ${TOOLS_NAMESPACE_NOTE} `;
+    } else if (!usesToolsAttributes(manifest)) {
+      removeAttribute(manifest, 'xmlns:tools');
+    }
+  }
+  return { content: serializeXml(doc), action: 'reverted' };
+}
+
+/**
+ * Reverts text anchor patch: removes the inserted block (content + operation marker), or hands
+ * the marker over to a retained patch inserting the same content
+ * 
+ * @throws Error if the marker exists but the inserted block was edited (review manually)
+ */
+function revertTextAnchorPatch(
+  content: string,
+  patch: GradlePatchOp | PodfilePatchOp | TextAnchorPatchOp,
+  retained: Array<GradlePatchOp | PodfilePatchOp | TextAnchorPatchOp>
+): RevertedContent {
+  const marker = `@rns-operation:${patch.operationId}`;
+  if (!content.includes(marker)) {
+    return { content, action: 'skipped' };
+  }
+
+  const owner = retained.find(other => other.content.trim() === patch.content.trim());
+  if (owner) {
+    return {
+      content: content.replace(marker, `@rns-operation:${owner.operationId}`),
+      action: 'retained',
+      retainedBy: owner.capabilityId,
+    };
+  }
+
+  // Same block applyTextAnchorPatch inserted
+  const operationMarker = `// ${marker}`;
+  const inserted = patch.mode === 'before'
+    ? `${patch.content}\n    ${operationMarker}\n`
+    : `\n    ${operationMarker}\n    ${patch.content}`;
+  if (!content.includes(inserted)) {
+    throw new Error(`Patched block for "${patch.operationId}" was edited since it was applied; revert it manually in ${patch.file}`);
+  }
+  return { content: content.replace(inserted, ''), action: 'reverted' };
+}
+
+/**
+ * Reverts xcodeproj patch: removes the file reference / build file lines, or hands them over to a
+ * retained patch adding the same path
+ */
+function revertXcodeprojFilePatch(
+  content: string,
+  patch: XcodeprojPatchOp,
+  retained: XcodeprojPatchOp[]
+): RevertedContent {
+  const owner = retained.find(other => other.path === patch.path);
+  const updated = revertXcodeprojPatch(content, patch, owner);
+  if (updated === undefined) {
+    return { content, action: 'skipped' };
+  }
+  return owner
+    ? { content: updated, action: 'retained', retainedBy: owner.capabilityId }
+    : { content: updated, action: 'reverted' };
+}
+
+/**
+ * Reverts gradle.properties patch: drops appended properties, restores replaced lines, and hands
+ * markers over to retained patches setting the same value
+ */
+function revertGradlePropertiesPatch(
+  content: string,
+  patch: GradlePropertiesPatchOp,
+  retained: GradlePropertiesPatchOp[]
+): RevertedContent {
+  const lines = content.split('\n');
+  if (!lines.some(line => isPropertiesMarker(line, patch.operationId))) {
+    return { content, action: 'skipped' };
+  }
+
+  const marker = `# @rns-patch:${patch.operationId}`;
+  const result: string[] = [];
+  let retainedBy: string | undefined;
+
+  for (let i = 0; i < lines.length; i++) {
+    if (!isPropertiesMarker(lines[i], patch.operationId)) {
+      result.push(lines[i]);
+      continue;
+    }
+    const property = parseProperty(lines[i + 1] ?? '');
+    const owner = property && retained.find(other => other.properties[property.key] === property.value);
+    if (owner) {
+      result.push(`# @rns-patch:${owner.operationId}${lines[i].slice(marker.length)}`, lines[i + 1]);
+      retainedBy = retainedBy ?? owner.capabilityId;
+    } else if (lines[i] !== marker) {
+      result.push(lines[i].slice(`${marker} replaced: `.length));
+    }
+    i++; // The property line belongs to the marker
+  }
+
+  return { content: result.join('\n'), action: retainedBy ? 'retained' : 'reverted', retainedBy };
+}
+
+/**
+ * Reverts strings.xml patch: removes the <string> resources following the marker, keeping the
+ * ones a retained patch also declares (the marker is then handed over)
+ */
+function revertStringsXmlPatch(content: string, patch: StringsXmlPatchOp, retained: StringsXmlPatchOp[]): RevertedContent {
+  const doc = parseXml(content);
+  const marker = findPatchMarker(doc, patch.operationId);
+  const parent = marker && findParent(doc, marker);
+  if (!marker || !parent) {
+    return { content, action: 'skipped' };
+  }
+
+  const toRemove: XmlElement[] = [];
+  let owner: StringsXmlPatchOp | undefined;
+  for (let element = getNextElement(parent, marker); element?.name === 'string'; element = getNextElement(parent, element)) {
+    const name = getAttribute(element, 'name');
+    if (name === undefined || !Object.prototype.hasOwnProperty.call(patch.strings, name)) break;
+    const holder = retained.find(other => Object.prototype.hasOwnProperty.call(other.strings, name));
+    if (holder) {
+      owner = owner ?? holder;
+    } else {
+      toRemove.push(element);
+    }
+  }
+
+  toRemove.forEach(element => removeChild(parent, element));
+  if (owner) {
+    marker.value = ` @rns-patch:${owner.operationId} `;
+    return { content: serializeXml(doc), action: 'retained', retainedBy: owner.capabilityId };
+  }
+  removeChild(parent, marker);
+  return { content: serializeXml(doc), action: 'reverted' };
+}
+
+/**
+ * Reverts JSON merge patch: removes the keys / array items the merge recorded as added (keys
+ * edited since are kept). Additions a retained patch declares too are kept and handed over to it.
+ */
+function revertJsonMergePatch(content: string, patch: JsonMergePatchOp, retained: JsonMergePatchOp[]): RevertedContent {
+  if (!patch.added || patch.added.length === 0) {
+    return { content, action: 'skipped' };
+  }
+
+  const data = JSON.parse(content) as Record<string, unknown>;
+  const holders = retained.map(other => ({ patch: other, value: getJsonMergeValue(other) as unknown }));
+  const handedOver: NonNullable<RevertedContent['handedOver']> = [];
+  const handOver = (holder: JsonMergePatchOp, addition: JsonMergeAddition) => {
+    const entry = handedOver.find(other => other.operationId === holder.operationId);
+    if (entry) {
+      entry.added.push(addition);
+    } else {
+      handedOver.push({ capabilityId: holder.capabilityId, operationId: holder.operationId, added: [addition] });
+    }
+  };
+  let changed = false;
+
+  for (const addition of patch.added) {
+    const parent = addition.path.length === 1 ? data : getJsonPath(data, addition.path.slice(0, -1).join('.'));
+    const key = addition.path[addition.path.length - 1];
+    if (!isPlainObject(parent) || !(key in parent)) {
+      continue;
+    }
+    const declared = holders.map(holder => ({
+      patch: holder.patch,
+      value: addition.path.reduce<unknown>((value, part) => (isPlainObject(value) ? value[part] : undefined), holder.value),
+    }));
+
+    if (addition.items) {
+      const current = parent[key];
+      if (!Array.isArray(current)) {
+        continue;
+      }
+      const kept: unknown[] = [];
+      for (const item of addition.items) {
+        const holder = declared.find(other => Array.isArray(other.value) && other.value.some(value => isSameValue(value, item)));
+        const index = current.findIndex(existing => isSameValue(existing, item));
+        if (index === -1) {
+          continue;
+        }
+        if (holder) {
+          kept.push(item);
+          handOver(holder.patch, { path: addition.path, items: [item] });
+        } else {
+          current.splice(index, 1);
+          changed = true;
+        }
+      }
+    } else if (isSameValue(parent[key], addition.value)) {
+      const holder = declared.find(other => other.value !== undefined);
+      if (holder) {
+        handOver(holder.patch, addition);
       } else {
-        // Replace with source value
-        result[key] = sourceValue;
+        delete parent[key];
+        changed = true;
       }
     }
   }
-  
-  return result;
+
+  if (!changed && handedOver.length === 0) {
+    return { content, action: 'skipped' };
+  }
+  return {
+    content: formatJsonLike(content, data),
+    action: handedOver.length > 0 ? 'retained' : 'reverted',
+    retainedBy: handedOver[0]?.capabilityId,
+    handedOver: handedOver.length > 0 ? handedOver : undefined,
+  };
+}
+
+/**
+ * Manifest ops whose elements live inside <application>
+ */
+const APPLICATION_SCOPED_MANIFEST_OPS: AndroidManifestPatchOp['manifestOp'][] = ['activity', 'service', 'receiver', 'meta-data'];
+
+/**
+ * xmlns:tools namespace (tools:replace, tools:node)
+ */
+const ANDROID_TOOLS_NAMESPACE = 'http://schemas.android.com/tools';
+
+/**
+ * Marker note for a manifest patch that added xmlns:tools (`<!-- @rns-patch:<id> added: xmlns:tools -->`)
+ */
+const TOOLS_NAMESPACE_NOTE = 'added: xmlns:tools';
+
+/**
+ * Gets the element name for a manifest op
+ */
+function getManifestTag(manifestOp: AndroidManifestPatchOp['manifestOp']): string {
+  switch (manifestOp) {
+    case 'permission':
+      return 'uses-permission';
+    case 'feature':
+      return 'uses-feature';
+    default:
+      return manifestOp;
+  }
+}
+
+/**
+ * Checks whether any element in the tree has a tools: attribute
+ */
+function usesToolsAttributes(element: XmlElement): boolean {
+  return element.attributes.some(attribute => attribute.name.startsWith('tools:'))
+    || getChildElements(element).some(usesToolsAttributes);
+}
+
+/**
+ * Finds the marker of a patched element that has tools: attributes
+ */
+function findToolsPatchMarker(element: XmlElement): XmlComment | undefined {
+  for (const node of element.children) {
+    if (node.type === 'comment' && node.value.trim().startsWith('@rns-patch:')) {
+      const next = getNextElement(element, node);
+      if (next && usesToolsAttributes(next)) return node;
+    } else if (node.type === 'element') {
+      const found = findToolsPatchMarker(node);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Prefixes attribute names with android: unless they already have a namespace prefix
+ */
+function qualifyManifestAttributes(attributes: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(attributes).map(([name, value]) => [name.includes(':') ? name : `android:${name}`, value])
+  );
+}
+
+/**
+ * Gets a plist patch's key path (entitlement keys contain dots and are never split)
+ */
+function getPlistKeyPath(patch: PlistPatchOp | EntitlementsPatchOp): string[] {
+  return patch.type === 'plist' ? patch.key.split('.') : [patch.key];
+}
+
+/**
+ * Creates the `<!-- @rns-patch:<operationId> -->` marker comment (optionally followed by a note
+ * revert needs, e.g. `added: xmlns:tools`)
+ */
+function createPatchMarker(operationId: string, note?: string): XmlComment {
+  return { type: 'comment', value: note ? ` @rns-patch:${operationId} ${note} ` : ` @rns-patch:${operationId} ` };
+}
+
+/**
+ * Finds a patch's marker comment (with or without a note)
+ */
+function findPatchMarker(doc: XmlDocument, operationId: string): XmlComment | undefined {
+  const marker = `@rns-patch:${operationId}`;
+  return findComment(doc, value => value.trim() === marker || value.trim().startsWith(`${marker} `));
+}
+
+/**
+ * Checks for a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Compares JSON values structurally (Expo plugin entries may be arrays/objects)
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Checks whether a gradle.properties line is an operation's marker
+ */
+function isPropertiesMarker(line: string, operationId: string): boolean {
+  const marker = `# @rns-patch:${operationId}`;
+  return line === marker || line.startsWith(`${marker} replaced: `);
+}
+
+/**
+ * Parses a `key=value` / `key: value` properties line (undefined for comments and blank lines)
+ */
+function parseProperty(line: string): { key: string; value: string } | undefined {
+  const trimmed = line.trim();
+  const separator = trimmed.search(/[=:]/);
+  if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('!') || separator === -1) {
+    return undefined;
+  }
+  return { key: trimmed.slice(0, separator).trim(), value: trimmed.slice(separator + 1).trim() };
+}
+
+/**
+ * Gets a json-merge value rooted at the document (the path becomes nested objects)
+ */
+function getJsonMergeValue(patch: JsonMergePatchOp): Record<string, unknown> {
+  const path = patch.path ? patch.path.split('.') : [];
+  return path.reduceRight<Record<string, unknown>>((inner, key) => ({ [key]: inner }), patch.value);
+}
+
+/**
+ * Adds missing keys and array items of source to target (existing values are kept)
+ * 
+ * @param path - Key path of target from the document root
+ * @param added - Collects what was added
+ */
+function mergeMissingJson(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+  path: string[],
+  added: JsonMergeAddition[]
+): void {
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    if (!(key in target)) {
+      target[key] = JSON.parse(JSON.stringify(value));
+      added.push({ path: [...path, key], value: target[key] });
+    } else if (isPlainObject(current) && isPlainObject(value)) {
+      mergeMissingJson(current, value, [...path, key], added);
+    } else if (Array.isArray(current) && Array.isArray(value)) {
+      const items = value.filter(item => !current.some(existing => isSameValue(existing, item)));
+      if (items.length > 0) {
+        current.push(...items);
+        added.push({ path: [...path, key], items });
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether merging source into target would change nothing
+ */
+function containsJson(target: unknown, source: Record<string, unknown>): boolean {
+  if (!isPlainObject(target)) {
+    return false;
+  }
+  return Object.entries(source).every(([key, value]) => {
+    const current = target[key];
+    if (!(key in target)) return false;
+    if (isPlainObject(current) && isPlainObject(value)) return containsJson(current, value);
+    if (Array.isArray(current) && Array.isArray(value)) return value.every(item => current.some(existing => isSameValue(existing, item)));
+    return true;
+  });
 }
 
 /**
- * Escapes XML special characters
+ * Serializes JSON with the indentation and trailing newline of the original content
  */
-function escapeXml(str: string): string {
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
+function formatJsonLike(original: string, data: unknown): string {
+  const indent = /^([ \t]+)"/m.exec(original)?.[1] ?? 2;
+  return JSON.stringify(data, null, indent) + (original.endsWith('\n') ? '\n' : '');
 }
@@ -0,0 +1,181 @@
+/**
+ * FILE: src/lib/permissions-report.test.ts
+ * PURPOSE: Unit/spec tests for rns permissions (list / explain / why)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Every manifest permission is reported with its plugins, mandatory vs optional, iOS keys and Android permissions
+ * - Presence is checked in Info.plist / AndroidManifest.xml, or app.json for Expo without native folders
+ * - why <platform-permission> traces an Info.plist key / Android permission back to permission IDs and plugins
+ * - explain fails clearly for permissions no installed plugin requires
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import {
+  buildPermissionsReport,
+  findPermissionsFor,
+  runPermissionsExplain,
+  runPermissionsList,
+  runPermissionsWhy,
+} from './permissions-report';
+import { loadPermissionsCatalog } from './permissions';
+import { resolveCliRoot } from './pack-locations';
+import { createManifest, readManifest, updateAggregatedPermissions, writeManifest } from './manifest';
+import type { RuntimeContext } from './runtime';
+import type { InitInputs } from './init';
+
+const INFO_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>CFBundleName</key>
+  <string>TestApp</string>
+  <key>NSCameraUsageDescription</key>
+  <string>Scan documents</string>
+</dict>
+</plist>
+`;
+
+const ANDROID_MANIFEST = `<manifest xmlns:android="http://schemas.android.com/apk/res/android">
+  <uses-permission android:name="android.permission.INTERNET" />
+  <application android:name=".MainApplication" />
+</manifest>
+`;
+
+describe('permissions-report', () => {
+  let projectRoot: string;
+  let context: RuntimeContext;
+  let info: ReturnType<typeof vi.fn>;
+
+  const createProject = (target: 'expo' | 'bare') => {
+    const inputs = {
+      projectName: 'TestApp',
+      destination: projectRoot,
+      target,
+      language: 'ts',
+      packageManager: 'npm',
+      locales: ['en'],
+      selectedOptions: { i18n: false, theming: false, reactNavigation: false, expoRouter: false, authentication: null, styling: 'stylesheet' },
+      coreToggles: { alias: true, svg: true, fonts: true, env: true },
+      plugins: [],
+      installCoreDependencies: false,
+    } as unknown as InitInputs;
+    const manifest = createManifest(projectRoot, inputs);
+    const installedAt = '2024-01-01T00:00:00.000Z';
+    manifest.plugins = [
+      { id: 'media.camera', version: '1.0.0', installedAt, permissions: [{ permissionId: 'CAMERA', mandatory: true }] },
+      {
+        id: 'location.geo',
+        version: '1.0.0',
+        installedAt,
+        permissions: [
+          { permissionId: 'LOCATION_ALWAYS', mandatory: false },
+          { permissionId: 'UIBackgroundModes.location', mandatory: false },
+        ],
+      },
+      { id: 'scanner.docs', version: '1.0.0', installedAt, permissions: [{ permissionId: 'CAMERA', mandatory: false }] },
+    ];
+    writeManifest(projectRoot, manifest);
+    updateAggregatedPermissions(projectRoot);
+  };
+
+  const report = () => buildPermissionsReport(projectRoot, readManifest(projectRoot)!, loadPermissionsCatalog(resolveCliRoot()));
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'rns-test-permissions-'));
+    info = vi.fn();
+    context = {
+      resolvedRoot: projectRoot,
+      flags: { yes: true, verbose: false, dryRun: false },
+      logger: { info, warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+      runId: 'test-run-id',
+    } as unknown as RuntimeContext;
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should report plugins, mandatory vs optional and native presence (bare)', async () => {
+    createProject('bare');
+    await mkdir(join(projectRoot, 'ios', 'TestApp'), { recursive: true });
+    await mkdir(join(projectRoot, 'ios', 'TestAppTests'), { recursive: true });
+    await writeFile(join(projectRoot, 'ios', 'TestApp', 'Info.plist'), INFO_PLIST);
+    await writeFile(join(projectRoot, 'ios', 'TestAppTests', 'Info.plist'), INFO_PLIST.replace('NSCameraUsageDescription', 'Other'));
+    await mkdir(join(projectRoot, 'android', 'app', 'src', 'main'), { recursive: true });
+    await writeFile(join(projectRoot, 'android', 'app', 'src', 'main', 'AndroidManifest.xml'), ANDROID_MANIFEST);
+
+    const entries = report();
+
+    expect(entries.map(entry => entry.permissionId)).toEqual(['CAMERA', 'LOCATION_ALWAYS', 'UIBackgroundModes.location']);
+    expect(entries[0]).toMatchObject({
+      mandatory: true,
+      requiredBy: [{ pluginId: 'media.camera', mandatory: true }, { pluginId: 'scanner.docs', mandatory: false }],
+      ios: [{ name: 'NSCameraUsageDescription', status: 'present', checkedIn: 'ios/TestApp/Info.plist' }],
+      android: [{ name: 'android.permission.CAMERA', status: 'missing', checkedIn: 'android/app/src/main/AndroidManifest.xml' }],
+    });
+    expect(entries[0].catalogIds.length).toBeGreaterThan(0);
+    expect(entries[1]).toMatchObject({
+      mandatory: false,
+      ios: [
+        { name: 'NSLocationAlwaysAndWhenInUseUsageDescription', status: 'missing' },
+        { name: 'NSLocationAlwaysUsageDescription', status: 'missing' },
+      ],
+    });
+    // Expo-only catalog entry: nothing to map for a bare project
+    expect(entries[2]).toMatchObject({ catalogIds: [], ios: [], android: [] });
+
+    runPermissionsList({}, context);
+    const output = info.mock.calls.map(call => call[0]);
+    expect(output).toContain('  CAMERA (mandatory)');
+    expect(output).toContain('    required by: media.camera (mandatory), scanner.docs (optional)');
+    expect(output).toContain('      android.permission.CAMERA: MISSING from android/app/src/main/AndroidManifest.xml');
+  });
+
+  it('should check app.json for Expo projects without native folders', async () => {
+    createProject('expo');
+    expect(report()[0].android).toEqual([{ name: 'android.permission.CAMERA', status: 'unknown' }]);
+
+    await writeFile(join(projectRoot, 'app.json'), JSON.stringify({
+      expo: { ios: { infoPlist: { UIBackgroundModes: ['location'] } }, android: { permissions: ['CAMERA'] } },
+    }));
+
+    const entries = report();
+    expect(entries[0].android).toEqual([{ name: 'android.permission.CAMERA', status: 'present', checkedIn: 'app.json' }]);
+    expect(entries[2].ios).toEqual([{ name: 'UIBackgroundModes.location', status: 'present', checkedIn: 'app.json' }]);
+  });
+
+  it('should trace a platform permission back to permission IDs and plugins', () => {
+    createProject('bare');
+
+    expect(findPermissionsFor(report(), 'CAMERA').map(entry => entry.permissionId)).toEqual(['CAMERA']);
+    expect(findPermissionsFor(report(), 'NSLocationAlwaysUsageDescription').map(entry => entry.permissionId)).toEqual(['LOCATION_ALWAYS']);
+    expect(findPermissionsFor(report(), 'android.permission.RECORD_AUDIO')).toEqual([]);
+
+    runPermissionsWhy('NSCameraUsageDescription', {}, context);
+    expect(info.mock.calls.map(call => call[0])).toEqual([
+      'NSCameraUsageDescription is required by:',
+      '  CAMERA (mandatory) <- media.camera (mandatory), scanner.docs (optional)',
+      '    NSCameraUsageDescription: not checked (no native project or app.json entry)',
+    ]);
+  });
+
+  it('should explain installed permissions and reject unknown ones', () => {
+    createProject('bare');
+
+    runPermissionsExplain('LOCATION_ALWAYS', {}, context);
+    const output = info.mock.calls.map(call => call[0]);
+    expect(output[0]).toBe('Permission: LOCATION_ALWAYS (optional)');
+    expect(output).toContain('Required by: location.geo (optional)');
+    expect(output.some(line => /^  #\d+ PERMISSIONS\.IOS\.LOCATION_ALWAYS \(react-native-permissions, ios runtimePermission\)$/.test(line))).toBe(true);
+    expect(output).toContain('      note: NSLocationAlwaysUsageDescription: older iOS.');
+
+    expect(() => runPermissionsExplain('CONTACTS', {}, context)).toThrow(
+      'Permission "CONTACTS" is not required by any installed plugin. Project permissions: CAMERA, LOCATION_ALWAYS, UIBackgroundModes.location'
+    );
+    expect(() => runPermissionsExplain(undefined, {}, context)).toThrow('Missing permission ID');
+  });
+});
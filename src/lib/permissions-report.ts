@@ -0,0 +1,349 @@
+/**
+ * FILE: src/lib/permissions-report.ts
+ * PURPOSE: rns permissions - what a project requires, why, and whether the native project declares it
+ * OWNERSHIP: CLI
+ *
+ * Reads RnsProjectManifest.permissions (per-plugin traceability), resolves every permission ID
+ * against the catalog for the project target and checks each Info.plist key / Android permission:
+ * - iOS: ios/<App>/Info.plist, else app.json expo.ios.infoPlist (Expo without a generated ios/)
+ * - Android: android/app/src/main/AndroidManifest.xml, else app.json expo.android.permissions
+ *
+ *   rns permissions list                       every permission, required by, mandatory, native status
+ *   rns permissions explain <id>               one permission ID: plugins, catalog entries, native keys
+ *   rns permissions why <platform-permission>  which permission IDs / plugins need an Info.plist key or Android permission
+ */
+
+import { join } from 'path';
+import { readdirSync } from 'fs';
+import { CliError, ExitCode } from './errors';
+import { isDirectory, isFile, readJsonFile, readTextFile } from './fs';
+import { validateProjectInitialized } from './manifest';
+import { loadPermissionsCatalog, resolvePermissions } from './permissions';
+import { resolveCliRoot } from './pack-locations';
+import { parseXml, getRootElement, getChildElements, getAttribute } from './xml';
+import { getPlistRootDict, getDictEntries, readPlistValue } from './plist';
+import type { RuntimeContext } from './runtime';
+import type { RnsProjectManifest } from './types/manifest';
+import type { PlistValue } from './types/patch-ops';
+import type {
+  NativePermissionCheck,
+  PermissionCatalogEntry,
+  PermissionReportEntry,
+} from './types/permissions';
+
+const ANDROID_MANIFEST_FILE = 'android/app/src/main/AndroidManifest.xml';
+const EXPO_APP_CONFIG_FILE = 'app.json';
+const ANDROID_PERMISSION_PREFIX = 'android.permission.';
+
+/**
+ * Declared native permissions of one platform (null when there is nothing to check)
+ */
+interface NativeDeclarations {
+  /** Project-relative file the declarations were read from */
+  file: string;
+  /** Info.plist top-level values, or Android permission names (value true) */
+  values: Map<string, PlistValue>;
+}
+
+/**
+ * Permission-related keys of the static Expo config
+ */
+interface ExpoPermissionsConfig {
+  ios?: { infoPlist?: Record<string, PlistValue> };
+  android?: { permissions?: string[] };
+}
+
+/**
+ * Builds the permissions report of a project (manifest order)
+ *
+ * @param projectRoot - Project root directory
+ * @param manifest - Project manifest
+ * @param catalog - Permission catalog
+ */
+export function buildPermissionsReport(
+  projectRoot: string,
+  manifest: RnsProjectManifest,
+  catalog: PermissionCatalogEntry[]
+): PermissionReportEntry[] {
+  const permissions = manifest.permissions;
+  if (!permissions || permissions.permissionIds.length === 0) {
+    return [];
+  }
+
+  const resolved = resolvePermissions(permissions.permissionIds, catalog, manifest.target);
+  const infoPlist = readInfoPlistDeclarations(projectRoot);
+  const androidManifest = readAndroidManifestDeclarations(projectRoot);
+
+  return permissions.permissionIds.map(permissionId => {
+    const requiredBy = Object.values(permissions.byPlugin)
+      .flatMap(plugin => plugin.permissions
+        .filter(permission => permission.permissionId === permissionId)
+        .map(permission => ({ pluginId: plugin.pluginId, mandatory: permission.mandatory })));
+    const resolution = resolved.get(permissionId);
+
+    return {
+      permissionId,
+      mandatory: permissions.mandatory.includes(permissionId),
+      requiredBy,
+      catalogIds: resolution?.catalogEntries.map(entry => entry.id) ?? [],
+      ios: [...(resolution?.iosKeys ?? []), ...(resolution?.iosConfigKeys ?? [])].map(key => checkInfoPlist(key, infoPlist)),
+      android: (resolution?.androidPermissions ?? []).map(name => checkAndroidManifest(name, androidManifest)),
+    };
+  });
+}
+
+/**
+ * Finds the report entries that map to a platform permission
+ * Android permissions may be given without the android.permission. prefix (CAMERA)
+ */
+export function findPermissionsFor(report: PermissionReportEntry[], platformPermission: string): PermissionReportEntry[] {
+  const names = new Set([platformPermission, `${ANDROID_PERMISSION_PREFIX}${platformPermission}`]);
+  return report.filter(entry => [...entry.ios, ...entry.android].some(check => names.has(check.name)));
+}
+
+/**
+ * Lists the project's permissions (rns permissions list)
+ */
+export function runPermissionsList(options: { json?: boolean }, ctx: RuntimeContext): void {
+  const report = loadReport(ctx.resolvedRoot);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  if (report.length === 0) {
+    ctx.logger.info('No permissions required by installed plugins.');
+    return;
+  }
+
+  ctx.logger.info(`Permissions (${report.length}):`);
+  for (const entry of report) {
+    ctx.logger.info('');
+    ctx.logger.info(`  ${entry.permissionId} (${entry.mandatory ? 'mandatory' : 'optional'})`);
+    ctx.logger.info(`    required by: ${formatRequiredBy(entry)}`);
+    logChecks(ctx, '    ', entry);
+  }
+  logMissingSummary(ctx, report);
+}
+
+/**
+ * Explains one permission ID (rns permissions explain <id>)
+ */
+export function runPermissionsExplain(permissionId: string | undefined, options: { json?: boolean }, ctx: RuntimeContext): void {
+  if (!permissionId) {
+    throw new CliError('Missing permission ID. Usage: rns permissions explain <id>', ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const catalog = loadPermissionsCatalog(resolveCliRoot());
+  const report = buildPermissionsReport(ctx.resolvedRoot, validateProjectInitialized(ctx.resolvedRoot), catalog);
+  const entry = report.find(item => item.permissionId === permissionId);
+  if (!entry) {
+    throw new CliError(
+      `Permission "${permissionId}" is not required by any installed plugin` +
+        (report.length > 0 ? `. Project permissions: ${report.map(item => item.permissionId).join(', ')}` : ''),
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  const catalogEntries = catalog.filter(item => entry.catalogIds.includes(item.id));
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...entry, catalogEntries }, null, 2));
+    return;
+  }
+
+  ctx.logger.info(`Permission: ${entry.permissionId} (${entry.mandatory ? 'mandatory' : 'optional'})`);
+  ctx.logger.info(`Required by: ${formatRequiredBy(entry)}`);
+  ctx.logger.info('');
+  if (catalogEntries.length === 0) {
+    ctx.logger.warn('No catalog entries match this permission ID for this target');
+  } else {
+    ctx.logger.info('Catalog entries:');
+    for (const item of catalogEntries) {
+      const object = item.permissionObject;
+      ctx.logger.info(`  #${item.id} ${item.fullPermissionConstant} (${object.pluginName}, ${object.os} ${object.permissionType})`);
+      ctx.logger.info(`      requested by: ${object.requestedBy.join(', ') || '-'}`);
+      for (const note of object.notes ?? []) {
+        ctx.logger.info(`      note: ${note}`);
+      }
+    }
+  }
+  ctx.logger.info('');
+  logChecks(ctx, '', entry);
+}
+
+/**
+ * Shows which permission IDs and plugins need a platform permission (rns permissions why <platform-permission>)
+ */
+export function runPermissionsWhy(platformPermission: string | undefined, options: { json?: boolean }, ctx: RuntimeContext): void {
+  if (!platformPermission) {
+    throw new CliError(
+      'Missing platform permission. Usage: rns permissions why <Info.plist key | Android permission>',
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  const matches = findPermissionsFor(loadReport(ctx.resolvedRoot), platformPermission);
+
+  if (options.json) {
+    console.log(JSON.stringify({ platformPermission, permissions: matches }, null, 2));
+    return;
+  }
+
+  if (matches.length === 0) {
+    ctx.logger.info(`${platformPermission} is not required by any installed plugin.`);
+    return;
+  }
+
+  ctx.logger.info(`${platformPermission} is required by:`);
+  for (const entry of matches) {
+    const check = [...entry.ios, ...entry.android].find(item =>
+      item.name === platformPermission || item.name === `${ANDROID_PERMISSION_PREFIX}${platformPermission}`
+    )!;
+    ctx.logger.info(`  ${entry.permissionId} (${entry.mandatory ? 'mandatory' : 'optional'}) <- ${formatRequiredBy(entry)}`);
+    ctx.logger.info(`    ${check.name}: ${formatStatus(check)}`);
+  }
+}
+
+/**
+ * Loads the manifest and catalog and builds the report
+ */
+function loadReport(projectRoot: string): PermissionReportEntry[] {
+  return buildPermissionsReport(projectRoot, validateProjectInitialized(projectRoot), loadPermissionsCatalog(resolveCliRoot()));
+}
+
+/**
+ * Checks an Info.plist key or config key path (UIBackgroundModes.location: array contains "location")
+ */
+function checkInfoPlist(name: string, declarations: NativeDeclarations | null): NativePermissionCheck {
+  if (!declarations) {
+    return { name, status: 'unknown' };
+  }
+
+  const [key, ...rest] = name.split('.');
+  const value = declarations.values.get(key);
+  const present = rest.length === 0
+    ? value !== undefined
+    : Array.isArray(value) && value.includes(rest.join('.'));
+  return { name, status: present ? 'present' : 'missing', checkedIn: declarations.file };
+}
+
+/**
+ * Checks an Android permission
+ */
+function checkAndroidManifest(name: string, declarations: NativeDeclarations | null): NativePermissionCheck {
+  if (!declarations) {
+    return { name, status: 'unknown' };
+  }
+  return { name, status: declarations.values.has(name) ? 'present' : 'missing', checkedIn: declarations.file };
+}
+
+/**
+ * Finds the app's Info.plist (ios/<App>/Info.plist; Pods and test targets are skipped)
+ *
+ * @returns Project-relative path, or null if there is no iOS app folder
+ */
+export function findInfoPlistFile(projectRoot: string): string | null {
+  const iosDir = join(projectRoot, 'ios');
+  if (!isDirectory(iosDir)) {
+    return null;
+  }
+  const appDir = readdirSync(iosDir).sort().find(name =>
+    name !== 'Pods' && !name.endsWith('Tests') && isFile(join(iosDir, name, 'Info.plist'))
+  );
+  return appDir ? `ios/${appDir}/Info.plist` : null;
+}
+
+/**
+ * Reads the app's Info.plist (ios/<App>/Info.plist), else expo.ios.infoPlist from app.json
+ */
+function readInfoPlistDeclarations(projectRoot: string): NativeDeclarations | null {
+  const file = findInfoPlistFile(projectRoot);
+  if (file) {
+    const dict = getPlistRootDict(parseXml(readTextFile(join(projectRoot, file))));
+    return { file, values: new Map(getDictEntries(dict).map(entry => [entry.key, readPlistValue(entry.valueElement)])) };
+  }
+
+  const infoPlist = readExpoConfig(projectRoot)?.ios?.infoPlist;
+  if (!infoPlist) {
+    return null;
+  }
+  return { file: EXPO_APP_CONFIG_FILE, values: new Map(Object.entries(infoPlist)) };
+}
+
+/**
+ * Reads <uses-permission> names from the AndroidManifest.xml, else expo.android.permissions from app.json
+ */
+function readAndroidManifestDeclarations(projectRoot: string): NativeDeclarations | null {
+  if (isFile(join(projectRoot, ANDROID_MANIFEST_FILE))) {
+    const root = getRootElement(parseXml(readTextFile(join(projectRoot, ANDROID_MANIFEST_FILE))));
+    const names = (root ? [...getChildElements(root, 'uses-permission'), ...getChildElements(root, 'uses-permission-sdk-23')] : [])
+      .map(element => getAttribute(element, 'android:name'))
+      .filter((name): name is string => Boolean(name));
+    return { file: ANDROID_MANIFEST_FILE, values: new Map(names.map(name => [name, true])) };
+  }
+
+  const permissions = readExpoConfig(projectRoot)?.android?.permissions;
+  if (!permissions) {
+    return null;
+  }
+  // Expo accepts short names (CAMERA) for android.permission.* permissions
+  const names = permissions.map(name => (name.includes('.') ? name : `${ANDROID_PERMISSION_PREFIX}${name}`));
+  return { file: EXPO_APP_CONFIG_FILE, values: new Map(names.map(name => [name, true])) };
+}
+
+/**
+ * Reads the static Expo config (app.json "expo" key)
+ */
+function readExpoConfig(projectRoot: string): ExpoPermissionsConfig | null {
+  const file = join(projectRoot, EXPO_APP_CONFIG_FILE);
+  if (!isFile(file)) {
+    return null;
+  }
+  const config = readJsonFile<{ expo?: ExpoPermissionsConfig }>(file);
+  return config.expo ?? null;
+}
+
+function formatRequiredBy(entry: PermissionReportEntry): string {
+  return entry.requiredBy.map(plugin => `${plugin.pluginId} (${plugin.mandatory ? 'mandatory' : 'optional'})`).join(', ');
+}
+
+function formatStatus(check: NativePermissionCheck): string {
+  switch (check.status) {
+    case 'present':
+      return `present in ${check.checkedIn}`;
+    case 'missing':
+      return `MISSING from ${check.checkedIn}`;
+    default:
+      return 'not checked (no native project or app.json entry)';
+  }
+}
+
+/**
+ * Logs an entry's iOS keys and Android permissions with their native status
+ */
+function logChecks(ctx: RuntimeContext, indent: string, entry: PermissionReportEntry): void {
+  if (entry.ios.length === 0 && entry.android.length === 0) {
+    ctx.logger.info(`${indent}(no iOS keys or Android permissions for this target)`);
+    return;
+  }
+  for (const [label, checks] of [['iOS', entry.ios], ['Android', entry.android]] as const) {
+    if (checks.length > 0) {
+      ctx.logger.info(`${indent}${label}:`);
+      checks.forEach(check => ctx.logger.info(`${indent}  ${check.name}: ${formatStatus(check)}`));
+    }
+  }
+}
+
+/**
+ * Logs how many mapped keys/permissions are missing from the native project
+ */
+function logMissingSummary(ctx: RuntimeContext, report: PermissionReportEntry[]): void {
+  const missing = report.flatMap(entry => [...entry.ios, ...entry.android]).filter(check => check.status === 'missing');
+  ctx.logger.info('');
+  if (missing.length > 0) {
+    ctx.logger.warn(`${missing.length} key(s)/permission(s) missing from the native project: ${[...new Set(missing.map(check => check.name))].join(', ')}`);
+  } else {
+    ctx.logger.info('✓ No mapped keys/permissions missing from the native project');
+  }
+}
@@ -4,7 +4,10 @@
  * OWNERSHIP: CLI
  * 
  * Tests validate:
- * - PermissionIds resolve to dataset entries (docs/plugins-permissions.md)
+ * - The shipped catalog (templates/permissions/catalog.json) is valid and docs/plugins-permissions.md is generated from it
+ * - Invalid catalogs fail with every violation listed (no silently skipped entries)
+ * - Catalogs are validated against the schema next to them (same CLI root)
+ * - PermissionIds resolve to dataset entries
  * - Dataset mapping works correctly (iOS plist keys, Android permissions/features)
  * - Aggregated manifest generation (all plugins' permissions combined)
  * - Platform-specific resolution (iOS vs Android vs both)
@@ -13,28 +16,63 @@
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { join } from 'path';
-import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { copyFile, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
 import { tmpdir } from 'os';
 import {
+  PERMISSIONS_CATALOG_DOC,
+  PERMISSIONS_CATALOG_FILE,
+  PERMISSIONS_CATALOG_SCHEMA_FILE,
   loadPermissionsCatalog,
+  renderPermissionsCatalogTable,
   resolvePermissions,
   aggregatePermissions,
 } from './permissions';
+import { resolveCliRoot } from './pack-locations';
 import type {
+  AppPlatform,
+  PermissionCatalogEntry,
   PermissionId,
+  PermissionObject,
   PermissionRequirement,
   AggregatedPermissions,
 } from './types/permissions';
 import type { RnsTarget } from './types/common';
 
+function entry(
+  id: number,
+  constant: string,
+  appPlatform: AppPlatform,
+  object: Pick<PermissionObject, 'os' | 'permissionType'> & Partial<PermissionObject>
+): PermissionCatalogEntry {
+  return {
+    id,
+    fullPermissionConstant: constant,
+    appPlatform,
+    pluginKind: 'rn-library',
+    permissionObject: {
+      pluginId: 'test-provider',
+      pluginName: 'Test Provider',
+      permission: constant,
+      requestedBy: ['request'],
+      value: constant,
+      ...object,
+    },
+  };
+}
+
 describe('permissions', () => {
   let testCliRoot: string;
   let testCatalogPath: string;
 
+  const writeCatalog = async (entries: unknown[]) => {
+    await writeFile(testCatalogPath, JSON.stringify({ entries }, null, 2));
+  };
+
   beforeEach(async () => {
     testCliRoot = await mkdtemp(join(tmpdir(), 'rns-test-cli-'));
-    await mkdir(join(testCliRoot, 'docs'), { recursive: true });
-    testCatalogPath = join(testCliRoot, 'docs', 'plugins-permissions.md');
+    await mkdir(join(testCliRoot, 'templates', 'permissions'), { recursive: true });
+    await copyFile(join(resolveCliRoot(), PERMISSIONS_CATALOG_SCHEMA_FILE), join(testCliRoot, PERMISSIONS_CATALOG_SCHEMA_FILE));
+    testCatalogPath = join(testCliRoot, PERMISSIONS_CATALOG_FILE);
   });
 
   afterEach(async () => {
@@ -45,15 +83,23 @@ describe('permissions', () => {
     }
   });
 
+  describe('catalog data', () => {
+    it('should load the shipped catalog and keep docs/plugins-permissions.md generated from it', async () => {
+      const catalog = loadPermissionsCatalog(resolveCliRoot());
+      expect(catalog.map(item => item.id)).toEqual(catalog.map((_, index) => index + 1));
+
+      const doc = await readFile(join(resolveCliRoot(), PERMISSIONS_CATALOG_DOC), 'utf-8');
+      expect(doc).toContain(`<!-- @rns-generated:permissions-catalog:start -->\n${renderPermissionsCatalogTable(catalog)}\n<!-- @rns-generated:permissions-catalog:end -->`);
+    });
+  });
+
   describe('PermissionIds → dataset mapping', () => {
     it('should load permissions catalog from dataset', async () => {
       // Create mock catalog file
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-| 2  | \`LOCATION\` | both | capability | \`{"type": "location", "value": "LOCATION"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([
+        entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' }),
+        entry(2, 'LOCATION', 'both', { os: 'android', permissionType: 'runtimePermission' }),
+      ]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       
@@ -64,11 +110,7 @@ describe('permissions', () => {
 
     it('should map PermissionIds to catalog entries', async () => {
       // Create mock catalog
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       const permissionIds: PermissionId[] = ['CAMERA'];
@@ -81,34 +123,30 @@ describe('permissions', () => {
 
     it('should filter by target platform (iOS vs Android vs both)', async () => {
       // Create catalog with platform-specific entries
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-| 2  | \`IOS_ONLY\` | ios | capability | \`{"type": "ios-only", "value": "IOS_ONLY"}\` |
-| 3  | \`ANDROID_ONLY\` | android | capability | \`{"type": "android-only", "value": "ANDROID_ONLY"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([
+        entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' }),
+        entry(2, 'IOS_ONLY', 'bare', { os: 'ios', permissionType: 'runtimePermission' }),
+        entry(3, 'ANDROID_ONLY', 'expo', { os: 'android', permissionType: 'runtimePermission' }),
+      ]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       const permissionIds: PermissionId[] = ['CAMERA', 'IOS_ONLY', 'ANDROID_ONLY'];
       
-      // For Expo (both platforms), should include all
+      // Expo resolves "expo" and "both" entries only
       const expoResolved = resolvePermissions(permissionIds, catalog, 'expo');
-      // Note: actual implementation might filter differently, this tests structure
 
       expect(expoResolved).toBeDefined();
+      expect(Array.from(expoResolved.keys())).toEqual(['CAMERA', 'ANDROID_ONLY']);
     });
   });
 
   describe('aggregated manifest generation', () => {
     it('should aggregate permissions from multiple plugins', async () => {
       // Create mock catalog
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-| 2  | \`LOCATION\` | both | capability | \`{"type": "location", "value": "LOCATION"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([
+        entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' }),
+        entry(2, 'LOCATION', 'both', { os: 'android', permissionType: 'runtimePermission' }),
+      ]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       
@@ -134,11 +172,7 @@ describe('permissions', () => {
 
     it('should track per-plugin traceability (mandatory vs optional)', async () => {
       // Create mock catalog
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       
@@ -156,11 +190,7 @@ describe('permissions', () => {
 
     it('should include iOS plist keys in aggregated manifest', async () => {
       // Create mock catalog with iOS keys
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`NSCameraUsageDescription\` | ios | capability | \`{"type": "camera", "value": "CAMERA", "iosKey": "NSCameraUsageDescription"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'NSCameraUsageDescription', 'both', { os: 'ios', permissionType: 'infoPlistKey' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       
@@ -177,11 +207,7 @@ describe('permissions', () => {
 
     it('should include Android permissions in aggregated manifest', async () => {
       // Create mock catalog with Android permissions
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`android.permission.CAMERA\` | android | capability | \`{"type": "camera", "value": "CAMERA", "androidPermission": "android.permission.CAMERA"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'android.permission.CAMERA', 'both', { os: 'android', permissionType: 'manifestPermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       
@@ -198,11 +224,7 @@ describe('permissions', () => {
 
     it('should include Android features in aggregated manifest', async () => {
       // Create mock catalog with Android features
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`android.hardware.camera\` | android | capability | \`{"type": "camera", "value": "CAMERA", "androidFeature": "android.hardware.camera"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'android.hardware.camera', 'both', { os: 'android', permissionType: 'manifestPermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       
@@ -221,11 +243,7 @@ describe('permissions', () => {
   describe('platform-specific resolution', () => {
     it('should resolve iOS-specific permissions for iOS target', async () => {
       // Create catalog with iOS-specific entries
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`IOS_ONLY\` | ios | capability | \`{"type": "ios-only", "value": "IOS_ONLY"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'IOS_ONLY', 'bare', { os: 'ios', permissionType: 'runtimePermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       const permissionIds: PermissionId[] = ['IOS_ONLY'];
@@ -239,11 +257,7 @@ describe('permissions', () => {
 
     it('should resolve Android-specific permissions for Android target', async () => {
       // Create catalog with Android-specific entries
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`ANDROID_ONLY\` | android | capability | \`{"type": "android-only", "value": "ANDROID_ONLY"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'ANDROID_ONLY', 'expo', { os: 'android', permissionType: 'runtimePermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       const permissionIds: PermissionId[] = ['ANDROID_ONLY'];
@@ -255,11 +269,7 @@ describe('permissions', () => {
 
     it('should resolve both-platform permissions for Expo target', async () => {
       // Create catalog with both-platform entries
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       const permissionIds: PermissionId[] = ['CAMERA'];
@@ -274,12 +284,10 @@ describe('permissions', () => {
   describe('per-plugin traceability', () => {
     it('should track which plugin requires which permissions', async () => {
       // Create mock catalog
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-| 2  | \`LOCATION\` | both | capability | \`{"type": "location", "value": "LOCATION"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([
+        entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' }),
+        entry(2, 'LOCATION', 'both', { os: 'android', permissionType: 'runtimePermission' }),
+      ]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       
@@ -295,11 +303,7 @@ describe('permissions', () => {
 
     it('should distinguish mandatory vs optional permissions', async () => {
       // Create mock catalog
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       
@@ -317,11 +321,7 @@ describe('permissions', () => {
   describe('error handling', () => {
     it('should handle missing permission IDs gracefully', async () => {
       // Create catalog without the requested permission
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`{"type": "camera", "value": "CAMERA"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+      await writeCatalog([entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' })]);
 
       const catalog = loadPermissionsCatalog(testCliRoot);
       const permissionIds: PermissionId[] = ['NONEXISTENT'];
@@ -333,22 +333,43 @@ describe('permissions', () => {
       expect(resolved instanceof Map).toBe(true);
     });
 
-    it('should handle invalid catalog entries gracefully', async () => {
-      // Create catalog with invalid entry
-      const catalogContent = `| id | full permission constant | AppPlatform | PluginKind | permission object itself |
-|----|---------------------------|-------------|------------|------------------------|
-| 1  | \`CAMERA\` | both | capability | \`invalid json\` |
-| 2  | \`LOCATION\` | both | capability | \`{"type": "location", "value": "LOCATION"}\` |
-`;
-      await writeFile(testCatalogPath, catalogContent);
+    it('should reject invalid catalog entries with every violation listed', async () => {
+      const missingValue = entry(2, 'LOCATION', 'both', { os: 'android', permissionType: 'runtimePermission' });
+      delete (missingValue.permissionObject as Partial<PermissionObject>).value;
+      await writeCatalog([
+        { ...entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' }), pluginKind: 'capability' },
+        missingValue,
+      ]);
+
+      expect(() => loadPermissionsCatalog(testCliRoot)).toThrow(
+        'catalog.entries[0].pluginKind: must be one of "expo-module", "rn-library", "rn-core"\n' +
+          '  - catalog.entries[1].permissionObject: missing required property "value"'
+      );
+      await writeFile(testCatalogPath, 'not json');
+      expect(() => loadPermissionsCatalog(testCliRoot)).toThrow();
+    });
 
-      const catalog = loadPermissionsCatalog(testCliRoot);
-      
-      // Should skip invalid entries and load valid ones
-      expect(catalog).toBeDefined();
-      expect(Array.isArray(catalog)).toBe(true);
-      // Should have at least one valid entry
-      expect(catalog.length).toBeGreaterThanOrEqual(1);
+    it('should reject duplicate ids and inconsistent entries', async () => {
+      await writeCatalog([
+        entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' }),
+        entry(1, 'LOCATION', 'both', { os: 'android', permissionType: 'runtimePermission', permission: 'GPS' }),
+        entry(2, 'CONTACTS', 'bare', { os: 'android', permissionType: 'runtimePermission', requiredInfoPlistKeys: ['NSContactsUsageDescription'] }),
+      ]);
+
+      expect(() => loadPermissionsCatalog(testCliRoot)).toThrow(
+        /entries\[1\]\.id: duplicate id 1\n.*entries\[1\]\.permissionObject\.permission: must equal fullPermissionConstant "LOCATION"\n.*entries\[2\]\.permissionObject\.requiredInfoPlistKeys: only allowed for os "ios"/
+      );
+    });
+
+    it('should validate against the schema of the CLI root it loads from', async () => {
+      await writeCatalog([entry(1, 'CAMERA', 'both', { os: 'android', permissionType: 'runtimePermission' })]);
+      expect(loadPermissionsCatalog(testCliRoot)).toHaveLength(1);
+
+      await writeFile(join(testCliRoot, PERMISSIONS_CATALOG_SCHEMA_FILE), JSON.stringify({
+        type: 'object',
+        required: ['entries', 'version'],
+      }));
+      expect(() => loadPermissionsCatalog(testCliRoot)).toThrow('catalog: missing required property "version"');
     });
   });
 });
@@ -4,63 +4,127 @@
  * OWNERSHIP: CLI
  * 
  * This module provides:
- * - Permission ID resolution from docs/plugins-permissions.md dataset
+ * - Permissions catalog (templates/permissions/catalog.json), validated on load
+ * - Permission ID resolution against the catalog
  * - iOS plist key mapping
  * - Android manifest permission/feature mapping
  * - Aggregated permissions with per-plugin traceability
+ *
+ * docs/plugins-permissions.md is generated from the catalog (renderPermissionsCatalogTable);
+ * edit the JSON, then run `npm run docs:permissions`.
  */
 
 import { join } from 'path';
-import { readTextFile } from './fs';
+import { CliError, ExitCode } from './errors';
+import { readJsonFile, readTextFile, writeTextFile } from './fs';
+import { validateJsonSchema, type JsonSchema } from './json-schema';
 import type {
   PermissionId,
   PermissionRequirement,
   PermissionCatalogEntry,
   ResolvedPermission,
   AggregatedPermissions,
-  PermissionObject,
-  AppPlatform,
-  PluginKind,
 } from './types/permissions';
 import type { RnsTarget } from './types/common';
 
 /**
- * Loads and parses the permissions catalog from docs/plugins-permissions.md
+ * Catalog data, its schema and the generated doc (relative to the CLI root)
+ */
+export const PERMISSIONS_CATALOG_FILE = 'templates/permissions/catalog.json';
+export const PERMISSIONS_CATALOG_SCHEMA_FILE = 'templates/permissions/catalog.schema.json';
+export const PERMISSIONS_CATALOG_DOC = 'docs/plugins-permissions.md';
+
+const DOC_TABLE_START = '<!-- @rns-generated:permissions-catalog:start -->';
+const DOC_TABLE_END = '<!-- @rns-generated:permissions-catalog:end -->';
+
+/**
+ * Loads and validates the permissions catalog
  * 
- * @param cliRoot - CLI root directory (where docs/ is located)
+ * @param cliRoot - CLI root directory (where templates/permissions/ is located)
  * @returns Array of permission catalog entries
+ * @throws CliError if the catalog doesn't match its schema or has inconsistent entries
  */
 export function loadPermissionsCatalog(cliRoot: string): PermissionCatalogEntry[] {
-  const catalogPath = join(cliRoot, 'docs', 'plugins-permissions.md');
-  const content = readTextFile(catalogPath);
-  
-  const entries: PermissionCatalogEntry[] = [];
-  
-  // Parse markdown table
-  // Table format: | id | full permission constant | AppPlatform | PluginKind | permission object itself |
-  const tableRegex = /^\|\s*(\d+)\s*\|\s*`([^`]+)`\s*\|\s*(\w+)\s*\|\s*(\w+)\s*\|\s*`({[^`]+})`\s*\|/gm;
-  
-  let match;
-  while ((match = tableRegex.exec(content)) !== null) {
-    const [, idStr, fullConstant, appPlatform, pluginKind, permissionJson] = match;
-    
-    try {
-      const permissionObject = JSON.parse(permissionJson) as PermissionObject;
-      
-      entries.push({
-        id: parseInt(idStr, 10),
-        fullPermissionConstant: fullConstant,
-        appPlatform: appPlatform as AppPlatform,
-        pluginKind: pluginKind as PluginKind,
-        permissionObject,
-      });
-    } catch (error) {
-      // Skip invalid entries
-      console.warn(`Failed to parse permission entry ${idStr}: ${error instanceof Error ? error.message : String(error)}`);
+  const catalogPath = join(cliRoot, PERMISSIONS_CATALOG_FILE);
+  const catalog = readJsonFile<unknown>(catalogPath);
+
+  const errors = validatePermissionsCatalog(catalog, cliRoot);
+  if (errors.length > 0) {
+    throw new CliError(
+      `Invalid permissions catalog ${catalogPath}:\n${errors.map(error => `  - ${error}`).join('\n')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return (catalog as { entries: PermissionCatalogEntry[] }).entries;
+}
+
+/**
+ * Validates catalog data: the published schema, then cross-field rules
+ * (unique ids, constant matches the permission, Info.plist keys only on iOS)
+ *
+ * @param catalog - Catalog data
+ * @param cliRoot - CLI root directory the schema is read from (the catalog's own root)
+ * @returns Error messages ("<path>: <problem>"), empty when valid
+ */
+export function validatePermissionsCatalog(catalog: unknown, cliRoot: string): string[] {
+  const schema = readJsonFile<JsonSchema>(join(cliRoot, PERMISSIONS_CATALOG_SCHEMA_FILE));
+  const errors = validateJsonSchema(catalog, schema, 'catalog');
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const seen = new Set<number>();
+  (catalog as { entries: PermissionCatalogEntry[] }).entries.forEach((entry, index) => {
+    const path = `catalog.entries[${index}]`;
+    if (seen.has(entry.id)) {
+      errors.push(`${path}.id: duplicate id ${entry.id}`);
+    }
+    seen.add(entry.id);
+    if (entry.permissionObject.permission !== entry.fullPermissionConstant) {
+      errors.push(`${path}.permissionObject.permission: must equal fullPermissionConstant "${entry.fullPermissionConstant}"`);
+    }
+    if (entry.permissionObject.requiredInfoPlistKeys && entry.permissionObject.os !== 'ios') {
+      errors.push(`${path}.permissionObject.requiredInfoPlistKeys: only allowed for os "ios"`);
     }
+  });
+  return errors;
+}
+
+/**
+ * Renders the catalog as the markdown table of docs/plugins-permissions.md
+ */
+export function renderPermissionsCatalogTable(catalog: PermissionCatalogEntry[]): string {
+  return [
+    '| id | full permission constant | AppPlatform | PluginKind | permission object itself |',
+    '|---:|---|---|---|---|',
+    ...catalog.map(entry =>
+      `| ${entry.id} | \`${entry.fullPermissionConstant}\` | ${entry.appPlatform} | ${entry.pluginKind} | \`${JSON.stringify(entry.permissionObject)}\` |`
+    ),
+  ].join('\n');
+}
+
+/**
+ * Regenerates the catalog table in docs/plugins-permissions.md (between the generated-region comments)
+ *
+ * @param cliRoot - CLI root directory
+ * @returns True if the doc changed
+ */
+export function writePermissionsCatalogDoc(cliRoot: string): boolean {
+  const docPath = join(cliRoot, PERMISSIONS_CATALOG_DOC);
+  const content = readTextFile(docPath);
+  const start = content.indexOf(DOC_TABLE_START);
+  const end = content.indexOf(DOC_TABLE_END);
+  if (start < 0 || end < start) {
+    throw new CliError(`${docPath} has no generated catalog region (${DOC_TABLE_START} ... ${DOC_TABLE_END})`);
   }
-  
-  return entries;
+
+  const table = renderPermissionsCatalogTable(loadPermissionsCatalog(cliRoot));
+  const updated = `${content.slice(0, start + DOC_TABLE_START.length)}\n${table}\n${content.slice(end)}`;
+  if (updated === content) {
+    return false;
+  }
+  writeTextFile(docPath, updated);
+  return true;
 }
 
 /**
@@ -0,0 +1,135 @@
+/**
+ * FILE: src/lib/plan-preview.test.ts
+ * PURPOSE: Unit/spec tests for rns plan (simulated plugin add/remove reports)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Install plans are simulated on a scratch copy: the project is never written
+ * - Local plugin sources outside the project resolve (and are recorded) as in the project
+ * - Report lists file diffs (created files, package.json, manifest) and dependency changes
+ * - Human output renders the dependency table and diffs; JSON report has a stable schema version
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { cp, mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { buildPlanReport, formatPlanReport, PLAN_REPORT_SCHEMA_VERSION } from './plan-preview';
+import { createManifest, writeManifest } from './manifest';
+import { clearPluginSources } from './plugin-sources';
+import { pathExists } from './fs';
+import { CLI_CONFIG_FILE, PROJECT_STATE_FILE } from './constants';
+import type { RuntimeContext } from './runtime';
+import type { InitInputs } from './init';
+
+describe('plan-preview', () => {
+  let testProjectRoot: string;
+  let context: RuntimeContext;
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-plan-'));
+    await mkdir(join(testProjectRoot, 'packages', '@rns', 'runtime'), { recursive: true });
+    await writeFile(join(testProjectRoot, 'package.json'), JSON.stringify({ name: 'test-app', dependencies: { react: '18.2.0' } }, null, 2) + '\n');
+
+    const inputs = {
+      projectName: 'TestApp',
+      destination: testProjectRoot,
+      target: 'expo',
+      language: 'ts',
+      packageManager: 'npm',
+      locales: ['en'],
+      selectedOptions: { i18n: false, theming: false, reactNavigation: false, expoRouter: false, authentication: null, styling: 'stylesheet' },
+      coreToggles: { alias: true, svg: true, fonts: true, env: true },
+      plugins: [],
+      installCoreDependencies: false,
+    } as InitInputs;
+    writeManifest(testProjectRoot, createManifest(testProjectRoot, inputs));
+
+    context = {
+      resolvedRoot: testProjectRoot,
+      flags: { yes: true, verbose: false, dryRun: false },
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+      runId: 'test-run-id',
+    } as RuntimeContext;
+  });
+
+  afterEach(async () => {
+    await rm(testProjectRoot, { recursive: true, force: true });
+  });
+
+  it('should report diffs and dependencies of an install without touching the project', async () => {
+    const manifestBefore = await readFile(join(testProjectRoot, PROJECT_STATE_FILE), 'utf-8');
+
+    const report = await buildPlanReport({ operation: 'install', pluginIds: ['state.zustand'] }, context);
+
+    expect(report.schemaVersion).toBe(PLAN_REPORT_SCHEMA_VERSION);
+    expect(report.errors).toEqual([]);
+    expect(report.order).toEqual(['state.zustand']);
+    expect(report.plans.map(plan => plan.capabilityId)).toEqual(['state.zustand']);
+    expect(report.dependencies).toContainEqual(expect.objectContaining({ name: 'zustand', change: 'add', type: 'runtime', pluginId: 'state.zustand' }));
+
+    const reexport = report.files.find(file => file.path === join('src', 'state', 'zustand.ts'));
+    expect(reexport).toMatchObject({ change: 'create' });
+    expect(reexport?.diff).toContain('+++ b/src/state/zustand.ts');
+
+    const packageJson = report.files.find(file => file.path === 'package.json');
+    expect(packageJson?.change).toBe('modify');
+    expect(packageJson?.diff).toMatch(/^\+\s+"zustand": /m);
+    expect(report.files.some(file => file.path === PROJECT_STATE_FILE && file.change === 'modify')).toBe(true);
+    expect(report.files.some(file => file.path.startsWith('.rns/backups'))).toBe(false);
+
+    // The project itself is untouched
+    expect(pathExists(join(testProjectRoot, 'src', 'state', 'zustand.ts'))).toBe(false);
+    expect(await readFile(join(testProjectRoot, PROJECT_STATE_FILE), 'utf-8')).toBe(manifestBefore);
+
+    const lines = formatPlanReport(report);
+    expect(lines[0]).toBe('Install: state.zustand');
+    expect(lines.some(line => /^\s+\+\s+zustand\s+\S+\s+runtime\s+state\.zustand$/.test(line))).toBe(true);
+    expect(lines).toContain(`  create  ${join('src', 'state', 'zustand.ts')}`);
+  });
+
+  it('should resolve local plugin sources outside the project', async () => {
+    // workspace/app is the project, workspace/rns-plugins/acme-analytics the plugin pack
+    const workspace = await mkdtemp(join(tmpdir(), 'rns-test-plan-workspace-'));
+    const projectRoot = join(workspace, 'app');
+    await cp(testProjectRoot, projectRoot, { recursive: true });
+    const packDir = join(workspace, 'rns-plugins', 'acme-analytics');
+    await mkdir(packDir, { recursive: true });
+    await writeFile(join(packDir, 'pack.json'), JSON.stringify({
+      id: 'analytics.acme',
+      type: 'plugin',
+      delivery: 'workspace',
+      supportedTargets: ['expo', 'bare'],
+      supportedLanguages: ['ts'],
+    }));
+    await writeFile(join(packDir, 'plugin.json'), JSON.stringify({
+      id: 'analytics.acme',
+      name: 'Acme Analytics',
+      version: '1.0.0',
+      category: 'analytics',
+      support: { targets: ['expo', 'bare'] },
+    }));
+    await mkdir(join(projectRoot, '.rns'), { recursive: true });
+    await writeFile(join(projectRoot, CLI_CONFIG_FILE), JSON.stringify({ pluginSources: ['../rns-plugins'] }));
+
+    try {
+      const report = await buildPlanReport({ operation: 'install', pluginIds: ['analytics.acme'] }, { ...context, resolvedRoot: projectRoot });
+
+      expect(report.errors).toEqual([]);
+      expect(report.plans.map(plan => plan.capabilityId)).toEqual(['analytics.acme']);
+      const manifestDiff = report.files.find(file => file.path === PROJECT_STATE_FILE)?.diff;
+      expect(manifestDiff).toContain(`"path": "${join('..', 'rns-plugins')}"`);
+    } finally {
+      clearPluginSources();
+      await rm(workspace, { recursive: true, force: true });
+    }
+  });
+
+  it('should report nothing to do when removing a plugin that is not installed', async () => {
+    const report = await buildPlanReport({ operation: 'remove', pluginIds: ['state.zustand'] }, context);
+
+    expect(report.plans).toEqual([]);
+    expect(report.files).toEqual([]);
+    expect(report.warnings).toEqual(['state.zustand: not installed (skipped)']);
+  });
+});
@@ -0,0 +1,443 @@
+/**
+ * FILE: src/lib/plan-preview.ts
+ * PURPOSE: rns plan - full modulator plans as unified diffs, dependency table and permissions delta
+ * OWNERSHIP: CLI
+ *
+ * The plans are applied for real to a scratch copy of the project (node_modules symlinked,
+ * package manager never run: dependency changes land in package.json only), then the copy is
+ * diffed against the project. The project itself is never written.
+ *
+ * `--json` prints a PlanReport (schemaVersion 1) for CI bots; fields are only ever added.
+ */
+
+import { dirname, join, relative, resolve, sep } from 'path';
+import { cpSync, mkdtempSync, readdirSync, readFileSync, rmSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { ensureDir, isDirectory, isFile, pathExists } from './fs';
+import { readManifest, validateProjectInitialized } from './manifest';
+import { createModulator } from './modulator';
+import { getPluginRegistry, initializePluginRegistry } from './plugin-registry';
+import { resolveInstallOrder } from './plugin-graph';
+import { resolvePluginsToRemove } from './plugin';
+import { readPluginSourcesConfig } from './plugin-sources';
+import { loadPermissionsCatalog, resolvePermissions } from './permissions';
+import { resolveCliRoot } from './pack-locations';
+import { createUnifiedDiff } from './diff';
+import { CliError, ExitCode } from './errors';
+import { CLI_AUDIT_DIR, CLI_BACKUPS_DIR, CLI_LOGS_DIR } from './constants';
+import type { RuntimeContext } from './runtime';
+import type { ConflictResult, ModulatorContext, ModulatorPlan, PermissionsSummary } from './types/modulator';
+import type { InstalledPluginRecord } from './types/manifest';
+import type { RnsTarget } from './types/common';
+
+/**
+ * Plan report schema version (bumped only for breaking changes)
+ */
+export const PLAN_REPORT_SCHEMA_VERSION = 1;
+
+/**
+ * Paths never copied into the scratch project nor diffed (project-relative)
+ */
+const IGNORED_PATHS = ['.git', 'node_modules', 'ios/Pods', 'ios/build', 'android/build', 'android/app/build', 'android/.gradle', CLI_BACKUPS_DIR, CLI_LOGS_DIR, CLI_AUDIT_DIR];
+
+/**
+ * Planned operation
+ */
+export interface PlanRequest {
+  operation: 'install' | 'remove';
+  /** Requested plugin IDs */
+  pluginIds: string[];
+  /** Install: options per plugin ID */
+  pluginOptions?: Record<string, Record<string, unknown>>;
+  /** Remove: also remove installed plugins that require the requested ones */
+  cascade?: boolean;
+}
+
+/**
+ * File change in the plan
+ */
+export interface PlanFileChange {
+  /** Project-relative path */
+  path: string;
+  change: 'create' | 'modify' | 'delete';
+  /** Unified diff ('' for binary files) */
+  diff: string;
+  binary?: boolean;
+}
+
+/**
+ * Dependency change in the plan
+ */
+export interface PlanDependencyChange {
+  name: string;
+  change: 'add' | 'remove';
+  /** Version spec (additions) */
+  version?: string;
+  /** Dependency type (additions) */
+  type?: 'runtime' | 'dev';
+  /** Plugin whose plan declares the change */
+  pluginId: string;
+}
+
+/**
+ * Added/removed entries
+ */
+export interface PlanListDelta {
+  added: string[];
+  removed: string[];
+}
+
+/**
+ * Project permissions before vs after the plan
+ */
+export interface PlanPermissionsDelta {
+  permissionIds: PlanListDelta;
+  iosKeys: PlanListDelta;
+  androidPermissions: PlanListDelta;
+  androidFeatures: PlanListDelta;
+}
+
+/**
+ * Plan report (rns plan --json)
+ */
+export interface PlanReport {
+  schemaVersion: typeof PLAN_REPORT_SCHEMA_VERSION;
+  operation: PlanRequest['operation'];
+  /** Plugin IDs as requested */
+  requested: string[];
+  /** Plugins in apply order (required plugins / cascaded dependents included) */
+  order: string[];
+  /** Full modulator plans, in apply order */
+  plans: ModulatorPlan[];
+  dependencies: PlanDependencyChange[];
+  permissions: PlanPermissionsDelta;
+  conflicts: ConflictResult[];
+  files: PlanFileChange[];
+  warnings: string[];
+  /** Failures: the operation would fail (and roll back) */
+  errors: string[];
+}
+
+/**
+ * Builds a plan report by simulating the operation on a scratch copy of the project
+ *
+ * @param request - Operation to plan
+ * @param context - Runtime context
+ * @returns Plan report
+ */
+export async function buildPlanReport(request: PlanRequest, context: RuntimeContext): Promise<PlanReport> {
+  validateProjectInitialized(context.resolvedRoot);
+  if (request.pluginIds.length === 0) {
+    throw new CliError(
+      `Plugin IDs are required: rns plan plugin ${request.operation === 'install' ? 'add' : 'remove'} <ids...>`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  await initializePluginRegistry(context.resolvedRoot);
+  const registry = getPluginRegistry();
+  const manifest = readManifest(context.resolvedRoot)!;
+  const installedIds = manifest.plugins.map(p => p.id);
+
+  const order = request.operation === 'install'
+    ? resolveInstallOrder(request.pluginIds, installedIds, id => registry.getPlugin(id)).order
+    : resolvePluginsToRemove(request.pluginIds, installedIds, request.cascade === true).order;
+
+  const scratchRoot = createScratchProject(context.resolvedRoot);
+  const plans: ModulatorPlan[] = [];
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  try {
+    const modulator = createModulator();
+    const scratchContext: RuntimeContext = { ...context, resolvedRoot: scratchRoot };
+
+    for (const pluginId of order) {
+      const modulatorContext = createScratchModulatorContext(scratchContext);
+      const installed = modulatorContext.manifest.plugins.some(p => p.id === pluginId);
+      if (installed === (request.operation === 'install')) {
+        warnings.push(`${pluginId}: ${installed ? 'already installed' : 'not installed'} (skipped)`);
+        continue;
+      }
+
+      try {
+        const plan = await modulator.plan(modulatorContext, pluginId, request.operation, request.pluginOptions?.[pluginId]);
+        plans.push(plan);
+        const result = await modulator.apply(modulatorContext, plan, false);
+        warnings.push(...result.warnings.map(warning => `${pluginId}: ${warning}`));
+        if (!result.success) {
+          errors.push(...result.errors.map(error => `${pluginId}: ${error}`));
+          break;
+        }
+      } catch (error) {
+        errors.push(`${pluginId}: ${error instanceof Error ? error.message : String(error)}`);
+        break;
+      }
+    }
+
+    const after = readManifest(scratchRoot) ?? manifest;
+    return {
+      schemaVersion: PLAN_REPORT_SCHEMA_VERSION,
+      operation: request.operation,
+      requested: request.pluginIds,
+      order,
+      plans,
+      dependencies: collectDependencyChanges(plans),
+      permissions: diffPermissions(
+        summarizePermissions(manifest.plugins, manifest.target),
+        summarizePermissions(after.plugins, manifest.target)
+      ),
+      conflicts: plans.flatMap(plan => plan.conflicts),
+      files: diffProjects(context.resolvedRoot, scratchRoot),
+      warnings,
+      errors,
+    };
+  } finally {
+    removeScratchProject(scratchRoot);
+  }
+}
+
+/**
+ * Runs rns plan: prints the report (human or --json)
+ *
+ * @throws CliError if the planned operation would fail
+ */
+export async function runPlan(request: PlanRequest, options: { json?: boolean }, context: RuntimeContext): Promise<PlanReport> {
+  const report = await buildPlanReport(request, context);
+
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    formatPlanReport(report).forEach(line => console.log(line));
+  }
+
+  if (report.errors.length > 0) {
+    throw new CliError(
+      `Planned ${request.operation} would fail:\n${report.errors.map(error => `  - ${error}`).join('\n')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return report;
+}
+
+/**
+ * Formats a plan report for humans: summary, dependency table, permissions delta, file diffs
+ */
+export function formatPlanReport(report: PlanReport): string[] {
+  const lines: string[] = [];
+  const verb = report.operation === 'install' ? 'Install' : 'Remove';
+  lines.push(`${verb}: ${report.order.join(' → ') || '(nothing to do)'}`);
+  const extra = report.order.filter(id => !report.requested.includes(id));
+  if (extra.length > 0) {
+    lines.push(`  ${report.operation === 'install' ? 'Required plugins added' : 'Dependents removed (--cascade)'}: ${extra.join(', ')}`);
+  }
+
+  lines.push('', 'Dependencies:');
+  if (report.dependencies.length === 0) {
+    lines.push('  (no changes)');
+  } else {
+    const rows = [
+      ['', 'PACKAGE', 'VERSION', 'TYPE', 'PLUGIN'],
+      ...report.dependencies.map(dep => [dep.change === 'add' ? '+' : '-', dep.name, dep.version ?? '', dep.type ?? '', dep.pluginId]),
+    ];
+    const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+    rows.forEach(row => lines.push(`  ${row.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd()}`));
+  }
+
+  lines.push('', 'Permissions:');
+  const permissionRows = (Object.keys(report.permissions) as Array<keyof PlanPermissionsDelta>).flatMap(kind => [
+    ...report.permissions[kind].added.map(entry => `  + ${entry} (${PERMISSION_LABELS[kind]})`),
+    ...report.permissions[kind].removed.map(entry => `  - ${entry} (${PERMISSION_LABELS[kind]})`),
+  ]);
+  lines.push(...(permissionRows.length > 0 ? permissionRows : ['  (no changes)']));
+
+  if (report.conflicts.length > 0) {
+    lines.push('', 'Conflicts:');
+    report.conflicts.forEach(conflict => lines.push(`  ! [${conflict.severity}] ${conflict.description}`));
+  }
+
+  lines.push('', `Files (${report.files.length}):`);
+  report.files.forEach(file => lines.push(`  ${file.change.padEnd(6)}  ${file.path}`));
+  for (const file of report.files) {
+    lines.push('', file.binary ? `Binary file ${file.path} ${file.change}d` : file.diff.trimEnd());
+  }
+
+  if (report.warnings.length > 0) {
+    lines.push('', 'Warnings:');
+    report.warnings.forEach(warning => lines.push(`  ! ${warning}`));
+  }
+  if (report.errors.length > 0) {
+    lines.push('', 'Errors:');
+    report.errors.forEach(error => lines.push(`  ✗ ${error}`));
+  }
+  return lines;
+}
+
+/**
+ * Labels of permission delta kinds
+ */
+const PERMISSION_LABELS: Record<keyof PlanPermissionsDelta, string> = {
+  permissionIds: 'permission',
+  iosKeys: 'iOS Info.plist key',
+  androidPermissions: 'Android permission',
+  androidFeatures: 'Android feature',
+};
+
+/**
+ * Copies the project to a temporary directory (node_modules is symlinked, build output skipped)
+ *
+ * Local plugin sources outside the project (e.g. "../rns-plugins") are symlinked at the same
+ * relative location next to the copy, so they resolve (and are recorded) as in the project.
+ * Delete the copy with removeScratchProject.
+ */
+export function createScratchProject(projectRoot: string): string {
+  const outsideSources = readPluginSourcesConfig(projectRoot)
+    .filter(spec => spec.startsWith('.'))
+    .map(spec => relative(projectRoot, resolve(projectRoot, spec)))
+    .filter(path => path === '..' || path.startsWith(`..${sep}`))
+    .sort((a, b) => a.length - b.length);
+  const depth = Math.max(0, ...outsideSources.map(path => path.split(sep).filter(segment => segment === '..').length));
+
+  const scratchBase = mkdtempSync(join(tmpdir(), 'rns-plan-'));
+  const scratchRoot = join(scratchBase, ...(depth > 0 ? projectRoot.split(sep).filter(Boolean).slice(-depth) : []));
+  for (const path of outsideSources) {
+    const mirror = join(scratchRoot, path);
+    if (!pathExists(mirror)) {
+      ensureDir(dirname(mirror));
+      symlinkSync(resolve(projectRoot, path), mirror, 'dir');
+    }
+  }
+
+  cpSync(projectRoot, scratchRoot, {
+    recursive: true,
+    filter: source => !isIgnoredPath(relative(projectRoot, source)),
+  });
+  if (isDirectory(join(projectRoot, 'node_modules'))) {
+    symlinkSync(join(projectRoot, 'node_modules'), join(scratchRoot, 'node_modules'), 'dir');
+  }
+  return scratchRoot;
+}
+
+/**
+ * Deletes a scratch copy created by createScratchProject (with its plugin source links)
+ */
+export function removeScratchProject(scratchRoot: string): void {
+  const [base] = relative(tmpdir(), scratchRoot).split(sep);
+  rmSync(base.startsWith('rns-plan-') ? join(tmpdir(), base) : scratchRoot, { recursive: true, force: true });
+}
+
+/**
+ * Creates a modulator context for the scratch project (manifest re-read after each apply)
+ */
+function createScratchModulatorContext(context: RuntimeContext): ModulatorContext {
+  const manifest = readManifest(context.resolvedRoot)!;
+  return {
+    projectRoot: context.resolvedRoot,
+    target: manifest.target,
+    packageManager: manifest.packageManager,
+    manifest,
+    runtimeContext: context,
+    simulate: true,
+  };
+}
+
+/**
+ * Checks whether a project-relative path is excluded from the copy and the diff
+ */
+function isIgnoredPath(path: string): boolean {
+  const normalized = path.split('\\').join('/');
+  return IGNORED_PATHS.some(ignored => normalized === ignored || normalized.startsWith(`${ignored}/`))
+    || normalized.split('/').includes('node_modules');
+}
+
+/**
+ * Lists project files (relative paths), skipping ignored paths
+ */
+function listProjectFiles(root: string, dir: string = root, files: string[] = []): string[] {
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const path = join(dir, entry.name);
+    if (isIgnoredPath(relative(root, path))) continue;
+    if (entry.isDirectory()) {
+      listProjectFiles(root, path, files);
+    } else if (entry.isFile()) {
+      files.push(relative(root, path));
+    }
+  }
+  return files;
+}
+
+/**
+ * Diffs the scratch project against the project
+ */
+export function diffProjects(projectRoot: string, scratchRoot: string): PlanFileChange[] {
+  const paths = Array.from(new Set([...listProjectFiles(projectRoot), ...listProjectFiles(scratchRoot)])).sort();
+  const changes: PlanFileChange[] = [];
+
+  for (const path of paths) {
+    const before = isFile(join(projectRoot, path)) ? readFileSync(join(projectRoot, path)) : null;
+    const after = isFile(join(scratchRoot, path)) ? readFileSync(join(scratchRoot, path)) : null;
+    if (before && after && before.equals(after)) continue;
+
+    const change: PlanFileChange['change'] = before === null ? 'create' : after === null ? 'delete' : 'modify';
+    const binary = [before, after].some(buffer => buffer !== null && buffer.includes(0));
+    changes.push({
+      path,
+      change,
+      diff: binary
+        ? ''
+        : createUnifiedDiff(
+            before?.toString('utf-8') ?? '',
+            after?.toString('utf-8') ?? '',
+            before === null ? '/dev/null' : `a/${path}`,
+            after === null ? '/dev/null' : `b/${path}`
+          ),
+      ...(binary ? { binary } : {}),
+    });
+  }
+  return changes;
+}
+
+/**
+ * Collects dependency additions/removals declared by the plans
+ */
+function collectDependencyChanges(plans: ModulatorPlan[]): PlanDependencyChange[] {
+  return plans.flatMap(plan => [
+    ...plan.dependencies.runtime.map(dep => ({ name: dep.name, change: 'add' as const, version: dep.version, type: 'runtime' as const, pluginId: plan.capabilityId })),
+    ...plan.dependencies.dev.map(dep => ({ name: dep.name, change: 'add' as const, version: dep.version, type: 'dev' as const, pluginId: plan.capabilityId })),
+    ...(plan.dependencies.remove || []).map(name => ({ name, change: 'remove' as const, pluginId: plan.capabilityId })),
+  ]);
+}
+
+/**
+ * Resolves the permissions declared by installed plugins (descriptor snapshot, else registry)
+ */
+function summarizePermissions(records: InstalledPluginRecord[], target: RnsTarget): Required<PermissionsSummary> {
+  const registry = getPluginRegistry();
+  const permissionIds = Array.from(new Set(records.flatMap(record =>
+    (record.descriptor?.permissions ?? registry.getPlugin(record.id)?.permissions ?? []).map(p => p.permissionId)
+  )));
+  const resolved = Array.from(resolvePermissions(permissionIds, loadPermissionsCatalog(resolveCliRoot()), target).values());
+
+  return {
+    permissionIds,
+    iosKeys: Array.from(new Set(resolved.flatMap(r => r.iosKeys || []))),
+    androidPermissions: Array.from(new Set(resolved.flatMap(r => r.androidPermissions || []))),
+    androidFeatures: Array.from(new Set(resolved.flatMap(r => r.androidFeatures || []))),
+  };
+}
+
+/**
+ * Diffs two permission summaries
+ */
+function diffPermissions(before: Required<PermissionsSummary>, after: Required<PermissionsSummary>): PlanPermissionsDelta {
+  const delta = (from: string[], to: string[]): PlanListDelta => ({
+    added: to.filter(entry => !from.includes(entry)),
+    removed: from.filter(entry => !to.includes(entry)),
+  });
+  return {
+    permissionIds: delta(before.permissionIds, after.permissionIds),
+    iosKeys: delta(before.iosKeys, after.iosKeys),
+    androidPermissions: delta(before.androidPermissions, after.androidPermissions),
+    androidFeatures: delta(before.androidFeatures, after.androidFeatures),
+  };
+}
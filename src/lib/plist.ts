@@ -0,0 +1,172 @@
+/**
+ * FILE: src/lib/plist.ts
+ * PURPOSE: Property list (Info.plist / .entitlements) editing on top of the lossless XML tree
+ * OWNERSHIP: CLI
+ *
+ * Dictionaries are <key>/<value> sibling pairs; nested dictionaries are addressed by key path
+ * (e.g. ["NSAppTransportSecurity", "NSExceptionDomains"]). New entries are inserted with the
+ * indentation of their siblings; everything else in the file is left untouched.
+ */
+
+import {
+  createElement,
+  getChildElements,
+  getRootElement,
+  getTextContent,
+  insertChildren,
+  type XmlDocument,
+  type XmlElement,
+  type XmlNode,
+} from './xml';
+import type { PlistValue } from './types/patch-ops';
+
+/**
+ * Dictionary entry (key element + value element)
+ */
+export interface PlistEntry {
+  key: string;
+  keyElement: XmlElement;
+  valueElement: XmlElement;
+}
+
+/**
+ * Gets the top-level <dict> of a plist document
+ *
+ * @throws Error if the document has no <plist><dict> root
+ */
+export function getPlistRootDict(doc: XmlDocument): XmlElement {
+  const root = getRootElement(doc);
+  const dict = root?.name === 'plist' ? getChildElements(root, 'dict')[0] : root?.name === 'dict' ? root : undefined;
+  if (!dict) {
+    throw new Error('Not a property list: expected <plist><dict>');
+  }
+  return dict;
+}
+
+/**
+ * Lists the entries of a <dict>
+ */
+export function getDictEntries(dict: XmlElement): PlistEntry[] {
+  const elements = getChildElements(dict);
+  const entries: PlistEntry[] = [];
+  for (let i = 0; i < elements.length - 1; i++) {
+    if (elements[i].name === 'key') {
+      entries.push({ key: getTextContent(elements[i]), keyElement: elements[i], valueElement: elements[i + 1] });
+      i++;
+    }
+  }
+  return entries;
+}
+
+/**
+ * Finds a dictionary entry by key
+ */
+export function findDictEntry(dict: XmlElement, key: string): PlistEntry | undefined {
+  return getDictEntries(dict).find(entry => entry.key === key);
+}
+
+/**
+ * Resolves a nested <dict> by key path
+ *
+ * @returns The dict, or undefined if a segment is missing or not a dict
+ */
+export function resolveDictPath(dict: XmlElement, path: string[]): XmlElement | undefined {
+  let current: XmlElement | undefined = dict;
+  for (const segment of path) {
+    const entry: PlistEntry | undefined = current ? findDictEntry(current, segment) : undefined;
+    current = entry?.valueElement.name === 'dict' ? entry.valueElement : undefined;
+  }
+  return current;
+}
+
+/**
+ * Reads a plist value element
+ */
+export function readPlistValue(element: XmlElement): PlistValue {
+  switch (element.name) {
+    case 'true':
+      return true;
+    case 'false':
+      return false;
+    case 'integer':
+    case 'real':
+      return Number(getTextContent(element));
+    case 'array':
+      return getChildElements(element).map(readPlistValue);
+    case 'dict':
+      return Object.fromEntries(getDictEntries(element).map(entry => [entry.key, readPlistValue(entry.valueElement)]));
+    default:
+      // string, date, data
+      return getTextContent(element);
+  }
+}
+
+/**
+ * Adds a key/value entry to a <dict>
+ *
+ * @param doc - Document
+ * @param dict - Dict to add to
+ * @param key - Entry key
+ * @param value - Entry value (arrays/dicts are written nested)
+ * @param leading - Nodes to put on the line(s) before the key (e.g. a marker comment)
+ */
+export function addDictEntry(
+  doc: XmlDocument,
+  dict: XmlElement,
+  key: string,
+  value: PlistValue,
+  leading: XmlNode[] = []
+): void {
+  const valueElement = createPlistValueElement(value);
+  insertChildren(doc, dict, [...leading, createElement('key', {}, key), valueElement]);
+  fillPlistValue(doc, valueElement, value);
+}
+
+/**
+ * Appends items to an <array>
+ *
+ * @param leading - Nodes to put before the first item (e.g. a marker comment)
+ */
+export function appendArrayItems(doc: XmlDocument, array: XmlElement, items: PlistValue[], leading: XmlNode[] = []): void {
+  const elements = items.map(createPlistValueElement);
+  insertChildren(doc, array, [...leading, ...elements]);
+  elements.forEach((element, index) => fillPlistValue(doc, element, items[index]));
+}
+
+/**
+ * Compares plist values structurally
+ */
+export function isSamePlistValue(a: PlistValue, b: PlistValue): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Creates the element for a value (array/dict children are added by fillPlistValue once attached)
+ */
+function createPlistValueElement(value: PlistValue): XmlElement {
+  if (typeof value === 'string') {
+    return createElement('string', {}, value);
+  }
+  if (typeof value === 'number') {
+    return createElement(Number.isInteger(value) ? 'integer' : 'real', {}, String(value));
+  }
+  if (typeof value === 'boolean') {
+    return createElement(value ? 'true' : 'false');
+  }
+  return createElement(Array.isArray(value) ? 'array' : 'dict');
+}
+
+/**
+ * Writes array/dict contents into an attached element (indentation follows its position)
+ */
+function fillPlistValue(doc: XmlDocument, element: XmlElement, value: PlistValue): void {
+  if (Array.isArray(value)) {
+    if (value.length > 0) {
+      appendArrayItems(doc, element, value);
+    }
+  } else if (value !== null && typeof value === 'object') {
+    for (const [key, item] of Object.entries(value)) {
+      addDictEntry(doc, element, key, item);
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * FILE: src/lib/plugin-graph.test.ts
+ * PURPOSE: Unit/spec tests for the plugin dependency graph
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Install order puts requirements first and adds transitive requirements
+ * - Installed requirements are not reinstalled
+ * - Cycles fail with a readable path
+ * - Dependents are found transitively and removed first
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findDependents, resolveInstallOrder, resolveRemovalOrder } from './plugin-graph';
+import type { PluginDescriptor } from './types/plugin';
+
+describe('plugin-graph', () => {
+  function registry(edges: Record<string, string[]>) {
+    const plugins = new Map<string, PluginDescriptor>(
+      Object.entries(edges).map(([id, requires]) => [id, {
+        id,
+        name: id,
+        version: '1.0.0',
+        category: 'storage',
+        support: { targets: ['expo', 'bare'] },
+        requires,
+      } as PluginDescriptor])
+    );
+    return (id: string) => plugins.get(id);
+  }
+
+  const lookup = registry({
+    'auth.firebase': ['storage.secure', 'network.client'],
+    'storage.secure': ['storage.base'],
+    'storage.base': [],
+    'network.client': [],
+    'analytics.basic': [],
+  });
+
+  describe('resolveInstallOrder', () => {
+    it('should order requirements before dependents and report auto-added plugins', () => {
+      const { order, autoAdded } = resolveInstallOrder(['auth.firebase', 'analytics.basic'], [], lookup);
+
+      expect(order).toEqual(['storage.base', 'storage.secure', 'network.client', 'auth.firebase', 'analytics.basic']);
+      expect(autoAdded).toEqual(['storage.base', 'storage.secure', 'network.client']);
+    });
+
+    it('should not add requirements that are already installed', () => {
+      const { order, autoAdded } = resolveInstallOrder(['auth.firebase'], ['storage.secure'], lookup);
+
+      expect(order).toEqual(['network.client', 'auth.firebase']);
+      expect(autoAdded).toEqual(['network.client']);
+    });
+
+    it('should keep requested order when requested plugins depend on each other', () => {
+      const { order, autoAdded } = resolveInstallOrder(['storage.secure', 'storage.base'], [], lookup);
+
+      expect(order).toEqual(['storage.base', 'storage.secure']);
+      expect(autoAdded).toEqual([]);
+    });
+
+    it('should fail on cycles with the cycle path', () => {
+      const cyclic = registry({ a: ['b'], b: ['c'], c: ['a'] });
+
+      expect(() => resolveInstallOrder(['a'], [], cyclic)).toThrow('a → b → c → a');
+    });
+
+    it('should fail when a requirement is not in the registry', () => {
+      const missing = registry({ a: ['ghost'] });
+
+      expect(() => resolveInstallOrder(['a'], [], missing)).toThrow(/requires plugin "ghost"/);
+    });
+  });
+
+  describe('removal', () => {
+    const installed = ['auth.firebase', 'storage.secure', 'storage.base', 'network.client', 'analytics.basic'];
+
+    it('should find dependents transitively', () => {
+      expect(findDependents('storage.base', installed, lookup)).toEqual(['storage.secure', 'auth.firebase']);
+      expect(findDependents('analytics.basic', installed, lookup)).toEqual([]);
+    });
+
+    it('should remove dependents before their requirements', () => {
+      expect(resolveRemovalOrder(['storage.base', 'storage.secure', 'auth.firebase'], lookup))
+        .toEqual(['auth.firebase', 'storage.secure', 'storage.base']);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * FILE: src/lib/plugin-graph.ts
+ * PURPOSE: Plugin dependency graph (section 19) - install order for `requires`, dependents for removal
+ * OWNERSHIP: CLI
+ *
+ * Edges come from PluginDescriptor.requires (plugin → plugins it requires).
+ * - Installs are ordered topologically (requirements first); transitive requirements that are
+ *   neither installed nor requested are reported as auto-added.
+ * - Removal of a plugin is blocked while other installed plugins require it (unless cascaded);
+ *   cascaded removals are ordered dependents first.
+ * - Cycles fail with the full path (a → b → c → a).
+ */
+
+import { CliError, ExitCode } from './errors';
+import type { PluginDescriptor, PluginId } from './types/plugin';
+
+/**
+ * Looks up a plugin descriptor by ID (registry lookup)
+ */
+export type PluginLookup = (id: PluginId) => PluginDescriptor | undefined;
+
+/**
+ * Resolved install plan
+ */
+export interface PluginInstallOrder {
+  /** Plugins to install, requirements before dependents */
+  order: PluginId[];
+  /** Required plugins added to the order that were not requested */
+  autoAdded: PluginId[];
+}
+
+/**
+ * Resolves the install order for requested plugins, including transitive requirements
+ *
+ * @param requested - Plugin IDs requested by the user
+ * @param installed - Plugin IDs already installed (satisfy requirements, not reinstalled)
+ * @param lookup - Registry lookup
+ * @returns Install order and the requirements that were added automatically
+ * @throws CliError on cycles or requirements missing from the registry
+ */
+export function resolveInstallOrder(
+  requested: PluginId[],
+  installed: PluginId[],
+  lookup: PluginLookup
+): PluginInstallOrder {
+  const installedSet = new Set(installed);
+  const requestedSet = new Set(requested);
+  const order: PluginId[] = [];
+  const done = new Set<PluginId>();
+  const path: PluginId[] = [];
+
+  const visit = (id: PluginId, requiredBy?: PluginId): void => {
+    if (done.has(id)) {
+      return;
+    }
+    if (path.includes(id)) {
+      throw new CliError(
+        `Plugin dependency cycle detected: ${[...path.slice(path.indexOf(id)), id].join(' → ')}`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+
+    const descriptor = lookup(id);
+    if (!descriptor) {
+      // Unknown requested plugins are reported by the install itself
+      if (requiredBy === undefined) {
+        done.add(id);
+        order.push(id);
+        return;
+      }
+      throw new CliError(
+        `Plugin "${requiredBy}" requires plugin "${id}" which is not found in registry. ` +
+          `The required plugin may not be available or may have been removed.`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+
+    path.push(id);
+    for (const requiredId of descriptor.requires || []) {
+      if (!installedSet.has(requiredId)) {
+        visit(requiredId, id);
+      }
+    }
+    path.pop();
+
+    done.add(id);
+    order.push(id);
+  };
+
+  for (const id of requested) {
+    visit(id);
+  }
+
+  return {
+    order,
+    autoAdded: order.filter(id => !requestedSet.has(id)),
+  };
+}
+
+/**
+ * Finds installed plugins that require a plugin, directly or transitively
+ *
+ * @param pluginId - Plugin to check
+ * @param installed - Installed plugin IDs
+ * @param lookup - Registry lookup
+ * @returns Dependent plugin IDs (nearest first)
+ */
+export function findDependents(
+  pluginId: PluginId,
+  installed: PluginId[],
+  lookup: PluginLookup
+): PluginId[] {
+  const dependents: PluginId[] = [];
+  const queue = [pluginId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const id of installed) {
+      if (id === pluginId || dependents.includes(id)) {
+        continue;
+      }
+      if ((lookup(id)?.requires || []).includes(current)) {
+        dependents.push(id);
+        queue.push(id);
+      }
+    }
+  }
+
+  return dependents;
+}
+
+/**
+ * Orders plugins for removal: dependents before the plugins they require
+ *
+ * @param pluginIds - Plugins to remove
+ * @param lookup - Registry lookup
+ * @returns Removal order
+ */
+export function resolveRemovalOrder(pluginIds: PluginId[], lookup: PluginLookup): PluginId[] {
+  const ids = new Set(pluginIds);
+  // Install order restricted to the removal set, reversed
+  const { order } = resolveInstallOrder(pluginIds, [], id => {
+    const descriptor = lookup(id);
+    return descriptor && { ...descriptor, requires: (descriptor.requires || []).filter(r => ids.has(r)) };
+  });
+  return order.reverse();
+}
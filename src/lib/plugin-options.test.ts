@@ -0,0 +1,175 @@
+/**
+ * FILE: src/lib/plugin-options.test.ts
+ * PURPOSE: Unit/spec tests for plugin installation options (optionsSchema)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - --option and --options-file values are collected per plugin (only --option repeats)
+ * - plugin add resolves --options-file against the project root (--cwd), like rns plan
+ * - Options are validated for unknown keys, types and required values; defaults applied
+ * - String values are coerced to their declared types
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import {
+  coercePluginOptionValue,
+  collectPluginOptionArgs,
+  getMissingRequiredOptions,
+  validatePluginOptions,
+} from './plugin-options';
+import { parseArgs } from './args';
+import { addPlugins } from './plugin';
+import { clearPluginSources } from './plugin-sources';
+import { createManifest, writeManifest } from './manifest';
+import { CLI_CONFIG_FILE } from './constants';
+import type { InitInputs } from './init';
+import type { RuntimeContext } from './runtime';
+import type { PluginDescriptor } from './types/plugin';
+
+describe('plugin-options', () => {
+  let tempDir: string;
+
+  const descriptor: PluginDescriptor = {
+    id: 'network.client',
+    name: 'Network Client',
+    version: '1.0.0',
+    category: 'network',
+    support: { targets: ['expo', 'bare'] },
+    optionsSchema: {
+      baseUrl: { type: 'string', required: true, description: 'API base URL' },
+      retries: { type: 'number', default: 2 },
+      logging: { type: 'boolean', default: false },
+      headers: { type: 'object' },
+    },
+  };
+
+  beforeEach(async () => {
+    tempDir = await mkdtemp(join(tmpdir(), 'rns-test-options-'));
+  });
+
+  afterEach(async () => {
+    clearPluginSources();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('collectPluginOptionArgs', () => {
+    it('should collect repeated --option flags for a single plugin', () => {
+      const args = parseArgs(['plugin', 'add', 'network.client', '--option', 'baseUrl=https://api.test', '--option', 'retries=5']);
+      const options = collectPluginOptionArgs(['network.client'], args.option, undefined, tempDir);
+
+      expect(options).toEqual({ 'network.client': { baseUrl: 'https://api.test', retries: '5' } });
+    });
+
+    it('should keep the last value of other repeated flags', () => {
+      const args = parseArgs(['plugin', 'add', 'network.client', '--options-file', 'a.json', '--options-file', 'b.json', '--option', 'retries=5']);
+
+      expect(args['options-file']).toBe('b.json');
+      expect(args.option).toBe('retries=5');
+    });
+
+    it('should require plugin-prefixed options when several plugins are given', () => {
+      const options = collectPluginOptionArgs(['network.client', 'auth.firebase'], 'network.client:retries=1', undefined, tempDir);
+
+      expect(options['network.client']).toEqual({ retries: '1' });
+      expect(options['auth.firebase']).toEqual({});
+      expect(() => collectPluginOptionArgs(['network.client', 'auth.firebase'], 'retries=1', undefined, tempDir))
+        .toThrow(/ambiguous/);
+    });
+
+    it('should read flat and plugin-keyed options files, with --option taking precedence', async () => {
+      await writeFile(join(tempDir, 'flat.json'), JSON.stringify({ baseUrl: 'https://file.test', retries: 3 }));
+      await writeFile(join(tempDir, 'keyed.json'), JSON.stringify({ 'network.client': { logging: true } }));
+
+      expect(collectPluginOptionArgs(['network.client'], 'retries=4', 'flat.json', tempDir)['network.client'])
+        .toEqual({ baseUrl: 'https://file.test', retries: '4' });
+      expect(collectPluginOptionArgs(['network.client', 'auth.firebase'], undefined, 'keyed.json', tempDir)['network.client'])
+        .toEqual({ logging: true });
+      expect(() => collectPluginOptionArgs(['network.client'], undefined, 'missing.json', tempDir))
+        .toThrow(/Options file not found/);
+    });
+
+    it('should resolve --options-file against the --cwd project for plugin add', async () => {
+      // Project outside process.cwd() with a local plugin whose baseUrl option is required
+      const pluginDir = join(tempDir, 'rns-plugins', 'network-client');
+      await mkdir(pluginDir, { recursive: true });
+      await writeFile(join(pluginDir, 'pack.json'), JSON.stringify({
+        id: 'network.client', type: 'plugin', delivery: 'workspace', supportedTargets: ['expo', 'bare'], supportedLanguages: ['ts'],
+      }));
+      await writeFile(join(pluginDir, 'plugin.json'), JSON.stringify(descriptor));
+      await mkdir(join(tempDir, '.rns'), { recursive: true });
+      await writeFile(join(tempDir, CLI_CONFIG_FILE), JSON.stringify({ pluginSources: ['./rns-plugins'] }));
+      const inputs = {
+        projectName: 'TestApp',
+        destination: tempDir,
+        target: 'expo',
+        language: 'ts',
+        packageManager: 'npm',
+        locales: ['en'],
+        selectedOptions: {},
+        coreToggles: { alias: true, svg: true, fonts: true, env: true },
+        plugins: [],
+        installCoreDependencies: false,
+      } as unknown as InitInputs;
+      writeManifest(tempDir, createManifest(tempDir, inputs));
+      await writeFile(join(tempDir, 'rns-options.json'), JSON.stringify({ baseUrl: 'https://api.test' }));
+      const context = {
+        resolvedRoot: tempDir,
+        flags: { yes: true, verbose: false, dryRun: true },
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+        runId: 'test-run-id',
+      } as RuntimeContext;
+
+      expect(process.cwd()).not.toBe(tempDir);
+      const results = await addPlugins(['network.client'], { optionsFile: 'rns-options.json', dryRun: true, yes: true }, context);
+
+      expect(results).toEqual([expect.objectContaining({ pluginId: 'network.client', success: true })]);
+    });
+  });
+
+  describe('validatePluginOptions', () => {
+    it('should apply defaults and coerce string values', () => {
+      expect(validatePluginOptions(descriptor, { baseUrl: 'https://api.test', retries: '5', headers: '{"x":"1"}' })).toEqual({
+        baseUrl: 'https://api.test',
+        retries: 5,
+        logging: false,
+        headers: { x: '1' },
+      });
+    });
+
+    it('should report unknown keys, wrong types and missing required options together', () => {
+      let message = '';
+      try {
+        validatePluginOptions(descriptor, { retries: true, colour: 'blue' });
+      } catch (error) {
+        message = (error as Error).message;
+      }
+
+      expect(message).toContain('Unknown option "colour"');
+      expect(message).toContain('Missing required option "baseUrl" (API base URL)');
+      expect(message).toContain('option "retries" of plugin "network.client": expected number');
+    });
+
+    it('should reject options for plugins without a schema', () => {
+      expect(() => validatePluginOptions({ ...descriptor, optionsSchema: undefined }, { a: 1 }))
+        .toThrow(/plugin has no options/);
+      expect(validatePluginOptions({ ...descriptor, optionsSchema: undefined }, undefined)).toEqual({});
+    });
+
+    it('should list missing required options', () => {
+      expect(getMissingRequiredOptions(descriptor, {})).toEqual(['baseUrl']);
+      expect(getMissingRequiredOptions(descriptor, { baseUrl: 'x' })).toEqual([]);
+    });
+  });
+
+  it('should coerce option values to schema types', () => {
+    expect(coercePluginOptionValue('p', 'retries', { type: 'number' }, '3')).toBe(3);
+    expect(coercePluginOptionValue('p', 'debug', { type: 'boolean' }, 'yes')).toBe(true);
+    expect(coercePluginOptionValue('p', 'hosts', { type: 'array' }, 'a.com, b.com')).toEqual(['a.com', 'b.com']);
+    expect(coercePluginOptionValue('p', 'extra', { type: 'object' }, '{"a":1}')).toEqual({ a: 1 });
+    expect(() => coercePluginOptionValue('p', 'retries', { type: 'number' }, 'many')).toThrow(/expected a number/);
+    expect(() => coercePluginOptionValue('p', 'extra', { type: 'object' }, '[1]')).toThrow(/expected a JSON object/);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * FILE: src/lib/plugin-options.ts
+ * PURPOSE: Plugin installation options (section 19) - collect, coerce and validate against optionsSchema
+ * OWNERSHIP: CLI
+ *
+ * Options come from (later wins):
+ * - schema defaults
+ * - --options-file <file.json>: either { "<pluginId>": { ... } } or a flat object (single plugin)
+ * - --option key=value (repeatable; "<pluginId>:key=value" when several plugins are given)
+ * - interactive prompts for missing required options
+ *
+ * Validated options are stored in InstalledPluginRecord.options and select pack variants
+ * (normalizeOptionsKey).
+ */
+
+import { resolve } from 'path';
+import { isFile, readJsonFile } from './fs';
+import { promptConfirm, promptText } from './prompts';
+import { CliError, ExitCode } from './errors';
+import type { PluginDescriptor, PluginId, PluginOptionSpec } from './types/plugin';
+
+/**
+ * Raw options per plugin (values from --option are strings, from --options-file are JSON)
+ */
+export type RawPluginOptions = Record<PluginId, Record<string, unknown>>;
+
+/**
+ * Collects raw options for the given plugins from --option and --options-file
+ *
+ * @param pluginIds - Plugins the options apply to
+ * @param optionArgs - --option value(s) (string or string[] for repeated flags)
+ * @param optionsFile - --options-file path (relative to the project root)
+ * @param projectRoot - Resolved project root (--cwd); `rns plan` and `rns plugin` both resolve
+ *   the options file against it, so a preview reads the same file the apply does
+ * @returns Raw options per plugin ID
+ */
+export function collectPluginOptionArgs(
+  pluginIds: PluginId[],
+  optionArgs: unknown,
+  optionsFile: unknown,
+  projectRoot: string
+): RawPluginOptions {
+  const result: RawPluginOptions = Object.fromEntries(pluginIds.map(id => [id, {}]));
+
+  if (optionsFile !== undefined) {
+    if (typeof optionsFile !== 'string') {
+      throw new CliError('--options-file requires a path to a JSON file', ExitCode.VALIDATION_STATE_FAILURE);
+    }
+    const filePath = resolve(projectRoot, optionsFile);
+    if (!isFile(filePath)) {
+      throw new CliError(`Options file not found: ${filePath}`, ExitCode.VALIDATION_STATE_FAILURE);
+    }
+    const content = readJsonFile<Record<string, unknown>>(filePath);
+    if (!isPlainObject(content)) {
+      throw new CliError(`Options file must contain a JSON object: ${filePath}`, ExitCode.VALIDATION_STATE_FAILURE);
+    }
+
+    const keyedByPlugin = Object.keys(content).some(key => pluginIds.includes(key) && isPlainObject(content[key]));
+    if (keyedByPlugin) {
+      for (const [pluginId, options] of Object.entries(content)) {
+        if (!pluginIds.includes(pluginId) || !isPlainObject(options)) {
+          throw new CliError(
+            `Options file entry "${pluginId}" does not match a plugin being configured (${pluginIds.join(', ')})`,
+            ExitCode.VALIDATION_STATE_FAILURE
+          );
+        }
+        Object.assign(result[pluginId], options);
+      }
+    } else if (pluginIds.length === 1) {
+      Object.assign(result[pluginIds[0]], content);
+    } else {
+      throw new CliError(
+        `Options file must be keyed by plugin ID when several plugins are given: { "${pluginIds[0]}": { ... } }`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+  }
+
+  const entries = optionArgs === undefined ? [] : Array.isArray(optionArgs) ? optionArgs : [optionArgs];
+  for (const entry of entries) {
+    const match = typeof entry === 'string' ? entry.match(/^([^=]+)=(.*)$/) : null;
+    if (!match) {
+      throw new CliError(
+        `Invalid --option "${String(entry)}". Expected key=value${pluginIds.length > 1 ? ' or <pluginId>:key=value' : ''}`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+
+    const [, target, value] = match;
+    const separator = target.lastIndexOf(':');
+    const pluginId = separator > 0 ? target.slice(0, separator) : undefined;
+    const key = separator > 0 ? target.slice(separator + 1) : target;
+
+    if (pluginId !== undefined) {
+      if (!pluginIds.includes(pluginId)) {
+        throw new CliError(
+          `--option "${entry}" targets plugin "${pluginId}" which is not being configured (${pluginIds.join(', ')})`,
+          ExitCode.VALIDATION_STATE_FAILURE
+        );
+      }
+      result[pluginId][key] = value;
+    } else if (pluginIds.length === 1) {
+      result[pluginIds[0]][key] = value;
+    } else {
+      throw new CliError(
+        `--option "${entry}" is ambiguous with several plugins. Use <pluginId>:${key}=${value}`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validates options against a plugin's optionsSchema and applies defaults
+ *
+ * String values (from --option or prompts) are coerced to the declared type.
+ *
+ * @param descriptor - Plugin descriptor
+ * @param options - Raw options
+ * @returns Validated options with defaults applied
+ * @throws CliError listing all problems (unknown keys, wrong types, missing required)
+ */
+export function validatePluginOptions(
+  descriptor: PluginDescriptor,
+  options: Record<string, unknown> = {}
+): Record<string, unknown> {
+  const schema = descriptor.optionsSchema || {};
+  const errors: string[] = [];
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(options)) {
+    if (!(key in schema)) {
+      const known = Object.keys(schema);
+      errors.push(`Unknown option "${key}"${known.length > 0 ? ` (available: ${known.join(', ')})` : ' (plugin has no options)'}`);
+    }
+  }
+
+  for (const [key, spec] of Object.entries(schema)) {
+    const value = options[key] ?? spec.default;
+    if (value === undefined) {
+      if (spec.required) {
+        errors.push(`Missing required option "${key}"${spec.description ? ` (${spec.description})` : ''}`);
+      }
+      continue;
+    }
+
+    try {
+      result[key] = typeof value === 'string' && spec.type !== 'string'
+        ? coercePluginOptionValue(descriptor.id, key, spec, value)
+        : checkOptionType(descriptor.id, key, spec, value);
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new CliError(
+      `Invalid options for plugin "${descriptor.id}":\n${errors.map(e => `  - ${e}`).join('\n')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return result;
+}
+
+/**
+ * Lists required options that have neither a value nor a default
+ */
+export function getMissingRequiredOptions(
+  descriptor: PluginDescriptor,
+  options: Record<string, unknown> = {}
+): string[] {
+  return Object.entries(descriptor.optionsSchema || {})
+    .filter(([key, spec]) => spec.required && options[key] === undefined && spec.default === undefined)
+    .map(([key]) => key);
+}
+
+/**
+ * Prompts for a plugin's optionsSchema values
+ *
+ * @param descriptor - Plugin descriptor
+ * @param current - Current values (pre-filled instead of schema defaults)
+ * @param keys - Only prompt for these keys (default: all)
+ * @returns Prompted options (merged over current)
+ */
+export async function promptPluginOptions(
+  descriptor: PluginDescriptor,
+  current: Record<string, unknown> = {},
+  keys?: string[]
+): Promise<Record<string, unknown>> {
+  const options: Record<string, unknown> = { ...current };
+  const schema = Object.entries(descriptor.optionsSchema || {}).filter(([key]) => !keys || keys.includes(key));
+
+  for (const [key, spec] of schema) {
+    const label = `${descriptor.id} › ${key}${spec.description ? ` (${spec.description})` : ''}${spec.required ? ' (required)' : ''}`;
+    const initial = current[key] ?? spec.default;
+
+    if (spec.type === 'boolean') {
+      options[key] = await promptConfirm(label, initial === true);
+      continue;
+    }
+
+    const defaultValue = initial === undefined
+      ? ''
+      : typeof initial === 'string' ? initial : JSON.stringify(initial);
+    let value = await promptText(`${label}:`, defaultValue);
+    // Non-interactive terminals can't answer again; validation reports the missing value
+    while (spec.required && value.trim() === '' && process.stdout.isTTY) {
+      value = await promptText(`${label} - a value is required:`, defaultValue);
+    }
+    if (value.trim() !== '') {
+      options[key] = coercePluginOptionValue(descriptor.id, key, spec, value);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Converts a text value to an option's schema type
+ *
+ * @throws CliError if the value doesn't match the type
+ */
+export function coercePluginOptionValue(
+  pluginId: PluginId,
+  key: string,
+  spec: PluginOptionSpec,
+  raw: string
+): unknown {
+  const invalid = (expected: string) => new CliError(
+    `Invalid value for option "${key}" of plugin "${pluginId}": expected ${expected}, got "${raw}"`,
+    ExitCode.VALIDATION_STATE_FAILURE
+  );
+
+  switch (spec.type) {
+    case 'number': {
+      const value = Number(raw);
+      if (raw.trim() === '' || Number.isNaN(value)) {
+        throw invalid('a number');
+      }
+      return value;
+    }
+    case 'boolean':
+      if (!['true', 'false', 'y', 'n', 'yes', 'no'].includes(raw.toLowerCase())) {
+        throw invalid('true/false');
+      }
+      return ['true', 'y', 'yes'].includes(raw.toLowerCase());
+    case 'array':
+      if (raw.trim().startsWith('[')) {
+        const value = parseJson(raw);
+        if (!Array.isArray(value)) {
+          throw invalid('a JSON array or comma-separated list');
+        }
+        return value;
+      }
+      return raw.split(',').map(item => item.trim()).filter(Boolean);
+    case 'object': {
+      const value = parseJson(raw);
+      if (!isPlainObject(value)) {
+        throw invalid('a JSON object');
+      }
+      return value;
+    }
+    default:
+      return raw;
+  }
+}
+
+/**
+ * Checks a non-string value against an option's schema type
+ */
+function checkOptionType(pluginId: PluginId, key: string, spec: PluginOptionSpec, value: unknown): unknown {
+  const matches =
+    spec.type === 'array' ? Array.isArray(value)
+    : spec.type === 'object' ? isPlainObject(value)
+    : typeof value === spec.type;
+  if (!matches) {
+    throw new CliError(
+      `Invalid value for option "${key}" of plugin "${pluginId}": expected ${spec.type}, got ${JSON.stringify(value)}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return value;
+}
+
+/**
+ * Checks for a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Parses JSON, returning undefined on failure
+ */
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
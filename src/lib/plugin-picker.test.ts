@@ -0,0 +1,76 @@
+/**
+ * FILE: src/lib/plugin-picker.test.ts
+ * PURPOSE: Unit/spec tests for the interactive plugin catalog
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Catalog excludes installed plugins and is grouped by category and tier
+ * - Slot-conflicting and explicitly conflicting plugins are flagged unavailable
+ * - React Native version constraints filter plugins
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPluginCatalog } from './plugin-picker';
+import { supportsReactNativeVersion } from './plugin-registry';
+import type { PluginDescriptor } from './types/plugin';
+
+describe('plugin-picker', () => {
+  function plugin(id: string, extra: Partial<PluginDescriptor> = {}): PluginDescriptor {
+    return {
+      id,
+      name: id,
+      version: '1.0.0',
+      category: 'other',
+      support: { targets: ['expo', 'bare'] },
+      ...extra,
+    };
+  }
+
+  const plugins = [
+    plugin('nav.stack', { category: 'navigation', tier: 'advanced', slots: [{ slot: 'navigation.root', mode: 'single' }] }),
+    plugin('nav.tabs', { category: 'navigation', tier: 'core', slots: [{ slot: 'navigation.root', mode: 'single' }] }),
+    plugin('auth.firebase', { category: 'auth', tier: 'recommended', conflictsWith: ['auth.cognito'] }),
+    plugin('auth.cognito', { category: 'auth', tier: 'recommended' }),
+    plugin('camera.vision', {
+      category: 'camera',
+      permissions: [{ permissionId: 'camera.basic', mandatory: true }],
+    }),
+  ];
+  const lookup = (id: string) => plugins.find(p => p.id === id);
+
+  it('should group by category and tier and exclude installed plugins', () => {
+    const catalog = buildPluginCatalog(plugins, [], lookup);
+
+    expect(catalog.map(e => e.descriptor.id)).toEqual([
+      'auth.cognito', 'auth.firebase', 'camera.vision', 'nav.tabs', 'nav.stack',
+    ]);
+    expect(catalog.map(e => e.group)).toEqual([
+      'auth · recommended', 'auth · recommended', 'camera', 'navigation · core', 'navigation · advanced',
+    ]);
+
+    const installed = [{ id: 'camera.vision', version: '1.0.0', installedAt: '2026-01-01T00:00:00.000Z' }];
+    expect(buildPluginCatalog(plugins, installed, lookup).map(e => e.descriptor.id)).not.toContain('camera.vision');
+  });
+
+  it('should flag slot and explicit conflicts with installed plugins', () => {
+    const installed = [
+      { id: 'nav.tabs', version: '1.0.0', installedAt: '2026-01-01T00:00:00.000Z' },
+      { id: 'auth.cognito', version: '1.0.0', installedAt: '2026-01-01T00:00:00.000Z' },
+    ];
+    const catalog = buildPluginCatalog(plugins, installed, lookup);
+    const reason = (id: string) => catalog.find(e => e.descriptor.id === id)?.disabledReason;
+
+    expect(reason('nav.stack')).toBe('slot "navigation.root" is occupied by "nav.tabs"');
+    expect(reason('auth.firebase')).toBe('conflicts with "auth.cognito"');
+    expect(reason('camera.vision')).toBeUndefined();
+  });
+
+  it('should filter by React Native version constraints', () => {
+    const support = { targets: ['bare' as const], minReactNativeVersion: '0.72.0', maxReactNativeVersion: '0.76.0' };
+
+    expect(supportsReactNativeVersion(support, '0.74.1')).toBe(true);
+    expect(supportsReactNativeVersion(support, '0.71.0')).toBe(false);
+    expect(supportsReactNativeVersion(support, '0.77.0')).toBe(false);
+    expect(supportsReactNativeVersion(support, undefined)).toBe(true);
+  });
+});
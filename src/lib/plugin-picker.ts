@@ -0,0 +1,191 @@
+/**
+ * FILE: src/lib/plugin-picker.ts
+ * PURPOSE: Interactive plugin catalog for `rns plugin add` without IDs (section 20)
+ * OWNERSHIP: CLI
+ *
+ * - Catalog is filtered by the project's target and React Native version
+ * - Choices are grouped by category and tier; plugins whose slot is taken (or that conflict
+ *   with an installed plugin) are shown greyed out with the reason
+ * - Each choice lists the permissions the plugin would add
+ * - optionsSchema values are prompted per selected plugin (see plugin-options)
+ * - The combined modulator plan for the selection is summarized for confirmation
+ */
+
+import { promptMultiSelect } from './prompts';
+import { promptPluginOptions } from './plugin-options';
+import { CliError, ExitCode } from './errors';
+import type { PluginDescriptor, PluginId, PluginTier } from './types/plugin';
+import type { InstalledPluginRecord } from './types/manifest';
+import type { ModulatorPlan } from './types/modulator';
+
+/**
+ * Catalog entry shown in the picker
+ */
+export interface PluginCatalogEntry {
+  descriptor: PluginDescriptor;
+  /** Group heading (category + tier) */
+  group: string;
+  /** Why the plugin can't be selected (slot taken, explicit conflict) */
+  disabledReason?: string;
+}
+
+/**
+ * Result of the interactive picker
+ */
+export interface PluginSelection {
+  pluginIds: PluginId[];
+  /** Options per selected plugin (from optionsSchema prompts) */
+  options: Record<PluginId, Record<string, unknown>>;
+}
+
+/**
+ * Tier display order (untiered plugins last)
+ */
+const TIER_ORDER: Array<PluginTier | undefined> = ['core', 'recommended', 'advanced', undefined];
+
+/**
+ * Builds the picker catalog: grouped, sorted, with unavailable choices flagged
+ *
+ * @param plugins - Plugins compatible with the project (target + RN version)
+ * @param installed - Installed plugin records
+ * @param lookup - Registry lookup (descriptors of installed plugins)
+ * @returns Catalog entries (installed plugins excluded)
+ */
+export function buildPluginCatalog(
+  plugins: PluginDescriptor[],
+  installed: InstalledPluginRecord[],
+  lookup: (id: PluginId) => PluginDescriptor | undefined
+): PluginCatalogEntry[] {
+  const installedIds = new Set(installed.map(p => p.id));
+  const installedDescriptors = installed
+    .map(p => lookup(p.id))
+    .filter((d): d is PluginDescriptor => d !== undefined);
+
+  return plugins
+    .filter(p => !installedIds.has(p.id))
+    .map(descriptor => ({
+      descriptor,
+      group: `${descriptor.category}${descriptor.tier ? ` · ${descriptor.tier}` : ''}`,
+      disabledReason: getUnavailableReason(descriptor, installedDescriptors),
+    }))
+    .sort((a, b) =>
+      a.descriptor.category.localeCompare(b.descriptor.category) ||
+      TIER_ORDER.indexOf(a.descriptor.tier) - TIER_ORDER.indexOf(b.descriptor.tier) ||
+      a.descriptor.id.localeCompare(b.descriptor.id)
+    );
+}
+
+/**
+ * Runs the interactive picker
+ *
+ * @param catalog - Catalog entries (see buildPluginCatalog)
+ * @returns Selected plugin IDs and their options
+ */
+export async function pickPlugins(catalog: PluginCatalogEntry[]): Promise<PluginSelection> {
+  if (catalog.length === 0) {
+    return { pluginIds: [], options: {} };
+  }
+
+  // Group headings are disabled choices
+  const choices: Array<{ label: string; value: string; default: boolean; disabled?: boolean; description?: string }> = [];
+  let currentGroup: string | undefined;
+  for (const entry of catalog) {
+    if (entry.group !== currentGroup) {
+      currentGroup = entry.group;
+      choices.push({ label: `── ${entry.group} ──`, value: `group:${entry.group}`, default: false, disabled: true });
+    }
+    choices.push({
+      label: formatCatalogLabel(entry),
+      value: entry.descriptor.id,
+      default: false,
+      disabled: entry.disabledReason !== undefined,
+      description: entry.disabledReason ?? entry.descriptor.description,
+    });
+  }
+
+  const selected = await promptMultiSelect('Select plugins to install:', choices);
+  const pluginIds = selected.filter(id => catalog.some(e => e.descriptor.id === id));
+
+  // Single slots are exclusive within the selection too
+  const selectedDescriptors = pluginIds.map(id => catalog.find(e => e.descriptor.id === id)!.descriptor);
+  for (const descriptor of selectedDescriptors) {
+    const reason = getUnavailableReason(descriptor, selectedDescriptors.filter(d => d.id !== descriptor.id));
+    if (reason) {
+      throw new CliError(
+        `Cannot install "${descriptor.id}" together with the other selected plugins: ${reason}`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+  }
+
+  const options: Record<PluginId, Record<string, unknown>> = {};
+  for (const descriptor of selectedDescriptors) {
+    options[descriptor.id] = await promptPluginOptions(descriptor);
+  }
+
+  return { pluginIds, options };
+}
+
+/**
+ * Summarizes the combined plan for a set of plugin installs
+ *
+ * @param plans - Install plans in install order
+ * @returns Lines to print
+ */
+export function formatCombinedPlan(plans: ModulatorPlan[]): string[] {
+  const unique = (items: string[]) => Array.from(new Set(items));
+  const runtime = unique(plans.flatMap(p => p.dependencies.runtime.map(d => `${d.name}@${d.version}`)));
+  const dev = unique(plans.flatMap(p => p.dependencies.dev.map(d => `${d.name}@${d.version}`)));
+  const permissions = unique(plans.flatMap(p => p.permissions.permissionIds));
+  const files = unique(plans.flatMap(p => p.filesToModify));
+  const warnings = plans.flatMap(p => p.conflicts.filter(c => c.severity === 'warning').map(c => c.description));
+
+  const lines = [
+    `Plugins (install order): ${plans.map(p => p.capabilityId).join(' → ')}`,
+    `Dependencies: ${runtime.length} runtime${runtime.length ? ` (${runtime.join(', ')})` : ''}, ${dev.length} dev${dev.length ? ` (${dev.join(', ')})` : ''}`,
+    `Runtime wiring: ${plans.reduce((n, p) => n + p.runtimeWiring.length, 0)} operations`,
+    `Patches: ${plans.reduce((n, p) => n + p.patches.length, 0)} operations`,
+    `Permissions: ${permissions.length > 0 ? permissions.join(', ') : 'none'}`,
+    `Files to modify: ${files.length > 0 ? files.join(', ') : 'none'}`,
+  ];
+  for (const plan of plans) {
+    const options = plan.manifestUpdates.plugins?.[0]?.options || {};
+    if (Object.keys(options).length > 0) {
+      lines.push(`Options for ${plan.capabilityId}: ${JSON.stringify(options)}`);
+    }
+  }
+  lines.push(...warnings.map(w => `Warning: ${w}`));
+  return lines;
+}
+
+/**
+ * Gets why a plugin can't be installed next to the given plugins (slot or explicit conflict)
+ */
+function getUnavailableReason(descriptor: PluginDescriptor, others: PluginDescriptor[]): string | undefined {
+  for (const other of others) {
+    if ((descriptor.conflictsWith || []).includes(other.id) || (other.conflictsWith || []).includes(descriptor.id)) {
+      return `conflicts with "${other.id}"`;
+    }
+    const slot = (descriptor.slots || []).find(s =>
+      s.mode === 'single' && (other.slots || []).some(o => o.slot === s.slot && o.mode === 'single')
+    );
+    if (slot) {
+      return `slot "${slot.slot}" is occupied by "${other.id}"`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Formats a catalog choice: name, ID, tier, permissions it would add
+ */
+function formatCatalogLabel(entry: PluginCatalogEntry): string {
+  const { descriptor } = entry;
+  const permissions = (descriptor.permissions || []).map(p => `${p.permissionId}${p.mandatory ? '' : '?'}`);
+  return [
+    `${descriptor.name} (${descriptor.id})`,
+    permissions.length > 0 ? `permissions: ${permissions.join(', ')}` : undefined,
+    entry.disabledReason ? `unavailable: ${entry.disabledReason}` : undefined,
+  ].filter(Boolean).join(' — ');
+}
+
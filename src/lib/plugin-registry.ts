@@ -3,16 +3,19 @@
  * PURPOSE: Plugin registry system (section 19)
  * OWNERSHIP: CLI
  * 
- * This registry loads and manages plugin descriptors from templates/plugins/
+ * This registry loads and manages plugin descriptors from templates/plugins/ and from
+ * third-party plugin sources declared in the project (.rns/config.json pluginSources).
  * It provides discovery, validation, and query capabilities for the plugin framework.
  */
 
 import { join } from 'path';
 import { readdirSync } from 'fs';
 import { resolveCliRoot } from './pack-locations';
+import { getExternalPluginPacks, loadPluginSources } from './plugin-sources';
 import { pathExists, isDirectory, readJsonFile } from './fs';
 import { CliError, ExitCode } from './errors';
-import type { PluginDescriptor, PluginId, PluginCategory } from './types/plugin';
+import { compareVersions, isValidVersion } from './semver';
+import type { PluginDescriptor, PluginId, PluginCategory, PluginSupport } from './types/plugin';
 import type { RnsTarget, PlatformOS } from './types/common';
 
 /**
@@ -38,14 +41,10 @@ export class PluginRegistry {
     const cliRoot = resolveCliRoot();
     const pluginsDir = join(cliRoot, 'templates', 'plugins');
 
-    // If plugins directory doesn't exist, registry is empty
-    if (!pathExists(pluginsDir) || !isDirectory(pluginsDir)) {
-      this.initialized = true;
-      return;
-    }
-
-    // Scan for plugin directories
-    const entries = readdirSync(pluginsDir, { withFileTypes: true });
+    // If plugins directory doesn't exist, only third-party plugins are available
+    const entries = pathExists(pluginsDir) && isDirectory(pluginsDir)
+      ? readdirSync(pluginsDir, { withFileTypes: true })
+      : [];
 
     for (const entry of entries) {
       if (!entry.isDirectory()) {
@@ -95,6 +94,25 @@ export class PluginRegistry {
       }
     }
 
+    // Third-party plugins: ID comes from pack.json (directory name is free-form)
+    for (const externalPack of getExternalPluginPacks()) {
+      const descriptorPath = join(externalPack.path, PLUGIN_DESCRIPTOR_FILE);
+      if (!pathExists(descriptorPath)) {
+        throw new CliError(
+          `Plugin pack "${externalPack.id}" at ${externalPack.path} is missing ${PLUGIN_DESCRIPTOR_FILE}`,
+          ExitCode.VALIDATION_STATE_FAILURE
+        );
+      }
+      if (this.plugins.has(externalPack.id)) {
+        throw new CliError(
+          `Duplicate plugin ID "${externalPack.id}" found at ${externalPack.path} (already provided by the CLI)`,
+          ExitCode.VALIDATION_STATE_FAILURE
+        );
+      }
+      const descriptor = this.validatePluginDescriptor(readJsonFile(descriptorPath), descriptorPath, externalPack.id);
+      this.plugins.set(descriptor.id, descriptor);
+    }
+
     this.initialized = true;
   }
 
@@ -204,6 +222,17 @@ export class PluginRegistry {
         if (contribution.type && !validTypes.includes(contribution.type)) {
           errors.push(`Plugin "runtimeContributions[${index}].type" must be one of: ${validTypes.join(', ')}`);
         }
+        for (const field of ['mustWrap', 'mustBeInside', 'dependsOn']) {
+          if (contribution[field] !== undefined && !Array.isArray(contribution[field])) {
+            errors.push(`Plugin "runtimeContributions[${index}].${field}" must be an array of capability IDs if present`);
+          }
+        }
+        if (contribution.platforms !== undefined && !Array.isArray(contribution.platforms)) {
+          errors.push(`Plugin "runtimeContributions[${index}].platforms" must be an array if present`);
+        }
+        if (contribution.timeoutMs !== undefined && (typeof contribution.timeoutMs !== 'number' || contribution.timeoutMs <= 0)) {
+          errors.push(`Plugin "runtimeContributions[${index}].timeoutMs" must be a positive number if present`);
+        }
       });
     }
 
@@ -235,6 +264,12 @@ export class PluginRegistry {
         if (perm.mandatory !== undefined && typeof perm.mandatory !== 'boolean') {
           errors.push(`Plugin "permissions[${index}].mandatory" must be a boolean if present`);
         }
+        if (perm.usageDescriptions !== undefined && (
+          typeof perm.usageDescriptions !== 'object' || perm.usageDescriptions === null || Array.isArray(perm.usageDescriptions) ||
+          Object.values(perm.usageDescriptions).some(text => typeof text !== 'string' || text.trim() === '')
+        )) {
+          errors.push(`Plugin "permissions[${index}].usageDescriptions" must map Info.plist keys to non-empty texts if present`);
+        }
       });
     }
 
@@ -339,7 +374,7 @@ export class PluginRegistry {
       
       throw new CliError(
         `Plugin "${pluginId}" not found in registry.${suggestion}\n\n` +
-        `Make sure the plugin exists in templates/plugins/${pluginId}/ with a valid plugin.json descriptor.`,
+        `Make sure the plugin exists in templates/plugins/${pluginId}/ or a plugin source in .rns/config.json, with a valid plugin.json descriptor.`,
         ExitCode.VALIDATION_STATE_FAILURE
       );
     }
@@ -370,6 +405,14 @@ export class PluginRegistry {
     return this.listPlugins().filter(p => p.support.targets.includes(target));
   }
 
+  /**
+   * Lists plugins compatible with a project (target + React Native version)
+   */
+  listPluginsForProject(target: RnsTarget, reactNativeVersion?: string): PluginDescriptor[] {
+    this.ensureInitialized();
+    return this.listPluginsByTarget(target).filter(p => supportsReactNativeVersion(p.support, reactNativeVersion));
+  }
+
   /**
    * Checks if a plugin exists
    */
@@ -399,6 +442,25 @@ export class PluginRegistry {
   }
 }
 
+/**
+ * Checks a plugin's React Native version constraints
+ * 
+ * Unknown or non-semver project versions are treated as supported.
+ */
+export function supportsReactNativeVersion(support: PluginSupport, reactNativeVersion?: string): boolean {
+  if (!reactNativeVersion || !isValidVersion(reactNativeVersion)) {
+    return true;
+  }
+  const { minReactNativeVersion: min, maxReactNativeVersion: max } = support;
+  if (min && isValidVersion(min) && compareVersions(reactNativeVersion, min) < 0) {
+    return false;
+  }
+  if (max && isValidVersion(max) && compareVersions(reactNativeVersion, max) > 0) {
+    return false;
+  }
+  return true;
+}
+
 /**
  * Global plugin registry instance
  */
@@ -416,8 +478,14 @@ export function getPluginRegistry(): PluginRegistry {
 
 /**
  * Initializes the global plugin registry
+ * 
+ * @param projectRoot - Project root; when given, the project's plugin sources (.rns/config.json) are loaded first
  */
-export async function initializePluginRegistry(): Promise<void> {
+export async function initializePluginRegistry(projectRoot?: string): Promise<void> {
+  if (projectRoot && loadPluginSources(projectRoot)) {
+    // Plugin sources changed - rebuild the registry
+    globalRegistry = null;
+  }
   const registry = getPluginRegistry();
   await registry.initialize();
 }
@@ -0,0 +1,118 @@
+/**
+ * FILE: src/lib/plugin-sources.test.ts
+ * PURPOSE: Unit/spec tests for third-party plugin sources (local directories and npm packages)
+ * OWNERSHIP: CLI
+ * 
+ * Tests validate:
+ * - pluginSources in .rns/config.json resolve local directories and installed npm packages
+ * - Loaded plugin packs are visible to resolvePackSourcePath, listPacks and PluginRegistry
+ * - Source records describe where each plugin came from
+ * - Missing or duplicate sources fail with clear errors
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import {
+  discoverExternalPlugins,
+  loadPluginSources,
+  clearPluginSources,
+  getPluginSourceRecord,
+  formatPluginSource,
+} from './plugin-sources';
+import { resolvePackSourcePath } from './pack-locations';
+import { listPacks } from './pack-discovery';
+import { PluginRegistry } from './plugin-registry';
+import { CLI_CONFIG_FILE } from './constants';
+
+describe('plugin-sources', () => {
+  let testProjectRoot: string;
+
+  async function writePluginPack(dir: string, id: string): Promise<void> {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'pack.json'), JSON.stringify({
+      id,
+      type: 'plugin',
+      delivery: 'workspace',
+      supportedTargets: ['expo', 'bare'],
+      supportedLanguages: ['ts'],
+    }));
+    await writeFile(join(dir, 'plugin.json'), JSON.stringify({
+      id,
+      name: `Plugin ${id}`,
+      version: '1.0.0',
+      category: 'analytics',
+      support: { targets: ['expo', 'bare'] },
+    }));
+  }
+
+  async function writeConfig(pluginSources: unknown): Promise<void> {
+    await mkdir(join(testProjectRoot, '.rns'), { recursive: true });
+    await writeFile(join(testProjectRoot, CLI_CONFIG_FILE), JSON.stringify({ pluginSources }));
+  }
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-project-'));
+    // Local directory with several plugin packs
+    await writePluginPack(join(testProjectRoot, 'tools', 'rns-plugins', 'acme-analytics'), 'analytics.acme');
+    // npm package that is itself a plugin pack
+    const packageDir = join(testProjectRoot, 'node_modules', '@acme', 'rns-plugin-tracking');
+    await writePluginPack(packageDir, 'analytics.tracking');
+    await writeFile(join(packageDir, 'package.json'), JSON.stringify({ name: '@acme/rns-plugin-tracking', version: '2.3.0' }));
+  });
+
+  afterEach(async () => {
+    clearPluginSources();
+    try {
+      await rm(testProjectRoot, { recursive: true, force: true });
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should discover plugin packs from local directories and npm packages', async () => {
+    await writeConfig(['./tools/rns-plugins', '@acme/rns-plugin-tracking']);
+
+    const packs = discoverExternalPlugins(testProjectRoot);
+
+    expect(packs.map(p => [p.id, p.source])).toEqual([
+      ['analytics.acme', { type: 'local', path: join('tools', 'rns-plugins') }],
+      ['analytics.tracking', { type: 'npm', package: '@acme/rns-plugin-tracking', packageVersion: '2.3.0' }],
+    ]);
+    expect(formatPluginSource(packs[1].source)).toBe('npm: @acme/rns-plugin-tracking@2.3.0');
+  });
+
+  it('should expose loaded sources to pack resolution, discovery and the plugin registry', async () => {
+    await writeConfig(['./tools/rns-plugins']);
+
+    expect(loadPluginSources(testProjectRoot)).toBe(true);
+    expect(loadPluginSources(testProjectRoot)).toBe(false);
+
+    const packPath = join(testProjectRoot, 'tools', 'rns-plugins', 'acme-analytics');
+    expect(resolvePackSourcePath('plugin', 'analytics.acme')).toBe(packPath);
+    expect(listPacks('plugin').find(p => p.id === 'analytics.acme')?.sourcePath).toBe(packPath);
+    expect(getPluginSourceRecord('analytics.acme').type).toBe('local');
+    expect(getPluginSourceRecord('state.zustand')).toEqual({ type: 'builtin' });
+
+    const registry = new PluginRegistry();
+    await registry.initialize();
+    expect(registry.getPlugin('analytics.acme')?.name).toBe('Plugin analytics.acme');
+    expect(registry.hasPlugin('state.zustand')).toBe(true);
+  });
+
+  it('should fail on missing sources, invalid config and duplicate plugin IDs', async () => {
+    await writeConfig(['./does-not-exist']);
+    expect(() => discoverExternalPlugins(testProjectRoot)).toThrow(/not a directory/);
+
+    await writeConfig(['@acme/not-installed']);
+    expect(() => discoverExternalPlugins(testProjectRoot)).toThrow(/not installed/);
+
+    await writeConfig('./tools/rns-plugins');
+    expect(() => discoverExternalPlugins(testProjectRoot)).toThrow(/must be an array/);
+
+    await writePluginPack(join(testProjectRoot, 'vendor', 'analytics'), 'analytics.acme');
+    await writeConfig(['./tools/rns-plugins', './vendor']);
+    expect(() => discoverExternalPlugins(testProjectRoot)).toThrow(/Duplicate plugin ID "analytics.acme"/);
+  });
+});
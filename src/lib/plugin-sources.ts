@@ -0,0 +1,211 @@
+/**
+ * FILE: src/lib/plugin-sources.ts
+ * PURPOSE: Third-party plugin sources (section 19) - plugin packs from local directories and npm packages
+ * OWNERSHIP: CLI
+ *
+ * Projects declare extra plugin sources in .rns/config.json:
+ *   { "pluginSources": ["./tools/rns-plugins", "@acme/rns-plugins"] }
+ *
+ * - Entries starting with "." or "/" are local directories (relative to project root)
+ * - Anything else is an npm package installed in the project (node_modules)
+ *
+ * A source is either a plugin pack itself (pack.json + plugin.json) or a directory whose
+ * subdirectories are plugin packs. Loaded sources are consulted by PluginRegistry,
+ * listPacks and resolvePackSourcePath in addition to templates/plugins.
+ */
+
+import { join, dirname, isAbsolute, relative, resolve } from 'path';
+import { readdirSync } from 'fs';
+import { CLI_CONFIG_FILE } from './constants';
+import { pathExists, isDirectory, isFile, readJsonFile } from './fs';
+import { hasPackManifest, loadPackManifest } from './pack-manifest';
+import { CliError, ExitCode } from './errors';
+import type { PluginSourceRecord } from './types/manifest';
+
+/**
+ * Project CLI config (.rns/config.json)
+ */
+export interface ProjectCliConfig {
+  /** Extra plugin sources: local directories or npm package names */
+  pluginSources?: string[];
+}
+
+/**
+ * Plugin pack discovered in a third-party source
+ */
+export interface ExternalPluginPack {
+  /** Plugin ID (pack.json id) */
+  id: string;
+  /** Absolute path to the pack directory */
+  path: string;
+  /** Where the pack came from */
+  source: PluginSourceRecord;
+}
+
+/**
+ * Plugin packs from the currently loaded project sources
+ */
+let activePacks: ExternalPluginPack[] = [];
+
+/**
+ * Reads pluginSources from .rns/config.json (empty if the file doesn't exist)
+ */
+export function readPluginSourcesConfig(projectRoot: string): string[] {
+  const configPath = join(projectRoot, CLI_CONFIG_FILE);
+  if (!isFile(configPath)) {
+    return [];
+  }
+
+  const config = readJsonFile<ProjectCliConfig>(configPath);
+  const sources = config.pluginSources ?? [];
+  if (!Array.isArray(sources) || sources.some(s => typeof s !== 'string' || s.trim() === '')) {
+    throw new CliError(
+      `Invalid ${CLI_CONFIG_FILE}: "pluginSources" must be an array of local paths or npm package names`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return sources;
+}
+
+/**
+ * Resolves a plugin source entry to a directory
+ */
+export function resolvePluginSource(
+  projectRoot: string,
+  spec: string
+): { dir: string; source: PluginSourceRecord } {
+  if (spec.startsWith('.') || isAbsolute(spec)) {
+    const dir = resolve(projectRoot, spec);
+    if (!isDirectory(dir)) {
+      throw new CliError(
+        `Plugin source "${spec}" not found: ${dir} is not a directory (${CLI_CONFIG_FILE})`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+    return { dir, source: { type: 'local', path: relative(projectRoot, dir) || '.' } };
+  }
+
+  const packageJsonPath = resolvePackageJson(projectRoot, spec);
+  if (!packageJsonPath) {
+    throw new CliError(
+      `Plugin source "${spec}" not found: npm package is not installed in ${projectRoot} (${CLI_CONFIG_FILE})`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  const { version } = readJsonFile<{ version?: string }>(packageJsonPath);
+  return {
+    dir: dirname(packageJsonPath),
+    source: { type: 'npm', package: spec, packageVersion: version },
+  };
+}
+
+/**
+ * Discovers plugin packs in all sources declared by a project
+ */
+export function discoverExternalPlugins(projectRoot: string): ExternalPluginPack[] {
+  const packs: ExternalPluginPack[] = [];
+
+  for (const spec of readPluginSourcesConfig(projectRoot)) {
+    const { dir, source } = resolvePluginSource(projectRoot, spec);
+    const packDirs = hasPackManifest(dir)
+      ? [dir]
+      : readdirSync(dir, { withFileTypes: true })
+          .filter(entry => entry.isDirectory() && hasPackManifest(join(dir, entry.name)))
+          .map(entry => join(dir, entry.name));
+
+    if (packDirs.length === 0) {
+      throw new CliError(
+        `Plugin source "${spec}" contains no plugin packs (expected pack.json + plugin.json in ${dir} or its subdirectories)`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+
+    for (const packDir of packDirs) {
+      const manifest = loadPackManifest(packDir);
+      if (manifest.type !== 'plugin') {
+        continue;
+      }
+
+      const existing = packs.find(p => p.id === manifest.id);
+      if (existing) {
+        throw new CliError(
+          `Duplicate plugin ID "${manifest.id}" in plugin sources:\n  - ${existing.path}\n  - ${packDir}`,
+          ExitCode.VALIDATION_STATE_FAILURE
+        );
+      }
+      packs.push({ id: manifest.id, path: packDir, source });
+    }
+  }
+
+  return packs;
+}
+
+/**
+ * Loads the project's plugin sources as the active sources
+ *
+ * @returns true if the set of active plugin packs changed
+ */
+export function loadPluginSources(projectRoot: string): boolean {
+  const packs = discoverExternalPlugins(projectRoot);
+  const key = (list: ExternalPluginPack[]) => list.map(p => `${p.id}@${p.path}`).join('|');
+  const changed = key(packs) !== key(activePacks);
+  activePacks = packs;
+  return changed;
+}
+
+/**
+ * Clears the active plugin sources
+ */
+export function clearPluginSources(): void {
+  activePacks = [];
+}
+
+/**
+ * Gets plugin packs from the active sources
+ */
+export function getExternalPluginPacks(): ExternalPluginPack[] {
+  return [...activePacks];
+}
+
+/**
+ * Finds an active third-party plugin pack by ID
+ */
+export function findExternalPluginPack(pluginId: string): ExternalPluginPack | undefined {
+  return activePacks.find(p => p.id === pluginId);
+}
+
+/**
+ * Gets the source record for a plugin (builtin unless it comes from an active source)
+ */
+export function getPluginSourceRecord(pluginId: string): PluginSourceRecord {
+  return findExternalPluginPack(pluginId)?.source ?? { type: 'builtin' };
+}
+
+/**
+ * Formats a plugin source for display
+ */
+export function formatPluginSource(source: PluginSourceRecord | undefined): string {
+  switch (source?.type) {
+    case 'local':
+      return `local: ${source.path}`;
+    case 'npm':
+      return `npm: ${source.package}${source.packageVersion ? `@${source.packageVersion}` : ''}`;
+    default:
+      return 'built-in';
+  }
+}
+
+/**
+ * Finds an npm package's package.json from the project root
+ */
+function resolvePackageJson(projectRoot: string, packageName: string): string | null {
+  const direct = join(projectRoot, 'node_modules', packageName, 'package.json');
+  if (pathExists(direct)) {
+    return direct;
+  }
+  try {
+    return require.resolve(`${packageName}/package.json`, { paths: [projectRoot] });
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * FILE: src/lib/plugin-upgrade.test.ts
+ * PURPOSE: Unit/spec tests for plugin upgrade delta computation and migration selection
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Version comparison and range matching (semver subset)
+ * - Delta between installed descriptor snapshot and current descriptor
+ * - Migrations are selected by the installed version
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compareVersions, satisfiesRange } from './semver';
+import {
+  computeUpgradeDelta,
+  createDescriptorSnapshot,
+  isUpgradeAvailable,
+  selectMigrations,
+} from './plugin-upgrade';
+import type { PluginDescriptor } from './types/plugin';
+import type { InstalledPluginRecord } from './types/manifest';
+import type { RuntimeContribution, RuntimeWiringOp } from './types/runtime';
+
+describe('plugin-upgrade', () => {
+  const oldDescriptor: PluginDescriptor = {
+    id: 'test.plugin',
+    name: 'Test Plugin',
+    version: '1.0.0',
+    category: 'storage',
+    support: { targets: ['expo', 'bare'] },
+    dependencies: {
+      runtime: [
+        { name: 'pkg-a', version: '^1.0.0' },
+        { name: 'pkg-old', version: '^1.0.0' },
+      ],
+    },
+    runtimeContributions: [
+      { type: 'import', imports: [{ symbol: 'Old', source: '@rns/plugin-test' }] } as RuntimeContribution,
+    ],
+    patches: [
+      { type: 'gradle-properties', file: 'android/gradle.properties', capabilityId: 'test.plugin', operationId: 'keep', properties: { a: 'true' } },
+      { type: 'gradle-properties', file: 'android/gradle.properties', capabilityId: 'test.plugin', operationId: 'change', properties: { b: 'true' } },
+      { type: 'gradle-properties', file: 'android/gradle.properties', capabilityId: 'test.plugin', operationId: 'drop', properties: { c: 'true' } },
+    ],
+    permissions: [{ permissionId: 'camera.basic', mandatory: true }],
+  };
+
+  const newDescriptor: PluginDescriptor = {
+    ...oldDescriptor,
+    version: '2.0.0',
+    dependencies: {
+      runtime: [
+        { name: 'pkg-a', version: '^2.0.0' },
+        { name: 'pkg-new', version: '^1.0.0' },
+      ],
+    },
+    runtimeContributions: [
+      { type: 'import', imports: [{ symbol: 'New', source: '@rns/plugin-test' }] } as RuntimeContribution,
+    ],
+    patches: [
+      { type: 'gradle-properties', file: 'android/gradle.properties', capabilityId: 'test.plugin', operationId: 'keep', properties: { a: 'true' } },
+      { type: 'gradle-properties', file: 'android/gradle.properties', capabilityId: 'test.plugin', operationId: 'change', properties: { B: 'true' } },
+      { type: 'gradle-properties', file: 'android/gradle.properties', capabilityId: 'test.plugin', operationId: 'add', properties: { d: 'true' } },
+    ],
+    permissions: [{ permissionId: 'location.fine', mandatory: true }],
+    migrations: [
+      { range: '<2.0.0', description: 'Rename config key' },
+      { range: '>=2.0.0', description: 'Not applicable' },
+    ],
+  };
+
+  const installed: InstalledPluginRecord = {
+    id: 'test.plugin',
+    version: '1.0.0',
+    installedAt: '2026-01-01T00:00:00.000Z',
+    descriptor: createDescriptorSnapshot(oldDescriptor),
+  };
+
+  const buildWiring = (contributions: RuntimeContribution[]): RuntimeWiringOp[] =>
+    contributions.map(contribution => ({
+      contribution,
+      capabilityId: 'test.plugin',
+      markerType: 'imports',
+      file: 'packages/@rns/runtime/index.ts',
+    }));
+
+  describe('semver', () => {
+    it('should compare versions', () => {
+      expect(compareVersions('1.2.3', '1.10.0')).toBeLessThan(0);
+      expect(compareVersions('2.0.0', '2.0.0')).toBe(0);
+      expect(compareVersions('1.0.0-beta', '1.0.0')).toBeLessThan(0);
+    });
+
+    it('should match ranges', () => {
+      expect(satisfiesRange('1.5.0', '>=1.0.0 <2.0.0')).toBe(true);
+      expect(satisfiesRange('2.0.0', '>=1.0.0 <2.0.0')).toBe(false);
+      expect(satisfiesRange('0.9.0', '<0.5.0 || 0.9.0')).toBe(true);
+      expect(satisfiesRange('3.0.0', '*')).toBe(true);
+      expect(() => satisfiesRange('1.0.0', '>=abc')).toThrow();
+    });
+  });
+
+  it('should detect available upgrades', () => {
+    expect(isUpgradeAvailable('1.0.0', '2.0.0')).toBe(true);
+    expect(isUpgradeAvailable('2.0.0', '2.0.0')).toBe(false);
+    expect(isUpgradeAvailable('2.1.0', '2.0.0')).toBe(false);
+  });
+
+  it('should compute delta against the installed descriptor snapshot', () => {
+    const delta = computeUpgradeDelta(installed, newDescriptor, buildWiring);
+
+    expect(delta.fromVersion).toBe('1.0.0');
+    expect(delta.toVersion).toBe('2.0.0');
+    expect(delta.baselineKnown).toBe(true);
+    expect(delta.dependencies.added.map(d => d.name)).toEqual(['pkg-new']);
+    expect(delta.dependencies.removed).toEqual(['pkg-old']);
+    expect(delta.dependencies.changed).toEqual([{ name: 'pkg-a', from: '^1.0.0', to: '^2.0.0' }]);
+    expect(delta.runtimeWiring.added.map(op => op.contribution)).toEqual(newDescriptor.runtimeContributions);
+    expect(delta.runtimeWiring.removed.map(op => op.contribution)).toEqual(oldDescriptor.runtimeContributions);
+    expect(delta.patches.added.map(p => p.operationId)).toEqual(['add']);
+    expect(delta.patches.changed.map(p => p.operationId)).toEqual(['change']);
+    expect(delta.patches.removed.map(p => p.operationId)).toEqual(['drop']);
+    expect(delta.permissions).toEqual({ added: ['location.fine'], removed: ['camera.basic'] });
+    expect(delta.migrations).toEqual([{ range: '<2.0.0', description: 'Rename config key' }]);
+  });
+
+  it('should treat records without a snapshot as an empty baseline', () => {
+    const delta = computeUpgradeDelta({ ...installed, descriptor: undefined }, newDescriptor, buildWiring);
+
+    expect(delta.baselineKnown).toBe(false);
+    expect(delta.dependencies.added).toHaveLength(2);
+    expect(delta.patches.added).toHaveLength(3);
+    expect(delta.runtimeWiring.removed).toHaveLength(0);
+  });
+
+  it('should select migrations by installed version', () => {
+    expect(selectMigrations(newDescriptor, '1.4.0').map(m => m.description)).toEqual(['Rename config key']);
+    expect(selectMigrations(newDescriptor, '2.0.0').map(m => m.description)).toEqual(['Not applicable']);
+    expect(() => selectMigrations({ ...newDescriptor, migrations: [{ range: '>=x' }] }, '1.0.0')).toThrow(/invalid migration range/);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * FILE: src/lib/plugin-upgrade.ts
+ * PURPOSE: Plugin upgrade delta computation (section 15, 20)
+ * OWNERSHIP: CLI
+ *
+ * The manifest stores a descriptor snapshot for each installed plugin. On upgrade, the snapshot
+ * is diffed against the current registry descriptor to produce an UpgradeDelta (deps, wiring,
+ * patches, permissions) and the migration steps to run. Pack file changes are computed by the
+ * modulator scaffold phase (they depend on the resolved pack variant).
+ */
+
+import { compareVersions, isValidVersion, satisfiesRange } from './semver';
+import { CliError, ExitCode } from './errors';
+import type { InstalledPluginRecord } from './types/manifest';
+import type { PluginDescriptor, PluginDescriptorSnapshot, PluginMigration } from './types/plugin';
+import type { RuntimeContribution, RuntimeWiringOp } from './types/runtime';
+import type { DependencySpec } from './types/dependencies';
+import type { UpgradeDelta } from './types/modulator';
+
+/**
+ * Creates the descriptor snapshot stored in the manifest at install/upgrade time
+ */
+export function createDescriptorSnapshot(descriptor: PluginDescriptor): PluginDescriptorSnapshot {
+  return {
+    version: descriptor.version,
+    dependencies: descriptor.dependencies,
+    runtimeContributions: descriptor.runtimeContributions,
+    patches: descriptor.patches,
+    permissions: descriptor.permissions,
+  };
+}
+
+/**
+ * Checks whether the current descriptor is newer than the installed version
+ */
+export function isUpgradeAvailable(installedVersion: string, currentVersion: string): boolean {
+  if (!isValidVersion(installedVersion) || !isValidVersion(currentVersion)) {
+    return installedVersion !== currentVersion;
+  }
+  return compareVersions(currentVersion, installedVersion) > 0;
+}
+
+/**
+ * Selects migration steps for an upgrade from the installed version
+ */
+export function selectMigrations(descriptor: PluginDescriptor, fromVersion: string): PluginMigration[] {
+  return (descriptor.migrations || []).filter(migration => {
+    try {
+      return satisfiesRange(fromVersion, migration.range);
+    } catch (error) {
+      throw new CliError(
+        `Plugin "${descriptor.id}" has an invalid migration range "${migration.range}": ${error instanceof Error ? error.message : String(error)}`,
+        ExitCode.VALIDATION_STATE_FAILURE
+      );
+    }
+  });
+}
+
+/**
+ * Computes the delta between the installed plugin and the current descriptor
+ *
+ * @param installed - Installed plugin record (its descriptor snapshot is the baseline)
+ * @param descriptor - Current registry descriptor
+ * @param buildWiring - Maps runtime contributions to wiring ops (marker type + file)
+ * @returns Upgrade delta (pack files are filled in by the scaffold phase)
+ */
+export function computeUpgradeDelta(
+  installed: InstalledPluginRecord,
+  descriptor: PluginDescriptor,
+  buildWiring: (contributions: RuntimeContribution[]) => RuntimeWiringOp[]
+): UpgradeDelta {
+  const baseline = installed.descriptor;
+
+  // Dependencies (runtime + dev, matched by package name)
+  const oldDeps = collectDependencies(baseline);
+  const newDeps = collectDependencies(descriptor);
+  const dependencies: UpgradeDelta['dependencies'] = { added: [], removed: [], changed: [] };
+  for (const [name, dep] of newDeps) {
+    const old = oldDeps.get(name);
+    if (!old) {
+      dependencies.added.push(dep);
+    } else if (old.version !== dep.version) {
+      dependencies.changed.push({ name, from: old.version, to: dep.version });
+    }
+  }
+  for (const name of oldDeps.keys()) {
+    if (!newDeps.has(name)) {
+      dependencies.removed.push(name);
+    }
+  }
+
+  // Runtime wiring (matched by contribution content)
+  const oldWiring = buildWiring(baseline?.runtimeContributions || []);
+  const newWiring = buildWiring(descriptor.runtimeContributions || []);
+  const oldWiringKeys = new Set(oldWiring.map(op => stableStringify(op.contribution)));
+  const newWiringKeys = new Set(newWiring.map(op => stableStringify(op.contribution)));
+
+  // Patches (matched by operationId)
+  const oldPatches = new Map((baseline?.patches || []).map(p => [p.operationId, p]));
+  const newPatches = descriptor.patches || [];
+  const patches: UpgradeDelta['patches'] = { added: [], removed: [], changed: [] };
+  for (const patch of newPatches) {
+    const old = oldPatches.get(patch.operationId);
+    if (!old) {
+      patches.added.push({ ...patch, capabilityId: descriptor.id });
+    } else if (stableStringify(old) !== stableStringify(patch)) {
+      patches.changed.push({ ...patch, capabilityId: descriptor.id });
+    }
+  }
+  const newPatchIds = new Set(newPatches.map(p => p.operationId));
+  patches.removed = [...oldPatches.values()]
+    .filter(p => !newPatchIds.has(p.operationId))
+    .map(p => ({ ...p, capabilityId: descriptor.id }));
+
+  // Permissions (older records may only have the permissions list)
+  const oldPermissions = new Set(
+    (baseline?.permissions || installed.permissions || []).map(p => p.permissionId)
+  );
+  const newPermissions = new Set((descriptor.permissions || []).map(p => p.permissionId));
+
+  return {
+    fromVersion: installed.version,
+    toVersion: descriptor.version,
+    baselineKnown: !!baseline,
+    dependencies,
+    runtimeWiring: {
+      added: newWiring.filter(op => !oldWiringKeys.has(stableStringify(op.contribution))),
+      removed: oldWiring.filter(op => !newWiringKeys.has(stableStringify(op.contribution))),
+    },
+    patches,
+    permissions: {
+      added: [...newPermissions].filter(id => !oldPermissions.has(id)),
+      removed: [...oldPermissions].filter(id => !newPermissions.has(id)),
+    },
+    packFiles: { added: [], removed: [], updated: [] },
+    migrations: selectMigrations(descriptor, installed.version).map(m => ({
+      range: m.range,
+      description: m.description,
+    })),
+  };
+}
+
+/**
+ * Collects runtime + dev dependencies by package name
+ */
+function collectDependencies(
+  descriptor: Pick<PluginDescriptor, 'dependencies'> | undefined
+): Map<string, DependencySpec> {
+  const deps = new Map<string, DependencySpec>();
+  for (const dep of [...(descriptor?.dependencies?.runtime || []), ...(descriptor?.dependencies?.dev || [])]) {
+    deps.set(dep.name, dep);
+  }
+  return deps;
+}
+
+/**
+ * JSON.stringify with sorted object keys (stable comparison key)
+ */
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) =>
+    val && typeof val === 'object' && !Array.isArray(val)
+      ? Object.fromEntries(Object.entries(val).sort(([a], [b]) => a.localeCompare(b)))
+      : val
+  );
+}
@@ -5,21 +5,30 @@
  * 
  * This module provides the implementation for plugin commands:
  * - list: List available plugins
- * - add: Install plugins
- * - remove: Remove plugins
+ * - add: Install plugins (with their required plugins, in dependency order); interactive catalog without IDs
+ * - remove: Remove plugins (blocked while other plugins require them, unless --cascade)
+ * - upgrade: Upgrade installed plugins to the current descriptor version
+ * - configure: Change an installed plugin's options (re-planned through the modulator)
+ * - replace: Swap a plugin for another one filling the same slot, atomically
  * - status: Show installed vs available
  * - doctor: Plugin-specific validation
  */
 
 import { readManifest, validateProjectInitialized } from './manifest';
 import { getPluginRegistry, initializePluginRegistry } from './plugin-registry';
+import { getPluginSourceRecord } from './plugin-sources';
 import { createModulator } from './modulator';
+import { isUpgradeAvailable } from './plugin-upgrade';
+import { findDependents, resolveInstallOrder, resolveRemovalOrder } from './plugin-graph';
+import { buildPluginCatalog, formatCombinedPlan, pickPlugins } from './plugin-picker';
+import { collectPluginOptionArgs, getMissingRequiredOptions, promptPluginOptions } from './plugin-options';
 import { promptMultiSelect, promptConfirm, setPromptLogger } from './prompts';
 import { CliError, ExitCode } from './errors';
 import type { RuntimeContext } from './runtime';
-import type { ModulatorContext } from './types/modulator';
+import type { ModulatorContext, ModulatorPlan, UpgradeDelta } from './types/modulator';
 import type { PluginDescriptor, PluginId } from './types/plugin';
-import type { InstalledPluginRecord } from './types/manifest';
+import type { InstalledPluginRecord, PluginSourceRecord } from './types/manifest';
+import type { PatchOpResult } from './types/patch-ops';
 
 /**
  * Options for list command
@@ -37,6 +46,14 @@ export interface PluginCommandOptions {
   yes?: boolean;
   dryRun?: boolean;
   verbose?: boolean;
+  /** Remove: also remove installed plugins that require the removed ones */
+  cascade?: boolean;
+  /** Add/configure: --option key=value entries */
+  optionArgs?: string[];
+  /** Add/configure/replace: --options-file path (relative to the project root) */
+  optionsFile?: string;
+  /** Add/configure: options per plugin ID (e.g. from rns.config.json); --option values override them */
+  pluginOptions?: Record<string, Record<string, unknown>>;
 }
 
 /**
@@ -65,6 +82,8 @@ export interface PluginStatus {
     version: string;
     installedAt: string;
     available: boolean;
+    /** Where the plugin came from (builtin, local directory or npm package) */
+    source: PluginSourceRecord;
     descriptor?: PluginDescriptor;
   }>;
   available: Array<{
@@ -74,6 +93,7 @@ export interface PluginStatus {
     description?: string;
     category: string;
     installed: boolean;
+    source: PluginSourceRecord;
   }>;
   orphaned: Array<{
     id: string;
@@ -111,7 +131,7 @@ export async function listPlugins(
   context: RuntimeContext
 ): Promise<void> {
   setPromptLogger(context.logger);
-  await initializePluginRegistry();
+  await initializePluginRegistry(context.resolvedRoot);
   const registry = getPluginRegistry();
   let plugins = registry.listPlugins();
 
@@ -174,47 +194,121 @@ export async function addPlugins(
   setPromptLogger(context.logger);
   validateProjectInitialized(context.resolvedRoot);
   
-  await initializePluginRegistry();
+  await initializePluginRegistry(context.resolvedRoot);
   const registry = getPluginRegistry();
   const modulator = createModulator();
   
   const results: PluginInstallResult[] = [];
 
-  // If no plugin IDs provided, show interactive selection
-  if (pluginIds.length === 0) {
-    let modulatorContext = createModulatorContext(context);
-    const availablePlugins = registry.listPluginsByTarget(modulatorContext.target);
-    
-    if (availablePlugins.length === 0) {
+  // If no plugin IDs provided, show the interactive catalog
+  let pluginOptions: Record<string, Record<string, unknown>> = {};
+  const interactive = pluginIds.length === 0;
+  if (interactive) {
+    const modulatorContext = createModulatorContext(context);
+    const compatiblePlugins = registry.listPluginsForProject(
+      modulatorContext.target,
+      modulatorContext.manifest.reactNativeVersion
+    );
+
+    if (compatiblePlugins.length === 0) {
       throw new CliError(
         `No plugins available for target "${modulatorContext.target}"`,
         ExitCode.VALIDATION_STATE_FAILURE
       );
     }
 
-    const choices = availablePlugins.map(p => ({
-      label: `${p.id} - ${p.name}${p.description ? `: ${p.description}` : ''}`,
-      value: p.id,
-    }));
+    const catalog = buildPluginCatalog(compatiblePlugins, modulatorContext.manifest.plugins, id => registry.getPlugin(id));
+    const selection = await pickPlugins(catalog);
 
-    const selected = await promptMultiSelect(
-      'Select plugins to install:',
-      choices
-    );
-
-    if (selected.length === 0) {
+    if (selection.pluginIds.length === 0) {
       context.logger.info('No plugins selected.');
       return results;
     }
 
-    pluginIds = selected;
+    pluginIds = selection.pluginIds;
+    pluginOptions = selection.options;
+  } else {
+    pluginOptions = collectPluginOptionArgs(pluginIds, options.optionArgs, options.optionsFile, context.resolvedRoot);
+    for (const [pluginId, preset] of Object.entries(options.pluginOptions || {})) {
+      pluginOptions[pluginId] = { ...preset, ...pluginOptions[pluginId] };
+    }
   }
 
-  // Install each plugin
-  for (const pluginId of pluginIds) {
+  // Resolve dependency graph: required plugins first, missing requirements added
+  const installedIds = createModulatorContext(context).manifest.plugins.map(p => p.id);
+  const { order, autoAdded } = resolveInstallOrder(pluginIds, installedIds, id => registry.getPlugin(id));
+  if (autoAdded.length > 0) {
+    context.logger.info(`Required plugins not installed: ${autoAdded.join(', ')}`);
+    if (!options.yes && !options.dryRun) {
+      const confirmed = await promptConfirm(
+        `Also install ${autoAdded.length} required plugin(s)?`,
+        true
+      );
+      if (!confirmed) {
+        context.logger.info('Installation cancelled.');
+        return results;
+      }
+    }
+  }
+
+  // Prompt for required options that weren't provided (validation reports them with --yes)
+  if (!interactive && !options.yes) {
+    for (const pluginId of order) {
+      const descriptor = registry.getPlugin(pluginId);
+      const missing = descriptor ? getMissingRequiredOptions(descriptor, pluginOptions[pluginId]) : [];
+      if (descriptor && missing.length > 0) {
+        pluginOptions[pluginId] = await promptPluginOptions(descriptor, pluginOptions[pluginId], missing);
+      }
+    }
+  }
+
+  // Interactive: show the combined plan for the whole selection before applying
+  if (interactive && !options.dryRun) {
+    const plans: ModulatorPlan[] = [];
+    for (const pluginId of order) {
+      const modulatorContext = createModulatorContext(context);
+      if (modulatorContext.manifest.plugins.some(p => p.id === pluginId)) {
+        continue;
+      }
+      modulatorContext.pendingPlugins = plans.map(p => p.capabilityId);
+      plans.push(await modulator.plan(modulatorContext, pluginId, 'install', pluginOptions[pluginId]));
+    }
+
+    context.logger.info('\nPlan:');
+    formatCombinedPlan(plans).forEach(line => context.logger.info(`  ${line}`));
+    if (!options.yes) {
+      const confirmed = await promptConfirm('Apply this plan?', true);
+      if (!confirmed) {
+        context.logger.info('Installation cancelled.');
+        return results;
+      }
+    }
+  }
+
+  const failed = new Set<string>();
+  const planned: string[] = [];
+
+  // Install each plugin (requirements before dependents)
+  for (const pluginId of order) {
     try {
       // Refresh modulator context to get latest manifest (after previous installations)
       const modulatorContext = createModulatorContext(context);
+      // Dry-run: plugins planned earlier in this run count as installed
+      modulatorContext.pendingPlugins = planned;
+
+      // Skip if a required plugin failed to install
+      const failedRequirement = (registry.getPlugin(pluginId)?.requires || []).find(id => failed.has(id));
+      if (failedRequirement) {
+        failed.add(pluginId);
+        results.push({
+          pluginId,
+          success: false,
+          skipped: true,
+          error: `Required plugin "${failedRequirement}" failed to install`,
+        });
+        context.logger.error(`✗ ${pluginId} skipped: required plugin "${failedRequirement}" failed to install`);
+        continue;
+      }
       
       // Check if already installed
       const installed = modulatorContext.manifest.plugins.find(p => p.id === pluginId);
@@ -229,7 +323,7 @@ export async function addPlugins(
       }
 
       // Plan installation
-      const plan = await modulator.plan(modulatorContext, pluginId, 'install');
+      const plan = await modulator.plan(modulatorContext, pluginId, 'install', pluginOptions[pluginId]);
       
       // Show plan if dry-run
       if (options.dryRun) {
@@ -251,6 +345,7 @@ export async function addPlugins(
             patchesApplied: plan.patches.length,
           },
         });
+        planned.push(pluginId);
         continue;
       }
 
@@ -287,6 +382,7 @@ export async function addPlugins(
           context.logger.info(`  - Patches applied: ${plan.patches.length}`);
         }
       } else {
+        failed.add(pluginId);
         results.push({
           pluginId,
           success: false,
@@ -294,9 +390,13 @@ export async function addPlugins(
           error: result.errors.join('; '),
         });
         context.logger.error(`✗ ${pluginId} installation failed: ${result.errors.join('; ')}`);
+        if (result.rolledBack) {
+          context.logger.info(`  Changes rolled back; project restored to its pre-install state (backup: ${result.backupDir})`);
+        }
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
+      failed.add(pluginId);
       results.push({
         pluginId,
         success: false,
@@ -321,7 +421,7 @@ export async function removePlugins(
   setPromptLogger(context.logger);
   validateProjectInitialized(context.resolvedRoot);
   
-  await initializePluginRegistry();
+  await initializePluginRegistry(context.resolvedRoot);
   const modulator = createModulator();
   
   const results: PluginInstallResult[] = [];
@@ -354,6 +454,14 @@ export async function removePlugins(
     pluginIds = selected;
   }
 
+  // Installed plugins that require the removed ones block removal unless --cascade
+  const installedIds = createModulatorContext(context).manifest.plugins.map(p => p.id);
+  const removal = resolvePluginsToRemove(pluginIds, installedIds, options.cascade === true);
+  if (removal.dependents.length > 0) {
+    context.logger.info(`Dependent plugins will also be removed (--cascade): ${removal.dependents.join(', ')}`);
+  }
+  pluginIds = removal.order;
+
   // Confirm removal unless --yes flag
   if (!options.yes && !options.dryRun) {
     const confirmed = await promptConfirm(
@@ -391,6 +499,8 @@ export async function removePlugins(
       if (options.dryRun) {
         context.logger.info(`\nDry-run plan for removing "${pluginId}":`);
         context.logger.info(`  Files to remove: ${plan.filesToRemove?.length || 0}`);
+        context.logger.info(`  Patches to revert: ${plan.patches.length}`);
+        plan.patches.forEach(patch => context.logger.info(`    - ${patch.operationId} (${patch.file})`));
         results.push({
           pluginId,
           success: true,
@@ -409,6 +519,8 @@ export async function removePlugins(
           skipped: false,
         });
         context.logger.info(`✓ ${pluginId} removed successfully`);
+        logRevertedPatches(result.revertedPatches, context);
+        result.warnings.forEach(w => context.logger.warn(`  ! ${w}`));
         if (options.verbose) {
           // Use resolvePackDestinationPath to get category-based path
           const { resolvePackDestinationPath } = await import('./pack-locations');
@@ -440,6 +552,418 @@ export async function removePlugins(
   return results;
 }
 
+/**
+ * Resolves which plugins a removal affects and in what order
+ * 
+ * @param pluginIds - Plugins requested for removal
+ * @param installedIds - Installed plugin IDs
+ * @param cascade - Also remove installed plugins that require the requested ones
+ * @returns Removal order (dependents first) and the dependents added by cascade
+ * @throws CliError if installed plugins require the requested ones and cascade is off
+ */
+export function resolvePluginsToRemove(
+  pluginIds: string[],
+  installedIds: string[],
+  cascade: boolean
+): { order: string[]; dependents: string[] } {
+  const registry = getPluginRegistry();
+  const lookup = (id: string) => registry.getPlugin(id);
+  const dependents = Array.from(new Set(
+    pluginIds.flatMap(id => findDependents(id, installedIds, lookup))
+  )).filter(id => !pluginIds.includes(id));
+
+  if (dependents.length > 0 && !cascade) {
+    const lines = pluginIds
+      .map(id => ({ id, by: findDependents(id, installedIds, lookup).filter(d => !pluginIds.includes(d)) }))
+      .filter(entry => entry.by.length > 0)
+      .map(entry => `  - "${entry.id}" is required by: ${entry.by.join(', ')}`);
+    throw new CliError(
+      `Cannot remove plugin(s) required by other installed plugins:\n${lines.join('\n')}\n\n` +
+        `Remove the dependents first, or pass --cascade to remove them too.`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  // Dependents are removed before the plugins they require
+  return { order: resolveRemovalOrder([...pluginIds, ...dependents], lookup), dependents };
+}
+
+/**
+ * Upgrades installed plugins to the versions in the registry
+ * 
+ * With no IDs, every installed plugin with a newer registry version is upgraded.
+ * Each upgrade applies only the delta between the installed descriptor snapshot and the
+ * current descriptor (plus matching migrations) through the modulator, with backups/rollback.
+ */
+export async function upgradePlugins(
+  pluginIds: string[],
+  options: PluginCommandOptions,
+  context: RuntimeContext
+): Promise<PluginInstallResult[]> {
+  setPromptLogger(context.logger);
+  validateProjectInitialized(context.resolvedRoot);
+
+  await initializePluginRegistry(context.resolvedRoot);
+  const registry = getPluginRegistry();
+  const modulator = createModulator();
+
+  const results: PluginInstallResult[] = [];
+  const installedPlugins = createModulatorContext(context).manifest.plugins;
+
+  if (pluginIds.length === 0) {
+    pluginIds = installedPlugins
+      .filter(p => {
+        const descriptor = registry.getPlugin(p.id);
+        return descriptor && isUpgradeAvailable(p.version, descriptor.version);
+      })
+      .map(p => p.id);
+
+    if (pluginIds.length === 0) {
+      context.logger.info('All installed plugins are up to date.');
+      return results;
+    }
+  }
+
+  // Filter out plugins that cannot be upgraded
+  const toUpgrade: string[] = [];
+  for (const pluginId of pluginIds) {
+    const installed = installedPlugins.find(p => p.id === pluginId);
+    const descriptor = registry.getPlugin(pluginId);
+    let reason: string | undefined;
+    if (!installed) {
+      reason = `Plugin "${pluginId}" is not installed`;
+    } else if (!descriptor) {
+      reason = `Plugin "${pluginId}" is no longer available in the registry`;
+    } else if (!isUpgradeAvailable(installed.version, descriptor.version)) {
+      reason = `Plugin "${pluginId}" is up to date (v${installed.version})`;
+    }
+
+    if (reason) {
+      results.push({ pluginId, success: false, skipped: true, error: reason });
+      context.logger.info(`- ${reason}`);
+    } else {
+      toUpgrade.push(pluginId);
+      context.logger.info(`  ${pluginId}: v${installed!.version} → v${descriptor!.version}`);
+    }
+  }
+
+  if (toUpgrade.length === 0) {
+    return results;
+  }
+
+  // Confirm upgrade unless --yes flag
+  if (!options.yes && !options.dryRun) {
+    const confirmed = await promptConfirm(`Upgrade ${toUpgrade.length} plugin(s)?`, true);
+    if (!confirmed) {
+      context.logger.info('Upgrade cancelled.');
+      return results;
+    }
+  }
+
+  for (const pluginId of toUpgrade) {
+    try {
+      // Refresh modulator context to get latest manifest (after previous upgrades)
+      const modulatorContext = createModulatorContext(context);
+
+      // New required options introduced by this version
+      const descriptor = registry.getPluginOrThrow(pluginId);
+      const installedOptions = modulatorContext.manifest.plugins.find(p => p.id === pluginId)?.options || {};
+      const missing = getMissingRequiredOptions(descriptor, installedOptions);
+      const newOptions = missing.length > 0 && !options.yes
+        ? await promptPluginOptions(descriptor, installedOptions, missing)
+        : undefined;
+
+      const plan = await modulator.plan(modulatorContext, pluginId, 'upgrade', newOptions);
+
+      // Dry-run still runs the pipeline (without writes) so pack file changes are resolved
+      const result = await modulator.apply(modulatorContext, plan, options.dryRun === true);
+
+      if (options.dryRun) {
+        context.logger.info(`\nDry-run plan for upgrading "${pluginId}":`);
+        logUpgradeDelta(plan.upgrade!, context);
+        result.warnings.forEach(w => context.logger.warn(`  ! ${w}`));
+        results.push({ pluginId, success: result.success, skipped: false, error: result.errors.join('; ') || undefined });
+        continue;
+      }
+
+      if (result.success) {
+        results.push({
+          pluginId,
+          success: true,
+          skipped: false,
+          summary: {
+            dependenciesInstalled: {
+              runtime: plan.dependencies.runtime.length,
+              dev: plan.dependencies.dev.length,
+            },
+            runtimeWiring: plan.runtimeWiring.length,
+            patchesApplied: plan.patches.length,
+          },
+        });
+        context.logger.info(`✓ ${pluginId} upgraded to v${plan.upgrade!.toVersion}`);
+        if (options.verbose) {
+          logUpgradeDelta(plan.upgrade!, context);
+        }
+        result.warnings.forEach(w => context.logger.warn(`  ! ${w}`));
+      } else {
+        results.push({
+          pluginId,
+          success: false,
+          skipped: false,
+          error: result.errors.join('; '),
+        });
+        context.logger.error(`✗ ${pluginId} upgrade failed: ${result.errors.join('; ')}`);
+        if (result.rolledBack) {
+          context.logger.info(`  Changes rolled back; project restored to its pre-upgrade state (backup: ${result.backupDir})`);
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      results.push({
+        pluginId,
+        success: false,
+        skipped: false,
+        error: errorMessage,
+      });
+      context.logger.error(`✗ ${pluginId} upgrade failed: ${errorMessage}`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Changes an installed plugin's options
+ * 
+ * Options come from --option/--options-file (merged over the installed options) or, without
+ * them, from prompts pre-filled with the installed values. The plugin is re-planned at its
+ * installed version: the pack is re-attached with the new options and the manifest updated.
+ */
+export async function configurePlugin(
+  pluginId: string,
+  options: PluginCommandOptions,
+  context: RuntimeContext
+): Promise<PluginInstallResult> {
+  setPromptLogger(context.logger);
+  validateProjectInitialized(context.resolvedRoot);
+
+  await initializePluginRegistry(context.resolvedRoot);
+  const modulatorContext = createModulatorContext(context);
+  const installed = modulatorContext.manifest.plugins.find(p => p.id === pluginId);
+  if (!installed) {
+    throw new CliError(
+      `Plugin "${pluginId}" is not installed. Install it first: rns plugin add ${pluginId}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  const descriptor = getPluginRegistry().getPluginOrThrow(pluginId);
+  if (Object.keys(descriptor.optionsSchema || {}).length === 0) {
+    throw new CliError(`Plugin "${pluginId}" has no configurable options`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const provided = {
+    ...options.pluginOptions?.[pluginId],
+    ...collectPluginOptionArgs([pluginId], options.optionArgs, options.optionsFile, context.resolvedRoot)[pluginId],
+  };
+  const currentOptions = installed.options || {};
+  const newOptions = Object.keys(provided).length > 0 || options.yes
+    ? { ...currentOptions, ...provided }
+    : await promptPluginOptions(descriptor, currentOptions);
+
+  const modulator = createModulator();
+  const plan = await modulator.plan(modulatorContext, pluginId, 'configure', newOptions);
+  const resolvedOptions = plan.manifestUpdates.plugins?.[0]?.options || {};
+
+  // Show option changes
+  const keys = Array.from(new Set([...Object.keys(currentOptions), ...Object.keys(resolvedOptions)]));
+  const changed = keys.filter(key => JSON.stringify(currentOptions[key]) !== JSON.stringify(resolvedOptions[key]));
+  if (changed.length === 0) {
+    context.logger.info(`No option changes for "${pluginId}".`);
+    return { pluginId, success: true, skipped: true };
+  }
+  context.logger.info(`Option changes for "${pluginId}":`);
+  for (const key of changed) {
+    context.logger.info(`  ${key}: ${JSON.stringify(currentOptions[key]) ?? '(unset)'} → ${JSON.stringify(resolvedOptions[key]) ?? '(unset)'}`);
+  }
+
+  if (!options.yes && !options.dryRun) {
+    const confirmed = await promptConfirm(`Apply new options to ${pluginId}?`, true);
+    if (!confirmed) {
+      context.logger.info('Configuration cancelled.');
+      return { pluginId, success: true, skipped: true };
+    }
+  }
+
+  // Dry-run still runs the pipeline (without writes) so pack file changes are resolved
+  const result = await modulator.apply(modulatorContext, plan, options.dryRun === true);
+  const packFiles = plan.upgrade!.packFiles;
+  if (options.dryRun) {
+    context.logger.info(`\nDry-run plan for configuring "${pluginId}":`);
+    context.logger.info(`  Pack files: +${packFiles.added.length} / -${packFiles.removed.length} / ~${packFiles.updated.length}`);
+  } else if (result.success) {
+    context.logger.info(`✓ ${pluginId} reconfigured`);
+    if (options.verbose) {
+      context.logger.info(`  - Pack files: +${packFiles.added.length} / -${packFiles.removed.length} / ~${packFiles.updated.length}`);
+    }
+  } else {
+    context.logger.error(`✗ ${pluginId} configuration failed: ${result.errors.join('; ')}`);
+    if (result.rolledBack) {
+      context.logger.info(`  Changes rolled back; project restored to its previous state (backup: ${result.backupDir})`);
+    }
+  }
+  result.warnings.forEach(w => context.logger.warn(`  ! ${w}`));
+
+  return {
+    pluginId,
+    success: result.success,
+    skipped: false,
+    error: result.errors.join('; ') || undefined,
+  };
+}
+
+/**
+ * Replaces an installed plugin with another plugin that fills the same slot
+ * 
+ * Removal and install are planned together and applied as one transaction with a single
+ * backup, so the slot is never empty or double-occupied. Installed options are carried over
+ * where the new plugin's optionsSchema has the same keys; --option/--options-file override them.
+ */
+export async function replacePlugin(
+  fromId: string,
+  toId: string,
+  options: PluginCommandOptions,
+  context: RuntimeContext
+): Promise<PluginInstallResult> {
+  setPromptLogger(context.logger);
+  validateProjectInitialized(context.resolvedRoot);
+
+  await initializePluginRegistry(context.resolvedRoot);
+  const registry = getPluginRegistry();
+  const modulatorContext = createModulatorContext(context);
+  const installed = modulatorContext.manifest.plugins.find(p => p.id === fromId);
+  if (!installed) {
+    throw new CliError(`Plugin "${fromId}" is not installed`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  // Plugins requiring the old plugin by ID would be left without it
+  const dependents = findDependents(fromId, modulatorContext.manifest.plugins.map(p => p.id), id => registry.getPlugin(id));
+  if (dependents.length > 0) {
+    throw new CliError(
+      `Cannot replace "${fromId}": it is required by ${dependents.join(', ')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  // Carry over options whose keys exist in the new plugin's schema
+  const toDescriptor = registry.getPluginOrThrow(toId);
+  const schemaKeys = Object.keys(toDescriptor.optionsSchema || {});
+  const installedOptions = installed.options || {};
+  const preserved = Object.fromEntries(Object.entries(installedOptions).filter(([key]) => schemaKeys.includes(key)));
+  const dropped = Object.keys(installedOptions).filter(key => !schemaKeys.includes(key));
+  let newOptions = {
+    ...preserved,
+    ...collectPluginOptionArgs([toId], options.optionArgs, options.optionsFile, context.resolvedRoot)[toId],
+  };
+  const missing = getMissingRequiredOptions(toDescriptor, newOptions);
+  if (missing.length > 0 && !options.yes) {
+    newOptions = await promptPluginOptions(toDescriptor, newOptions, missing);
+  }
+
+  const modulator = createModulator();
+  const plan = await modulator.planReplace(modulatorContext, fromId, toId, newOptions);
+
+  context.logger.info(`Replacing ${fromId} v${installed.version} → ${toId} v${toDescriptor.version} (slot: ${plan.replace!.slots.join(', ')})`);
+  if (Object.keys(preserved).length > 0) {
+    context.logger.info(`  Options carried over: ${Object.keys(preserved).join(', ')}`);
+  }
+  if (dropped.length > 0) {
+    context.logger.info(`  Options not supported by ${toId} (dropped): ${dropped.join(', ')}`);
+  }
+  formatCombinedPlan([plan]).forEach(line => context.logger.info(`  ${line}`));
+  const removal = plan.replace!.plans[0];
+  if (removal.patches.length > 0) {
+    context.logger.info(`  Patches of ${fromId} to revert: ${removal.patches.map(p => p.operationId).join(', ')}`);
+  }
+  if ((removal.filesToRemove || []).length > 0) {
+    context.logger.info(`  Files of ${fromId} to remove: ${removal.filesToRemove!.join(', ')}`);
+  }
+  if ((removal.dependencies.remove || []).length > 0) {
+    context.logger.info(`  Dependencies of ${fromId} to uninstall: ${removal.dependencies.remove!.join(', ')}`);
+  }
+
+  if (options.dryRun) {
+    return { pluginId: toId, success: true, skipped: false };
+  }
+
+  if (!options.yes) {
+    const confirmed = await promptConfirm(`Replace ${fromId} with ${toId}?`, true);
+    if (!confirmed) {
+      context.logger.info('Replace cancelled.');
+      return { pluginId: toId, success: true, skipped: true };
+    }
+  }
+
+  const result = await modulator.apply(modulatorContext, plan, false);
+  if (result.success) {
+    context.logger.info(`✓ ${fromId} replaced by ${toId} v${toDescriptor.version} (backup: ${result.backupDir})`);
+    logRevertedPatches(result.revertedPatches, context);
+  } else {
+    context.logger.error(`✗ Replace failed: ${result.errors.join('; ')}`);
+    if (result.rolledBack) {
+      context.logger.info(`  Changes rolled back; ${fromId} is still installed (backup: ${result.backupDir})`);
+    }
+  }
+  result.warnings.forEach(w => context.logger.warn(`  ! ${w}`));
+
+  return {
+    pluginId: toId,
+    success: result.success,
+    skipped: false,
+    error: result.errors.join('; ') || undefined,
+    summary: {
+      dependenciesInstalled: {
+        runtime: plan.dependencies.runtime.length,
+        dev: plan.dependencies.dev.length,
+      },
+      runtimeWiring: plan.runtimeWiring.length,
+      patchesApplied: plan.patches.length,
+    },
+  };
+}
+
+/**
+ * Logs what a removal did with the plugin's patches
+ */
+function logRevertedPatches(results: PatchOpResult[] | undefined, context: RuntimeContext): void {
+  for (const result of results || []) {
+    if (result.action === 'reverted') {
+      context.logger.info(`  - Patch reverted: ${result.operationId} (${result.file})`);
+    } else if (result.action === 'retained') {
+      context.logger.info(`  - Patch kept (still needed by ${result.retainedBy}): ${result.operationId} (${result.file})`);
+    }
+  }
+}
+
+/**
+ * Logs an upgrade delta
+ */
+function logUpgradeDelta(delta: UpgradeDelta, context: RuntimeContext): void {
+  const list = (items: string[]) => (items.length > 0 ? items.join(', ') : '-');
+  context.logger.info(`  Version: ${delta.fromVersion} → ${delta.toVersion}`);
+  context.logger.info(`  Dependencies added: ${list(delta.dependencies.added.map(d => `${d.name}@${d.version}`))}`);
+  context.logger.info(`  Dependencies changed: ${list(delta.dependencies.changed.map(d => `${d.name} ${d.from} → ${d.to}`))}`);
+  context.logger.info(`  Dependencies removed: ${list(delta.dependencies.removed)}`);
+  context.logger.info(`  Runtime wiring: +${delta.runtimeWiring.added.length} / -${delta.runtimeWiring.removed.length}`);
+  context.logger.info(`  Patches: +${delta.patches.added.length} / -${delta.patches.removed.length} / ~${delta.patches.changed.length}`);
+  context.logger.info(`  Permissions added: ${list(delta.permissions.added)}`);
+  context.logger.info(`  Permissions removed: ${list(delta.permissions.removed)}`);
+  context.logger.info(`  Pack files: +${delta.packFiles.added.length} / -${delta.packFiles.removed.length} / ~${delta.packFiles.updated.length}`);
+  for (const migration of delta.migrations) {
+    context.logger.info(`  Migration (${migration.range}): ${migration.description || 'no description'}`);
+  }
+}
+
 /**
  * Gets plugin status (installed vs available)
  */
@@ -449,7 +973,7 @@ export async function getPluginStatus(
   setPromptLogger(context.logger);
   validateProjectInitialized(context.resolvedRoot);
   
-  await initializePluginRegistry();
+  await initializePluginRegistry(context.resolvedRoot);
   const registry = getPluginRegistry();
   const manifest = readManifest(context.resolvedRoot);
   
@@ -473,6 +997,7 @@ export async function getPluginStatus(
         version: p.version,
         installedAt: p.installedAt,
         available: availableIds.has(p.id),
+        source: p.source ?? { type: 'builtin' },
         descriptor,
       };
     }),
@@ -485,6 +1010,7 @@ export async function getPluginStatus(
         description: p.description,
         category: p.category,
         installed: !!installedPlugin,
+        source: getPluginSourceRecord(p.id),
       };
     }),
     orphaned: installed
@@ -509,7 +1035,7 @@ export async function runPluginDoctor(
   setPromptLogger(context.logger);
   validateProjectInitialized(context.resolvedRoot);
   
-  await initializePluginRegistry();
+  await initializePluginRegistry(context.resolvedRoot);
   const registry = getPluginRegistry();
   const manifest = readManifest(context.resolvedRoot);
   
@@ -0,0 +1,207 @@
+/**
+ * FILE: src/lib/project-config.test.ts
+ * PURPOSE: Unit/spec tests for the declarative project config (rns.config.json / .ts) and rns apply
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - JSON and statically-read TS configs normalize to { id, options } entries; invalid configs fail clearly
+ * - Diff against the manifest: installs (with required plugins), removals, option changes, modules
+ * - rns apply converges the project through the plugin commands (dry-run leaves it untouched)
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { applyProjectConfig, diffProjectConfig, formatProjectConfigDiff, loadProjectConfig } from './project-config';
+import { initializePluginRegistry } from './plugin-registry';
+import { initializeModuleRegistry } from './module-registry';
+import { clearPluginSources } from './plugin-sources';
+import { createManifest, readManifest, writeManifest } from './manifest';
+import { CLI_CONFIG_FILE } from './constants';
+import type { RuntimeContext } from './runtime';
+import type { InitInputs } from './init';
+import type { InstalledPluginRecord } from './types/manifest';
+
+describe('project-config', () => {
+  let testProjectRoot: string;
+
+  const record = (id: string, options?: Record<string, unknown>): InstalledPluginRecord => ({
+    id,
+    version: '1.0.0',
+    installedAt: '2024-01-01T00:00:00.000Z',
+    ...(options ? { options } : {}),
+  });
+
+  async function writePluginPack(id: string, requires?: string[]): Promise<void> {
+    const dir = join(testProjectRoot, 'tools', 'rns-plugins', id);
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, 'pack.json'), JSON.stringify({
+      id,
+      type: 'plugin',
+      delivery: 'workspace',
+      supportedTargets: ['expo', 'bare'],
+      supportedLanguages: ['ts'],
+    }));
+    await writeFile(join(dir, 'plugin.json'), JSON.stringify({
+      id,
+      name: `Plugin ${id}`,
+      version: '1.0.0',
+      category: 'analytics',
+      support: { targets: ['expo', 'bare'] },
+      requires,
+    }));
+  }
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-project-config-'));
+  });
+
+  afterEach(async () => {
+    clearPluginSources();
+    await rm(testProjectRoot, { recursive: true, force: true });
+  });
+
+  describe('loadProjectConfig', () => {
+    it('should normalize rns.config.json entries', async () => {
+      await writeFile(join(testProjectRoot, 'rns.config.json'), JSON.stringify({
+        plugins: ['state.zustand', { id: 'example', options: { level: 'debug' } }],
+        modules: ['auth'],
+      }));
+
+      expect(loadProjectConfig(testProjectRoot)).toEqual({
+        file: 'rns.config.json',
+        plugins: [{ id: 'state.zustand' }, { id: 'example', options: { level: 'debug' } }],
+        modules: [{ id: 'auth' }],
+      });
+    });
+
+    it('should read rns.config.ts statically', async () => {
+      await writeFile(join(testProjectRoot, 'rns.config.ts'), `import { defineConfig } from '@rns/cli';
+
+export default defineConfig({
+  plugins: ['state.zustand', { id: 'example', options: { retries: 3 } }],
+});
+`);
+
+      const config = loadProjectConfig(testProjectRoot);
+      expect(config.file).toBe('rns.config.ts');
+      expect(config.plugins).toEqual([{ id: 'state.zustand' }, { id: 'example', options: { retries: 3 } }]);
+      expect(config.modules).toEqual([]);
+    });
+
+    it('should reject missing, non-literal and invalid configs', async () => {
+      expect(() => loadProjectConfig(testProjectRoot)).toThrow(/Project config not found/);
+
+      await writeFile(join(testProjectRoot, 'rns.config.ts'), `const id = 'example';\nexport default { plugins: [id] };\n`);
+      expect(() => loadProjectConfig(testProjectRoot)).toThrow(/literal values/);
+
+      await writeFile(join(testProjectRoot, 'rns.config.json'), JSON.stringify({ plugins: ['example', 'example'] }));
+      expect(() => loadProjectConfig(testProjectRoot)).toThrow(/"example" is listed more than once/);
+
+      await writeFile(join(testProjectRoot, 'rns.config.json'), JSON.stringify({ plugins: [{ options: {} }] }));
+      expect(() => loadProjectConfig(testProjectRoot)).toThrow(/"plugins" must be an array/);
+    });
+  });
+
+  describe('diffProjectConfig', () => {
+    beforeEach(async () => {
+      await writePluginPack('analytics.core');
+      await writePluginPack('analytics.acme', ['analytics.core']);
+      await mkdir(join(testProjectRoot, '.rns'), { recursive: true });
+      await writeFile(join(testProjectRoot, CLI_CONFIG_FILE), JSON.stringify({ pluginSources: ['./tools/rns-plugins'] }));
+      await initializePluginRegistry(testProjectRoot);
+      await initializeModuleRegistry();
+    });
+
+    it('should plan installs, removals and option changes', () => {
+      const config = {
+        file: 'rns.config.json',
+        plugins: [{ id: 'analytics.acme' }, { id: 'example', options: { level: 'debug', retries: 3 } }],
+        modules: [],
+      };
+
+      const diff = diffProjectConfig(
+        config,
+        [record('example', { level: 'info', retries: 3 }), record('state.zustand')],
+        [record('auth')]
+      );
+
+      expect(diff).toEqual({
+        install: ['analytics.core', 'analytics.acme'],
+        required: ['analytics.core'],
+        remove: ['state.zustand'],
+        configure: [{ id: 'example', changes: [{ key: 'level', from: 'info', to: 'debug' }] }],
+        addModules: [],
+        removeModules: ['auth'],
+        warnings: [],
+      });
+      expect(formatProjectConfigDiff(diff)).toEqual([
+        '+ plugin analytics.core (required)',
+        '+ plugin analytics.acme',
+        '- plugin state.zustand',
+        '~ plugin example',
+        '    level: "info" → "debug"',
+        '- module auth',
+      ]);
+    });
+
+    it('should keep installed requirements of desired plugins and reject unknown IDs', () => {
+      const diff = diffProjectConfig(
+        { file: 'rns.config.json', plugins: [{ id: 'analytics.acme' }], modules: [] },
+        [record('analytics.core'), record('analytics.acme')],
+        []
+      );
+      expect(diff.install).toEqual([]);
+      expect(diff.remove).toEqual([]);
+
+      expect(() => diffProjectConfig({ file: 'rns.config.json', plugins: [{ id: 'ghost' }], modules: [] }, [], []))
+        .toThrow(/rns.config.json references unknown plugin "ghost"/);
+    });
+  });
+
+  describe('applyProjectConfig', () => {
+    let context: RuntimeContext;
+
+    beforeEach(async () => {
+      await mkdir(join(testProjectRoot, 'packages', '@rns', 'runtime'), { recursive: true });
+      const inputs = {
+        projectName: 'TestApp',
+        destination: testProjectRoot,
+        target: 'expo',
+        language: 'ts',
+        packageManager: 'npm',
+        locales: ['en'],
+        selectedOptions: { i18n: false, theming: false, reactNavigation: false, expoRouter: false, authentication: null, styling: 'stylesheet' },
+        coreToggles: { alias: true, svg: true, fonts: true, env: true },
+        plugins: [],
+        installCoreDependencies: false,
+      } as InitInputs;
+      writeManifest(testProjectRoot, createManifest(testProjectRoot, inputs));
+      await writeFile(join(testProjectRoot, 'rns.config.json'), JSON.stringify({ plugins: ['example'] }));
+
+      context = {
+        resolvedRoot: testProjectRoot,
+        flags: { yes: true, verbose: false, dryRun: false },
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+        runId: 'test-run-id',
+      } as RuntimeContext;
+    });
+
+    it('should converge on the config and be a no-op afterwards', async () => {
+      const dryRun = await applyProjectConfig({ dryRun: true }, context);
+      expect(dryRun.applied).toBe(false);
+      expect(dryRun.diff.install).toEqual(['example']);
+      expect(readManifest(testProjectRoot)?.plugins).toEqual([]);
+
+      const result = await applyProjectConfig({ yes: true }, context);
+      expect(result.applied).toBe(true);
+      expect(result.plugins).toEqual([expect.objectContaining({ pluginId: 'example', success: true })]);
+      expect(readManifest(testProjectRoot)?.plugins.map(p => p.id)).toEqual(['example']);
+
+      const again = await applyProjectConfig({ yes: true }, context);
+      expect(again.applied).toBe(false);
+      expect(context.logger.info).toHaveBeenCalledWith('Project matches rns.config.json; nothing to apply.');
+    });
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * FILE: src/lib/project-config.ts
+ * PURPOSE: Declarative project config (rns.config.json / .ts) and `rns apply` convergence
+ * OWNERSHIP: CLI
+ *
+ * rns.config.json lists the desired plugins and modules, checked in with the app:
+ *   {
+ *     "plugins": ["state.zustand", { "id": "auth.firebase", "options": { "providers": ["google"] } }],
+ *     "modules": ["auth"]
+ *   }
+ * rns.config.ts / .js export the same object (export default { ... }, defineConfig({ ... })); it is
+ * read statically, never executed, so values must be literals.
+ *
+ * `rns apply` diffs the config against the manifest and converges through the regular commands
+ * (and so the modulator, with backups/rollback): module removals, plugin removals, plugin installs,
+ * option changes, module additions. Plugins required by desired plugins are kept even when not
+ * listed. Options listed in the config are enforced; unlisted options keep their installed values.
+ */
+
+import { join } from 'path';
+import { PROJECT_CONFIG_FILES } from './constants';
+import { isFile, readJsonFile, readTextFile } from './fs';
+import { readManifest, validateProjectInitialized } from './manifest';
+import { readDynamicConfigObject } from './expo-config';
+import { getPluginRegistry, initializePluginRegistry } from './plugin-registry';
+import { getModuleRegistry, initializeModuleRegistry } from './module-registry';
+import { resolveInstallOrder } from './plugin-graph';
+import { addPlugins, configurePlugin, removePlugins, resolvePluginsToRemove, type PluginInstallResult } from './plugin';
+import { addModules, removeModules, type ModuleCommandResult } from './module';
+import { promptConfirm, setPromptLogger } from './prompts';
+import { CliError, ExitCode } from './errors';
+import type { RuntimeContext } from './runtime';
+import type { InstalledPluginRecord } from './types/manifest';
+
+/**
+ * Desired plugin or module (config entries are normalized to this shape)
+ */
+export interface DesiredEntry {
+  id: string;
+  options?: Record<string, unknown>;
+}
+
+/**
+ * Normalized project config
+ */
+export interface RnsProjectConfig {
+  /** Config file the entries were read from (relative to project root) */
+  file: string;
+  plugins: DesiredEntry[];
+  modules: DesiredEntry[];
+}
+
+/**
+ * Option change of an installed plugin
+ */
+export interface OptionChange {
+  key: string;
+  from: unknown;
+  to: unknown;
+}
+
+/**
+ * Difference between the config and the installed state
+ */
+export interface ProjectConfigDiff {
+  /** Plugins to install, requirements first */
+  install: string[];
+  /** Installs added because desired plugins require them */
+  required: string[];
+  /** Plugins to remove, dependents first */
+  remove: string[];
+  /** Installed plugins whose listed options differ */
+  configure: Array<{ id: string; changes: OptionChange[] }>;
+  addModules: string[];
+  removeModules: string[];
+  warnings: string[];
+}
+
+/**
+ * Options for rns apply
+ */
+export interface ApplyOptions {
+  yes?: boolean;
+  dryRun?: boolean;
+  verbose?: boolean;
+  /** Config file (default: first of PROJECT_CONFIG_FILES in the project root) */
+  configFile?: string;
+}
+
+/**
+ * rns apply result
+ */
+export interface ApplyResult {
+  config: RnsProjectConfig;
+  diff: ProjectConfigDiff;
+  /** False when the user declined the plan */
+  applied: boolean;
+  plugins: PluginInstallResult[];
+  modules: ModuleCommandResult[];
+}
+
+/**
+ * Reads and normalizes the project config
+ *
+ * @param projectRoot - Project root directory
+ * @param configFile - Explicit config file (relative to project root)
+ * @throws CliError if no config file exists or it is invalid
+ */
+export function loadProjectConfig(projectRoot: string, configFile?: string): RnsProjectConfig {
+  const file = configFile ?? PROJECT_CONFIG_FILES.find(name => isFile(join(projectRoot, name)));
+  if (!file || !isFile(join(projectRoot, file))) {
+    throw new CliError(
+      `Project config not found: ${file ?? PROJECT_CONFIG_FILES.join(', ')}. ` +
+        `Create rns.config.json with { "plugins": [...], "modules": [...] }`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  let raw: unknown;
+  try {
+    raw = file.endsWith('.json')
+      ? readJsonFile<unknown>(join(projectRoot, file))
+      : readDynamicConfigObject(readTextFile(join(projectRoot, file)), file);
+  } catch (error) {
+    throw new CliError(
+      `Invalid ${file}: ${error instanceof Error ? error.message : String(error)}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+
+  if (!isPlainObject(raw)) {
+    throw new CliError(`Invalid ${file}: expected an object with "plugins" and "modules"`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+  return {
+    file,
+    plugins: normalizeEntries(raw.plugins, 'plugins', file),
+    modules: normalizeEntries(raw.modules, 'modules', file),
+  };
+}
+
+/**
+ * Diffs the project config against the installed plugins and modules
+ *
+ * Registries must be initialized (unknown IDs are rejected).
+ *
+ * @param config - Normalized project config
+ * @param installedPlugins - Manifest plugins
+ * @param installedModules - Manifest modules
+ * @throws CliError for IDs missing from the registries
+ */
+export function diffProjectConfig(
+  config: RnsProjectConfig,
+  installedPlugins: InstalledPluginRecord[],
+  installedModules: InstalledPluginRecord[]
+): ProjectConfigDiff {
+  const pluginRegistry = getPluginRegistry();
+  const moduleRegistry = getModuleRegistry();
+  const unknown = [
+    ...config.plugins.filter(entry => !pluginRegistry.getPlugin(entry.id)).map(entry => `plugin "${entry.id}"`),
+    ...config.modules.filter(entry => !moduleRegistry.getModule(entry.id)).map(entry => `module "${entry.id}"`),
+  ];
+  if (unknown.length > 0) {
+    throw new CliError(`${config.file} references unknown ${unknown.join(', ')}`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+
+  const lookup = (id: string) => pluginRegistry.getPlugin(id);
+  const desiredIds = config.plugins.map(entry => entry.id);
+  const installedIds = installedPlugins.map(plugin => plugin.id);
+
+  // Desired plugins plus everything they require (transitively) stay installed
+  const keep = new Set(resolveInstallOrder(desiredIds, [], lookup).order);
+  const { order, autoAdded } = resolveInstallOrder(desiredIds, installedIds, lookup);
+  const install = order.filter(id => !installedIds.includes(id));
+  const undesired = installedIds.filter(id => !keep.has(id));
+  const remove = undesired.length > 0 ? resolvePluginsToRemove(undesired, installedIds, true).order : [];
+
+  const configure = config.plugins
+    .map(entry => {
+      const installed = installedPlugins.find(plugin => plugin.id === entry.id);
+      const current = installed?.options || {};
+      const changes = Object.entries(entry.options || {})
+        .filter(([key, value]) => JSON.stringify(current[key]) !== JSON.stringify(value))
+        .map(([key, value]) => ({ key, from: current[key], to: value }));
+      return { id: entry.id, installed, changes };
+    })
+    .filter(entry => entry.installed && entry.changes.length > 0)
+    .map(({ id, changes }) => ({ id, changes }));
+
+  const installedModuleIds = installedModules.map(module => module.id);
+  const desiredModuleIds = config.modules.map(entry => entry.id);
+  const warnings = config.modules
+    .filter(entry => {
+      const installed = installedModules.find(module => module.id === entry.id);
+      return installed && Object.entries(entry.options || {})
+        .some(([key, value]) => JSON.stringify(installed.options?.[key]) !== JSON.stringify(value));
+    })
+    .map(entry => `Module "${entry.id}" options differ from ${config.file}; modules are not regenerated (remove and re-add it to apply them)`);
+
+  return {
+    install,
+    required: autoAdded.filter(id => install.includes(id)),
+    remove,
+    configure,
+    addModules: desiredModuleIds.filter(id => !installedModuleIds.includes(id)),
+    removeModules: installedModuleIds.filter(id => !desiredModuleIds.includes(id)),
+    warnings,
+  };
+}
+
+/**
+ * Checks whether a diff has nothing to apply
+ */
+export function isProjectConfigDiffEmpty(diff: ProjectConfigDiff): boolean {
+  return diff.install.length === 0 &&
+    diff.remove.length === 0 &&
+    diff.configure.length === 0 &&
+    diff.addModules.length === 0 &&
+    diff.removeModules.length === 0;
+}
+
+/**
+ * Formats a diff as human-readable lines
+ */
+export function formatProjectConfigDiff(diff: ProjectConfigDiff): string[] {
+  const lines: string[] = [];
+  const required = new Set(diff.required);
+  for (const id of diff.install) {
+    lines.push(`+ plugin ${id}${required.has(id) ? ' (required)' : ''}`);
+  }
+  for (const id of diff.remove) {
+    lines.push(`- plugin ${id}`);
+  }
+  for (const entry of diff.configure) {
+    lines.push(`~ plugin ${entry.id}`);
+    for (const change of entry.changes) {
+      lines.push(`    ${change.key}: ${JSON.stringify(change.from) ?? '(unset)'} → ${JSON.stringify(change.to)}`);
+    }
+  }
+  for (const id of diff.addModules) {
+    lines.push(`+ module ${id}`);
+  }
+  for (const id of diff.removeModules) {
+    lines.push(`- module ${id}`);
+  }
+  return lines;
+}
+
+/**
+ * Converges the project on its declarative config (rns apply)
+ *
+ * @param options - Apply options
+ * @param context - Runtime context
+ * @returns Diff and per-plugin/module results (failures are reported in the results)
+ */
+export async function applyProjectConfig(
+  options: ApplyOptions,
+  context: RuntimeContext
+): Promise<ApplyResult> {
+  setPromptLogger(context.logger);
+  validateProjectInitialized(context.resolvedRoot);
+
+  const config = loadProjectConfig(context.resolvedRoot, options.configFile);
+  await initializePluginRegistry(context.resolvedRoot);
+  await initializeModuleRegistry();
+
+  const manifest = readManifest(context.resolvedRoot);
+  if (!manifest) {
+    throw new CliError('Project not initialized. Run "rns init" first.', ExitCode.NOT_INITIALIZED);
+  }
+  const diff = diffProjectConfig(config, manifest.plugins, manifest.modules || []);
+  const result: ApplyResult = { config, diff, applied: false, plugins: [], modules: [] };
+
+  diff.warnings.forEach(warning => context.logger.warn(`! ${warning}`));
+  if (isProjectConfigDiffEmpty(diff)) {
+    context.logger.info(`Project matches ${config.file}; nothing to apply.`);
+    return result;
+  }
+
+  context.logger.info(`Changes to converge on ${config.file}:`);
+  formatProjectConfigDiff(diff).forEach(line => context.logger.info(`  ${line}`));
+  if (options.dryRun) {
+    return result;
+  }
+  if (!options.yes) {
+    const confirmed = await promptConfirm('Apply these changes?', true);
+    if (!confirmed) {
+      context.logger.info('Apply cancelled.');
+      return result;
+    }
+  }
+  result.applied = true;
+
+  const commandOptions = { yes: true, verbose: options.verbose };
+  const desiredOptions = (entries: DesiredEntry[]) =>
+    Object.fromEntries(entries.filter(entry => entry.options).map(entry => [entry.id, entry.options!]));
+
+  // Modules may build on plugins: they go first on removal and last on addition
+  if (diff.removeModules.length > 0) {
+    result.modules.push(...await removeModules(diff.removeModules, commandOptions, context));
+  }
+  if (diff.remove.length > 0) {
+    result.plugins.push(...await removePlugins(diff.remove, { ...commandOptions, cascade: true }, context));
+  }
+  if (diff.install.length > 0) {
+    result.plugins.push(...await addPlugins(diff.install, { ...commandOptions, pluginOptions: desiredOptions(config.plugins) }, context));
+  }
+  for (const entry of diff.configure) {
+    try {
+      result.plugins.push(await configurePlugin(entry.id, { ...commandOptions, pluginOptions: desiredOptions(config.plugins) }, context));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      context.logger.error(`✗ ${entry.id} configuration failed: ${message}`);
+      result.plugins.push({ pluginId: entry.id, success: false, skipped: false, error: message });
+    }
+  }
+  if (diff.addModules.length > 0) {
+    result.modules.push(...await addModules(diff.addModules, { ...commandOptions, moduleOptions: desiredOptions(config.modules) }, context));
+  }
+
+  return result;
+}
+
+/**
+ * Normalizes "plugins"/"modules" entries (ID strings or { id, options })
+ */
+function normalizeEntries(value: unknown, key: string, file: string): DesiredEntry[] {
+  if (value === undefined) {
+    return [];
+  }
+  const invalid = () => new CliError(
+    `Invalid ${file}: "${key}" must be an array of IDs or { "id": "...", "options": { ... } } entries`,
+    ExitCode.VALIDATION_STATE_FAILURE
+  );
+  if (!Array.isArray(value)) {
+    throw invalid();
+  }
+
+  const entries = value.map((item): DesiredEntry => {
+    if (typeof item === 'string' && item.trim() !== '') {
+      return { id: item };
+    }
+    if (isPlainObject(item) && typeof item.id === 'string' && (item.options === undefined || isPlainObject(item.options))) {
+      return item.options ? { id: item.id, options: item.options } : { id: item.id };
+    }
+    throw invalid();
+  });
+
+  const duplicate = entries.find((entry, index) => entries.findIndex(other => other.id === entry.id) !== index);
+  if (duplicate) {
+    throw new CliError(`Invalid ${file}: "${duplicate.id}" is listed more than once in "${key}"`, ExitCode.VALIDATION_STATE_FAILURE);
+  }
+  return entries;
+}
+
+/**
+ * Checks for a plain (non-array) object
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -7,12 +7,13 @@
  * - Failure modes produce actionable error messages
  * - Error messages include clear fix hints
  * - Fix mode only applies safe fixes in SYSTEM ZONE
+ * - Fix mode migrates an outdated manifest schema and backs up the old manifest
  * - Validation logic is correct
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { join } from 'path';
-import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
 import { tmpdir } from 'os';
 import {
   runProjectDoctor,
@@ -209,6 +210,45 @@ describe('project-doctor', () => {
         expect(fixPath.includes('src/')).toBe(false);
       });
     });
+
+    it('should migrate an outdated manifest schema and keep a backup', async () => {
+      const manifestPath = join(testProjectRoot, PROJECT_STATE_FILE);
+      const legacy = JSON.stringify({
+        schemaVersion: '1.0.0',
+        cliVersion: '0.1.0',
+        workspaceModel: 'Option A',
+        identity: { name: 'TestApp' },
+        target: 'expo',
+        language: 'ts',
+        packageManager: 'npm',
+        selectedOptions: { i18n: true, theming: false, reactNavigation: false, styling: 'stylesheet' },
+        plugins: [],
+        modules: [],
+        createdAt: '2024-01-01T00:00:00.000Z',
+      }, null, 2);
+      await writeFile(manifestPath, legacy);
+
+      const report = await runProjectDoctor(testProjectRoot, true);
+      const schemaCheck = report.findings.find(f => f.checkId === 'manifest.schema');
+      expect(schemaCheck).toMatchObject({ passed: false, severity: 'warning', value: '1.0.0' });
+      expect(schemaCheck?.fix).toContain('rns doctor --fix');
+      expect(report.fixable.map(f => f.checkId)).toContain('manifest.schema');
+
+      const fixed = applySafeFixes(testProjectRoot, report.fixable);
+      const migrated = fixed.find(f => f.checkId === 'manifest.schema');
+      expect(migrated?.passed).toBe(true);
+      expect(migrated?.message).toMatch(/^Manifest migrated 1\.0\.0 -> 2\.0\.0 \(backup: \.rns\/backups\/.+-manifest-1\.0\.0\/\.rn-init\.json\)$/);
+
+      const written = JSON.parse(await readFile(manifestPath, 'utf-8'));
+      expect(written.schemaVersion).toBe('2.0.0');
+      expect(written.selectedOptions).toBeUndefined();
+      expect(written.initOptions.map((option: { id: string }) => option.id)).toEqual(['i18n', 'styling.stylesheet']);
+      const backupPath = migrated!.message!.match(/backup: (.+)\)$/)![1];
+      expect(await readFile(join(testProjectRoot, backupPath), 'utf-8')).toBe(legacy);
+
+      const rerun = await runProjectDoctor(testProjectRoot, true);
+      expect(rerun.findings.find(f => f.checkId === 'manifest.schema')?.passed).toBe(true);
+    });
   });
 
   describe('validation logic', () => {
@@ -8,21 +8,29 @@
  */
 
 import { join } from 'path';
-import { readManifest, validateManifest, migrateManifest } from './manifest';
+import { readManifest, migrateManifestFile } from './manifest';
 import { validateAllMarkers } from './markers';
 import { isCliManagedZone, OWNERSHIP_ZONES } from './idempotency';
 import { readdirSync, statSync } from 'fs';
 import { pathExists, isDirectory, isFile } from './fs';
-import { readTextFile } from './fs';
+import { readJsonFile, readTextFile } from './fs';
 import { INJECTION_MARKER_PATTERN } from './idempotency';
 import { getPluginRegistry, initializePluginRegistry } from './plugin-registry';
-import { PROJECT_STATE_FILE } from './constants';
+import { findPlaceholderUsageDescriptions, resolveUsageDescriptions } from './usage-descriptions';
+import { CLI_BACKUPS_DIR, PROJECT_STATE_FILE, USAGE_DESCRIPTIONS_FILE } from './constants';
 import { CliError, ExitCode } from './errors';
 import type {
   ProjectDoctorReport,
   DoctorFinding,
   DoctorCheckId,
 } from './types/doctor';
+import { CURRENT_MANIFEST_SCHEMA_VERSION, type RnsProjectManifest } from './types/manifest';
+
+/**
+ * Checks whose fix only rewrites CLI state outside the SYSTEM zone paths
+ * (the manifest lives at the project root)
+ */
+const STATE_FIX_CHECKS: DoctorCheckId[] = ['manifest.schema'];
 
 /**
  * Runs project doctor checks
@@ -49,10 +57,15 @@ export async function runProjectDoctor(projectRoot: string, fix: boolean = false
   // Check 5: Plugins consistent with workspace + deps + registry
   findings.push(...(await checkPluginConsistency(projectRoot)));
   
+  // Check 6: iOS usage descriptions have real text (after plugin registry init: plugin defaults)
+  findings.push(...checkUsageDescriptions(projectRoot));
+  
   // Categorize findings
   const errors = findings.filter(f => f.severity === 'error' && !f.passed);
   const warnings = findings.filter(f => f.severity === 'warning' && !f.passed);
-  const fixable = findings.filter(f => !f.passed && f.fix && isCliManagedZone(join(projectRoot, f.checkId), projectRoot));
+  const fixable = findings.filter(f => !f.passed && f.fix && (
+    STATE_FIX_CHECKS.includes(f.checkId) || isCliManagedZone(join(projectRoot, f.checkId), projectRoot)
+  ));
   const passed = errors.length === 0;
   
   return {
@@ -116,6 +129,28 @@ function checkManifest(projectRoot: string, fix: boolean): DoctorFinding[] {
       severity: 'error',
       passed: true,
     });
+
+    // readManifest migrates in memory; the file itself may still use an older schema
+    const storedVersion = readJsonFile<Partial<RnsProjectManifest>>(manifestPath).schemaVersion;
+    if (storedVersion !== CURRENT_MANIFEST_SCHEMA_VERSION) {
+      findings.push({
+        checkId: 'manifest.schema',
+        name: 'Manifest schema current',
+        severity: 'warning',
+        passed: false,
+        message: `Manifest uses schema ${storedVersion}, current is ${CURRENT_MANIFEST_SCHEMA_VERSION}`,
+        fix: `Run "rns doctor --fix" to migrate the manifest (the old manifest is kept in ${CLI_BACKUPS_DIR})`,
+        value: storedVersion,
+      });
+    } else {
+      findings.push({
+        checkId: 'manifest.schema',
+        name: 'Manifest schema current',
+        severity: 'warning',
+        passed: true,
+        value: storedVersion,
+      });
+    }
   } catch (error) {
     // readManifest throws CliError if validation fails
     if (error instanceof Error) {
@@ -353,7 +388,7 @@ async function checkPluginConsistency(projectRoot: string): Promise<DoctorFindin
     }
     
     // Initialize plugin registry
-    await initializePluginRegistry();
+    await initializePluginRegistry(projectRoot);
     const registry = getPluginRegistry();
     
     // Check installed plugins exist in workspace
@@ -418,6 +453,50 @@ async function checkPluginConsistency(projectRoot: string): Promise<DoctorFindin
   return findings;
 }
 
+/**
+ * Checks every required iOS usage description has real (non-placeholder, non-empty) text
+ */
+function checkUsageDescriptions(projectRoot: string): DoctorFinding[] {
+  let manifest: RnsProjectManifest | null;
+  try {
+    manifest = readManifest(projectRoot);
+  } catch {
+    return []; // Invalid manifest is reported by the manifest check
+  }
+  if (!manifest) {
+    return []; // Can't check without manifest
+  }
+
+  try {
+    const placeholders = findPlaceholderUsageDescriptions(resolveUsageDescriptions(projectRoot, manifest));
+    if (placeholders.length > 0) {
+      const missing = placeholders.map(item => `${item.key} (${item.locale})`);
+      return [{
+        checkId: 'permissions.usage-descriptions',
+        name: 'iOS usage descriptions',
+        severity: 'error',
+        passed: false,
+        message: `Usage descriptions with placeholder or empty text: ${missing.join(', ')}`,
+        fix: `Set the text in ${USAGE_DESCRIPTIONS_FILE}, then run "rns permissions sync"`,
+      }];
+    }
+    return [{
+      checkId: 'permissions.usage-descriptions',
+      name: 'iOS usage descriptions',
+      severity: 'error',
+      passed: true,
+    }];
+  } catch (error) {
+    return [{
+      checkId: 'permissions.usage-descriptions',
+      name: 'iOS usage descriptions',
+      severity: 'error',
+      passed: false,
+      message: `Failed to check usage descriptions: ${error instanceof Error ? error.message : String(error)}`,
+    }];
+  }
+}
+
 /**
  * Applies safe fixes in SYSTEM ZONE only
  * 
@@ -436,19 +515,19 @@ export function applySafeFixes(
     // For now, we'll implement basic fixes
     // More complex fixes can be added later
     
-    if (finding.checkId === 'manifest.valid' && finding.fix?.includes('migration')) {
-      // Attempt manifest migration
+    if (finding.checkId === 'manifest.schema' || (finding.checkId === 'manifest.valid' && finding.fix?.includes('migration'))) {
+      // Attempt manifest migration (old manifest backed up under .rns/backups)
       try {
-        const manifest = readManifest(projectRoot);
-        if (manifest) {
-          const migrated = migrateManifest(manifest, manifest.schemaVersion || '1.0.0');
-          if (migrated) {
-            fixed.push({
-              ...finding,
-              passed: true,
-              message: 'Manifest migrated successfully',
-            });
-          }
+        const migration = migrateManifestFile(projectRoot);
+        if (migration) {
+          fixed.push({
+            ...finding,
+            passed: true,
+            message: `Manifest migrated ${migration.from} -> ${migration.to}` +
+              (migration.backupPath ? ` (backup: ${migration.backupPath})` : '') +
+              (migration.warnings.length > 0 ? `; ${migration.warnings.join('; ')}` : ''),
+            value: migration.to,
+          });
         }
       } catch {
         // Migration failed, skip
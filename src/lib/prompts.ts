@@ -57,8 +57,8 @@ export async function promptText(question: string, defaultValue?: string): Promi
       },
     });
 
-    // Handle cancellation (Ctrl+C)
-    if (!response || !response.value) {
+    // Handle cancellation (Ctrl+C); empty input falls back to the default
+    if (!response || response.value === undefined) {
       process.exit(130);
     }
 
@@ -149,11 +149,11 @@ export async function promptConfirm(question: string, defaultValue: boolean = tr
  */
 export async function promptMultiSelect<T>(
   question: string,
-  choices: Array<{ label: string; value: T; default?: boolean }>
+  choices: Array<{ label: string; value: T; default?: boolean; disabled?: boolean; description?: string }>
 ): Promise<T[]> {
   // If not TTY, return all defaults
   if (!process.stdout.isTTY) {
-    return choices.filter((c) => c.default !== false).map((c) => c.value);
+    return choices.filter((c) => c.default !== false && !c.disabled).map((c) => c.value);
   }
 
   const resume = pauseLogging();
@@ -165,7 +165,10 @@ export async function promptMultiSelect<T>(
       choices: choices.map((choice, index) => ({
         title: choice.label,
         value: choice.value,
-        selected: choice.default !== false,
+        description: choice.description,
+        // Disabled choices are shown greyed out and cannot be selected
+        disabled: choice.disabled,
+        selected: choice.default !== false && !choice.disabled,
       })),
       onState: () => {
         // Prompts library handles all output internally
@@ -0,0 +1,167 @@
+/**
+ * FILE: src/lib/provider-composition.test.ts
+ * PURPOSE: Unit/spec tests for provider composition in the runtime `providers` marker
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Providers compose into one nested tree (order, then capabilityId), parsed back via ts-morph
+ * - mustWrap / mustBeInside constraints override order; cycles fail clearly
+ * - Regeneration is deterministic (any add order gives the same file) and removal restores the template
+ * - Runtimes in the pre-composition layout are migrated without losing providers
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { Node, Project, SyntaxKind } from 'ts-morph';
+import {
+  addProvidersToComposition,
+  orderProviderEntries,
+  readProviderComposition,
+  removeProvidersFromComposition,
+} from './provider-composition';
+import { wireRuntimeContributions } from './runtime-wiring';
+import { resolveCliRoot } from './pack-locations';
+import type { ProviderCompositionEntry, RuntimeWiringOp } from './types/runtime';
+
+const RUNTIME_FILE = 'packages/@rns/runtime/index.tsx';
+
+/**
+ * Parses a runtime file and returns the JSX elements enclosing {children} in RootProvider (outer to inner)
+ */
+function providerChain(content: string): string[] {
+  const sourceFile = new Project({ useInMemoryFileSystem: true }).createSourceFile('index.tsx', content);
+  const rootProvider = sourceFile.getFunctionOrThrow('RootProvider');
+  const childrenExpressions = rootProvider
+    .getDescendantsOfKind(SyntaxKind.JsxExpression)
+    .filter(expression => expression.getExpression()?.getText() === 'children');
+  expect(childrenExpressions).toHaveLength(1);
+
+  return childrenExpressions[0]
+    .getAncestors()
+    .filter(Node.isJsxElement)
+    .map(element => element.getOpeningElement().getTagNameNode().getText())
+    .reverse();
+}
+
+function providerOp(capabilityId: string, symbol: string, extra: Partial<RuntimeWiringOp['contribution']> & { order?: number } = {}): RuntimeWiringOp {
+  return {
+    capabilityId,
+    file: RUNTIME_FILE,
+    markerType: 'providers',
+    contribution: { type: 'provider', provider: { symbol, source: `@rns/${capabilityId}` }, ...extra } as RuntimeWiringOp['contribution'],
+  };
+}
+
+const entry = (capabilityId: string, order = 0, extra: Partial<ProviderCompositionEntry> = {}): ProviderCompositionEntry => ({
+  capabilityId,
+  symbol: `${capabilityId.replace(/\W/g, '')}Provider`,
+  order,
+  ...extra,
+});
+
+describe('provider-composition', () => {
+  let projectRoot: string;
+  let runtimeFile: string;
+  let template: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'rns-test-providers-'));
+    runtimeFile = join(projectRoot, RUNTIME_FILE);
+    template = await readFile(join(resolveCliRoot(), 'templates/base', RUNTIME_FILE), 'utf-8');
+    await mkdir(join(projectRoot, 'packages', '@rns', 'runtime'), { recursive: true });
+    await writeFile(runtimeFile, template);
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should compose providers into one nested tree sorted by order then capabilityId', async () => {
+    expect(providerChain(template)).toEqual(['ThemeProvider']);
+
+    const results = wireRuntimeContributions(projectRoot, [
+      providerOp('offline.netinfo', 'NetworkInfoProvider', { order: 20 }),
+      providerOp('data.reactQuery', 'QueryClientProvider', { order: 10, props: { client: 'queryClient' } }),
+      providerOp('auth.firebase', 'AuthProvider', { order: 10 }),
+    ]);
+    expect(results.map(result => result.action)).toEqual(['injected', 'injected', 'injected']);
+
+    const content = await readFile(runtimeFile, 'utf-8');
+    expect(providerChain(content)).toEqual(['ThemeProvider', 'AuthProvider', 'QueryClientProvider', 'NetworkInfoProvider']);
+    expect(content).toContain(`      <AuthProvider>
+        <QueryClientProvider client={queryClient}>
+          <NetworkInfoProvider>
+            {children}
+          </NetworkInfoProvider>
+        </QueryClientProvider>
+      </AuthProvider>
+      {/* @rns-marker:providers:end */}
+    </ThemeProvider>`);
+
+    // Re-wiring the same provider is a NO-OP
+    const rerun = wireRuntimeContributions(projectRoot, [providerOp('auth.firebase', 'AuthProvider', { order: 10 })]);
+    expect(rerun[0].action).toBe('skipped');
+  });
+
+  it('should honor mustWrap / mustBeInside over order', () => {
+    const ordered = orderProviderEntries([
+      entry('data.reactQuery', 0, { mustBeInside: ['auth.*'] }),
+      entry('auth.firebase', 50),
+      entry('analytics.sentry', 60, { mustWrap: ['auth.firebase'] }),
+      entry('offline.netinfo', 5),
+    ]);
+    expect(ordered.map(item => item.capabilityId)).toEqual(['offline.netinfo', 'analytics.sentry', 'auth.firebase', 'data.reactQuery']);
+
+    // Constraints on absent capabilities are ignored
+    expect(orderProviderEntries([entry('data.swr', 0, { mustBeInside: ['auth.*'] })])).toHaveLength(1);
+
+    expect(() => orderProviderEntries([
+      entry('a.one', 0, { mustWrap: ['b.two'] }),
+      entry('b.two', 0, { mustWrap: ['a.one'] }),
+    ])).toThrow('Provider nesting constraints (mustWrap/mustBeInside) form a cycle: a.one (aoneProvider), b.two (btwoProvider)');
+  });
+
+  it('should regenerate deterministically on add and restore the template on remove', () => {
+    const entries = [entry('auth.firebase', 1), entry('data.reactQuery', 2, { props: { client: 'queryClient' } }), entry('state.mobx', 2)];
+
+    const forward = entries.reduce<string>((content, item) => addProvidersToComposition(content, [item])!, template);
+    const backward = [...entries].reverse().reduce<string>((content, item) => addProvidersToComposition(content, [item])!, template);
+    expect(backward).toBe(forward);
+    expect(readProviderComposition(forward).map(item => item.capabilityId)).toEqual(['auth.firebase', 'data.reactQuery', 'state.mobx']);
+
+    const withoutQuery = removeProvidersFromComposition(forward, 'data.reactQuery')!;
+    expect(providerChain(withoutQuery)).toEqual(['ThemeProvider', 'authfirebaseProvider', 'statemobxProvider']);
+
+    const emptied = entries.reduce<string>((content, item) => removeProvidersFromComposition(content, item.capabilityId)!, forward);
+    expect(emptied).toBe(template);
+    expect(addProvidersToComposition('export const x = 1;\n', entries)).toBeNull();
+  });
+
+  it('should migrate runtimes that render providers as separate blocks', () => {
+    const legacy = `function RootProvider({ children }: { children: React.ReactNode }): React.ReactElement {
+  return (
+    <ThemeProvider>
+      {/* @rns-marker:providers:start */}
+      {/* Plugin providers will wrap children here */}
+    // // @rns-inject:data.reactQuery-provider:2024-01-01T00:00:00.000Z
+    <QueryClientProvider client={queryClient}>
+      {children}
+    </QueryClientProvider>
+      {/* @rns-marker:providers:end */}
+      {children}
+    </ThemeProvider>
+  );
+}
+`;
+
+    const migrated = addProvidersToComposition(legacy, [entry('auth.firebase', 5)])!;
+
+    expect(readProviderComposition(migrated)).toEqual([
+      { capabilityId: 'data.reactQuery', symbol: 'QueryClientProvider', props: { client: 'queryClient' }, order: 0 },
+      { capabilityId: 'auth.firebase', symbol: 'authfirebaseProvider', order: 5 },
+    ]);
+    expect(providerChain(migrated)).toEqual(['ThemeProvider', 'QueryClientProvider', 'authfirebaseProvider']);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * FILE: src/lib/provider-composition.ts
+ * PURPOSE: Composes provider contributions into one nested tree in the `providers` marker (section 11)
+ * OWNERSHIP: CLI
+ *
+ * The providers region is regenerated as a whole on every add/remove:
+ *
+ *   {/* @rns-marker:providers:start *\/}
+ *   {/* Plugin providers will wrap children here *\/}
+ *   {/* @rns-provider {"capabilityId":"auth.firebase","symbol":"AuthProvider","order":5} *\/}
+ *   {/* @rns-provider {"capabilityId":"data.reactQuery","symbol":"QueryClientProvider",...} *\/}
+ *   <AuthProvider>
+ *     <QueryClientProvider client={queryClient}>
+ *       {children}
+ *     </QueryClientProvider>
+ *   </AuthProvider>
+ *   {/* @rns-marker:providers:end *\/}
+ *
+ * The `@rns-provider` records are the composition state (one per capability + provider symbol);
+ * the tree is derived from them. Outer to inner: `mustWrap`/`mustBeInside` constraints first,
+ * then order (lower = outer), then capabilityId. The same records always produce the same text.
+ */
+
+import { CliError, ExitCode } from './errors';
+import type { ProviderCompositionEntry, ProviderContribution, RuntimeWiringOp } from './types/runtime';
+
+/**
+ * Placeholder line kept at the top of the region (matches the runtime templates)
+ */
+export const PROVIDERS_PLACEHOLDER = 'Plugin providers will wrap children here';
+
+/**
+ * Prefix of composition records inside the region
+ */
+export const PROVIDER_RECORD_PREFIX = '@rns-provider ';
+
+const START_MARKER = /(?:\/\/|\/\*)\s*@rns-marker:providers:start/;
+const END_MARKER = /(?:\/\/|\/\*)\s*@rns-marker:providers:end/;
+
+/**
+ * Builds the composition entry for a provider wiring op
+ */
+export function toProviderEntry(op: RuntimeWiringOp): ProviderCompositionEntry {
+  const contribution = op.contribution as ProviderContribution;
+  return {
+    capabilityId: op.capabilityId,
+    symbol: contribution.provider.symbol,
+    ...(contribution.props && Object.keys(contribution.props).length > 0 ? { props: contribution.props } : {}),
+    order: op.order ?? contribution.order ?? 0,
+    ...(contribution.mustWrap?.length ? { mustWrap: contribution.mustWrap } : {}),
+    ...(contribution.mustBeInside?.length ? { mustBeInside: contribution.mustBeInside } : {}),
+  };
+}
+
+/**
+ * Orders providers outer to inner
+ * Nesting constraints are honored first; among unconstrained providers lower order is outer,
+ * ties broken by capabilityId then symbol. Constraints naming absent capabilities are ignored.
+ *
+ * @throws CliError if the constraints form a cycle
+ */
+export function orderProviderEntries(entries: ProviderCompositionEntry[]): ProviderCompositionEntry[] {
+  const compare = (a: ProviderCompositionEntry, b: ProviderCompositionEntry) =>
+    a.order - b.order || a.capabilityId.localeCompare(b.capabilityId) || a.symbol.localeCompare(b.symbol);
+
+  // Edge outer -> inner
+  const inner = new Map<ProviderCompositionEntry, Set<ProviderCompositionEntry>>(entries.map(entry => [entry, new Set()]));
+  for (const entry of entries) {
+    for (const other of entries) {
+      if (other.capabilityId === entry.capabilityId) {
+        continue;
+      }
+      if (matchesAny(other.capabilityId, entry.mustWrap)) {
+        inner.get(entry)!.add(other);
+      }
+      if (matchesAny(other.capabilityId, entry.mustBeInside)) {
+        inner.get(other)!.add(entry);
+      }
+    }
+  }
+
+  const inDegree = new Map(entries.map(entry => [entry, 0]));
+  for (const targets of inner.values()) {
+    targets.forEach(target => inDegree.set(target, inDegree.get(target)! + 1));
+  }
+
+  const ordered: ProviderCompositionEntry[] = [];
+  let ready = entries.filter(entry => inDegree.get(entry) === 0);
+  while (ready.length > 0) {
+    ready.sort(compare);
+    const next = ready.shift()!;
+    ordered.push(next);
+    for (const target of inner.get(next)!) {
+      inDegree.set(target, inDegree.get(target)! - 1);
+      if (inDegree.get(target) === 0) {
+        ready.push(target);
+      }
+    }
+  }
+
+  if (ordered.length < entries.length) {
+    const cycle = entries.filter(entry => !ordered.includes(entry)).map(entry => `${entry.capabilityId} (${entry.symbol})`);
+    throw new CliError(
+      `Provider nesting constraints (mustWrap/mustBeInside) form a cycle: ${cycle.join(', ')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  return ordered;
+}
+
+/**
+ * Adds or replaces providers in a file's providers region (keyed by capabilityId + symbol)
+ *
+ * @param content - File content
+ * @param entries - Providers to add
+ * @returns Updated content, or null if the file has no providers region
+ */
+export function addProvidersToComposition(content: string, entries: ProviderCompositionEntry[]): string | null {
+  const keys = new Set(entries.map(providerKey));
+  return updateProviderComposition(content, current => [
+    ...current.filter(entry => !keys.has(providerKey(entry))),
+    ...entries,
+  ]);
+}
+
+/**
+ * Removes a capability's providers from a file's providers region
+ *
+ * @param content - File content
+ * @param capabilityId - Capability whose providers are removed
+ * @param symbol - Only remove this provider (default: all of the capability's providers)
+ * @returns Updated content, or null if the file has no providers region
+ */
+export function removeProvidersFromComposition(content: string, capabilityId: string, symbol?: string): string | null {
+  return updateProviderComposition(content, current =>
+    current.filter(entry => entry.capabilityId !== capabilityId || (symbol !== undefined && entry.symbol !== symbol))
+  );
+}
+
+/**
+ * Reads the composed providers of a file's providers region
+ */
+export function readProviderComposition(content: string): ProviderCompositionEntry[] {
+  const region = findProvidersRegion(content.split('\n'));
+  return region ? parseProviderRegion(region.lines) : [];
+}
+
+/**
+ * Regenerates a file's providers region from its records
+ */
+function updateProviderComposition(
+  content: string,
+  update: (entries: ProviderCompositionEntry[]) => ProviderCompositionEntry[]
+): string | null {
+  const lines = content.split('\n');
+  const region = findProvidersRegion(lines);
+  if (!region) {
+    return null;
+  }
+
+  const entries = orderProviderEntries(update(parseProviderRegion(region.lines)));
+  const startLine = lines[region.start];
+  const indent = startLine.match(/^\s*/)![0];
+  const jsx = startLine.trim().startsWith('{/*');
+
+  // Older runtimes render {children} after the region; the region now renders it
+  const after = lines.slice(region.end);
+  if (after[1]?.trim() === '{children}') {
+    after.splice(1, 1);
+  }
+
+  return [
+    ...lines.slice(0, region.start + 1),
+    ...renderProviderRegion(entries, indent, jsx),
+    ...after,
+  ].join('\n');
+}
+
+/**
+ * Renders the region body: placeholder, records, then the nested tree around {children}
+ */
+function renderProviderRegion(entries: ProviderCompositionEntry[], indent: string, jsx: boolean): string[] {
+  const comment = (text: string) => (jsx ? `{/* ${text} */}` : `// ${text}`);
+  const lines = [`${indent}${comment(PROVIDERS_PLACEHOLDER)}`];
+
+  for (const entry of entries) {
+    lines.push(`${indent}${comment(PROVIDER_RECORD_PREFIX + JSON.stringify(entry).replace(/\*\//g, '*\\/'))}`);
+  }
+
+  entries.forEach((entry, depth) => {
+    lines.push(`${indent}${'  '.repeat(depth)}<${entry.symbol}${renderProps(entry.props)}>`);
+  });
+  lines.push(`${indent}${'  '.repeat(entries.length)}{children}`);
+  [...entries].reverse().forEach((entry, index) => {
+    lines.push(`${indent}${'  '.repeat(entries.length - 1 - index)}</${entry.symbol}>`);
+  });
+
+  return lines;
+}
+
+/**
+ * Renders JSX props. String values that are valid identifiers are emitted as variable refs
+ * (e.g. client={queryClient}), others as literals.
+ */
+function renderProps(props: Record<string, unknown> | undefined): string {
+  if (!props) {
+    return '';
+  }
+  return Object.entries(props)
+    .map(([key, value]) =>
+      typeof value === 'string' && /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(value)
+        ? ` ${key}={${value}}`
+        : ` ${key}={${JSON.stringify(value)}}`
+    )
+    .join('');
+}
+
+/**
+ * Parses composition records; falls back to the pre-composition format
+ * (`// @rns-inject:<capabilityId>-provider:<ts>` followed by `<Symbol props>`)
+ */
+function parseProviderRegion(lines: string[]): ProviderCompositionEntry[] {
+  const entries: ProviderCompositionEntry[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const recordIndex = line.indexOf(PROVIDER_RECORD_PREFIX);
+    if (recordIndex >= 0) {
+      const json = line.slice(recordIndex + PROVIDER_RECORD_PREFIX.length).replace(/\s*\*\/\}?\s*$/, '');
+      try {
+        entries.push(JSON.parse(json) as ProviderCompositionEntry);
+      } catch {
+        throw new CliError(`Invalid provider record in providers region: ${line.trim()}`, ExitCode.VALIDATION_STATE_FAILURE);
+      }
+      continue;
+    }
+
+    const legacy = line.match(/@rns-inject:(.+)-provider:\S+/);
+    const element = lines[i + 1]?.trim().match(/^<([A-Za-z_$][\w$.]*)((?:\s+\w+=\{[^}]*\})*)\s*>$/);
+    if (legacy && element) {
+      const props = Object.fromEntries(
+        Array.from(element[2].matchAll(/(\w+)=\{([^}]*)\}/g)).map(([, key, value]) => [key, parseLegacyPropValue(value)])
+      );
+      entries.push({
+        capabilityId: legacy[1],
+        symbol: element[1],
+        ...(Object.keys(props).length > 0 ? { props } : {}),
+        order: 0,
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parses a legacy JSX prop value (identifier ref or JSON literal)
+ */
+function parseLegacyPropValue(value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Finds the providers region (line indexes of the start/end markers and the lines between)
+ */
+function findProvidersRegion(lines: string[]): { start: number; end: number; lines: string[] } | null {
+  const start = lines.findIndex(line => START_MARKER.test(line));
+  const end = lines.findIndex((line, index) => index > start && END_MARKER.test(line));
+  if (start < 0 || end < 0) {
+    return null;
+  }
+  return { start, end, lines: lines.slice(start + 1, end) };
+}
+
+function providerKey(entry: ProviderCompositionEntry): string {
+  return `${entry.capabilityId}:${entry.symbol}`;
+}
+
+/**
+ * Matches a capability ID against IDs / "<category>.*" patterns
+ */
+function matchesAny(capabilityId: string, patterns: string[] | undefined): boolean {
+  return (patterns || []).some(pattern =>
+    pattern.endsWith('.*') ? capabilityId.startsWith(pattern.slice(0, -1)) : capabilityId === pattern
+  );
+}
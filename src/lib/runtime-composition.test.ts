@@ -0,0 +1,207 @@
+/**
+ * FILE: src/lib/runtime-composition.test.ts
+ * PURPOSE: Unit/spec tests for the generated runtime core-init (initCoreAsync)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Generated core-init (TS and JS) exports initCoreAsync() with the async-init-steps marker
+ * - Wired async steps run in dependency order with per-step timing logged via the core logger
+ * - platforms / featureFlag conditions skip steps; timeouts, failures and skipped steps skip dependents
+ * - initCoreAsync() initializes CORE once, however often it is called
+ * - A throwing initCore() rejects initCoreAsync(); the splash logs it and still becomes ready
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { ts } from 'ts-morph';
+import { generateCoreInitFile } from './runtime-composition';
+import { resolveCliRoot } from './pack-locations';
+import { wireRuntimeContributions } from './runtime-wiring';
+import type { InitInputs } from './init';
+import type { InitStepContribution, RuntimeWiringOp } from './types/runtime';
+
+const RUNTIME_DIR = 'packages/@rns/runtime';
+
+interface LoadedCoreInit {
+  initCore: () => void;
+  initCoreAsync: () => Promise<void>;
+  logs: string[];
+  calls: string[];
+}
+
+/**
+ * Transpiles and evaluates a generated core-init with stubbed @rns/core and react-native
+ * Wired steps call recordStep(name, delayMs, fail?) which resolves after delayMs
+ */
+function loadCoreInit(source: string, os: string, flags: Record<string, unknown> = {}): LoadedCoreInit {
+  const logs: string[] = [];
+  const calls: string[] = [];
+  const log = (level: string) => (message: string) => logs.push(`${level} ${message}`);
+  const modules: Record<string, unknown> = {
+    'react-native': { Platform: { OS: os } },
+    '@rns/core': {
+      logger: { debug: log('debug'), info: log('info'), warn: log('warn'), error: log('error') },
+      initNetInfoBridge: () => undefined,
+      featureFlagsRegistry: { getAll: () => flags },
+    },
+    '@rns/core/i18n': {},
+  };
+  const recordStep = (name: string, delayMs: number, fail?: boolean) => {
+    calls.push(name);
+    return new Promise<void>((resolve, reject) =>
+      setTimeout(() => (fail ? reject(new Error(`${name} broke`)) : resolve()), delayMs)
+    );
+  };
+
+  const exports = evaluateModule(source, modules, recordStep);
+  return { ...(exports as Pick<LoadedCoreInit, 'initCore' | 'initCoreAsync'>), logs, calls };
+}
+
+/**
+ * Transpiles (TS/TSX) and evaluates a module against stubbed imports
+ */
+function evaluateModule(source: string, modules: Record<string, unknown>, recordStep?: unknown): Record<string, unknown> {
+  const { outputText } = ts.transpileModule(source, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, jsx: ts.JsxEmit.React },
+  });
+  const module = { exports: {} as Record<string, unknown> };
+  new Function('require', 'module', 'exports', 'recordStep', outputText)(
+    (id: string) => modules[id],
+    module,
+    module.exports,
+    recordStep
+  );
+  return module.exports;
+}
+
+function stepOp(capabilityId: string, delayMs: number, extra: Partial<InitStepContribution> = {}, fail = false): RuntimeWiringOp {
+  return {
+    capabilityId,
+    file: `${RUNTIME_DIR}/core-init.ts`,
+    markerType: 'async-init-steps',
+    contribution: {
+      type: 'init-step',
+      step: { symbol: 'recordStep', source: '@rns/test' },
+      args: fail ? [capabilityId, delayMs, true] : [capabilityId, delayMs],
+      async: true,
+      ...extra,
+    },
+  };
+}
+
+describe('runtime-composition', () => {
+  let projectRoot: string;
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'rns-test-core-init-'));
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  const generate = async (language: 'ts' | 'js'): Promise<string> => {
+    const inputs = { language, target: 'expo', selectedOptions: { i18n: true } } as unknown as InitInputs;
+    generateCoreInitFile(join(projectRoot, RUNTIME_DIR), inputs);
+    return readFile(join(projectRoot, RUNTIME_DIR, `core-init.${language}`), 'utf-8');
+  };
+
+  it('should generate initCoreAsync with the async-init-steps marker (ts and js)', async () => {
+    for (const language of ['ts', 'js'] as const) {
+      const source = await generate(language);
+      expect(source).toContain('export function initCoreAsync()');
+      expect(source).toMatch(/@rns-marker:async-init-steps:start[\s\S]*@rns-marker:async-init-steps:end\n\];/);
+
+      const { initCoreAsync, logs } = loadCoreInit(source, 'ios');
+      await initCoreAsync();
+      expect(logs).toEqual(['info Initializing CORE...', 'info CORE initialized', expect.stringMatching(/^info \[init\] async init finished in \d+ms$/)]);
+    }
+  });
+
+  it('should run wired steps in dependency order, honoring platforms, feature flags and timeouts', async () => {
+    await generate('ts');
+    const results = wireRuntimeContributions(projectRoot, [
+      stepOp('auth.firebase', 1, { dependsOn: ['config.remote'] }),
+      stepOp('config.remote', 5),
+      stepOp('notifications.apns', 1, { platforms: ['ios'] }),
+      stepOp('offline.sync', 1, { featureFlag: 'enableOffline' }),
+      stepOp('analytics.amplitude', 1, { featureFlag: 'enableAnalytics' }),
+      stepOp('analytics.funnels', 1, { dependsOn: ['analytics.amplitude'] }),
+      stepOp('storage.sqlite', 200, { timeoutMs: 10 }),
+      stepOp('storage.migrations', 1, { dependsOn: ['storage.sqlite'] }),
+      stepOp('crash.sentry', 1, {}, true),
+    ]);
+    expect(results.every(result => result.action === 'injected')).toBe(true);
+
+    const source = await readFile(join(projectRoot, RUNTIME_DIR, 'core-init.ts'), 'utf-8');
+    const { initCore, initCoreAsync, logs, calls } = loadCoreInit(source, 'android', { enableOffline: true });
+
+    const first = initCoreAsync();
+    expect(initCoreAsync()).toBe(first);
+    await first;
+    initCore();
+
+    // Declaration order is order, then capability ID; dependsOn moves auth.firebase after config.remote
+    expect(calls).toEqual(['config.remote', 'auth.firebase', 'crash.sentry', 'offline.sync', 'storage.sqlite']);
+    expect(logs.filter(line => line.includes('Initializing CORE'))).toHaveLength(1);
+    expect(logs).toContain('warn CORE already initialized, skipping');
+    expect(logs).toContain('info [init] notifications.apns skipped (not on android)');
+    expect(logs).toContain('info [init] analytics.amplitude skipped (feature flag enableAnalytics is off)');
+    expect(logs).toContain('warn [init] storage.migrations skipped (storage.sqlite failed)');
+    expect(logs).toContain('warn [init] analytics.funnels skipped (analytics.amplitude was skipped)');
+    expect(logs.some(line => /^info \[init\] config\.remote completed in \d+ms$/.test(line))).toBe(true);
+    expect(logs.some(line => /^error \[init\] storage\.sqlite failed after \d+ms$/.test(line))).toBe(true);
+    expect(logs.some(line => /^error \[init\] crash\.sentry failed after \d+ms$/.test(line))).toBe(true);
+  });
+
+  it('should not run steps whose dependsOn form a cycle', async () => {
+    await generate('ts');
+    wireRuntimeContributions(projectRoot, [
+      stepOp('a.one', 1, { dependsOn: ['b.two'] }),
+      stepOp('b.two', 1, { dependsOn: ['a.one'] }),
+      stepOp('c.three', 1),
+    ]);
+    const source = await readFile(join(projectRoot, RUNTIME_DIR, 'core-init.ts'), 'utf-8');
+    const { initCoreAsync, logs, calls } = loadCoreInit(source, 'ios');
+
+    await initCoreAsync();
+
+    expect(calls).toEqual(['c.three']);
+    expect(logs).toContain('error [init] dependsOn cycle, not run: a.one, b.two');
+  });
+
+  it('should let the splash render when a sync init step throws', async () => {
+    await generate('ts');
+    wireRuntimeContributions(projectRoot, [{
+      capabilityId: 'config.broken',
+      file: `${RUNTIME_DIR}/core-init.ts`,
+      markerType: 'init-steps',
+      contribution: { type: 'init-step', step: `throw new Error('config broke')` },
+    }]);
+    const source = await readFile(join(projectRoot, RUNTIME_DIR, 'core-init.ts'), 'utf-8');
+    const coreInit = loadCoreInit(source, 'ios');
+
+    const initResult = coreInit.initCoreAsync();
+    await expect(initResult).rejects.toThrow('config broke');
+
+    // useCoreReady() with a React stub that runs effects immediately
+    const splash = await readFile(join(resolveCliRoot(), 'templates/base', RUNTIME_DIR, 'splash.tsx'), 'utf-8');
+    let ready = false;
+    const errors: unknown[] = [];
+    const { useCoreReady } = evaluateModule(splash, {
+      react: {
+        useState: (initial: boolean) => [initial, (value: boolean) => { ready = value; }],
+        useEffect: (effect: () => void) => effect(),
+      },
+      'react-native': { View: 'View', ActivityIndicator: 'ActivityIndicator', StyleSheet: { create: (styles: unknown) => styles } },
+      '@rns/core': { logger: { error: (message: string, error: unknown) => errors.push(message, error) } },
+      './core-init': coreInit,
+    }) as { useCoreReady: () => boolean };
+
+    expect(() => useCoreReady()).not.toThrow();
+    await vi.waitFor(() => expect(ready).toBe(true));
+    expect(errors).toEqual(['[init] CORE init failed', expect.objectContaining({ message: 'config broke' })]);
+  });
+});
@@ -17,8 +17,7 @@ export function generateRuntimeComposition(runtimeDir: string, inputs: InitInput
   const ext = inputs.language === 'ts' ? 'ts' : 'js';
   
   // Generate CORE init function
-  const coreInitContent = generateCoreInit(ext, inputs);
-  writeTextFile(join(runtimeDir, `core-init.${ext}`), coreInitContent);
+  generateCoreInitFile(runtimeDir, inputs);
 
   // Generate main runtime index (simplified - App.tsx now contains providers directly)
   const runtimeIndexContent = generateRuntimeIndex(ext, inputs);
@@ -29,6 +28,14 @@ export function generateRuntimeComposition(runtimeDir: string, inputs: InitInput
   writeTextFile(join(runtimeDir, `index.${runtimeIndexExt}`), runtimeIndexContent);
 }
 
+/**
+ * Generates packages/@rns/runtime/core-init.(ts|js) only (rns adopt keeps the template runtime index)
+ */
+export function generateCoreInitFile(runtimeDir: string, inputs: InitInputs): void {
+  const ext = inputs.language === 'ts' ? 'ts' : 'js';
+  writeTextFile(join(runtimeDir, `core-init.${ext}`), generateCoreInit(ext, inputs));
+}
+
 function generateCoreInit(ext: 'ts' | 'js', inputs: InitInputs): string {
   const corePackageName = CORE_PACKAGE_NAME;
   const i18nImport = inputs.selectedOptions?.i18n 
@@ -50,13 +57,16 @@ import '@rns/core/i18n';
  * OWNERSHIP: CORE
  * 
  * PLUGIN-FREE GUARANTEE:
- * - Only imports from @rns/core (no plugin dependencies)
+ * - Only imports from @rns/core and react-native (no plugin dependencies)
  * - initNetInfoBridge() is a stub (no NetInfo required)
  * - Plugins can extend initialization via runtime hooks, NOT modify this file
+ * - Async/conditional plugin steps run in initCoreAsync() (dependency order, per-step timing)
  */
 
+import { Platform } from 'react-native';
 import { logger } from '${corePackageName}';
 import { initNetInfoBridge } from '${corePackageName}';
+import { featureFlagsRegistry } from '${corePackageName}';
 ${i18nImport}
 let initialized = false;
 
@@ -86,7 +96,7 @@ ${i18nComment}
   initialized = true;
   logger.info('CORE initialized');
 }
-`;
+${generateAsyncInit(ext)}`;
   } else {
     return `/**
  * FILE: packages/@rns/runtime/core-init.js
@@ -94,8 +104,10 @@ ${i18nComment}
  * OWNERSHIP: CORE
  */
 
+import { Platform } from 'react-native';
 import { logger } from '${corePackageName}';
 import { initNetInfoBridge } from '${corePackageName}';
+import { featureFlagsRegistry } from '${corePackageName}';
 ${i18nImport}
 let initialized = false;
 
@@ -125,10 +137,129 @@ ${i18nComment}
   initialized = true;
   logger.info('CORE initialized');
 }
-`;
+${generateAsyncInit(ext)}`;
   }
 }
 
+/**
+ * Generates initCoreAsync() and the async-init-steps region of core-init
+ * Plugins inject async/conditional init steps (see InitStepContribution) as entries of
+ * asyncInitSteps; initCoreAsync() runs them in dependency order and logs per-step timing.
+ */
+function generateAsyncInit(ext: 'ts' | 'js'): string {
+  const ts = ext === 'ts';
+  const stepType = ts
+    ? `
+/**
+ * Async/conditional initialization step (injected by plugins, run by initCoreAsync)
+ */
+export interface AsyncInitStep {
+  /** Contributing capability ID (what dependsOn refers to) */
+  id: string;
+  run: () => unknown;
+  /** Only run on these platforms */
+  platforms?: string[];
+  /** Only run when this feature flag is true */
+  featureFlag?: string;
+  /** Fail the step after this many milliseconds */
+  timeoutMs?: number;
+  /** Capability IDs whose steps must complete first */
+  dependsOn?: string[];
+}
+`
+    : '';
+
+  return `${stepType}
+const asyncInitSteps${ts ? ': AsyncInitStep[]' : ''} = [
+  // @rns-marker:async-init-steps:start
+  // Plugin async initialization steps will be injected here
+  // @rns-marker:async-init-steps:end
+];
+
+let asyncInit${ts ? ': Promise<void> | null' : ''} = null;
+
+/**
+ * Initialize CORE, then run async/conditional init steps in dependency order
+ * Resolves once every step has completed, failed or timed out (failed and skipped steps are
+ * logged and skip the steps depending on them); rejects if initCore() throws. Safe to call
+ * more than once.
+ */
+export function initCoreAsync()${ts ? ': Promise<void>' : ''} {
+  if (!asyncInit) {
+    asyncInit = new Promise${ts ? '<void>' : ''}(resolve => {
+      if (!initialized) {
+        initCore();
+      }
+      resolve(runAsyncInitSteps(asyncInitSteps));
+    });
+  }
+  return asyncInit;
+}
+
+async function runAsyncInitSteps(steps${ts ? ': AsyncInitStep[]' : ''})${ts ? ': Promise<void>' : ''} {
+  const skipped = new Set${ts ? '<string>' : ''}();
+  const flags${ts ? ': Record<string, unknown>' : ''} = featureFlagsRegistry.getAll();
+  const pending = steps.filter(step => {
+    if (step.platforms && !step.platforms.includes(Platform.OS)) {
+      logger.info(\`[init] \${step.id} skipped (not on \${Platform.OS})\`);
+      skipped.add(step.id);
+      return false;
+    }
+    if (step.featureFlag && flags[step.featureFlag] !== true) {
+      logger.info(\`[init] \${step.id} skipped (feature flag \${step.featureFlag} is off)\`);
+      skipped.add(step.id);
+      return false;
+    }
+    return true;
+  });
+  const failed = new Set${ts ? '<string>' : ''}();
+  const started = Date.now();
+
+  while (pending.length > 0) {
+    // Next step whose dependencies have all run (declaration order otherwise)
+    const index = pending.findIndex(step =>
+      !(step.dependsOn || []).some(dependency => pending.some(other => other !== step && other.id === dependency))
+    );
+    if (index < 0) {
+      logger.error(\`[init] dependsOn cycle, not run: \${pending.map(step => step.id).join(', ')}\`);
+      break;
+    }
+    const [step] = pending.splice(index, 1);
+
+    // Steps that did not run (failed, skipped or blocked) block their dependents
+    const blockedBy = (step.dependsOn || []).find(dependency => failed.has(dependency) || skipped.has(dependency));
+    if (blockedBy) {
+      skipped.add(step.id);
+      logger.warn(\`[init] \${step.id} skipped (\${blockedBy} \${failed.has(blockedBy) ? 'failed' : 'was skipped'})\`);
+      continue;
+    }
+
+    const stepStarted = Date.now();
+    try {
+      await withTimeout(Promise.resolve().then(step.run), step.timeoutMs);
+      logger.info(\`[init] \${step.id} completed in \${Date.now() - stepStarted}ms\`);
+    } catch (error) {
+      failed.add(step.id);
+      logger.error(\`[init] \${step.id} failed after \${Date.now() - stepStarted}ms\`, error);
+    }
+  }
+
+  logger.info(\`[init] async init finished in \${Date.now() - started}ms\`);
+}
+
+function withTimeout(promise${ts ? ': Promise<unknown>' : ''}, timeoutMs${ts ? '?: number' : ''})${ts ? ': Promise<unknown>' : ''} {
+  if (!timeoutMs) {
+    return promise;
+  }
+  let timer${ts ? ': ReturnType<typeof setTimeout> | undefined' : ''};
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(\`timed out after \${timeoutMs}ms\`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+`;
+}
+
 function generateRuntimeIndex(ext: 'ts' | 'js', inputs: InitInputs): string {
   if (ext === 'ts') {
     // For Bare projects, generate a runtime index that exports initCore and provides RnsApp as deprecated wrapper
@@ -147,7 +278,7 @@ function generateRuntimeIndex(ext: 'ts' | 'js', inputs: InitInputs): string {
  */
 
 import React from 'react';
-export { initCore } from './core-init';
+export { initCore, initCoreAsync } from './core-init';
 // Reference to @rns/navigation for verification (actual usage is in App.tsx)
 export type { RouteName } from '@rns/navigation';
 
@@ -170,7 +301,7 @@ export function RnsApp(): React.ReactElement {
  * OWNERSHIP: CORE
  */
 
-export { initCore } from './core-init';
+export { initCore, initCoreAsync } from './core-init';
 `;
     }
   } else {
@@ -188,7 +319,7 @@ export { initCore } from './core-init';
  * Navigation is provided via @rns/navigation (imported in App.js).
  */
 
-export { initCore } from './core-init';
+export { initCore, initCoreAsync } from './core-init';
 // Reference to @rns/navigation for verification (actual usage is in App.js)
 // eslint-disable-next-line no-unused-vars
 import '@rns/navigation';
@@ -212,7 +343,7 @@ export function RnsApp() {
  * OWNERSHIP: CORE
  */
 
-export { initCore } from './core-init';
+export { initCore, initCoreAsync } from './core-init';
 `;
     }
   }
@@ -11,24 +11,30 @@
  * - Idempotency (rerun produces NO-OP)
  * - Contribution types (import, provider, init-step, registration, root)
  * - Ordering (deterministic sorting by order, then capability ID)
+ * - Async/conditional init steps become asyncInitSteps entries (async-init-steps marker)
+ * - Unwiring round trip (wire then unwire every contribution type restores the original files)
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { join } from 'path';
-import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
 import { mkdirSync } from 'fs';
 import { tmpdir } from 'os';
 import {
   wireRuntimeContribution,
   wireRuntimeContributions,
   validateWiringOps,
+  unwireRuntimeContribution,
+  unwireRuntimeContributions,
 } from './runtime-wiring';
+import { resolveCliRoot } from './pack-locations';
 import type { RuntimeWiringOp } from './types/runtime';
 import type {
   ImportContribution,
   ProviderContribution,
   InitStepContribution,
   RegistrationContribution,
+  RootContribution,
 } from './types/runtime';
 
 describe('runtime-wiring', () => {
@@ -432,6 +438,28 @@ export function RootProvider({ children }: { children: React.ReactNode }) {
       expect(errors.some(e => e.includes('SYSTEM ZONE')) || errors.some(e => e.includes('wrong-zone-plugin'))).toBeTruthy();
     });
 
+    it('should require async/conditional init steps to use the async-init-steps marker', () => {
+      const step: InitStepContribution = {
+        type: 'init-step',
+        step: { symbol: 'openDatabase', source: '@rns/plugin-sqlite' },
+        async: true,
+        dependsOn: ['storage.sqlite'],
+      };
+      const op: RuntimeWiringOp = {
+        contribution: step,
+        markerType: 'init-steps',
+        file: 'packages/@rns/runtime/index.ts',
+        capabilityId: 'storage.sqlite',
+      };
+
+      const errors = validateWiringOps(testProjectRoot, [op]);
+
+      expect(errors).toEqual([
+        'Async/conditional init steps must use the async-init-steps marker and plain steps the init-steps marker (capability: storage.sqlite)',
+        'Init step cannot depend on its own capability (capability: storage.sqlite)',
+      ]);
+    });
+
     it('should error if file does not exist', () => {
       const op: RuntimeWiringOp = {
         contribution: {
@@ -475,4 +503,180 @@ export function RootProvider({ children }: { children: React.ReactNode }) {
       expect(newContent).toBe(originalContent);
     });
   });
+
+  describe('unwiring', () => {
+    const INDEX_FILE = 'packages/@rns/runtime/index.tsx';
+    const CORE_INIT_FILE = 'packages/@rns/runtime/core-init.ts';
+    let originals: Record<string, string>;
+
+    const authOps: RuntimeWiringOp[] = [
+      {
+        capabilityId: 'auth.firebase',
+        file: INDEX_FILE,
+        markerType: 'imports',
+        contribution: {
+          type: 'import',
+          imports: [
+            { symbol: 'AuthProvider', source: '@rns/plugin-auth' },
+            { symbol: 'AuthGate', source: '@rns/plugin-auth' },
+          ],
+        },
+      },
+      {
+        capabilityId: 'auth.firebase',
+        file: INDEX_FILE,
+        markerType: 'providers',
+        contribution: { type: 'provider', provider: { symbol: 'AuthProvider', source: '@rns/plugin-auth' } },
+      },
+      {
+        capabilityId: 'auth.firebase',
+        file: INDEX_FILE,
+        markerType: 'root',
+        contribution: { type: 'root', root: { symbol: 'AuthGate', source: '@rns/plugin-auth' } } as RootContribution,
+      },
+      {
+        capabilityId: 'auth.firebase',
+        file: CORE_INIT_FILE,
+        markerType: 'init-steps',
+        contribution: { type: 'init-step', step: { symbol: 'initFirebase', source: '@rns/plugin-auth' } },
+      },
+      {
+        capabilityId: 'auth.firebase',
+        file: CORE_INIT_FILE,
+        markerType: 'async-init-steps',
+        contribution: {
+          type: 'init-step',
+          step: { symbol: 'fetchRemoteConfig', source: '@rns/plugin-auth' },
+          async: true,
+          platforms: ['ios', 'android'],
+          timeoutMs: 5000,
+          dependsOn: ['config.remote'],
+        },
+      },
+      {
+        capabilityId: 'auth.firebase',
+        file: CORE_INIT_FILE,
+        markerType: 'registrations',
+        contribution: { type: 'registration', registration: { symbol: 'registerAuthPlugin', source: '@rns/plugin-auth' } },
+      },
+    ];
+
+    const readRuntime = async (): Promise<Record<string, string>> => ({
+      [INDEX_FILE]: await readFile(join(testProjectRoot, INDEX_FILE), 'utf-8'),
+      [CORE_INIT_FILE]: await readFile(join(testProjectRoot, CORE_INIT_FILE), 'utf-8'),
+    });
+
+    beforeEach(async () => {
+      for (const file of [INDEX_FILE, CORE_INIT_FILE]) {
+        const template = await readFile(join(resolveCliRoot(), 'templates/base', file), 'utf-8');
+        await writeFile(join(testProjectRoot, file), template);
+      }
+      originals = await readRuntime();
+    });
+
+    it('should restore the original files after wiring then unwiring each contribution type', async () => {
+      // Each type is wired with the imports it uses; imports go last so their usages exist when checked
+      const importOp = authOps.find(op => op.contribution.type === 'import')!;
+      for (const op of authOps.filter(op => op.contribution.type !== 'import')) {
+        const ops = op.file === importOp.file ? [op, importOp] : [op];
+
+        expect(wireRuntimeContributions(testProjectRoot, ops).every(result => result.success)).toBe(true);
+        expect((await readRuntime())[op.file]).not.toBe(originals[op.file]);
+
+        const results = unwireRuntimeContributions(testProjectRoot, ops);
+        expect(results.map(result => result.action)).toEqual(ops.map(() => 'removed'));
+        expect(await readRuntime()).toEqual(originals);
+      }
+    });
+
+    it('should restore the original files after unwiring all contributions of a capability', async () => {
+      wireRuntimeContributions(testProjectRoot, authOps);
+      const wired = await readRuntime();
+      expect(wired[INDEX_FILE]).toContain('return <AuthGate />;');
+      expect(wired[CORE_INIT_FILE]).toContain('initFirebase();');
+      expect(wired[CORE_INIT_FILE]).toContain(`
+  {
+    id: "auth.firebase",
+    run: () => fetchRemoteConfig(),
+    platforms: ["ios","android"],
+    timeoutMs: 5000,
+    dependsOn: ["config.remote"],
+  },
+
+  // @rns-marker:async-init-steps:end`);
+
+      const results = unwireRuntimeContributions(testProjectRoot, authOps);
+      expect(results.every(result => result.action === 'removed')).toBe(true);
+      expect(results[results.length - 1].contributionType).toBe('import');
+      expect(await readRuntime()).toEqual(originals);
+
+      // Unwiring again is a NO-OP
+      expect(unwireRuntimeContributions(testProjectRoot, authOps).every(result => result.action === 'skipped')).toBe(true);
+    });
+
+    it('should keep imports and wiring that other capabilities still use', async () => {
+      const otherOps: RuntimeWiringOp[] = [
+        {
+          capabilityId: 'analytics.firebase',
+          file: INDEX_FILE,
+          markerType: 'providers',
+          contribution: {
+            type: 'provider',
+            provider: { symbol: 'AnalyticsProvider', source: '@rns/plugin-analytics' },
+            props: { gate: 'AuthGate' },
+          },
+        },
+        {
+          capabilityId: 'analytics.firebase',
+          file: CORE_INIT_FILE,
+          markerType: 'init-steps',
+          contribution: { type: 'init-step', step: { symbol: 'initFirebase', source: '@rns/plugin-auth' }, order: 10 },
+        },
+      ];
+      wireRuntimeContributions(testProjectRoot, [...authOps, ...otherOps]);
+
+      unwireRuntimeContributions(testProjectRoot, authOps);
+
+      const content = await readRuntime();
+      expect(content[INDEX_FILE]).toMatch(/import \{ AuthGate \} from ["']@rns\/plugin-auth["'];/);
+      expect(content[INDEX_FILE]).toContain('<AnalyticsProvider gate={AuthGate}>');
+      expect(content[INDEX_FILE]).not.toContain('AuthProvider');
+      expect(content[CORE_INIT_FILE]).toMatch(/@rns-inject:analytics\.firebase-init-step:\S+\n\s*initFirebase\(\);/);
+      expect(content[CORE_INIT_FILE]).not.toContain('registerAuthPlugin');
+      expect(Object.values(content).join('\n')).not.toContain('@rns-inject:auth.firebase');
+    });
+
+    it('should restore MinimalUI when the root owner is removed', async () => {
+      const rootOp = authOps.find(op => op.contribution.type === 'root')!;
+
+      // Roots replaced before replaced content was saved fall back to the template root
+      const legacy = originals[INDEX_FILE].replace(
+        /(\/\/ @rns-marker:root:start\n)[\s\S]*?(\s*\/\/ @rns-marker:root:end)/,
+        '$1  // @rns-inject:auth.firebase-root:2024-01-01T00:00:00.000Z\n  return <AuthGate />;\n$2'
+      );
+      await writeFile(join(testProjectRoot, INDEX_FILE), legacy);
+
+      const result = unwireRuntimeContribution(testProjectRoot, rootOp);
+
+      expect(result.action).toBe('removed');
+      expect((await readRuntime())[INDEX_FILE]).toBe(originals[INDEX_FILE]);
+
+      // Other capabilities cannot remove a root they don't own
+      wireRuntimeContribution(testProjectRoot, rootOp);
+      const notOwner = unwireRuntimeContribution(testProjectRoot, { ...rootOp, capabilityId: 'nav.custom' });
+      expect(notOwner.action).toBe('skipped');
+      expect((await readRuntime())[INDEX_FILE]).toContain('return <AuthGate />;');
+    });
+
+    it('should not write on dry run', async () => {
+      wireRuntimeContributions(testProjectRoot, authOps);
+      const wired = await readRuntime();
+
+      const results = unwireRuntimeContributions(testProjectRoot, authOps, true);
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(results.filter(result => result.action === 'removed')).not.toHaveLength(0);
+      expect(await readRuntime()).toEqual(wired);
+    });
+  });
 });
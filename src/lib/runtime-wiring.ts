@@ -14,12 +14,12 @@ import { findMarker, validateMarker, validateMarkerInFile, formatMarkerError, ty
 import { backupFile, createBackupDirectory } from './backup';
 import { hasInjectionMarker, createInjectionMarker, isCliManagedZone } from './idempotency';
 import { CliError, ExitCode } from './errors';
+import { addProvidersToComposition, removeProvidersFromComposition, toProviderEntry } from './provider-composition';
 import type {
   RuntimeWiringOp,
   RuntimeWiringResult,
   RuntimeContribution,
   SymbolRef,
-  ProviderContribution,
   ImportContribution,
   InitStepContribution,
   RegistrationContribution,
@@ -101,7 +101,11 @@ export function wireRuntimeContribution(
   
   // Fast check: if marker exists, already injected (skip)
   // Note: Skip marker check for imports - they need per-symbol idempotency check via AST
-  if (op.contribution.type !== 'import' && hasInjectionMarker(filePath, operationId)) {
+  // Providers are skipped when the composed providers region already contains them unchanged
+  const alreadyWired = op.contribution.type === 'provider'
+    ? isProviderComposed(filePath, op)
+    : op.contribution.type !== 'import' && hasInjectionMarker(filePath, operationId);
+  if (alreadyWired) {
     return {
       success: true,
       file: op.file,
@@ -149,9 +153,7 @@ export function wireRuntimeContribution(
         // All imports already exist - mark as injected for future runs
         // Add marker for idempotency tracking
         const content = readTextFile(filePath);
-        const marker = createInjectionMarker(operationId);
-        const markerLine = `\n${marker}`;
-        const newContent = content.trim() + markerLine + '\n';
+        const newContent = appendTrackingMarker(content, createInjectionMarker(operationId));
         if (!dryRun) {
           writeTextFile(filePath, newContent);
         }
@@ -200,12 +202,9 @@ export function wireRuntimeContribution(
       // Add injection marker after successful injection (for idempotency tracking)
       const content = readTextFile(filePath);
       const marker = createInjectionMarker(operationId);
-      // Add marker at the end of the file (or after last import if imports)
-      const markerLine = `\n${marker}`;
       // Only add if not already present
       if (!content.includes(marker)) {
-        const newContent = content.trim() + markerLine + '\n';
-        writeTextFile(filePath, newContent);
+        writeTextFile(filePath, appendTrackingMarker(content, marker));
       }
     }
 
@@ -232,6 +231,14 @@ export function wireRuntimeContribution(
   }
 }
 
+/**
+ * Appends a tracking marker line at the end of the file
+ * The existing content is kept as is, so removing the marker line restores it exactly
+ */
+function appendTrackingMarker(content: string, marker: string): string {
+  return `${content}${content.endsWith('\n') ? '' : '\n'}${marker}\n`;
+}
+
 /**
  * Wires multiple runtime contributions
  * Automatically sorts by order before applying
@@ -300,10 +307,14 @@ function injectContributionViaAST(
       injectImportContribution(sourceFile, op.contribution, op.capabilityId, markerStartLine);
       break;
     case 'provider':
-      injectProviderContribution(sourceFile, op.contribution, op.capabilityId, markerStartLine, markerEndLine);
+      injectProviderContribution(sourceFile, op);
       break;
     case 'init-step':
-      injectInitStepContribution(sourceFile, op.contribution, op.capabilityId, markerStartLine, markerEndLine);
+      if (op.markerType === 'async-init-steps') {
+        injectAsyncInitStepContribution(sourceFile, op.contribution, op.capabilityId, markerEndLine);
+      } else {
+        injectInitStepContribution(sourceFile, op.contribution, op.capabilityId, markerStartLine, markerEndLine);
+      }
       break;
     case 'registration':
       injectRegistrationContribution(sourceFile, op.contribution, op.capabilityId, markerStartLine, markerEndLine);
@@ -311,8 +322,10 @@ function injectContributionViaAST(
     case 'root':
       injectRootContribution(sourceFile, op.contribution, op.capabilityId, markerStartLine, markerEndLine);
       break;
-    default:
-      throw new Error(`Unknown contribution type: ${(op.contribution as any).type}`);
+    default: {
+      const unreachable: never = op.contribution;
+      throw new Error(`Unknown contribution type: ${JSON.stringify(unreachable)}`);
+    }
   }
 
   // Save the modified file
@@ -393,48 +406,27 @@ function injectImportContribution(
 }
 
 /**
- * Injects provider wrapper using AST
- * Note: JSX wrapping is complex with ts-morph. We inject the provider as a statement
- * that wraps children, expecting the marker region to contain JSX children.
+ * Injects a provider into the composed providers region
+ * The whole region is regenerated as one nested tree (see provider-composition.ts)
  */
-function injectProviderContribution(
-  sourceFile: SourceFile,
-  contribution: ProviderContribution,
-  capabilityId: string,
-  markerStartLine: number,
-  markerEndLine: number
-): void {
-  // Build provider JSX element string. String values that are valid identifiers
-  // are emitted as variable refs (e.g. client={queryClient}), others as literals.
-  const propsStr = contribution.props
-    ? ' ' + Object.entries(contribution.props)
-        .map(([k, v]) => {
-          if (typeof v === 'string' && /^[a-zA-Z_$][a-zA-Z0-9_$]*$/.test(v)) {
-            return `${k}={${v}}`;
-          }
-          return `${k}={${JSON.stringify(v)}}`;
-        })
-        .join(' ')
-    : '';
-  
-  const providerOpen = `<${contribution.provider.symbol}${propsStr}>`;
-  const providerClose = `</${contribution.provider.symbol}>`;
-  
-  const injectionMarker = createInjectionMarker(`${capabilityId}-provider`);
-  
-  // Insert provider wrapper before end marker
-  // We inject: open tag, then existing content, then close tag
-  const content = sourceFile.getFullText();
-  const lines = content.split('\n');
-  const beforeMarker = lines.slice(0, markerEndLine - 1).join('\n');
-  const afterMarker = lines.slice(markerEndLine - 1).join('\n');
-  
-  // Calculate insertion position (just before end marker)
-  const insertionPos = beforeMarker.length;
-  
-  // Insert provider wrapper
-  const providerCode = `\n    // ${injectionMarker}\n    ${providerOpen}\n      {children}\n    ${providerClose}\n`;
-  sourceFile.insertText(insertionPos, providerCode);
+function injectProviderContribution(sourceFile: SourceFile, op: RuntimeWiringOp): void {
+  const updated = addProvidersToComposition(sourceFile.getFullText(), [toProviderEntry(op)]);
+  if (updated === null) {
+    throw new Error(`Marker not found: @rns-marker:providers`);
+  }
+  sourceFile.replaceWithText(updated);
+}
+
+/**
+ * Checks if a provider is already composed (same record) in the file's providers region
+ */
+function isProviderComposed(filePath: string, op: RuntimeWiringOp): boolean {
+  try {
+    const content = readTextFile(filePath);
+    return addProvidersToComposition(content, [toProviderEntry(op)]) === content;
+  } catch {
+    return false;
+  }
 }
 
 /**
@@ -471,6 +463,54 @@ function injectInitStepContribution(
   }
 }
 
+/**
+ * Checks if an init step must run in initCoreAsync() (awaited and/or conditional)
+ * rather than inline in initCore()
+ */
+export function isScheduledInitStep(contribution: InitStepContribution): boolean {
+  return contribution.async === true
+    || contribution.platforms !== undefined
+    || contribution.featureFlag !== undefined
+    || contribution.timeoutMs !== undefined
+    || contribution.dependsOn !== undefined;
+}
+
+/**
+ * Injects an async/conditional init step as an entry of the asyncInitSteps list run by initCoreAsync()
+ * The entry id is the capability ID (what other steps' dependsOn refer to)
+ */
+function injectAsyncInitStepContribution(
+  sourceFile: SourceFile,
+  contribution: InitStepContribution,
+  capabilityId: string,
+  markerEndLine: number
+): void {
+  const injectionMarker = createInjectionMarker(`${capabilityId}-init-step`);
+
+  let run: string;
+  if (typeof contribution.step === 'string') {
+    // Raw code string (discouraged but supported), may use await
+    run = `async () => { ${contribution.step.trim().replace(/;$/, '')}; }`;
+  } else {
+    const argsStr = contribution.args ? contribution.args.map(a => JSON.stringify(a)).join(', ') : '';
+    run = `() => ${contribution.step.symbol}(${argsStr})`;
+  }
+
+  const fields = [
+    `id: ${JSON.stringify(capabilityId)}`,
+    `run: ${run}`,
+    ...(contribution.platforms ? [`platforms: ${JSON.stringify(contribution.platforms)}`] : []),
+    ...(contribution.featureFlag ? [`featureFlag: ${JSON.stringify(contribution.featureFlag)}`] : []),
+    ...(contribution.timeoutMs !== undefined ? [`timeoutMs: ${contribution.timeoutMs}`] : []),
+    ...(contribution.dependsOn?.length ? [`dependsOn: ${JSON.stringify(contribution.dependsOn)}`] : []),
+  ];
+
+  const lines = sourceFile.getFullText().split('\n');
+  const insertionPos = lines.slice(0, markerEndLine - 1).join('\n').length;
+  const entry = `\n  // ${injectionMarker}\n  {\n${fields.map(field => `    ${field},`).join('\n')}\n  },\n`;
+  sourceFile.insertText(insertionPos, entry);
+}
+
 /**
  * Injects registration using AST
  */
@@ -503,7 +543,8 @@ function injectRegistrationContribution(
 
 /**
  * Injects root component replacement using AST
- * Replaces the return statement content within the root marker
+ * Replaces the return statement content within the root marker. The replaced lines are kept as
+ * `// @rns-root-default:` comments so unwiring can restore them.
  */
 function injectRootContribution(
   sourceFile: SourceFile,
@@ -512,26 +553,302 @@ function injectRootContribution(
   markerStartLine: number,
   markerEndLine: number
 ): void {
-  // Root replacement replaces the content between markers
   const injectionMarker = createInjectionMarker(`${capabilityId}-root`);
-  const rootCode = `  // ${injectionMarker}\n  return <${contribution.root.symbol} />;`;
-  
-  // Replace content between markers
-  const content = sourceFile.getFullText();
+  const lines = sourceFile.getFullText().split('\n');
+  const indent = lines[markerStartLine - 1].match(/^\s*/)![0];
+  const region = lines.slice(markerStartLine, markerEndLine - 1);
+
+  // A previous root replacement already saved the original content
+  const savedDefaults = region.filter(line => ROOT_DEFAULT_PATTERN.test(line));
+  const defaults = savedDefaults.length > 0
+    ? savedDefaults
+    : region.map(line => `${indent}${ROOT_DEFAULT_PREFIX}${line}`);
+
+  sourceFile.replaceWithText([
+    ...lines.slice(0, markerStartLine),
+    `${indent}${injectionMarker}`,
+    ...defaults,
+    `${indent}return <${contribution.root.symbol} />;`,
+    ...lines.slice(markerEndLine - 1),
+  ].join('\n'));
+}
+
+/**
+ * Prefix of root region lines saved by a root replacement
+ */
+const ROOT_DEFAULT_PREFIX = '// @rns-root-default:';
+const ROOT_DEFAULT_PATTERN = /^\s*\/\/ @rns-root-default:(.*)$/;
+
+/**
+ * Root region restored when no saved content exists (the runtime template's MinimalUI)
+ */
+const DEFAULT_ROOT_LINES = ['return (', '  <RootProvider>', '    <MinimalUI />', '  </RootProvider>', ');'];
+
+/**
+ * Removes a single runtime contribution (inverse of wireRuntimeContribution)
+ * Removes exactly what the capability injected: its provider from the composed tree, its
+ * init-step/registration call, imports no other code references anymore, its root replacement
+ * (restoring the previous root, MinimalUI by default) and its tracking markers.
+ * 
+ * @param projectRoot - Project root directory
+ * @param op - Runtime wiring operation that was applied
+ * @param dryRun - If true, don't write changes
+ * @returns Wiring result (action 'removed', or 'skipped' if nothing was wired)
+ */
+export function unwireRuntimeContribution(
+  projectRoot: string,
+  op: RuntimeWiringOp,
+  dryRun: boolean = false
+): RuntimeWiringResult {
+  const filePath = join(projectRoot, op.file);
+  const result = (action: RuntimeWiringResult['action'], extra: Partial<RuntimeWiringResult> = {}): RuntimeWiringResult => ({
+    success: action !== 'error',
+    file: op.file,
+    markerType: op.markerType,
+    capabilityId: op.capabilityId,
+    contributionType: op.contribution.type,
+    action,
+    ...extra,
+  });
+
+  // Nothing to unwire if the file is gone
+  if (!pathExists(filePath)) {
+    return result('skipped');
+  }
+
+  if (!isCliManagedZone(filePath, projectRoot)) {
+    return result('error', { error: `Runtime wiring only allowed in SYSTEM ZONE (packages/@rns/**). File: ${op.file}` });
+  }
+
+  try {
+    const content = readTextFile(filePath);
+    const updated = removeContribution(content, op);
+    if (updated === content) {
+      return result('skipped');
+    }
+
+    let backupPath: string | null = null;
+    if (!dryRun) {
+      const backupDir = createBackupDirectory(projectRoot, `unwire-${op.capabilityId}`);
+      backupPath = backupFile(projectRoot, filePath, backupDir);
+      writeTextFile(filePath, updated);
+    }
+    return result('removed', { backupPath: backupPath || undefined });
+  } catch (error) {
+    return result('error', { error: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Removes multiple runtime contributions
+ * Applied in reverse wiring order with imports last, so an import is only removed once the
+ * code referencing it is gone
+ * 
+ * @param projectRoot - Project root directory
+ * @param ops - Array of wiring operations that were applied
+ * @param dryRun - If true, don't write changes
+ * @returns Array of wiring results
+ */
+export function unwireRuntimeContributions(
+  projectRoot: string,
+  ops: RuntimeWiringOp[],
+  dryRun: boolean = false
+): RuntimeWiringResult[] {
+  const getOrder = (op: RuntimeWiringOp) => op.order ?? ('order' in op.contribution ? op.contribution.order : undefined) ?? 0;
+  const sortedOps = [...ops].sort((a, b) => {
+    const importA = a.contribution.type === 'import' ? 1 : 0;
+    const importB = b.contribution.type === 'import' ? 1 : 0;
+    if (importA !== importB) {
+      return importA - importB;
+    }
+    if (getOrder(a) !== getOrder(b)) {
+      return getOrder(b) - getOrder(a);
+    }
+    return b.capabilityId.localeCompare(a.capabilityId);
+  });
+
+  return sortedOps.map(op => unwireRuntimeContribution(projectRoot, op, dryRun));
+}
+
+/**
+ * Removes a contribution from file content (tracking marker + injected nodes)
+ */
+function removeContribution(content: string, op: RuntimeWiringOp): string {
+  const operationId = `${op.capabilityId}-${op.markerType}-${op.contribution.type}`;
+  const trackingMarker = new RegExp(`^\\s*//\\s*@rns-inject:${escapeRegExp(operationId)}:`);
+  const withoutTracking = content.split('\n').filter(line => !trackingMarker.test(line)).join('\n');
+
+  switch (op.contribution.type) {
+    case 'provider':
+      return removeProvidersFromComposition(withoutTracking, op.capabilityId, op.contribution.provider.symbol) ?? withoutTracking;
+    case 'init-step':
+      return removeInjectedStatement(withoutTracking, `${op.capabilityId}-init-step`, op.contribution.step);
+    case 'registration':
+      return removeInjectedStatement(withoutTracking, `${op.capabilityId}-registration`, op.contribution.registration);
+    case 'root':
+      return removeRootContribution(withoutTracking, op.capabilityId);
+    case 'import':
+      return removeUnreferencedImports(withoutTracking, op.contribution);
+    default: {
+      const unreachable: never = op.contribution;
+      throw new Error(`Unknown contribution type: ${JSON.stringify(unreachable)}`);
+    }
+  }
+}
+
+/**
+ * Removes an injected init-step/registration call: the inline marker comment, the statement (or
+ * asyncInitSteps entry) it annotates (matched via AST) and the blank line written after it
+ */
+function removeInjectedStatement(content: string, markerId: string, call: SymbolRef | string): string {
+  const sourceFile = createInMemorySourceFile(content);
+  const markerPattern = new RegExp(`@rns-inject:${escapeRegExp(markerId)}:`);
+  const expected = typeof call === 'string' ? call.trim().replace(/;$/, '') : undefined;
+
+  const candidates: Node[] = [
+    ...sourceFile.getDescendantsOfKind(SyntaxKind.ExpressionStatement),
+    ...sourceFile.getDescendantsOfKind(SyntaxKind.ObjectLiteralExpression),
+  ];
+  const statement = candidates.find(candidate => {
+    const annotated = candidate.getLeadingCommentRanges().some(range => markerPattern.test(range.getText()));
+    if (!annotated) {
+      return false;
+    }
+    const expression = getInjectedCall(candidate);
+    if (!expression) {
+      return false;
+    }
+    if (expected !== undefined) {
+      return expression.getText() === expected;
+    }
+    return Node.isCallExpression(expression) && expression.getExpression().getText() === (call as SymbolRef).symbol;
+  });
+  if (!statement) {
+    return content;
+  }
+
+  const markerRange = statement.getLeadingCommentRanges().find(range => markerPattern.test(range.getText()))!;
   const lines = content.split('\n');
-  const beforeMarker = lines.slice(0, markerStartLine).join('\n');
-  const afterMarker = lines.slice(markerEndLine - 1).join('\n');
-  
-  // Calculate positions for replacement
-  const startPos = content.split('\n').slice(0, markerStartLine).join('\n').length;
-  const endPos = content.split('\n').slice(0, markerEndLine - 1).join('\n').length;
-  
-  // Replace the marker content
-  sourceFile.replaceWithText(
-    content.substring(0, startPos) +
-    '\n' + rootCode + '\n' +
-    content.substring(endPos)
-  );
+  const first = sourceFile.getLineAndColumnAtPos(markerRange.getPos()).line - 1;
+  let last = statement.getEndLineNumber() - 1;
+  if (lines[last + 1]?.trim() === '') {
+    last++;
+  }
+  return [...lines.slice(0, first), ...lines.slice(last + 1)].join('\n');
+}
+
+/**
+ * Gets the injected call of a statement, or of an asyncInitSteps entry's `run` function
+ */
+function getInjectedCall(node: Node): Node | undefined {
+  if (Node.isExpressionStatement(node)) {
+    return node.getExpression();
+  }
+  if (!Node.isObjectLiteralExpression(node)) {
+    return undefined;
+  }
+
+  const run = node.getProperty('run');
+  const fn = run && Node.isPropertyAssignment(run) ? run.getInitializer() : undefined;
+  if (!fn || !Node.isArrowFunction(fn)) {
+    return undefined;
+  }
+  const body = fn.getBody();
+  if (!Node.isBlock(body)) {
+    return body;
+  }
+  const statements = body.getStatements();
+  return statements.length === 1 && Node.isExpressionStatement(statements[0]) ? statements[0].getExpression() : undefined;
+}
+
+/**
+ * Restores the root region replaced by a capability (saved content, MinimalUI by default)
+ */
+function removeRootContribution(content: string, capabilityId: string): string {
+  const lines = content.split('\n');
+  const start = lines.findIndex(line => /\/\/\s*@rns-marker:root:start/.test(line));
+  const end = lines.findIndex((line, index) => index > start && /\/\/\s*@rns-marker:root:end/.test(line));
+  if (start < 0 || end < 0) {
+    return content;
+  }
+
+  // Only the capability that currently owns the root can restore it
+  const region = lines.slice(start + 1, end);
+  const ownerMarker = new RegExp(`@rns-inject:${escapeRegExp(capabilityId)}-root:`);
+  if (!region.some(line => ownerMarker.test(line))) {
+    return content;
+  }
+
+  const indent = lines[start].match(/^\s*/)![0];
+  const saved = region.map(line => line.match(ROOT_DEFAULT_PATTERN)).filter((match): match is RegExpMatchArray => match !== null);
+  const restored = saved.length > 0
+    ? saved.map(match => match[1])
+    : DEFAULT_ROOT_LINES.map(line => `${indent}${line}`);
+
+  return [...lines.slice(0, start + 1), ...restored, ...lines.slice(end)].join('\n');
+}
+
+/**
+ * Removes imported symbols of an import contribution that nothing in the file references anymore
+ */
+function removeUnreferencedImports(content: string, contribution: ImportContribution): string {
+  const sourceFile = createInMemorySourceFile(content);
+  const emptied = new Set<ImportDeclaration>();
+  let changed = false;
+
+  for (const symbolRef of contribution.imports) {
+    const declaration = sourceFile.getImportDeclarations()
+      .find(imp => imp.getModuleSpecifierValue() === symbolRef.source);
+    const namedImport = declaration?.getNamedImports().find(named => named.getName() === symbolRef.symbol);
+    if (!declaration || !namedImport) {
+      continue;
+    }
+
+    const referenced = sourceFile.getDescendantsOfKind(SyntaxKind.Identifier)
+      .some(identifier => identifier.getText() === symbolRef.symbol && !identifier.getFirstAncestorByKind(SyntaxKind.ImportDeclaration));
+    if (referenced) {
+      continue;
+    }
+
+    const remaining = declaration.getNamedImports().filter(named => named !== namedImport);
+    if (remaining.length === 0 && !declaration.getDefaultImport() && !declaration.getNamespaceImport()) {
+      emptied.add(declaration);
+    } else {
+      namedImport.remove();
+    }
+    changed = true;
+  }
+
+  if (!changed) {
+    return content;
+  }
+
+  // Emptied declarations are removed by line (ts-morph would also remove the following blank line)
+  const lines = sourceFile.getFullText().split('\n');
+  const removedLines = new Set<number>();
+  for (const declaration of emptied) {
+    for (let line = declaration.getStartLineNumber(); line <= declaration.getEndLineNumber(); line++) {
+      removedLines.add(line - 1);
+    }
+  }
+  return lines.filter((_, index) => !removedLines.has(index)).join('\n');
+}
+
+/**
+ * Parses content into an in-memory ts-morph source file
+ */
+function createInMemorySourceFile(content: string): SourceFile {
+  const project = new Project({
+    skipAddingFilesFromTsConfig: true,
+    skipFileDependencyResolution: true,
+    skipLoadingLibFiles: true,
+    useInMemoryFileSystem: true,
+  });
+  return project.createSourceFile('unwire.tsx', content);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
 /**
@@ -580,6 +897,14 @@ export function validateWiringOps(
     if (op.contribution.type === 'import' && !op.contribution.imports.length) {
       errors.push(`Import contribution must have at least one import (capability: ${op.capabilityId})`);
     }
+    if (op.contribution.type === 'init-step' && isScheduledInitStep(op.contribution) !== (op.markerType === 'async-init-steps')) {
+      errors.push(
+        `Async/conditional init steps must use the async-init-steps marker and plain steps the init-steps marker (capability: ${op.capabilityId})`
+      );
+    }
+    if (op.contribution.type === 'init-step' && op.contribution.dependsOn?.includes(op.capabilityId)) {
+      errors.push(`Init step cannot depend on its own capability (capability: ${op.capabilityId})`);
+    }
   }
 
   return errors;
@@ -0,0 +1,101 @@
+/**
+ * FILE: src/lib/semver.ts
+ * PURPOSE: Minimal semver comparison and range matching (no external dependency)
+ * OWNERSHIP: CLI
+ *
+ * Supported ranges: space-separated comparators (">=1.0.0 <2.0.0", "<2", "=1.2.3", "1.2.3"),
+ * alternatives joined with "||", and "*" (any version). Prerelease tags are compared as strings.
+ */
+
+/**
+ * Parsed version
+ */
+interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  prerelease?: string;
+}
+
+/**
+ * Parses a version string ("1", "1.2", "1.2.3", "v1.2.3-beta.1")
+ *
+ * @returns Parsed version, or null if invalid
+ */
+function parseVersion(version: string): ParsedVersion | null {
+  const match = version.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2] ?? 0),
+    patch: Number(match[3] ?? 0),
+    prerelease: match[4],
+  };
+}
+
+/**
+ * Checks whether a string is a valid version
+ */
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+/**
+ * Compares two versions
+ *
+ * @returns Negative if a < b, 0 if equal, positive if a > b
+ * @throws Error if either version is invalid
+ */
+export function compareVersions(a: string, b: string): number {
+  const va = parseVersion(a);
+  const vb = parseVersion(b);
+  if (!va || !vb) {
+    throw new Error(`Invalid version: "${!va ? a : b}"`);
+  }
+
+  const diff = va.major - vb.major || va.minor - vb.minor || va.patch - vb.patch;
+  if (diff !== 0) {
+    return diff;
+  }
+  // A prerelease sorts before its release (1.0.0-beta < 1.0.0)
+  if (va.prerelease === vb.prerelease) {
+    return 0;
+  }
+  if (!va.prerelease) {
+    return 1;
+  }
+  if (!vb.prerelease) {
+    return -1;
+  }
+  return va.prerelease.localeCompare(vb.prerelease);
+}
+
+/**
+ * Checks whether a version satisfies a range
+ *
+ * @throws Error if the range or version is invalid
+ */
+export function satisfiesRange(version: string, range: string): boolean {
+  return range.split('||').some(alternative => {
+    const comparators = alternative.trim().split(/\s+/).filter(Boolean);
+    if (comparators.length === 0 || (comparators.length === 1 && comparators[0] === '*')) {
+      return true;
+    }
+    return comparators.every(comparator => {
+      const match = comparator.match(/^(>=|<=|>|<|=)?(.+)$/);
+      if (!match || !isValidVersion(match[2])) {
+        throw new Error(`Invalid version range: "${range}"`);
+      }
+      const cmp = compareVersions(version, match[2]);
+      switch (match[1]) {
+        case '>=': return cmp >= 0;
+        case '<=': return cmp <= 0;
+        case '>': return cmp > 0;
+        case '<': return cmp < 0;
+        default: return cmp === 0;
+      }
+    });
+  });
+}
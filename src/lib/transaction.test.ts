@@ -0,0 +1,109 @@
+/**
+ * FILE: src/lib/transaction.test.ts
+ * PURPOSE: Unit/spec tests for file transactions (record created/modified files, rollback)
+ * OWNERSHIP: CLI
+ * 
+ * Tests validate:
+ * - Modified files are backed up once and restored byte-identical on rollback
+ * - Created files and directories are deleted on rollback
+ * - New files in tracked directories are detected
+ * - Transaction record is persisted in the backup directory
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { FileTransaction, TRANSACTION_RECORD_FILE } from './transaction';
+import { createBackupDirectory } from './backup';
+import { pathExists, readJsonFile } from './fs';
+import type { TransactionRecord } from './types/transaction';
+
+describe('transaction', () => {
+  let testProjectRoot: string;
+  let transaction: FileTransaction;
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-project-'));
+    await writeFile(join(testProjectRoot, 'package.json'), '{ "name": "app" }\n');
+    const backupDir = createBackupDirectory(testProjectRoot, 'test-op');
+    transaction = new FileTransaction(testProjectRoot, backupDir, 'test-op');
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(testProjectRoot, { recursive: true, force: true });
+    } catch (e) {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should restore modified files and delete created files on rollback', async () => {
+    transaction.track('package.json');
+    transaction.track('app.json');
+    await writeFile(join(testProjectRoot, 'package.json'), '{ "name": "app", "dependencies": {} }\n');
+    await writeFile(join(testProjectRoot, 'app.json'), '{}\n');
+
+    const record = transaction.rollback();
+
+    expect(record.status).toBe('rolled-back');
+    expect(record.modified).toEqual(['package.json']);
+    expect(record.created).toEqual(['app.json']);
+    expect(await readFile(join(testProjectRoot, 'package.json'), 'utf-8')).toBe('{ "name": "app" }\n');
+    expect(pathExists(join(testProjectRoot, 'app.json'))).toBe(false);
+  });
+
+  it('should back up a file only once (first state wins)', async () => {
+    transaction.track('package.json');
+    await writeFile(join(testProjectRoot, 'package.json'), 'first change');
+    transaction.track('package.json');
+    await writeFile(join(testProjectRoot, 'package.json'), 'second change');
+
+    transaction.rollback();
+
+    expect(await readFile(join(testProjectRoot, 'package.json'), 'utf-8')).toBe('{ "name": "app" }\n');
+  });
+
+  it('should detect new files and directories in tracked directories', async () => {
+    const pluginDir = join(testProjectRoot, 'packages', '@rns', 'state', 'zustand');
+    transaction.trackDir(pluginDir);
+    await mkdir(join(pluginDir, 'src'), { recursive: true });
+    await writeFile(join(pluginDir, 'index.ts'), 'export {};\n');
+    await writeFile(join(pluginDir, 'src', 'store.ts'), 'export {};\n');
+
+    expect(transaction.getChanges().created).toEqual([
+      join('packages', '@rns', 'state', 'zustand', 'index.ts'),
+      join('packages', '@rns', 'state', 'zustand', 'src', 'store.ts'),
+    ]);
+
+    transaction.rollback();
+
+    expect(pathExists(join(testProjectRoot, 'packages'))).toBe(false);
+  });
+
+  it('should keep pre-existing files in tracked directories', async () => {
+    const categoryDir = join(testProjectRoot, 'src', 'state');
+    await mkdir(categoryDir, { recursive: true });
+    await writeFile(join(categoryDir, 'user.ts'), 'user code');
+    transaction.trackDir(categoryDir);
+    await writeFile(join(categoryDir, 'zustand.ts'), 'generated');
+
+    transaction.rollback();
+
+    expect(await readFile(join(categoryDir, 'user.ts'), 'utf-8')).toBe('user code');
+    expect(pathExists(join(categoryDir, 'zustand.ts'))).toBe(false);
+  });
+
+  it('should persist the transaction record on commit', async () => {
+    transaction.track('app.json');
+    await writeFile(join(testProjectRoot, 'app.json'), '{}\n');
+
+    transaction.commit();
+
+    const record = readJsonFile<TransactionRecord>(join(transaction.backupDir, TRANSACTION_RECORD_FILE));
+    expect(record.status).toBe('committed');
+    expect(record.operationId).toBe('test-op');
+    expect(record.created).toEqual(['app.json']);
+    expect(pathExists(join(testProjectRoot, 'app.json'))).toBe(true);
+  });
+});
@@ -0,0 +1,235 @@
+/**
+ * FILE: src/lib/transaction.ts
+ * PURPOSE: File transactions for multi-phase operations (section 8, 15)
+ * OWNERSHIP: CLI
+ * 
+ * A transaction records every file an operation creates or modifies:
+ * - track(file) before writing: existing files are backed up once, missing files are recorded as created
+ * - trackDir(dir) before writing an unknown set of files into a directory: existing files are backed up,
+ *   anything new found there on rollback is deleted
+ * - rollback() restores backups and deletes created files/dirs (project returns byte-identical)
+ * - commit() finalizes the record
+ * 
+ * The record is persisted as `transaction.json` in the backup directory (.rns/backups/<timestamp>-<opId>/).
+ */
+
+import { join, relative, dirname } from 'path';
+import { readdirSync, rmdirSync, unlinkSync } from 'fs';
+import { pathExists, isDirectory, isFile, writeJsonFile } from './fs';
+import { backupFile, restoreFromBackup } from './backup';
+import type { TransactionRecord } from './types/transaction';
+
+/**
+ * Name of the transaction record file inside a backup directory
+ */
+export const TRANSACTION_RECORD_FILE = 'transaction.json';
+
+/**
+ * File transaction bound to a backup directory
+ */
+export class FileTransaction {
+  private readonly record: TransactionRecord;
+  /** Tracked directories → project-relative files/dirs that existed when tracking started */
+  private readonly trackedDirs = new Map<string, Set<string>>();
+
+  constructor(
+    private readonly projectRoot: string,
+    readonly backupDir: string,
+    operationId: string
+  ) {
+    this.record = {
+      operationId,
+      status: 'pending',
+      startedAt: new Date().toISOString(),
+      created: [],
+      modified: [],
+      createdDirs: [],
+    };
+  }
+
+  /**
+   * Tracks a file before it is written (absolute or project-relative path)
+   */
+  track(filePath: string): void {
+    const relativePath = this.toRelative(filePath);
+    if (this.isTracked(relativePath)) {
+      return;
+    }
+
+    const absolutePath = join(this.projectRoot, relativePath);
+    if (isFile(absolutePath)) {
+      backupFile(this.projectRoot, absolutePath, this.backupDir);
+      this.record.modified.push(relativePath);
+    } else {
+      this.trackMissingParents(dirname(relativePath));
+      this.record.created.push(relativePath);
+    }
+  }
+
+  /**
+   * Tracks a directory before an unknown set of files is written into it
+   */
+  trackDir(dirPath: string): void {
+    const relativeDir = this.toRelative(dirPath);
+    if (this.trackedDirs.has(relativeDir)) {
+      return;
+    }
+
+    const existing = new Set<string>();
+    const absoluteDir = join(this.projectRoot, relativeDir);
+    if (isDirectory(absoluteDir)) {
+      for (const dir of listDirs(absoluteDir)) {
+        existing.add(relative(this.projectRoot, dir));
+      }
+      for (const file of listFiles(absoluteDir)) {
+        const relativePath = relative(this.projectRoot, file);
+        existing.add(relativePath);
+        this.track(relativePath);
+      }
+    } else {
+      this.trackMissingParents(relativeDir);
+    }
+    this.trackedDirs.set(relativeDir, existing);
+  }
+
+  /**
+   * Files created/modified so far (includes new files found in tracked directories)
+   */
+  getChanges(): { created: string[]; modified: string[] } {
+    this.collectDirChanges();
+    return {
+      created: [...this.record.created].sort(),
+      modified: [...this.record.modified].sort(),
+    };
+  }
+
+  /**
+   * Finalizes the transaction and persists its record
+   */
+  commit(): TransactionRecord {
+    this.collectDirChanges();
+    return this.finish('committed');
+  }
+
+  /**
+   * Restores modified files from backup and deletes created files/dirs
+   */
+  rollback(): TransactionRecord {
+    this.collectDirChanges();
+
+    for (const file of this.record.modified) {
+      restoreFromBackup(join(this.backupDir, file), join(this.projectRoot, file));
+    }
+
+    for (const file of this.record.created) {
+      const absolutePath = join(this.projectRoot, file);
+      if (isFile(absolutePath)) {
+        unlinkSync(absolutePath);
+      }
+    }
+
+    // Deepest directories first
+    const createdDirs = [...this.record.createdDirs].sort((a, b) => b.length - a.length);
+    for (const dir of createdDirs) {
+      removeDirIfEmpty(join(this.projectRoot, dir));
+    }
+
+    return this.finish('rolled-back');
+  }
+
+  private finish(status: TransactionRecord['status']): TransactionRecord {
+    this.record.status = status;
+    this.record.finishedAt = new Date().toISOString();
+    this.record.created.sort();
+    this.record.modified.sort();
+    this.record.createdDirs.sort();
+    writeJsonFile(join(this.backupDir, TRANSACTION_RECORD_FILE), this.record);
+    return { ...this.record };
+  }
+
+  /**
+   * Records files that appeared in tracked directories since tracking started
+   */
+  private collectDirChanges(): void {
+    for (const [relativeDir, existing] of this.trackedDirs) {
+      const absoluteDir = join(this.projectRoot, relativeDir);
+      if (!isDirectory(absoluteDir)) {
+        continue;
+      }
+      for (const dir of listDirs(absoluteDir)) {
+        const relativePath = relative(this.projectRoot, dir);
+        if (!existing.has(relativePath) && !this.record.createdDirs.includes(relativePath)) {
+          this.record.createdDirs.push(relativePath);
+        }
+      }
+      for (const file of listFiles(absoluteDir)) {
+        const relativePath = relative(this.projectRoot, file);
+        if (!existing.has(relativePath) && !this.isTracked(relativePath)) {
+          this.record.created.push(relativePath);
+        }
+      }
+    }
+  }
+
+  /**
+   * Records directories (up to project root) that don't exist yet
+   */
+  private trackMissingParents(relativeDir: string): void {
+    let current = relativeDir;
+    while (current && current !== '.' && !this.record.createdDirs.includes(current)) {
+      if (pathExists(join(this.projectRoot, current))) {
+        // Already existed before the transaction unless we recorded it as created
+        break;
+      }
+      this.record.createdDirs.push(current);
+      current = dirname(current);
+    }
+  }
+
+  private isTracked(relativePath: string): boolean {
+    return this.record.created.includes(relativePath) || this.record.modified.includes(relativePath);
+  }
+
+  private toRelative(filePath: string): string {
+    return filePath.startsWith(this.projectRoot) ? relative(this.projectRoot, filePath) : filePath;
+  }
+}
+
+/**
+ * Lists files under a directory (recursive)
+ */
+function listFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const entryPath = join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...listFiles(entryPath));
+    } else {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Lists subdirectories under a directory (recursive)
+ */
+function listDirs(dir: string): string[] {
+  const dirs: string[] = [];
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      const entryPath = join(dir, entry.name);
+      dirs.push(entryPath, ...listDirs(entryPath));
+    }
+  }
+  return dirs;
+}
+
+/**
+ * Removes a directory if it exists and is empty
+ */
+export function removeDirIfEmpty(dir: string): void {
+  if (isDirectory(dir) && readdirSync(dir).length === 0) {
+    rmdirSync(dir);
+  }
+}
@@ -38,6 +38,8 @@ export interface DependencyInstallOptions {
   verbose?: boolean;
   /** Dry run (don't actually install) */
   dryRun?: boolean;
+  /** Only edit package.json, never run the package manager (plan previews) */
+  manifestOnly?: boolean;
 }
 
 /**
@@ -47,7 +49,7 @@ export interface DependencyInstallResult {
   success: boolean;
   scope: DependencyScope;
   dependencies: DependencySpec[];
-  action: 'installed' | 'skipped' | 'error';
+  action: 'installed' | 'removed' | 'skipped' | 'error';
   error?: string;
   stdout?: string;
   stderr?: string;
@@ -26,10 +26,12 @@ export type DoctorCheckId =
   // Project checks
   | 'manifest.exists'
   | 'manifest.valid'
+  | 'manifest.schema'
   | 'markers.intact'
   | 'ownership.zones'
   | 'injections.duplicates'
-  | 'plugins.consistent';
+  | 'plugins.consistent'
+  | 'permissions.usage-descriptions';
 
 /**
  * Check severity
@@ -6,16 +6,20 @@
  * Canonical Docs: docs/cli-interface-and-types.md §2.2
  */
 
+import type { PluginDescriptorSnapshot } from './plugin';
+import type { JsonMergeAddition, PatchOp } from './patch-ops';
+
 /**
  * Manifest schema version for migration support
- * Increment when making breaking changes to the manifest structure
+ * Increment when making breaking changes to the manifest structure (and add a migration
+ * to src/lib/manifest-migrations.ts)
  */
-export type ManifestSchemaVersion = '1.0.0';
+export type ManifestSchemaVersion = '1.0.0' | '2.0.0';
 
 /**
  * Current manifest schema version
  */
-export const CURRENT_MANIFEST_SCHEMA_VERSION: ManifestSchemaVersion = '1.0.0';
+export const CURRENT_MANIFEST_SCHEMA_VERSION: ManifestSchemaVersion = '2.0.0';
 
 /**
  * Project identity information
@@ -45,6 +49,23 @@ export interface PermissionRequirementRecord {
   mandatory: boolean;
 }
 
+/**
+ * Where an installed plugin came from
+ * - builtin: templates/plugins inside the CLI install
+ * - local: directory declared in .rns/config.json pluginSources (path is project-relative)
+ * - npm: installed npm package declared in .rns/config.json pluginSources
+ * - init: option selected during `rns init` (initOptions records)
+ */
+export interface PluginSourceRecord {
+  type: 'builtin' | 'local' | 'npm' | 'init';
+  /** Project-relative directory (local sources) */
+  path?: string;
+  /** Package name (npm sources) */
+  package?: string;
+  /** Installed package version (npm sources) */
+  packageVersion?: string;
+}
+
 /**
  * Installed plugin/module record
  * Tracks what plugins/modules are installed and when
@@ -61,8 +82,18 @@ export interface InstalledPluginRecord {
   /** Files/directories owned by this plugin (for cleanup) */
   ownedFiles?: string[];
   ownedDirs?: string[];
+  /** Content hashes of owned files at generation time (sha256, keyed by ownedFiles path) */
+  fileHashes?: Record<string, string>;
   /** Permission requirements (for traceability) */
   permissions?: PermissionRequirementRecord[];
+  /** Plugin source (always recorded since schema 2.0.0; absent in 1.0.0 manifests = builtin) */
+  source?: PluginSourceRecord;
+  /** Descriptor snapshot at install/upgrade time (baseline for `rns plugin upgrade`) */
+  descriptor?: PluginDescriptorSnapshot;
+  /** What json-merge patches added, keyed by operation ID (revert removes only these) */
+  patchAdditions?: Record<string, JsonMergeAddition[]>;
+  /** Patches applied by upgrade migrations (reverted on remove like descriptor patches) */
+  migrationPatches?: PatchOp[];
   /** Last updated timestamp */
   updatedAt?: string;
 }
@@ -99,182 +130,11 @@ export interface RnsProjectManifest {
    */
   locales?: string[];
   /**
-   * Selected project feature options (section 29, 30).
+   * Init-selected project options (section 29, 30), one record per enabled option (schema 2.0.0).
+   * The record id is the option path ("i18n", "state.zustand", "styling.nativewind") and the
+   * source is { type: 'init' }. Schema 1.0.0 stored the nested selectedOptions object instead.
    */
-  selectedOptions?: {
-    // Common options (available for both Expo and Bare)
-    i18n: boolean;
-    theming: boolean;
-    reactNavigation: boolean;
-    styling: 'nativewind' | 'unistyles' | 'tamagui' | 'restyle' | 'stylesheet';
-    reactNativeScreens?: boolean; // Optional (currently auto-included with React Navigation)
-    reactNativePaper?: boolean; // Material Design component library
-    reactNativeElements?: boolean; // Component library (React Native Elements)
-    uiKitten?: boolean; // Component library (UI Kitten)
-    styledComponents?: boolean; // CSS-in-JS styling library
-    reactNativeWeb?: boolean; // Web support for React Native apps
-    
-    // State management options (section 31)
-    state?: {
-      zustand?: boolean; // Zustand - lightweight
-      xstate?: boolean; // XState - state machines
-      mobx?: boolean; // MobX - reactive state
-    };
-    
-    // Data fetching options (section 32)
-    dataFetching?: {
-      reactQuery?: boolean; // TanStack Query / React Query
-      apollo?: boolean; // Apollo Client
-      swr?: boolean; // SWR
-    };
-    
-    // Network transport options (section 33)
-    transport?: {
-      axios?: boolean; // Axios - HTTP client
-      websocket?: boolean; // WebSocket client with reconnection
-      firebase?: boolean; // Firebase SDK
-    };
-    
-    // Auth options (section 34)
-    auth?: {
-      firebase?: boolean; // Firebase Authentication
-      cognito?: boolean; // AWS Cognito
-      auth0?: boolean; // Auth0
-      customJwt?: boolean; // Custom JWT
-    };
-    
-    // AWS services options (section 35)
-    aws?: {
-      amplify?: boolean; // AWS Amplify
-      appsync?: boolean; // AWS AppSync
-      dynamodb?: boolean; // AWS DynamoDB
-      s3?: boolean; // AWS S3
-    };
-    
-    // Storage options (section 36)
-    storage?: {
-      mmkv?: boolean; // MMKV - fast key-value
-      sqlite?: boolean; // SQLite database
-      secure?: boolean; // Secure storage - keychain/keystore
-      filesystem?: boolean; // File system access
-    };
-    
-    // Firebase Products options (section 37)
-    firebase?: {
-      firestore?: boolean; // Cloud Firestore
-      realtimeDatabase?: boolean; // Realtime Database
-      storage?: boolean; // Cloud Storage
-      remoteConfig?: boolean; // Remote Config
-    };
-    
-    // Offline-first options (section 38)
-    offline?: {
-      netinfo?: boolean; // Network info detection
-      outbox?: boolean; // Offline queue/outbox pattern
-      sync?: boolean; // Sync manager
-    };
-    
-    // Notifications options (section 39)
-    notifications?: {
-      expo?: boolean; // Expo Notifications (Expo target only)
-      fcm?: boolean; // Firebase Cloud Messaging
-      onesignal?: boolean; // OneSignal
-    };
-    
-    // Maps/Location options (section 40)
-    maps?: {
-      location?: boolean; // Geolocation
-      google?: boolean; // Google Maps
-    };
-    
-    // Camera/Media options (section 41)
-    media?: {
-      camera?: boolean; // Camera access (Expo)
-      visionCamera?: boolean; // Vision Camera (Bare only)
-      picker?: boolean; // Image/Media picker
-    };
-    
-    // Payments options (section 42)
-    payments?: {
-      stripe?: boolean; // Stripe
-    };
-    
-    // IAP options (section 43) - single slot
-    iap?: {
-      revenuecat?: boolean; // RevenueCat
-      adapty?: boolean; // Adapty
-      appStore?: boolean; // App Store IAP
-      playBilling?: boolean; // Google Play Billing
-    };
-    
-    // Analytics/Observability options (section 44)
-    analytics?: {
-      firebase?: boolean; // Firebase Analytics
-      amplitude?: boolean; // Amplitude
-      sentry?: boolean; // Sentry
-      bugsnag?: boolean; // Bugsnag
-    };
-    
-    // Search options (section 45)
-    search?: {
-      algolia?: boolean; // Algolia
-      localIndex?: boolean; // Local search index
-    };
-    
-    // OTA Updates options (section 46) - single slot
-    ota?: {
-      expoUpdates?: boolean; // Expo Updates (Expo target only)
-      codePush?: boolean; // CodePush
-    };
-    
-    // Background Tasks options (section 47)
-    background?: {
-      tasks?: boolean; // Background tasks
-      geofencing?: boolean; // Geofencing
-      fetch?: boolean; // Background fetch
-    };
-    
-    // Privacy & Consent options (section 48)
-    privacy?: {
-      att?: boolean; // App Tracking Transparency
-      consent?: boolean; // Consent management
-      gdpr?: boolean; // GDPR compliance
-    };
-    
-    // Device/Hardware options (section 49)
-    device?: {
-      biometrics?: boolean; // Biometrics
-      bluetooth?: boolean; // Bluetooth
-    };
-    
-    // Testing options (section 50)
-    testing?: {
-      detox?: boolean; // Detox E2E testing
-    };
-    
-    // Expo-specific options (only available when target is Expo)
-    expoRouter?: boolean; // Currently implemented
-    expoLinking?: boolean; // URL handling and deep linking
-    expoStatusBar?: boolean; // Status bar customization
-    expoSystemUI?: boolean; // System UI customization
-    expoWebBrowser?: boolean; // Open links in browser
-    expoDevClient?: boolean; // Custom development client for native modules
-    expoVectorIcons?: boolean; // Vector icon library (Ionicons, MaterialIcons, etc.)
-    expoImage?: boolean; // Optimized image component with caching
-    expoLinearGradient?: boolean; // Linear gradient component
-    expoHaptics?: boolean; // Haptic feedback (vibrations)
-    expoDevice?: boolean; // Device information utilities
-    
-    // Bare-specific options (only available when target is Bare)
-    reactNativeKeychain?: boolean; // Secure keychain/keystore storage
-    reactNativeFS?: boolean; // Native file system access
-    reactNativePermissions?: boolean; // Unified permissions API for native modules
-    reactNativeFastImage?: boolean; // Optimized image loading with native caching
-    nativeModulesSupport?: boolean; // Provider SDKs and native configuration support
-    
-    // Deprecated/removed options (kept for backward compatibility)
-    authentication?: 'firebase' | 'supabase' | null; // Use plugin system instead
-  };
+  initOptions: InstalledPluginRecord[];
   /** CORE toggles (from init) */
   coreToggles?: Record<string, boolean>;
   /** Installed plugins */
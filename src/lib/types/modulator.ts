@@ -11,7 +11,12 @@ import type { RnsProjectManifest } from './manifest';
 import type { PackageManager, RnsTarget } from './common';
 import type { DependencySpec } from './dependencies';
 import type { RuntimeWiringOp } from './runtime';
-import type { PatchOp } from './patch-ops';
+import type { PatchOp, PatchOpResult } from './patch-ops';
+
+/**
+ * Modulator operation type
+ */
+export type ModulatorOperation = 'install' | 'remove' | 'upgrade' | 'configure' | 'replace';
 
 /**
  * Modulator context - project environment and configuration
@@ -27,6 +32,10 @@ export interface ModulatorContext {
   manifest: RnsProjectManifest;
   /** Runtime context (logger, flags, etc.) */
   runtimeContext: RuntimeContext;
+  /** Plugins installed earlier in the same operation (treated as installed by conflict checks, e.g. dry-run) */
+  pendingPlugins?: string[];
+  /** Plan preview on a scratch copy: dependencies are written to package.json, the package manager never runs */
+  simulate?: boolean;
 }
 
 /**
@@ -55,6 +64,50 @@ export interface DependencyPlan {
   dev: DependencySpec[];
   /** Scope for installation */
   scope?: 'workspace' | 'host' | `package:${string}`;
+  /** Package names to uninstall (upgrade: dependencies dropped by the new version; replace: the old plugin's) */
+  remove?: string[];
+}
+
+/**
+ * Upgrade delta - what changes between the installed and the current plugin descriptor
+ */
+export interface UpgradeDelta {
+  /** Installed version */
+  fromVersion: string;
+  /** Version being upgraded to */
+  toVersion: string;
+  /** False if the installed record has no descriptor snapshot (removals cannot be detected) */
+  baselineKnown: boolean;
+  /** npm dependency changes (runtime + dev) */
+  dependencies: {
+    added: DependencySpec[];
+    removed: string[];
+    changed: Array<{ name: string; from: string; to: string }>;
+  };
+  /** Runtime wiring changes */
+  runtimeWiring: {
+    added: RuntimeWiringOp[];
+    removed: RuntimeWiringOp[];
+  };
+  /** Patch changes (matched by operationId) */
+  patches: {
+    added: PatchOp[];
+    removed: PatchOp[];
+    changed: PatchOp[];
+  };
+  /** Permission ID changes */
+  permissions: {
+    added: string[];
+    removed: string[];
+  };
+  /** Pack file changes (pack-relative; computed during the scaffold phase) */
+  packFiles: {
+    added: string[];
+    removed: string[];
+    updated: string[];
+  };
+  /** Migration steps selected for the installed version */
+  migrations: Array<{ range: string; description?: string }>;
 }
 
 /**
@@ -92,13 +145,15 @@ export interface ModulatorPlan {
   /** Plugin/module ID */
   capabilityId: string;
   /** Plan type */
-  operation: 'install' | 'remove';
+  operation: ModulatorOperation;
   /** Dependency plan */
   dependencies: DependencyPlan;
   /** Runtime wiring operations */
   runtimeWiring: RuntimeWiringOp[];
   /** Patch operations */
   patches: PatchOp[];
+  /** Recorded patches the upgrade drops or changes (reverted before `patches` are applied) */
+  revertPatches?: PatchOp[];
   /** Permissions summary */
   permissions: PermissionsSummary;
   /** Conflicts detected */
@@ -107,8 +162,19 @@ export interface ModulatorPlan {
   filesToCreate: string[];
   /** Files that will be modified */
   filesToModify: string[];
-  /** Files that will be removed (remove operation only) */
+  /** Files that will be removed (remove and upgrade operations) */
   filesToRemove?: string[];
+  /** Upgrade delta (upgrade operation only) */
+  upgrade?: UpgradeDelta;
+  /** Replace: removal of the old plugin then install of the new one, applied as one transaction */
+  replace?: {
+    /** Plugin being replaced */
+    fromId: string;
+    /** Slots the new plugin takes over */
+    slots: string[];
+    /** Sub-plans in apply order (remove, install) */
+    plans: ModulatorPlan[];
+  };
   /** Manifest updates */
   manifestUpdates: {
     plugins?: Array<{ id: string; version: string; options?: Record<string, unknown> }>;
@@ -123,7 +189,7 @@ export interface ModulatorResult {
   /** Success status */
   success: boolean;
   /** Operation type */
-  operation: 'install' | 'remove';
+  operation: ModulatorOperation;
   /** Capability ID */
   capabilityId: string;
   /** Phase results */
@@ -136,6 +202,15 @@ export interface ModulatorResult {
   manifestUpdated: boolean;
   /** Backup directory (if created) */
   backupDir?: string;
+  /** Files created/modified by the operation (project-relative; not set in dry-run) */
+  changes?: {
+    created: string[];
+    modified: string[];
+  };
+  /** True if a failed phase caused all changes to be rolled back */
+  rolledBack?: boolean;
+  /** Patch revert results (remove/replace): reverted, retained for another plugin, or skipped */
+  revertedPatches?: PatchOpResult[];
 }
 
 /**
@@ -147,14 +222,30 @@ export interface IModulator {
    * 
    * @param context - Modulator context
    * @param capabilityId - Plugin/module ID to plan
-   * @param operation - Operation type (install/remove)
+   * @param operation - Operation type (install/remove/upgrade/configure)
    * @param options - Installation options
    * @returns Plan of changes
    */
   plan(
     context: ModulatorContext,
     capabilityId: string,
-    operation: 'install' | 'remove',
+    operation: Exclude<ModulatorOperation, 'replace'>,
+    options?: Record<string, unknown>
+  ): Promise<ModulatorPlan>;
+
+  /**
+   * Plans replacing an installed plugin with another plugin filling the same slot
+   * 
+   * @param context - Modulator context
+   * @param fromId - Installed plugin to replace
+   * @param toId - Plugin to install in its place
+   * @param options - Installation options for the new plugin
+   * @returns Combined plan (operation 'replace')
+   */
+  planReplace(
+    context: ModulatorContext,
+    fromId: string,
+    toId: string,
     options?: Record<string, unknown>
   ): Promise<ModulatorPlan>;
 
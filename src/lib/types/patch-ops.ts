@@ -33,18 +33,23 @@ export interface ExpoConfigPatchOp extends BasePatchOp {
   mode?: 'set' | 'merge' | 'append';
 }
 
+/**
+ * Property list value (arrays and dictionaries nest)
+ */
+export type PlistValue = string | number | boolean | PlistValue[] | { [key: string]: PlistValue };
+
 /**
  * iOS plist patch operation
  * Patches Info.plist or other .plist files
  */
 export interface PlistPatchOp extends BasePatchOp {
   type: 'plist';
-  /** Key path in plist (e.g., "NSPhotoLibraryUsageDescription", "UIBackgroundModes") */
+  /** Key path in plist, dot-separated for nested dictionaries (e.g. "NSCameraUsageDescription", "NSAppTransportSecurity.NSExceptionDomains") */
   key: string;
   /** Value to set */
-  value: string | number | boolean | string[];
-  /** Merge mode for arrays: 'append' adds if not exists, 'set' replaces */
-  mode?: 'set' | 'append';
+  value: PlistValue;
+  /** 'set' adds the key if missing, 'append' adds missing array items, 'merge' adds missing dictionary keys */
+  mode?: 'set' | 'append' | 'merge';
 }
 
 /**
@@ -56,14 +61,31 @@ export interface EntitlementsPatchOp extends BasePatchOp {
   /** Entitlement key (e.g., "aps-environment", "com.apple.developer.associated-domains") */
   key: string;
   /** Value to set */
-  value: string | string[] | boolean;
-  /** Merge mode for arrays: 'append' adds if not exists, 'set' replaces */
-  mode?: 'set' | 'append';
+  value: PlistValue;
+  /** 'set' adds the key if missing, 'append' adds missing array items, 'merge' adds missing dictionary keys */
+  mode?: 'set' | 'append' | 'merge';
+}
+
+/**
+ * Android intent filter (rendered as <intent-filter> with <action>/<category>/<data> children)
+ */
+export interface AndroidIntentFilter {
+  /** Action names (e.g. "android.intent.action.VIEW") */
+  actions?: string[];
+  /** Category names (e.g. "android.intent.category.BROWSABLE") */
+  categories?: string[];
+  /** <data> elements, attribute names without the android: prefix (e.g. { scheme: "myapp", host: "auth" }) */
+  data?: Array<Record<string, string>>;
+  /** Attributes of the <intent-filter> element itself (e.g. { autoVerify: "true" }) */
+  attributes?: Record<string, string>;
 }
 
 /**
  * Android manifest patch operation
  * Patches AndroidManifest.xml
+ * 
+ * Permissions/features are children of <manifest>; activity/service/receiver/meta-data are
+ * placed inside <application>.
  */
 export interface AndroidManifestPatchOp extends BasePatchOp {
   type: 'android-manifest';
@@ -71,8 +93,13 @@ export interface AndroidManifestPatchOp extends BasePatchOp {
   manifestOp: 'permission' | 'feature' | 'activity' | 'service' | 'receiver' | 'meta-data';
   /** Permission/feature name or component attributes */
   name: string;
-  /** Optional attributes for the element */
+  /**
+   * Optional attributes for the element. Unprefixed names get the android: prefix; prefixed
+   * names are used as-is (e.g. "tools:replace", "tools:node" - xmlns:tools is added when needed)
+   */
   attributes?: Record<string, string>;
+  /** Intent filters (activity/service/receiver) */
+  intentFilters?: AndroidIntentFilter[];
   /** Action: 'add' adds if missing, 'remove' removes if exists */
   action: 'add' | 'remove';
 }
@@ -125,6 +152,72 @@ export interface TextAnchorPatchOp extends BasePatchOp {
   ensureUnique?: boolean;
 }
 
+/**
+ * Xcode project patch operation
+ * Adds a file (e.g. GoogleService-Info.plist) to project.pbxproj: file reference, group and build phase
+ * 
+ * `file` may use a `*.xcodeproj` wildcard (e.g. "ios/*.xcodeproj/project.pbxproj").
+ */
+export interface XcodeprojPatchOp extends BasePatchOp {
+  type: 'xcodeproj';
+  /** Path of the file to add, relative to the group's folder (the ios/ directory for React Native groups) */
+  path: string;
+  /** Group name or path to list the file under (default: the project's main group) */
+  group?: string;
+  /** Native target name (default: the first target) */
+  target?: string;
+  /** Build phase (default: 'sources' for .swift/.m/.mm/.c/.cpp, 'resources' otherwise) */
+  buildPhase?: 'resources' | 'sources' | 'none';
+}
+
+/**
+ * Gradle properties patch operation
+ * Sets keys in gradle.properties (a differing existing value is commented out and restored on revert)
+ */
+export interface GradlePropertiesPatchOp extends BasePatchOp {
+  type: 'gradle-properties';
+  /** Properties to set (e.g. { "android.useAndroidX": "true" }) */
+  properties: Record<string, string>;
+}
+
+/**
+ * Android string resources patch operation
+ * Adds <string> resources to res/values/strings.xml (existing names are left untouched)
+ */
+export interface StringsXmlPatchOp extends BasePatchOp {
+  type: 'strings-xml';
+  /** String resources by name; values are written as given (Android escaping such as \' is up to the caller) */
+  strings: Record<string, string>;
+}
+
+/**
+ * JSON merge patch operation
+ * Deep-merges into arbitrary JSON files (google-services.json, eas.json, ...) without adding tracking
+ * keys: missing keys are added, arrays get missing items, existing values are kept
+ */
+export interface JsonMergePatchOp extends BasePatchOp {
+  type: 'json-merge';
+  /** Dot path of the object to merge into (omit for the document root) */
+  path?: string;
+  /** Object to merge */
+  value: Record<string, unknown>;
+  /** What the merge added (from the plugin's install record; revert removes only these) */
+  added?: JsonMergeAddition[];
+}
+
+/**
+ * A key or array items a json-merge patch added (json-merge files carry no marker, so this is
+ * recorded in the manifest - see InstalledPluginRecord.patchAdditions)
+ */
+export interface JsonMergeAddition {
+  /** Key path from the document root */
+  path: string[];
+  /** Value of a key the merge added */
+  value?: unknown;
+  /** Items the merge appended to the array already at path */
+  items?: unknown[];
+}
+
 /**
  * Union type for all patch operations
  */
@@ -135,7 +228,11 @@ export type PatchOp =
   | AndroidManifestPatchOp
   | GradlePatchOp
   | PodfilePatchOp
-  | TextAnchorPatchOp;
+  | TextAnchorPatchOp
+  | XcodeprojPatchOp
+  | GradlePropertiesPatchOp
+  | StringsXmlPatchOp
+  | JsonMergePatchOp;
 
 /**
  * Patch operation result
@@ -146,7 +243,14 @@ export interface PatchOpResult {
   capabilityId: string;
   operationId: string;
   patchType: PatchOp['type'];
-  action: 'applied' | 'skipped' | 'error';
+  /** 'reverted'/'retained' are revert outcomes (retained: another plugin still needs the entry) */
+  action: 'applied' | 'skipped' | 'error' | 'reverted' | 'retained';
   error?: string;
   backupPath?: string;
+  /** Plugin that still needs the entry (action 'retained') */
+  retainedBy?: string;
+  /** json-merge apply: what the merge added (to record for revert) */
+  added?: JsonMergeAddition[];
+  /** json-merge revert: additions kept because retained patches declare them (they now own them) */
+  handedOver?: Array<{ capabilityId: string; operationId: string; added: JsonMergeAddition[] }>;
 }
@@ -4,6 +4,7 @@
  * OWNERSHIP: CLI
  * 
  * Canonical Docs: docs/cli-interface-and-types.md §2.5, docs/plugins-permissions.md
+ * Catalog data: templates/permissions/catalog.json (schema: catalog.schema.json)
  */
 
 /**
@@ -31,7 +32,7 @@ export type PermissionType =
 export type PermissionOS = 'android' | 'ios';
 
 /**
- * Permission object structure (matches docs/plugins-permissions.md)
+ * Permission object structure (matches templates/permissions/catalog.schema.json)
  */
 export interface PermissionObject {
   /** Plugin/provider ID */
@@ -46,7 +47,7 @@ export interface PermissionObject {
   permission: string;
   /** Functions that request this permission */
   requestedBy: string[];
-  /** Platform-specific permission value */
+  /** Platform value (Android permission name, Info.plist key or config key path) */
   value: string;
   /** Optional notes */
   notes?: string[];
@@ -57,7 +58,7 @@ export interface PermissionObject {
 }
 
 /**
- * Permission catalog entry (row from docs/plugins-permissions.md)
+ * Permission catalog entry (entry of templates/permissions/catalog.json, row of docs/plugins-permissions.md)
  */
 export interface PermissionCatalogEntry {
   /** Row ID (stable, don't renumber) */
@@ -88,6 +89,8 @@ export interface PermissionRequirement {
   mandatory: boolean;
   /** Optional notes */
   notes?: string[];
+  /** Default iOS usage-description text, keyed by Info.plist key (e.g. NSCameraUsageDescription) */
+  usageDescriptions?: Record<string, string>;
 }
 
 /**
@@ -126,3 +129,71 @@ export interface AggregatedPermissions {
     permissions: PermissionRequirement[];
   }>;
 }
+
+/**
+ * Whether a platform permission is declared in the native project
+ * (Info.plist / AndroidManifest.xml, or app.json when the native folder isn't generated)
+ * 'unknown' when there is no file to check
+ */
+export type NativePermissionStatus = 'present' | 'missing' | 'unknown';
+
+/**
+ * Platform permission a permission ID maps to (rns permissions)
+ */
+export interface NativePermissionCheck {
+  /** Info.plist key, config key path (UIBackgroundModes.location) or Android permission */
+  name: string;
+  /** Presence in the native project */
+  status: NativePermissionStatus;
+  /** Project-relative file that was checked */
+  checkedIn?: string;
+}
+
+/**
+ * One project permission with its requiring plugins and native mapping (rns permissions)
+ */
+export interface PermissionReportEntry {
+  /** Permission ID */
+  permissionId: PermissionId;
+  /** Mandatory if any installed plugin requires it as mandatory */
+  mandatory: boolean;
+  /** Installed plugins declaring it */
+  requiredBy: Array<{ pluginId: string; mandatory: boolean }>;
+  /** Catalog entry IDs it resolves to (for the project target) */
+  catalogIds: number[];
+  /** iOS Info.plist keys and config keys */
+  ios: NativePermissionCheck[];
+  /** Android manifest permissions */
+  android: NativePermissionCheck[];
+}
+
+/**
+ * Project-level usage-description overrides (rns.usage-descriptions.json), keyed by Info.plist key
+ * A string applies to every locale; an object maps locale -> text (missing locales use the base locale)
+ */
+export type UsageDescriptionOverrides = Record<string, string | Record<string, string>>;
+
+/**
+ * Where a usage-description text comes from, in precedence order
+ * - override: rns.usage-descriptions.json
+ * - project: text already in Info.plist / app.json (base locale only)
+ * - plugin: installed plugin default (PermissionRequirement.usageDescriptions)
+ * - placeholder: nothing supplied it (fails `rns doctor`)
+ */
+export type UsageDescriptionSource = 'override' | 'project' | 'plugin' | 'placeholder';
+
+/**
+ * Usage-description text of one Info.plist key in one locale
+ */
+export interface ResolvedUsageDescription {
+  /** Info.plist key */
+  key: string;
+  /** Locale (e.g. "en") */
+  locale: string;
+  /** Text */
+  text: string;
+  /** Where the text comes from */
+  source: UsageDescriptionSource;
+  /** Plugin that supplied the default (source "plugin") */
+  pluginId?: string;
+}
@@ -97,6 +97,20 @@ export interface ConflictCheckResult {
   }>;
 }
 
+/**
+ * Plugin migration step (applied on upgrade when the installed version satisfies `range`)
+ */
+export interface PluginMigration {
+  /** Installed-version range, e.g. "<2.0.0" or ">=1.2.0 <2.0.0" */
+  range: string;
+  /** Human-readable description shown in the upgrade plan */
+  description?: string;
+  /** Patch operations to apply (same engine as descriptor patches) */
+  patches?: PatchOp[];
+  /** Project-relative SYSTEM ZONE files to delete (e.g. renamed runtime files) */
+  removeFiles?: string[];
+}
+
 /**
  * Plugin descriptor - blueprint of a plugin
  * 
@@ -137,13 +151,29 @@ export interface PluginDescriptor {
   patches?: PatchOp[];
   /** Permission requirements */
   permissions?: PermissionRequirement[];
+  /** Migration steps run by `rns plugin upgrade`, selected by the installed version */
+  migrations?: PluginMigration[];
   /** Optional installation options schema */
   optionsSchema?: {
-    [key: string]: {
-      type: 'string' | 'number' | 'boolean' | 'array' | 'object';
-      description?: string;
-      default?: unknown;
-      required?: boolean;
-    };
+    [key: string]: PluginOptionSpec;
   };
 }
+
+/**
+ * Installation option spec (PluginDescriptor.optionsSchema entry)
+ */
+export interface PluginOptionSpec {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  description?: string;
+  default?: unknown;
+  required?: boolean;
+}
+
+/**
+ * Snapshot of the install-relevant parts of a descriptor, stored in the manifest at install
+ * time so `rns plugin upgrade` can diff it against the current descriptor
+ */
+export type PluginDescriptorSnapshot = Pick<
+  PluginDescriptor,
+  'version' | 'dependencies' | 'runtimeContributions' | 'patches' | 'permissions'
+>;
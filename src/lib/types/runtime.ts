@@ -7,6 +7,7 @@
  */
 
 import type { MarkerType } from '../markers';
+import type { PlatformOS } from './common';
 
 /**
  * Symbol reference for AST-based injection
@@ -21,16 +22,35 @@ export interface SymbolRef {
 
 /**
  * Provider wrapper contribution
- * Wraps children in a provider component
+ * Wraps children in a provider component. All providers of a file are composed into one
+ * nested tree (lower order = outer), see src/lib/provider-composition.ts.
  */
 export interface ProviderContribution {
   type: 'provider';
   /** Provider component reference */
   provider: SymbolRef;
-  /** Optional order hint (lower = earlier, default: 0) */
+  /** Optional order hint (lower = earlier/outer, default: 0) */
   order?: number;
   /** Optional props to pass to provider */
   props?: Record<string, unknown>;
+  /** Capabilities whose providers must render inside this one (IDs or "<category>.*") */
+  mustWrap?: string[];
+  /** Capabilities whose providers must wrap this one (IDs or "<category>.*") */
+  mustBeInside?: string[];
+}
+
+/**
+ * Provider recorded in a composed providers region (one per capability + provider symbol)
+ */
+export interface ProviderCompositionEntry {
+  capabilityId: string;
+  /** Provider component symbol */
+  symbol: string;
+  props?: Record<string, unknown>;
+  /** Effective order (op.order, then contribution.order, then 0) */
+  order: number;
+  mustWrap?: string[];
+  mustBeInside?: string[];
 }
 
 /**
@@ -57,6 +77,20 @@ export interface InitStepContribution {
   args?: unknown[];
   /** Optional order hint (lower = earlier, default: 0) */
   order?: number;
+  /**
+   * Step returns a promise that must be awaited
+   * Steps declaring async/platforms/featureFlag/timeoutMs/dependsOn are run by initCoreAsync()
+   * (async-init-steps marker) instead of being called inline in initCore()
+   */
+  async?: boolean;
+  /** Only run on these platforms (default: all) */
+  platforms?: PlatformOS[];
+  /** Only run when this feature flag is true (featureFlagsRegistry) */
+  featureFlag?: string;
+  /** Fail the step if it takes longer than this (milliseconds) */
+  timeoutMs?: number;
+  /** Capability IDs whose init steps must complete first */
+  dependsOn?: string[];
 }
 
 /**
@@ -118,7 +152,7 @@ export interface RuntimeWiringResult {
   markerType: MarkerType;
   capabilityId: string;
   contributionType: RuntimeContribution['type'];
-  action: 'injected' | 'skipped' | 'error';
+  action: 'injected' | 'removed' | 'skipped' | 'error';
   error?: string;
   backupPath?: string;
 }
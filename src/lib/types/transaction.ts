@@ -0,0 +1,33 @@
+/**
+ * FILE: src/lib/types/transaction.ts
+ * PURPOSE: File transaction types (transactional apply + rollback) (section 8, 15)
+ * OWNERSHIP: CLI
+ */
+
+/**
+ * Transaction status
+ */
+export type TransactionStatus = 'pending' | 'committed' | 'rolled-back';
+
+/**
+ * Transaction record persisted as `transaction.json` inside the transaction backup directory.
+ * Paths are project-relative. Modified files have a copy at the same relative path in the backup directory.
+ */
+export interface TransactionRecord {
+  /** Operation ID (e.g. "modulator-state.zustand") */
+  operationId: string;
+  /** Transaction status */
+  status: TransactionStatus;
+  /** Start timestamp */
+  startedAt: string;
+  /** Completion timestamp (commit or rollback) */
+  finishedAt?: string;
+  /** Files created by the transaction (did not exist before) */
+  created: string[];
+  /** Files modified by the transaction (backed up before first change) */
+  modified: string[];
+  /** Directories created by the transaction (did not exist before) */
+  createdDirs: string[];
+  /** Backup ID of the restore that reverted this transaction (set by `rns undo` / `rns backup restore`) */
+  restoredBy?: string;
+}
@@ -0,0 +1,215 @@
+/**
+ * FILE: src/lib/usage-descriptions.test.ts
+ * PURPOSE: Unit/spec tests for iOS usage descriptions (resolution, generation, doctor check)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - Text precedence: overrides file > existing Info.plist text > plugin default > placeholder, per locale
+ * - Bare sync writes Info.plist (base locale) and <locale>.lproj/InfoPlist.strings, idempotently
+ * - Expo sync writes expo.ios.infoPlist and expo.locales files in app.json
+ * - Invalid overrides files fail clearly
+ * - rns doctor fails on placeholder/empty texts and passes once they are set
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import {
+  findPlaceholderUsageDescriptions,
+  renderInfoPlistStrings,
+  resolveUsageDescriptions,
+  syncUsageDescriptions,
+} from './usage-descriptions';
+import { runProjectDoctor } from './project-doctor';
+import { initializePluginRegistry } from './plugin-registry';
+import { createManifest, readManifest, updateAggregatedPermissions, writeManifest } from './manifest';
+import { USAGE_DESCRIPTIONS_FILE } from './constants';
+import type { InitInputs } from './init';
+
+const INFO_PLIST = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version="1.0">
+<dict>
+  <key>CFBundleName</key>
+  <string>TestApp</string>
+  <key>NSMicrophoneUsageDescription</key>
+  <string>Record voice notes</string>
+</dict>
+</plist>
+`;
+
+describe('usage-descriptions', () => {
+  let projectRoot: string;
+
+  const createProject = (target: 'expo' | 'bare', locales: string[]) => {
+    const inputs = {
+      projectName: 'TestApp',
+      destination: projectRoot,
+      target,
+      language: 'ts',
+      packageManager: 'npm',
+      locales,
+      selectedOptions: { i18n: false, theming: false, reactNavigation: false, expoRouter: false, authentication: null, styling: 'stylesheet' },
+      coreToggles: { alias: true, svg: true, fonts: true, env: true },
+      plugins: [],
+      installCoreDependencies: false,
+    } as unknown as InitInputs;
+    const manifest = createManifest(projectRoot, inputs);
+    manifest.locales = locales;
+    const installedAt = '2024-01-01T00:00:00.000Z';
+    manifest.plugins = [
+      {
+        id: 'media.camera',
+        version: '1.0.0',
+        installedAt,
+        permissions: [{ permissionId: 'CAMERA', mandatory: true }],
+        descriptor: {
+          version: '1.0.0',
+          permissions: [{
+            permissionId: 'CAMERA',
+            mandatory: true,
+            usageDescriptions: { NSCameraUsageDescription: 'Take photos', NSMicrophoneUsageDescription: 'Record video sound' },
+          }],
+        },
+      },
+      { id: 'location.geo', version: '1.0.0', installedAt, permissions: [{ permissionId: 'LOCATION_WHEN_IN_USE', mandatory: true }] },
+    ];
+    writeManifest(projectRoot, manifest);
+    updateAggregatedPermissions(projectRoot);
+    return readManifest(projectRoot)!;
+  };
+
+  const createBareNativeProject = async () => {
+    await mkdir(join(projectRoot, 'ios', 'TestApp'), { recursive: true });
+    await mkdir(join(projectRoot, 'ios', 'TestApp.xcodeproj'), { recursive: true });
+    await writeFile(join(projectRoot, 'ios', 'TestApp', 'Info.plist'), INFO_PLIST);
+    await writeFile(join(projectRoot, 'ios', 'TestApp.xcodeproj', 'project.pbxproj'), '// !$*UTF8*$!\n{}\n');
+  };
+
+  beforeEach(async () => {
+    projectRoot = await mkdtemp(join(tmpdir(), 'rns-test-usage-descriptions-'));
+    await initializePluginRegistry();
+  });
+
+  afterEach(async () => {
+    await rm(projectRoot, { recursive: true, force: true });
+  });
+
+  it('should resolve texts by precedence for every locale', async () => {
+    const manifest = createProject('bare', ['de', 'en']);
+    await createBareNativeProject();
+    await writeFile(join(projectRoot, USAGE_DESCRIPTIONS_FILE), JSON.stringify({
+      NSCameraUsageDescription: { en: 'Scan receipts', de: 'Belege scannen' },
+      NSLocationWhenInUseUsageDescription: 'Show nearby stores',
+    }));
+
+    const set = resolveUsageDescriptions(projectRoot, manifest);
+
+    expect(set.baseLocale).toBe('en');
+    expect(set.locales).toEqual(['en', 'de']);
+    const text = (key: string, locale: string) =>
+      set.descriptions.find(item => item.key === key && item.locale === locale);
+    expect(text('NSCameraUsageDescription', 'en')).toMatchObject({ text: 'Scan receipts', source: 'override' });
+    expect(text('NSCameraUsageDescription', 'de')).toMatchObject({ text: 'Belege scannen', source: 'override' });
+    expect(text('NSLocationWhenInUseUsageDescription', 'de')).toMatchObject({ text: 'Show nearby stores', source: 'override' });
+    // Existing Info.plist text wins over the plugin default
+    expect(text('NSMicrophoneUsageDescription', 'en')).toMatchObject({ text: 'Record voice notes', source: 'project' });
+    expect(findPlaceholderUsageDescriptions(set)).toEqual([]);
+
+    await rm(join(projectRoot, USAGE_DESCRIPTIONS_FILE));
+    const defaults = resolveUsageDescriptions(projectRoot, manifest);
+    expect(defaults.descriptions.find(item => item.key === 'NSCameraUsageDescription')).toMatchObject({
+      text: 'Take photos',
+      source: 'plugin',
+      pluginId: 'media.camera',
+    });
+    expect(findPlaceholderUsageDescriptions(defaults).map(item => `${item.key} (${item.locale})`)).toEqual([
+      'NSLocationWhenInUseUsageDescription (en)',
+      'NSLocationWhenInUseUsageDescription (de)',
+    ]);
+  });
+
+  it('should write Info.plist and InfoPlist.strings per locale (bare)', async () => {
+    const manifest = createProject('bare', ['en', 'de']);
+    await createBareNativeProject();
+    await writeFile(join(projectRoot, USAGE_DESCRIPTIONS_FILE), JSON.stringify({
+      NSLocationWhenInUseUsageDescription: { en: 'Show "nearby" stores', de: 'Geschäfte in der Nähe' },
+    }));
+
+    const result = syncUsageDescriptions(projectRoot, manifest);
+
+    expect(result.written).toEqual([
+      'ios/TestApp/Info.plist',
+      'ios/TestApp/en.lproj/InfoPlist.strings',
+      'ios/TestApp/de.lproj/InfoPlist.strings',
+    ]);
+    expect(result.warnings).toEqual([
+      'Add ios/TestApp/<locale>.lproj/InfoPlist.strings to the Xcode project once (File > Add Files, then Localize) so it is bundled',
+    ]);
+    const plist = await readFile(join(projectRoot, 'ios', 'TestApp', 'Info.plist'), 'utf8');
+    expect(plist).toContain('<key>NSCameraUsageDescription</key>');
+    expect(plist).toContain('<string>Take photos</string>');
+    expect(plist).toContain('<string>Show &quot;nearby&quot; stores</string>');
+    expect(plist).toContain('<string>Record voice notes</string>');
+    expect(await readFile(join(projectRoot, 'ios', 'TestApp', 'de.lproj', 'InfoPlist.strings'), 'utf8')).toContain(
+      '"NSLocationWhenInUseUsageDescription" = "Geschäfte in der Nähe";'
+    );
+    expect(renderInfoPlistStrings([{ key: 'K', locale: 'en', text: 'a "b"', source: 'override' }])).toContain('"K" = "a \\"b\\"";');
+
+    // Second run changes nothing
+    expect(syncUsageDescriptions(projectRoot, manifest).written).toEqual([]);
+  });
+
+  it('should write expo.ios.infoPlist and expo.locales (Expo)', async () => {
+    const manifest = createProject('expo', ['en', 'fr']);
+    await writeFile(join(projectRoot, 'app.json'), JSON.stringify({ expo: { name: 'TestApp', locales: { fr: './i18n/fr.json' } } }));
+    await writeFile(join(projectRoot, USAGE_DESCRIPTIONS_FILE), JSON.stringify({
+      NSMicrophoneUsageDescription: { en: 'Record video sound', fr: 'Enregistrer le son' },
+    }));
+
+    const result = syncUsageDescriptions(projectRoot, manifest, { dryRun: true });
+    expect(result.written).toEqual(['locales/ios/en.json', 'i18n/fr.json', 'app.json']);
+    expect(JSON.parse(await readFile(join(projectRoot, 'app.json'), 'utf8')).expo.ios).toBeUndefined();
+
+    syncUsageDescriptions(projectRoot, manifest);
+
+    const expo = JSON.parse(await readFile(join(projectRoot, 'app.json'), 'utf8')).expo;
+    expect(expo.ios.infoPlist).toMatchObject({
+      NSCameraUsageDescription: 'Take photos',
+      NSMicrophoneUsageDescription: 'Record video sound',
+    });
+    expect(expo.locales).toEqual({ fr: './i18n/fr.json', en: './locales/ios/en.json' });
+    const fr = JSON.parse(await readFile(join(projectRoot, 'i18n', 'fr.json'), 'utf8'));
+    expect(fr.ios).toMatchObject({ NSCameraUsageDescription: 'Take photos', NSMicrophoneUsageDescription: 'Enregistrer le son' });
+  });
+
+  it('should reject invalid overrides files', async () => {
+    const manifest = createProject('bare', ['en']);
+    await writeFile(join(projectRoot, USAGE_DESCRIPTIONS_FILE), JSON.stringify({ NSCameraUsageDescription: 42 }));
+
+    expect(() => resolveUsageDescriptions(projectRoot, manifest)).toThrow(`Invalid ${USAGE_DESCRIPTIONS_FILE}`);
+  });
+
+  it('should fail rns doctor on placeholder or empty texts', async () => {
+    createProject('bare', ['en']);
+    await writeFile(join(projectRoot, USAGE_DESCRIPTIONS_FILE), JSON.stringify({ NSMicrophoneUsageDescription: ' ' }));
+
+    const report = await runProjectDoctor(projectRoot);
+    const check = report.findings.find(f => f.checkId === 'permissions.usage-descriptions');
+    expect(check).toMatchObject({
+      passed: false,
+      severity: 'error',
+      message: 'Usage descriptions with placeholder or empty text: NSLocationWhenInUseUsageDescription (en), NSMicrophoneUsageDescription (en)',
+    });
+    expect(check?.fix).toContain('rns permissions sync');
+    expect(report.errors).toContain(check);
+
+    await writeFile(join(projectRoot, USAGE_DESCRIPTIONS_FILE), JSON.stringify({
+      NSMicrophoneUsageDescription: 'Record video sound',
+      NSLocationWhenInUseUsageDescription: 'Show nearby stores',
+    }));
+    const fixed = await runProjectDoctor(projectRoot);
+    expect(fixed.findings.find(f => f.checkId === 'permissions.usage-descriptions')?.passed).toBe(true);
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * FILE: src/lib/usage-descriptions.ts
+ * PURPOSE: iOS usage-description strings (NS*UsageDescription) per locale - resolution, generation, placeholder check
+ * OWNERSHIP: CLI
+ *
+ * Required keys are the Info.plist keys of the project's permissions (catalog, see permissions.ts)
+ * plus the keys installed plugins supply default text for. Text precedence per key and locale:
+ *
+ *   rns.usage-descriptions.json (locale, then its string form)
+ *   > text already in Info.plist / app.json (base locale only)
+ *   > plugin default (PermissionRequirement.usageDescriptions)
+ *   > placeholder (fails `rns doctor`)
+ *
+ * Locales are the manifest's `locales` (default: en); the base locale is en when selected, else the first.
+ * Other locales without an override use the base-locale text.
+ *
+ * Generated by `rns permissions sync` and after plugin add/remove:
+ * - Bare: base text in ios/<App>/Info.plist, plus ios/<App>/<locale>.lproj/InfoPlist.strings per locale
+ * - Expo: expo.ios.infoPlist in app.json, plus expo.locales.<locale> -> locales/ios/<locale>.json ({ "ios": {...} })
+ * Keys are never removed from Info.plist / app.json; InfoPlist.strings files are fully generated.
+ */
+
+import { join } from 'path';
+import { CliError, ExitCode } from './errors';
+import { isFile, readJsonFile, readTextFile, writeJsonFile, writeTextFile } from './fs';
+import { validateJsonSchema, type JsonSchema } from './json-schema';
+import { getIosPlistKeys, loadPermissionsCatalog } from './permissions';
+import { findInfoPlistFile } from './permissions-report';
+import { getPluginRegistry, initializePluginRegistry } from './plugin-registry';
+import { resolveCliRoot } from './pack-locations';
+import { escapeXmlText, getTextContent, parseXml, serializeXml } from './xml';
+import { resolveXcodeprojFile } from './xcodeproj';
+import { addDictEntry, findDictEntry, getDictEntries, getPlistRootDict } from './plist';
+import { validateProjectInitialized } from './manifest';
+import { USAGE_DESCRIPTIONS_FILE } from './constants';
+import type { RuntimeContext } from './runtime';
+import type { RnsProjectManifest } from './types/manifest';
+import type { PermissionCatalogEntry, ResolvedUsageDescription, UsageDescriptionOverrides } from './types/permissions';
+
+export const USAGE_DESCRIPTIONS_SCHEMA_FILE = 'templates/permissions/usage-descriptions.schema.json';
+
+/**
+ * Directory of generated Expo locale files (referenced from expo.locales)
+ */
+export const EXPO_LOCALES_DIR = 'locales/ios';
+
+const EXPO_APP_CONFIG_FILE = 'app.json';
+const INFO_PLIST_STRINGS_FILE = 'InfoPlist.strings';
+const DEFAULT_LOCALE = 'en';
+
+/**
+ * Usage descriptions of a project
+ */
+export interface UsageDescriptionSet {
+  /** Locale whose text goes into Info.plist / app.json */
+  baseLocale: string;
+  /** All locales (base first) */
+  locales: string[];
+  /** Texts per required key, one per locale (key order, then locale order) */
+  descriptions: ResolvedUsageDescription[];
+}
+
+/**
+ * Result of syncing usage descriptions into the project
+ */
+export interface UsageDescriptionSyncResult {
+  /** Project-relative files written (or that would be written in dry-run) */
+  written: string[];
+  /** Things the user has to do by hand */
+  warnings: string[];
+}
+
+/**
+ * Placeholder text for keys nothing supplies a description for
+ */
+export function createUsageDescriptionPlaceholder(key: string): string {
+  return `TODO: explain why the app uses ${key} (set it in ${USAGE_DESCRIPTIONS_FILE})`;
+}
+
+/**
+ * Checks whether a text is empty or a placeholder (TODO/FIXME)
+ */
+export function isPlaceholderUsageDescription(text: string): boolean {
+  return /^\s*$/.test(text) || /^\s*(TODO|FIXME)\b/i.test(text);
+}
+
+/**
+ * Loads rns.usage-descriptions.json
+ *
+ * @returns Overrides ({} when the file doesn't exist)
+ * @throws CliError if the file doesn't match its schema
+ */
+export function loadUsageDescriptionOverrides(projectRoot: string): UsageDescriptionOverrides {
+  const filePath = join(projectRoot, USAGE_DESCRIPTIONS_FILE);
+  if (!isFile(filePath)) {
+    return {};
+  }
+
+  const overrides = readJsonFile<unknown>(filePath);
+  const schema = readJsonFile<JsonSchema>(join(resolveCliRoot(), USAGE_DESCRIPTIONS_SCHEMA_FILE));
+  const errors = validateJsonSchema(overrides, schema, USAGE_DESCRIPTIONS_FILE);
+  if (errors.length > 0) {
+    throw new CliError(
+      `Invalid ${USAGE_DESCRIPTIONS_FILE}:\n${errors.map(error => `  - ${error}`).join('\n')}`,
+      ExitCode.VALIDATION_STATE_FAILURE
+    );
+  }
+  const { $schema: _schema, ...texts } = overrides as UsageDescriptionOverrides;
+  return texts;
+}
+
+/**
+ * Resolves the usage-description text of every required key in every project locale
+ * (the plugin registry must be initialized)
+ *
+ * @param projectRoot - Project root directory
+ * @param manifest - Project manifest
+ * @param catalog - Permission catalog (default: the CLI's catalog)
+ */
+export function resolveUsageDescriptions(
+  projectRoot: string,
+  manifest: RnsProjectManifest,
+  catalog: PermissionCatalogEntry[] = loadPermissionsCatalog(resolveCliRoot())
+): UsageDescriptionSet {
+  const locales = manifest.locales && manifest.locales.length > 0 ? manifest.locales : [DEFAULT_LOCALE];
+  const baseLocale = locales.includes(DEFAULT_LOCALE) ? DEFAULT_LOCALE : locales[0];
+  const orderedLocales = [baseLocale, ...locales.filter(locale => locale !== baseLocale)];
+
+  const overrides = loadUsageDescriptionOverrides(projectRoot);
+  const defaults = collectPluginDefaults(manifest);
+  const existing = readExistingTexts(projectRoot, manifest);
+  const keys = Array.from(new Set([
+    ...getIosPlistKeys(manifest.permissions?.permissionIds ?? [], catalog, manifest.target),
+    ...defaults.keys(),
+  ]));
+
+  const descriptions = keys.flatMap(key => {
+    const override = overrides[key];
+    const base: Omit<ResolvedUsageDescription, 'locale'> =
+      typeof override === 'string' ? { key, text: override, source: 'override' }
+      : override?.[baseLocale] !== undefined ? { key, text: override[baseLocale], source: 'override' }
+      : existing.has(key) && !isPlaceholderUsageDescription(existing.get(key)!) ? { key, text: existing.get(key)!, source: 'project' }
+      : defaults.has(key) ? { key, text: defaults.get(key)!.text, source: 'plugin', pluginId: defaults.get(key)!.pluginId }
+      : { key, text: createUsageDescriptionPlaceholder(key), source: 'placeholder' };
+
+    return orderedLocales.map(locale =>
+      typeof override === 'object' && override[locale] !== undefined
+        ? { key, locale, text: override[locale], source: 'override' as const }
+        : { ...base, locale }
+    );
+  });
+
+  return { baseLocale, locales: orderedLocales, descriptions };
+}
+
+/**
+ * Lists the files syncUsageDescriptions may write (for transactions/backups)
+ */
+export function getUsageDescriptionFiles(projectRoot: string, manifest: RnsProjectManifest): string[] {
+  const locales = manifest.locales && manifest.locales.length > 0 ? manifest.locales : [DEFAULT_LOCALE];
+
+  if (manifest.target === 'expo') {
+    if (!isFile(join(projectRoot, EXPO_APP_CONFIG_FILE))) {
+      return [];
+    }
+    const configured = readExpoLocales(projectRoot);
+    return [EXPO_APP_CONFIG_FILE, ...locales.map(locale => configured[locale]?.replace(/^\.\//, '') ?? expoLocaleFile(locale))];
+  }
+
+  const infoPlist = findInfoPlistFile(projectRoot);
+  if (!infoPlist) {
+    return [];
+  }
+  const appDir = infoPlist.slice(0, -'/Info.plist'.length);
+  return [infoPlist, ...locales.map(locale => `${appDir}/${locale}.lproj/${INFO_PLIST_STRINGS_FILE}`)];
+}
+
+/**
+ * Writes the resolved usage descriptions into the project (see file header)
+ *
+ * @param projectRoot - Project root directory
+ * @param manifest - Project manifest
+ * @param options - dryRun: only report what would be written
+ */
+export function syncUsageDescriptions(
+  projectRoot: string,
+  manifest: RnsProjectManifest,
+  options: { dryRun?: boolean } = {}
+): UsageDescriptionSyncResult {
+  const set = resolveUsageDescriptions(projectRoot, manifest);
+  const result: UsageDescriptionSyncResult = { written: [], warnings: [] };
+  if (set.descriptions.length === 0) {
+    return result;
+  }
+
+  const write = (file: string, before: string | null, after: string) => {
+    if (before === after) {
+      return;
+    }
+    result.written.push(file);
+    if (!options.dryRun) {
+      writeTextFile(join(projectRoot, file), after);
+    }
+  };
+
+  if (manifest.target === 'expo') {
+    syncExpoConfig(projectRoot, set, write, result);
+  } else {
+    syncBareProject(projectRoot, set, write, result);
+  }
+
+  const placeholders = findPlaceholderUsageDescriptions(set);
+  if (placeholders.length > 0) {
+    result.warnings.push(
+      `Usage descriptions still need text: ${Array.from(new Set(placeholders.map(item => item.key))).join(', ')} (set them in ${USAGE_DESCRIPTIONS_FILE})`
+    );
+  }
+  return result;
+}
+
+/**
+ * Finds descriptions whose text is empty or a placeholder
+ */
+export function findPlaceholderUsageDescriptions(set: UsageDescriptionSet): ResolvedUsageDescription[] {
+  return set.descriptions.filter(description => isPlaceholderUsageDescription(description.text));
+}
+
+/**
+ * Renders an InfoPlist.strings file
+ */
+export function renderInfoPlistStrings(descriptions: ResolvedUsageDescription[]): string {
+  const escape = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  return [
+    `/* Generated by rns from plugin defaults and ${USAGE_DESCRIPTIONS_FILE} - edit that file and run "rns permissions sync" */`,
+    '',
+    ...descriptions.map(description => `"${escape(description.key)}" = "${escape(description.text)}";`),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Bare: base texts into Info.plist, one InfoPlist.strings per locale
+ */
+function syncBareProject(
+  projectRoot: string,
+  set: UsageDescriptionSet,
+  write: (file: string, before: string | null, after: string) => void,
+  result: UsageDescriptionSyncResult
+): void {
+  const infoPlist = findInfoPlistFile(projectRoot);
+  if (!infoPlist) {
+    result.warnings.push('No ios/<App>/Info.plist found - iOS usage descriptions were not written');
+    return;
+  }
+
+  const before = readTextFile(join(projectRoot, infoPlist));
+  const doc = parseXml(before);
+  const dict = getPlistRootDict(doc);
+  for (const description of set.descriptions.filter(item => item.locale === set.baseLocale)) {
+    const entry = findDictEntry(dict, description.key);
+    if (!entry) {
+      addDictEntry(doc, dict, description.key, description.text);
+    } else if (entry.valueElement.name !== 'string' || getTextContent(entry.valueElement) !== description.text) {
+      entry.valueElement.name = 'string';
+      entry.valueElement.children = [{ type: 'text', value: escapeXmlText(description.text) }];
+      entry.valueElement.selfClosing = false;
+      entry.valueElement.rawStart = undefined;
+      entry.valueElement.rawEnd = undefined;
+    }
+  }
+  write(infoPlist, before, serializeXml(doc));
+
+  const appDir = infoPlist.slice(0, -'/Info.plist'.length);
+  for (const locale of set.locales) {
+    const file = `${appDir}/${locale}.lproj/${INFO_PLIST_STRINGS_FILE}`;
+    const current = isFile(join(projectRoot, file)) ? readTextFile(join(projectRoot, file)) : null;
+    write(file, current, renderInfoPlistStrings(set.descriptions.filter(item => item.locale === locale)));
+  }
+
+  if (!isInfoPlistStringsInXcodeProject(projectRoot)) {
+    result.warnings.push(
+      `Add ${appDir}/<locale>.lproj/${INFO_PLIST_STRINGS_FILE} to the Xcode project once (File > Add Files, then Localize) so it is bundled`
+    );
+  }
+}
+
+/**
+ * Expo: base texts into expo.ios.infoPlist, one locale file per locale referenced from expo.locales
+ */
+function syncExpoConfig(
+  projectRoot: string,
+  set: UsageDescriptionSet,
+  write: (file: string, before: string | null, after: string) => void,
+  result: UsageDescriptionSyncResult
+): void {
+  const appJsonPath = join(projectRoot, EXPO_APP_CONFIG_FILE);
+  if (!isFile(appJsonPath)) {
+    result.warnings.push(
+      `No ${EXPO_APP_CONFIG_FILE} found - set ios.infoPlist and locales in your dynamic Expo config by hand`
+    );
+    return;
+  }
+
+  const before = readTextFile(appJsonPath);
+  const appJson = readJsonFile<{ expo?: Record<string, any> }>(appJsonPath);
+  const expo = (appJson.expo ??= {});
+  expo.ios = { ...expo.ios, infoPlist: { ...expo.ios?.infoPlist } };
+  expo.locales = { ...expo.locales };
+
+  for (const description of set.descriptions.filter(item => item.locale === set.baseLocale)) {
+    expo.ios.infoPlist[description.key] = description.text;
+  }
+
+  for (const locale of set.locales) {
+    const file = expo.locales[locale]?.replace(/^\.\//, '') ?? expoLocaleFile(locale);
+    expo.locales[locale] ??= `./${file}`;
+
+    const current = isFile(join(projectRoot, file)) ? readTextFile(join(projectRoot, file)) : null;
+    const localeJson = current ? JSON.parse(current) : {};
+    localeJson.ios = { ...localeJson.ios };
+    for (const description of set.descriptions.filter(item => item.locale === locale)) {
+      localeJson.ios[description.key] = description.text;
+    }
+    write(file, current, `${JSON.stringify(localeJson, null, 2)}\n`);
+  }
+
+  write(EXPO_APP_CONFIG_FILE, before, `${JSON.stringify(appJson, null, 2)}\n`);
+}
+
+/**
+ * Collects plugin default texts (first installed plugin supplying a key wins)
+ * Defaults come from the install-time descriptor snapshot, else the registry
+ */
+function collectPluginDefaults(manifest: RnsProjectManifest): Map<string, { text: string; pluginId: string }> {
+  const defaults = new Map<string, { text: string; pluginId: string }>();
+  const registry = getPluginRegistry();
+
+  for (const record of manifest.plugins) {
+    const requirements = record.descriptor?.permissions ?? registry.getPlugin(record.id)?.permissions ?? [];
+    for (const requirement of requirements) {
+      for (const [key, text] of Object.entries(requirement.usageDescriptions ?? {})) {
+        if (!defaults.has(key)) {
+          defaults.set(key, { text, pluginId: record.id });
+        }
+      }
+    }
+  }
+  return defaults;
+}
+
+/**
+ * Reads the string values already in Info.plist (bare) or expo.ios.infoPlist (Expo)
+ */
+function readExistingTexts(projectRoot: string, manifest: RnsProjectManifest): Map<string, string> {
+  const texts = new Map<string, string>();
+
+  if (manifest.target === 'expo') {
+    const appJsonPath = join(projectRoot, EXPO_APP_CONFIG_FILE);
+    const infoPlist = isFile(appJsonPath)
+      ? readJsonFile<{ expo?: { ios?: { infoPlist?: Record<string, unknown> } } }>(appJsonPath).expo?.ios?.infoPlist
+      : undefined;
+    Object.entries(infoPlist ?? {}).forEach(([key, value]) => typeof value === 'string' && texts.set(key, value));
+    return texts;
+  }
+
+  const infoPlist = findInfoPlistFile(projectRoot);
+  if (infoPlist) {
+    const dict = getPlistRootDict(parseXml(readTextFile(join(projectRoot, infoPlist))));
+    for (const entry of getDictEntries(dict).filter(item => item.valueElement.name === 'string')) {
+      texts.set(entry.key, getTextContent(entry.valueElement));
+    }
+  }
+  return texts;
+}
+
+/**
+ * Reads expo.locales from app.json
+ */
+function readExpoLocales(projectRoot: string): Record<string, string> {
+  return readJsonFile<{ expo?: { locales?: Record<string, string> } }>(join(projectRoot, EXPO_APP_CONFIG_FILE)).expo?.locales ?? {};
+}
+
+function expoLocaleFile(locale: string): string {
+  return `${EXPO_LOCALES_DIR}/${locale}.json`;
+}
+
+/**
+ * Checks whether the Xcode project references InfoPlist.strings (unknown project counts as referenced)
+ */
+function isInfoPlistStringsInXcodeProject(projectRoot: string): boolean {
+  const pbxproj = join(projectRoot, resolveXcodeprojFile(projectRoot, 'ios/*.xcodeproj/project.pbxproj'));
+  return !isFile(pbxproj) || readTextFile(pbxproj).includes(INFO_PLIST_STRINGS_FILE);
+}
+
+/**
+ * Regenerates iOS usage descriptions (rns permissions sync)
+ */
+export async function runPermissionsSync(options: { json?: boolean }, ctx: RuntimeContext): Promise<void> {
+  const manifest = validateProjectInitialized(ctx.resolvedRoot);
+  // Plugin defaults of records without a descriptor snapshot come from the registry
+  await initializePluginRegistry(ctx.resolvedRoot);
+  const dryRun = ctx.flags.dryRun;
+  const result = syncUsageDescriptions(ctx.resolvedRoot, manifest, { dryRun });
+
+  if (options.json) {
+    console.log(JSON.stringify({ ...result, dryRun }, null, 2));
+    return;
+  }
+
+  if (result.written.length === 0) {
+    ctx.logger.info('Usage descriptions are up to date.');
+  } else {
+    ctx.logger.info(dryRun ? 'Would write:' : 'Wrote:');
+    result.written.forEach(file => ctx.logger.info(`  ${file}`));
+  }
+  result.warnings.forEach(warning => ctx.logger.warn(warning));
+}
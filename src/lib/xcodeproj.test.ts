@@ -0,0 +1,174 @@
+/**
+ * FILE: src/lib/xcodeproj.test.ts
+ * PURPOSE: Unit/spec tests for xcodeproj patch ops (project.pbxproj edits)
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - File reference, group entry and Resources build file are added in Xcode's layout
+ * - Idempotency via operationId-derived object IDs; revert restores the file exactly
+ * - `*.xcodeproj` wildcard resolution and handover to a retained patch
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { join } from 'path';
+import { mkdir, mkdtemp, rm, writeFile, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { applyPatchOp, revertPatchOp } from './patch-ops';
+import { getXcodeprojPatchIds } from './xcodeproj';
+import type { XcodeprojPatchOp } from './types/patch-ops';
+
+const PBXPROJ = `// !$*UTF8*$!
+{
+	archiveVersion = 1;
+	classes = {
+	};
+	objectVersion = 54;
+	objects = {
+
+/* Begin PBXBuildFile section */
+		13B07FBF1A68108700A75B9A /* Images.xcassets in Resources */ = {isa = PBXBuildFile; fileRef = 13B07FB51A68108700A75B9A /* Images.xcassets */; };
+/* End PBXBuildFile section */
+
+/* Begin PBXFileReference section */
+		13B07FB51A68108700A75B9A /* Images.xcassets */ = {isa = PBXFileReference; lastKnownFileType = folder.assetcatalog; name = Images.xcassets; path = MyApp/Images.xcassets; sourceTree = "<group>"; };
+		13B07FB61A68108700A75B9A /* Info.plist */ = {isa = PBXFileReference; fileEncoding = 4; lastKnownFileType = text.plist.xml; name = Info.plist; path = MyApp/Info.plist; sourceTree = "<group>"; };
+/* End PBXFileReference section */
+
+/* Begin PBXGroup section */
+		13B07FAE1A68108700A75B9A /* MyApp */ = {
+			isa = PBXGroup;
+			children = (
+				13B07FB51A68108700A75B9A /* Images.xcassets */,
+				13B07FB61A68108700A75B9A /* Info.plist */,
+			);
+			name = MyApp;
+			sourceTree = "<group>";
+		};
+		83CBB9F61A601CBA00E9B192 = {
+			isa = PBXGroup;
+			children = (
+				13B07FAE1A68108700A75B9A /* MyApp */,
+			);
+			sourceTree = "<group>";
+		};
+/* End PBXGroup section */
+
+/* Begin PBXNativeTarget section */
+		13B07F861A680F5B00A75B9A /* MyApp */ = {
+			isa = PBXNativeTarget;
+			buildPhases = (
+				13B07F871A680F5B00A75B9A /* Sources */,
+				13B07F8E1A680F5B00A75B9A /* Resources */,
+			);
+			name = MyApp;
+		};
+/* End PBXNativeTarget section */
+
+/* Begin PBXProject section */
+		83CBB9F71A601CBA00E9B192 /* Project object */ = {
+			isa = PBXProject;
+			mainGroup = 83CBB9F61A601CBA00E9B192;
+		};
+/* End PBXProject section */
+
+/* Begin PBXResourcesBuildPhase section */
+		13B07F8E1A680F5B00A75B9A /* Resources */ = {
+			isa = PBXResourcesBuildPhase;
+			buildActionMask = 2147483647;
+			files = (
+				13B07FBF1A68108700A75B9A /* Images.xcassets in Resources */,
+			);
+			runOnlyForDeploymentPostprocessing = 0;
+		};
+/* End PBXResourcesBuildPhase section */
+
+/* Begin PBXSourcesBuildPhase section */
+		13B07F871A680F5B00A75B9A /* Sources */ = {
+			isa = PBXSourcesBuildPhase;
+			buildActionMask = 2147483647;
+			files = (
+			);
+			runOnlyForDeploymentPostprocessing = 0;
+		};
+/* End PBXSourcesBuildPhase section */
+	};
+	rootObject = 83CBB9F71A601CBA00E9B192 /* Project object */;
+}
+`;
+
+describe('xcodeproj', () => {
+  let testProjectRoot: string;
+  const pbxprojPath = () => join(testProjectRoot, 'ios', 'MyApp.xcodeproj', 'project.pbxproj');
+
+  const patch: XcodeprojPatchOp = {
+    type: 'xcodeproj',
+    file: 'ios/*.xcodeproj/project.pbxproj',
+    capabilityId: 'firebase.core',
+    operationId: 'firebase-google-service-info',
+    path: 'MyApp/GoogleService-Info.plist',
+    group: 'MyApp',
+  };
+
+  beforeEach(async () => {
+    testProjectRoot = await mkdtemp(join(tmpdir(), 'rns-test-xcodeproj-'));
+    await mkdir(join(testProjectRoot, 'ios', 'MyApp.xcodeproj'), { recursive: true });
+    await writeFile(pbxprojPath(), PBXPROJ);
+  });
+
+  afterEach(async () => {
+    await rm(testProjectRoot, { recursive: true, force: true });
+  });
+
+  it('should add a resource file to the group and the Resources phase', async () => {
+    const ids = getXcodeprojPatchIds(patch.operationId);
+
+    const result = applyPatchOp(testProjectRoot, patch, false);
+    expect(result).toMatchObject({ success: true, action: 'applied', file: 'ios/MyApp.xcodeproj/project.pbxproj' });
+
+    const content = await readFile(pbxprojPath(), 'utf-8');
+    expect(content).toContain(
+      `\t\t${ids.fileRef} /* GoogleService-Info.plist */ = {isa = PBXFileReference; lastKnownFileType = text.plist.xml; ` +
+      `name = GoogleService-Info.plist; path = MyApp/GoogleService-Info.plist; sourceTree = "<group>"; };\n/* End PBXFileReference section */`
+    );
+    expect(content).toContain(
+      `\t\t\t\t13B07FB61A68108700A75B9A /* Info.plist */,\n\t\t\t\t${ids.fileRef} /* GoogleService-Info.plist */,\n\t\t\t);\n\t\t\tname = MyApp;`
+    );
+    expect(content).toContain(
+      `\t\t${ids.buildFile} /* GoogleService-Info.plist in Resources */ = {isa = PBXBuildFile; fileRef = ${ids.fileRef} /* GoogleService-Info.plist */; };`
+    );
+    expect(content).toContain(`\t\t\t\t${ids.buildFile} /* GoogleService-Info.plist in Resources */,\n\t\t\t);\n\t\t\trunOnlyForDeploymentPostprocessing`);
+
+    expect(applyPatchOp(testProjectRoot, patch, false).action).toBe('skipped');
+
+    expect(revertPatchOp(testProjectRoot, patch, [], false).action).toBe('reverted');
+    expect(await readFile(pbxprojPath(), 'utf-8')).toBe(PBXPROJ);
+  });
+
+  it('should add source files to the Sources phase of the main group', async () => {
+    const source: XcodeprojPatchOp = { ...patch, operationId: 'firebase-swift-bridge', path: 'FirebaseBridge.swift', group: undefined };
+    const ids = getXcodeprojPatchIds(source.operationId);
+
+    applyPatchOp(testProjectRoot, source, false);
+
+    const content = await readFile(pbxprojPath(), 'utf-8');
+    expect(content).toContain(`${ids.fileRef} /* FirebaseBridge.swift */ = {isa = PBXFileReference; lastKnownFileType = sourcecode.swift; path = FirebaseBridge.swift;`);
+    expect(content).toContain(`\t\t\t\t13B07FAE1A68108700A75B9A /* MyApp */,\n\t\t\t\t${ids.fileRef} /* FirebaseBridge.swift */,`);
+    expect(content).toContain(`\t\t\tfiles = (\n\t\t\t\t${ids.buildFile} /* FirebaseBridge.swift in Sources */,\n\t\t\t);`);
+  });
+
+  it('should hand the objects over to a plugin that still needs the file', async () => {
+    const other: XcodeprojPatchOp = { ...patch, capabilityId: 'firebase.analytics', operationId: 'analytics-google-service-info' };
+    applyPatchOp(testProjectRoot, patch, false);
+    expect(applyPatchOp(testProjectRoot, other, false).action).toBe('skipped');
+
+    const result = revertPatchOp(testProjectRoot, patch, [other], false);
+    expect(result).toMatchObject({ action: 'retained', retainedBy: 'firebase.analytics' });
+
+    const content = await readFile(pbxprojPath(), 'utf-8');
+    expect(content).not.toContain(getXcodeprojPatchIds(patch.operationId).fileRef);
+    expect(content).toContain(getXcodeprojPatchIds(other.operationId).fileRef);
+
+    expect(revertPatchOp(testProjectRoot, other, [], false).action).toBe('reverted');
+    expect(await readFile(pbxprojPath(), 'utf-8')).toBe(PBXPROJ);
+  });
+});
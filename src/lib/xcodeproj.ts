@@ -0,0 +1,319 @@
+/**
+ * FILE: src/lib/xcodeproj.ts
+ * PURPOSE: Xcode project (project.pbxproj) editing for xcodeproj patch ops
+ * OWNERSHIP: CLI
+ *
+ * project.pbxproj is an OpenStep-style plist Xcode rewrites on every save, so edits are plain
+ * text insertions in Xcode's own layout (one line per file reference / build file / list entry)
+ * and comments cannot serve as markers. Instead the object IDs are derived from the patch's
+ * operationId: their presence makes apply idempotent and revert removes exactly the lines that
+ * mention them.
+ */
+
+import { createHash } from 'crypto';
+import { basename, extname, join } from 'path';
+import { readdirSync } from 'fs';
+import { isDirectory } from './fs';
+import type { XcodeprojPatchOp } from './types/patch-ops';
+
+/**
+ * Object IDs owned by an xcodeproj patch
+ */
+export interface XcodeprojPatchIds {
+  fileRef: string;
+  buildFile: string;
+}
+
+/**
+ * Range of an object definition (`<id> /* comment *\/ = { ... };`)
+ */
+interface ObjectRange {
+  /** Index of the opening brace */
+  open: number;
+  /** Index of the closing brace */
+  close: number;
+}
+
+/**
+ * lastKnownFileType by extension (anything else is a plain "file")
+ */
+const FILE_TYPES: Record<string, string> = {
+  '.plist': 'text.plist.xml',
+  '.entitlements': 'text.plist.entitlements',
+  '.json': 'text.json',
+  '.xcprivacy': 'text.xml',
+  '.xcassets': 'folder.assetcatalog',
+  '.storyboard': 'file.storyboard',
+  '.swift': 'sourcecode.swift',
+  '.h': 'sourcecode.c.h',
+  '.m': 'sourcecode.c.objc',
+  '.mm': 'sourcecode.cpp.objcpp',
+  '.c': 'sourcecode.c.c',
+  '.cpp': 'sourcecode.cpp.cpp',
+};
+
+/**
+ * Extensions compiled in the Sources build phase
+ */
+const SOURCE_EXTENSIONS = ['.swift', '.m', '.mm', '.c', '.cpp'];
+
+/**
+ * Resolves a `*.xcodeproj` segment of a patch file to the project's Xcode project
+ * (descriptors cannot know the app name, e.g. "ios/*.xcodeproj/project.pbxproj")
+ *
+ * @param projectRoot - Project root directory
+ * @param file - File declared by the patch (relative to project root)
+ * @returns File to patch (unchanged when there is no wildcard or no match)
+ */
+export function resolveXcodeprojFile(projectRoot: string, file: string): string {
+  const segments = file.split('/');
+  const index = segments.indexOf('*.xcodeproj');
+  if (index === -1) {
+    return file;
+  }
+  const dir = join(projectRoot, ...segments.slice(0, index));
+  if (!isDirectory(dir)) {
+    return file;
+  }
+  const project = readdirSync(dir).filter(name => name.endsWith('.xcodeproj') && name !== 'Pods.xcodeproj').sort()[0];
+  return project ? [...segments.slice(0, index), project, ...segments.slice(index + 1)].join('/') : file;
+}
+
+/**
+ * Gets the object IDs an xcodeproj patch creates (stable per operationId)
+ */
+export function getXcodeprojPatchIds(operationId: string): XcodeprojPatchIds {
+  return {
+    fileRef: generateObjectId(`${operationId}:PBXFileReference`),
+    buildFile: generateObjectId(`${operationId}:PBXBuildFile`),
+  };
+}
+
+/**
+ * Checks whether an xcodeproj patch is already applied (or the file is already referenced)
+ */
+export function hasXcodeprojPatch(content: string, patch: XcodeprojPatchOp): boolean {
+  return content.includes(getXcodeprojPatchIds(patch.operationId).fileRef) || findFileReference(content, patch.path) !== undefined;
+}
+
+/**
+ * Adds a file to the project: file reference, group entry and (optionally) build phase entry
+ *
+ * @throws Error if the group, target or build phase cannot be found
+ */
+export function applyXcodeprojPatch(content: string, patch: XcodeprojPatchOp): string {
+  if (hasXcodeprojPatch(content, patch)) {
+    return content;
+  }
+
+  const ids = getXcodeprojPatchIds(patch.operationId);
+  const name = basename(patch.path);
+  const extension = extname(patch.path);
+  const phase = patch.buildPhase ?? (SOURCE_EXTENSIONS.includes(extension) ? 'sources' : 'resources');
+  const phaseLabel = phase === 'sources' ? 'Sources' : 'Resources';
+
+  // Locate everything before editing (insertions shift indexes)
+  const group = findGroup(content, patch.group);
+  if (!group) {
+    throw new Error(patch.group ? `Group "${patch.group}" not found in ${patch.file}` : `Main group not found in ${patch.file}`);
+  }
+  const phaseId = phase === 'none' ? undefined : findBuildPhase(content, patch.target, phase);
+
+  const pathProps = name === patch.path
+    ? `path = ${quote(patch.path)};`
+    : `name = ${quote(name)}; path = ${quote(patch.path)};`;
+  let updated = insertInSection(
+    content,
+    'PBXFileReference',
+    `\t\t${ids.fileRef} /* ${name} */ = {isa = PBXFileReference; lastKnownFileType = ${FILE_TYPES[extension] ?? 'file'}; ${pathProps} sourceTree = "<group>"; };\n`
+  );
+  updated = insertListItem(updated, group, 'children', `${ids.fileRef} /* ${name} */`);
+
+  if (phaseId) {
+    updated = insertInSection(
+      updated,
+      'PBXBuildFile',
+      `\t\t${ids.buildFile} /* ${name} in ${phaseLabel} */ = {isa = PBXBuildFile; fileRef = ${ids.fileRef} /* ${name} */; };\n`
+    );
+    updated = insertListItem(updated, phaseId, 'files', `${ids.buildFile} /* ${name} in ${phaseLabel} */`);
+  }
+  return updated;
+}
+
+/**
+ * Removes every line mentioning the patch's objects, or renames them to a retained patch's IDs
+ *
+ * @returns Updated content, or undefined if the patch's objects are not in the file
+ */
+export function revertXcodeprojPatch(
+  content: string,
+  patch: XcodeprojPatchOp,
+  owner?: XcodeprojPatchOp
+): string | undefined {
+  const ids = getXcodeprojPatchIds(patch.operationId);
+  if (!content.includes(ids.fileRef)) {
+    return undefined;
+  }
+  if (owner) {
+    const ownerIds = getXcodeprojPatchIds(owner.operationId);
+    return content.split(ids.fileRef).join(ownerIds.fileRef).split(ids.buildFile).join(ownerIds.buildFile);
+  }
+  return content
+    .split('\n')
+    .filter(line => !line.includes(ids.fileRef) && !line.includes(ids.buildFile))
+    .join('\n');
+}
+
+/**
+ * Generates a 24-hex-digit object ID from a seed
+ */
+function generateObjectId(seed: string): string {
+  return createHash('sha1').update(seed).digest('hex').slice(0, 24).toUpperCase();
+}
+
+/**
+ * Finds the ID of an existing file reference with the given path
+ */
+function findFileReference(content: string, path: string): string | undefined {
+  const section = getSection(content, 'PBXFileReference');
+  const match = section
+    ?.split('\n')
+    .find(line => new RegExp(`\\bpath = ${escapeRegExp(quote(path))};`).test(line));
+  return match?.trim().split(' ')[0];
+}
+
+/**
+ * Finds a PBXGroup by name/path, or the project's main group
+ */
+function findGroup(content: string, group: string | undefined): string | undefined {
+  if (!group) {
+    return /\bmainGroup = ([0-9A-F]{24})/.exec(content)?.[1];
+  }
+  const section = getSection(content, 'PBXGroup') ?? '';
+  const value = escapeRegExp(quote(group));
+  const pattern = new RegExp(`^\\t\\t([0-9A-F]{24})[^\\n]*= \\{[\\s\\S]*?^\\t\\t\\};`, 'gm');
+  for (const match of section.matchAll(pattern)) {
+    if (new RegExp(`^\\t\\t\\t(name|path) = ${value};`, 'm').test(match[0])) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds a target's Resources/Sources build phase
+ *
+ * @throws Error if the target or its build phase does not exist
+ */
+function findBuildPhase(content: string, target: string | undefined, phase: 'resources' | 'sources'): string {
+  const section = getSection(content, 'PBXNativeTarget') ?? '';
+  const targets = [...section.matchAll(/^\t\t([0-9A-F]{24})[^\n]*= \{[\s\S]*?^\t\t\};/gm)];
+  const match = target
+    ? targets.find(candidate => new RegExp(`^\\t\\t\\tname = ${escapeRegExp(quote(target))};`, 'm').test(candidate[0]))
+    : targets[0];
+  if (!match) {
+    throw new Error(target ? `Target "${target}" not found` : 'No native target found');
+  }
+
+  const isa = phase === 'sources' ? 'PBXSourcesBuildPhase' : 'PBXResourcesBuildPhase';
+  const phaseIds = [...(readListProperty(match[0], 'buildPhases') ?? '').matchAll(/([0-9A-F]{24})/g)].map(m => m[1]);
+  const phaseId = phaseIds.find(id => {
+    const range = findObject(content, id);
+    return range !== undefined && content.slice(range.open, range.close).includes(`isa = ${isa};`);
+  });
+  if (!phaseId) {
+    throw new Error(`Target has no ${isa}`);
+  }
+  return phaseId;
+}
+
+/**
+ * Gets the text of a `/* Begin <isa> section *\/` block
+ */
+function getSection(content: string, isa: string): string | undefined {
+  const begin = content.indexOf(`/* Begin ${isa} section */`);
+  const end = content.indexOf(`/* End ${isa} section */`);
+  return begin === -1 || end === -1 ? undefined : content.slice(begin, end);
+}
+
+/**
+ * Inserts a line at the end of a section (the section is created if missing)
+ */
+function insertInSection(content: string, isa: string, line: string): string {
+  const end = content.indexOf(`/* End ${isa} section */`);
+  if (end !== -1) {
+    return content.slice(0, end) + line + content.slice(end);
+  }
+  // Sections are sorted by isa; put a new one before the first section that sorts after it
+  const sections = [...content.matchAll(/^\/\* Begin (\w+) section \*\//gm)];
+  const next = sections.find(section => section[1] > isa) ?? sections[sections.length - 1];
+  if (!next || next.index === undefined) {
+    throw new Error('Not an Xcode project: no object sections found');
+  }
+  const index = next[1] > isa ? next.index : content.indexOf('\n', content.indexOf(`/* End ${next[1]} section */`)) + 1;
+  return `${content.slice(0, index)}/* Begin ${isa} section */\n${line}/* End ${isa} section */\n\n${content.slice(index)}`;
+}
+
+/**
+ * Appends an entry to a list property (`children = ( ... );`) of an object
+ *
+ * @throws Error if the object or list does not exist
+ */
+function insertListItem(content: string, id: string, key: string, item: string): string {
+  const range = findObject(content, id);
+  const object = range && content.slice(range.open, range.close);
+  const list = object && new RegExp(`\\n(\\t*)${key} = \\(([\\s\\S]*?)\\n(\\t*)\\);`).exec(object);
+  if (!range || !list || list.index === undefined) {
+    throw new Error(`Object ${id} has no ${key} list`);
+  }
+  const close = range.open + list.index + list[0].length - `\n${list[3]});`.length;
+  return `${content.slice(0, close)}\n${list[1]}\t${item},${content.slice(close)}`;
+}
+
+/**
+ * Reads the raw text of a list property
+ */
+function readListProperty(object: string, key: string): string | undefined {
+  return new RegExp(`\\b${key} = \\(([\\s\\S]*?)\\);`).exec(object)?.[1];
+}
+
+/**
+ * Finds an object definition by ID
+ */
+function findObject(content: string, id: string): ObjectRange | undefined {
+  const match = new RegExp(`^\\t\\t${id}(?: /\\*.*?\\*/)? = \\{`, 'm').exec(content);
+  if (!match) {
+    return undefined;
+  }
+  const open = match.index + match[0].length - 1;
+  let depth = 0;
+  let quoted = false;
+  for (let i = open; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '\\') i++;
+      else if (char === '"') quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return { open, close: i };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Quotes a pbxproj string value when it contains characters outside the unquoted set
+ */
+function quote(value: string): string {
+  return /^[A-Za-z0-9_$/:.-]+$/.test(value) ? value : `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Escapes a string for use in a regular expression
+ */
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
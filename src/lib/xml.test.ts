@@ -0,0 +1,78 @@
+/**
+ * FILE: src/lib/xml.test.ts
+ * PURPOSE: Unit/spec tests for lossless XML round-tripping
+ * OWNERSHIP: CLI
+ *
+ * Tests validate:
+ * - parse → serialize reproduces the source exactly (comments, CDATA, doctype, quoting)
+ * - Inserted children follow sibling indentation; removal restores the original text
+ * - Attribute edits (set/remove) keep the original start tag layout
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createElement,
+  getChildElements,
+  getRootElement,
+  getTextContent,
+  insertChildren,
+  parseXml,
+  removeAttribute,
+  removeChild,
+  serializeXml,
+  setAttribute,
+} from './xml';
+
+describe('xml', () => {
+  const source = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">
+<plist version='1.0'>
+<dict>
+\t<!-- app name -->
+\t<key>CFBundleDisplayName</key>
+\t<string><![CDATA[My <App>]]></string>
+\t<key>Empty</key>
+\t<dict/>
+</dict>
+</plist>
+`;
+
+  it('should round-trip source text exactly', () => {
+    expect(serializeXml(parseXml(source))).toBe(source);
+    expect(() => parseXml('<a><b></a>')).toThrow(/Malformed XML/);
+  });
+
+  it('should decode text content', () => {
+    const dict = getChildElements(getRootElement(parseXml(source))!, 'dict')[0];
+    expect(getTextContent(getChildElements(dict, 'string')[0])).toBe('My <App>');
+  });
+
+  it('should insert children with sibling indentation and remove them cleanly', () => {
+    const doc = parseXml(source);
+    const dict = getChildElements(getRootElement(doc)!, 'dict')[0];
+    const key = createElement('key', {}, 'A & B');
+    insertChildren(doc, dict, [key, createElement('true')]);
+
+    expect(serializeXml(doc)).toContain('\t<dict/>\n\t<key>A &amp; B</key>\n\t<true/>\n</dict>');
+
+    const empty = getChildElements(dict, 'dict')[0];
+    insertChildren(doc, empty, [createElement('key', {}, 'Nested')]);
+    expect(serializeXml(doc)).toContain('\t<dict>\n\t\t<key>Nested</key>\n\t</dict>');
+
+    removeChild(dict, getChildElements(dict, 'true')[0]);
+    removeChild(dict, key);
+    expect(serializeXml(doc)).toContain('\t</dict>\n</dict>');
+  });
+
+  it('should keep the start tag layout when setting attributes', () => {
+    const doc = parseXml('<manifest\n  xmlns:android="http://schemas.android.com/apk/res/android">\n</manifest>\n');
+    setAttribute(getRootElement(doc)!, 'xmlns:tools', 'http://schemas.android.com/tools');
+
+    expect(serializeXml(doc)).toBe(
+      '<manifest\n  xmlns:android="http://schemas.android.com/apk/res/android" xmlns:tools="http://schemas.android.com/tools">\n</manifest>\n'
+    );
+
+    removeAttribute(getRootElement(doc)!, 'xmlns:tools');
+    expect(serializeXml(doc)).toBe('<manifest\n  xmlns:android="http://schemas.android.com/apk/res/android">\n</manifest>\n');
+  });
+});
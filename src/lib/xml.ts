@@ -0,0 +1,516 @@
+/**
+ * FILE: src/lib/xml.ts
+ * PURPOSE: Lossless XML round-tripping for native config files (Info.plist, entitlements, AndroidManifest.xml)
+ * OWNERSHIP: CLI
+ *
+ * parseXml → edit the tree → serializeXml reproduces untouched parts byte-for-byte
+ * (whitespace, comments, CDATA, doctype, attribute quoting). Edited elements are
+ * re-rendered; inserted nodes follow the indentation of their siblings.
+ * No external dependency; covers the XML subset used by Apple/Android config files.
+ */
+
+/**
+ * XML attribute (value is the raw, still-escaped text between the quotes)
+ */
+export interface XmlAttribute {
+  name: string;
+  value: string;
+}
+
+/**
+ * XML element
+ */
+export interface XmlElement {
+  type: 'element';
+  name: string;
+  attributes: XmlAttribute[];
+  children: XmlNode[];
+  /** Written as <name/> (only while it has no children) */
+  selfClosing: boolean;
+  /** Original start tag; cleared when attributes change so the tag is re-rendered */
+  rawStart?: string;
+  /** Original end tag */
+  rawEnd?: string;
+}
+
+/**
+ * Non-element nodes (value is raw source text, without delimiters for comments/CDATA)
+ */
+export interface XmlText {
+  type: 'text';
+  value: string;
+}
+
+export interface XmlComment {
+  type: 'comment';
+  value: string;
+}
+
+export interface XmlCData {
+  type: 'cdata';
+  value: string;
+}
+
+/**
+ * Declarations, processing instructions and doctype (kept verbatim)
+ */
+export interface XmlRaw {
+  type: 'raw';
+  value: string;
+}
+
+export type XmlNode = XmlElement | XmlText | XmlComment | XmlCData | XmlRaw;
+
+/**
+ * Parsed XML document
+ */
+export interface XmlDocument {
+  children: XmlNode[];
+}
+
+/**
+ * Default indentation unit when a parent has no indented children to copy from
+ */
+const DEFAULT_INDENT = '    ';
+
+/**
+ * Parses XML text into a lossless tree
+ *
+ * @param content - XML source
+ * @returns Document tree
+ * @throws Error on malformed XML (unclosed/mismatched tags, unterminated constructs)
+ */
+export function parseXml(content: string): XmlDocument {
+  const root: XmlDocument = { children: [] };
+  const stack: XmlElement[] = [];
+  const current = (): XmlNode[] => (stack.length > 0 ? stack[stack.length - 1].children : root.children);
+  let pos = 0;
+
+  const readUntil = (terminator: string, construct: string): number => {
+    const end = content.indexOf(terminator, pos);
+    if (end === -1) {
+      throw new Error(`Malformed XML: unterminated ${construct} at offset ${pos}`);
+    }
+    return end + terminator.length;
+  };
+
+  while (pos < content.length) {
+    if (content[pos] !== '<') {
+      const next = content.indexOf('<', pos);
+      const end = next === -1 ? content.length : next;
+      current().push({ type: 'text', value: content.slice(pos, end) });
+      pos = end;
+    } else if (content.startsWith('<!--', pos)) {
+      const end = readUntil('-->', 'comment');
+      current().push({ type: 'comment', value: content.slice(pos + 4, end - 3) });
+      pos = end;
+    } else if (content.startsWith('<![CDATA[', pos)) {
+      const end = readUntil(']]>', 'CDATA section');
+      current().push({ type: 'cdata', value: content.slice(pos + 9, end - 3) });
+      pos = end;
+    } else if (content.startsWith('<?', pos)) {
+      const end = readUntil('?>', 'processing instruction');
+      current().push({ type: 'raw', value: content.slice(pos, end) });
+      pos = end;
+    } else if (content.startsWith('<!', pos)) {
+      const end = findDeclarationEnd(content, pos);
+      current().push({ type: 'raw', value: content.slice(pos, end) });
+      pos = end;
+    } else if (content.startsWith('</', pos)) {
+      const end = readUntil('>', 'end tag');
+      const raw = content.slice(pos, end);
+      const name = raw.slice(2, -1).trim();
+      const element = stack.pop();
+      if (!element || element.name !== name) {
+        throw new Error(`Malformed XML: unexpected </${name}> at offset ${pos}${element ? ` (expected </${element.name}>)` : ''}`);
+      }
+      element.rawEnd = raw;
+      pos = end;
+    } else {
+      const end = findTagEnd(content, pos);
+      const raw = content.slice(pos, end);
+      const selfClosing = raw.endsWith('/>');
+      const body = raw.slice(1, selfClosing ? -2 : -1);
+      const nameMatch = body.match(/^[^\s/>]+/);
+      if (!nameMatch) {
+        throw new Error(`Malformed XML: invalid start tag at offset ${pos}`);
+      }
+      const element: XmlElement = {
+        type: 'element',
+        name: nameMatch[0],
+        attributes: parseAttributes(body.slice(nameMatch[0].length)),
+        children: [],
+        selfClosing,
+        rawStart: raw,
+      };
+      current().push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+      pos = end;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Malformed XML: unclosed <${stack[stack.length - 1].name}>`);
+  }
+  return root;
+}
+
+/**
+ * Serializes a document back to text
+ */
+export function serializeXml(doc: XmlDocument): string {
+  return doc.children.map(serializeNode).join('');
+}
+
+/**
+ * Serializes a single node
+ */
+export function serializeNode(node: XmlNode): string {
+  switch (node.type) {
+    case 'text':
+    case 'raw':
+      return node.value;
+    case 'comment':
+      return `<!--${node.value}-->`;
+    case 'cdata':
+      return `<![CDATA[${node.value}]]>`;
+    case 'element': {
+      if (node.children.length === 0 && node.selfClosing) {
+        return node.rawStart?.endsWith('/>') ? node.rawStart : renderStartTag(node, true);
+      }
+      const start = node.rawStart && !node.rawStart.endsWith('/>') ? node.rawStart : renderStartTag(node, false);
+      return `${start}${node.children.map(serializeNode).join('')}${node.rawEnd ?? `</${node.name}>`}`;
+    }
+  }
+}
+
+/**
+ * Creates an element (attribute values are escaped)
+ */
+export function createElement(name: string, attributes: Record<string, string> = {}, text?: string): XmlElement {
+  return {
+    type: 'element',
+    name,
+    attributes: Object.entries(attributes).map(([key, value]) => ({ name: key, value: escapeXmlText(value) })),
+    children: text === undefined ? [] : [{ type: 'text', value: escapeXmlText(text) }],
+    selfClosing: text === undefined,
+  };
+}
+
+/**
+ * Gets the document's root element
+ */
+export function getRootElement(doc: XmlDocument): XmlElement | undefined {
+  return doc.children.find((node): node is XmlElement => node.type === 'element');
+}
+
+/**
+ * Gets an element's child elements
+ */
+export function getChildElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter((node): node is XmlElement =>
+    node.type === 'element' && (name === undefined || node.name === name)
+  );
+}
+
+/**
+ * Gets an attribute value (unescaped)
+ */
+export function getAttribute(element: XmlElement, name: string): string | undefined {
+  const attribute = element.attributes.find(a => a.name === name);
+  return attribute ? unescapeXmlText(attribute.value) : undefined;
+}
+
+/**
+ * Sets an attribute value (the original start tag's layout is kept where possible)
+ */
+export function setAttribute(element: XmlElement, name: string, value: string): void {
+  const escaped = escapeXmlText(value);
+  const attribute = element.attributes.find(a => a.name === name);
+  if (attribute) {
+    const pattern = new RegExp(`(\\s${escapeRegExp(name)}\\s*=\\s*)(?:"[^"]*"|'[^']*')`);
+    element.rawStart = element.rawStart && pattern.test(element.rawStart)
+      ? element.rawStart.replace(pattern, (match, prefix: string) => `${prefix}"${escaped}"`)
+      : undefined;
+    attribute.value = escaped;
+  } else {
+    element.rawStart = element.rawStart?.replace(/(\s*)(\/?>)$/, (match, space: string, end: string) => ` ${name}="${escaped}"${space}${end}`);
+    element.attributes.push({ name, value: escaped });
+  }
+}
+
+/**
+ * Removes an attribute (the original start tag's layout is kept where possible)
+ */
+export function removeAttribute(element: XmlElement, name: string): void {
+  const index = element.attributes.findIndex(a => a.name === name);
+  if (index === -1) {
+    return;
+  }
+  const pattern = new RegExp(`\\s+${escapeRegExp(name)}\\s*=\\s*(?:"[^"]*"|'[^']*')`);
+  element.rawStart = element.rawStart && pattern.test(element.rawStart)
+    ? element.rawStart.replace(pattern, '')
+    : undefined;
+  element.attributes.splice(index, 1);
+}
+
+/**
+ * Gets an element's text content (entities decoded, CDATA included)
+ */
+export function getTextContent(element: XmlElement): string {
+  return element.children.map(node => {
+    if (node.type === 'text') return unescapeXmlText(node.value);
+    if (node.type === 'cdata') return node.value;
+    if (node.type === 'element') return getTextContent(node);
+    return '';
+  }).join('');
+}
+
+/**
+ * Finds the element that contains a node
+ */
+export function findParent(doc: XmlDocument, target: XmlNode): XmlElement | undefined {
+  const visit = (element: XmlElement): XmlElement | undefined => {
+    if (element.children.includes(target)) {
+      return element;
+    }
+    for (const child of getChildElements(element)) {
+      const found = visit(child);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  for (const node of doc.children) {
+    if (node.type === 'element') {
+      const found = visit(node);
+      if (found) return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds the first comment (depth-first) whose text matches
+ */
+export function findComment(doc: XmlDocument, predicate: (value: string) => boolean): XmlComment | undefined {
+  const visit = (nodes: XmlNode[]): XmlComment | undefined => {
+    for (const node of nodes) {
+      if (node.type === 'comment' && predicate(node.value)) return node;
+      if (node.type === 'element') {
+        const found = visit(node.children);
+        if (found) return found;
+      }
+    }
+    return undefined;
+  };
+  return visit(doc.children);
+}
+
+/**
+ * Inserts nodes into a parent on their own lines, indented like the parent's other children
+ *
+ * @param doc - Document (used to find the parent's own indentation)
+ * @param parent - Element to insert into
+ * @param nodes - Nodes to insert (each gets its own line)
+ * @param before - Existing child to insert before (default: append)
+ */
+export function insertChildren(doc: XmlDocument, parent: XmlElement, nodes: XmlNode[], before?: XmlNode): void {
+  const indent = getChildIndent(doc, parent);
+  const parentIndent = getIndent(doc, parent);
+  const lineBreak = detectLineBreak(doc);
+  const inserted = nodes.flatMap((node): XmlNode[] => [{ type: 'text', value: `${lineBreak}${indent}` }, node]);
+
+  if (parent.children.length === 0) {
+    parent.selfClosing = false;
+    if (parent.rawStart?.endsWith('/>')) {
+      parent.rawStart = undefined;
+    }
+    parent.children.push(...inserted, { type: 'text', value: `${lineBreak}${parentIndent}` });
+    return;
+  }
+
+  if (before) {
+    // Insert before the whitespace that precedes `before` so it keeps its own line
+    let index = parent.children.indexOf(before);
+    const previous = parent.children[index - 1];
+    if (previous && previous.type === 'text' && previous.value.trim() === '') {
+      index -= 1;
+    }
+    parent.children.splice(index, 0, ...inserted);
+    return;
+  }
+
+  // Append before trailing whitespace (the closing tag's indentation)
+  const last = parent.children[parent.children.length - 1];
+  const index = last.type === 'text' && last.value.trim() === '' ? parent.children.length - 1 : parent.children.length;
+  if (index === parent.children.length) {
+    inserted.push({ type: 'text', value: `${lineBreak}${parentIndent}` });
+  }
+  parent.children.splice(index, 0, ...inserted);
+}
+
+/**
+ * Removes a child node together with the whitespace line it sat on
+ */
+export function removeChild(parent: XmlElement, node: XmlNode): void {
+  const index = parent.children.indexOf(node);
+  if (index === -1) {
+    return;
+  }
+  const previous = parent.children[index - 1];
+  const start = previous && previous.type === 'text' && previous.value.trim() === '' ? index - 1 : index;
+  parent.children.splice(start, index - start + 1);
+
+  // Element left with only whitespace collapses back to its closing-tag indentation
+  if (parent.children.every(child => child.type === 'text' && child.value.trim() === '') && parent.children.length > 1) {
+    parent.children.splice(0, parent.children.length - 1);
+  }
+}
+
+/**
+ * Gets the next sibling element after a node
+ */
+export function getNextElement(parent: XmlElement, node: XmlNode): XmlElement | undefined {
+  const index = parent.children.indexOf(node);
+  return parent.children.slice(index + 1).find((child): child is XmlElement => child.type === 'element');
+}
+
+/**
+ * Escapes text for element content or attribute values
+ */
+export function escapeXmlText(str: string): string {
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Decodes XML entities
+ */
+export function unescapeXmlText(str: string): string {
+  return str.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (match, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity.startsWith('#x') ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+    }
+  });
+}
+
+/**
+ * Escapes RegExp special characters
+ */
+function escapeRegExp(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Finds the end of a start tag (the '>' outside attribute quotes)
+ */
+function findTagEnd(content: string, start: number): number {
+  let quote: string | undefined;
+  for (let i = start + 1; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i + 1;
+    }
+  }
+  throw new Error(`Malformed XML: unterminated start tag at offset ${start}`);
+}
+
+/**
+ * Parses attributes from the inside of a start tag
+ */
+function parseAttributes(source: string): XmlAttribute[] {
+  const attributes: XmlAttribute[] = [];
+  const pattern = /([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source)) !== null) {
+    attributes.push({ name: match[1], value: match[2] ?? match[3] });
+  }
+  return attributes;
+}
+
+/**
+ * Finds the end of a doctype/declaration (the '>' outside an internal subset)
+ */
+function findDeclarationEnd(content: string, start: number): number {
+  let depth = 0;
+  for (let i = start + 2; i < content.length; i++) {
+    const char = content[i];
+    if (char === '[') depth++;
+    else if (char === ']') depth--;
+    else if (char === '>' && depth <= 0) return i + 1;
+  }
+  throw new Error(`Malformed XML: unterminated declaration at offset ${start}`);
+}
+
+/**
+ * Renders a start tag from name + attributes (<name/> or <name a="b" /> when self-closing)
+ */
+function renderStartTag(element: XmlElement, selfClosing: boolean): string {
+  const attributes = element.attributes.map(a => ` ${a.name}="${a.value}"`).join('');
+  if (!selfClosing) {
+    return `<${element.name}${attributes}>`;
+  }
+  return attributes ? `<${element.name}${attributes} />` : `<${element.name}/>`;
+}
+
+/**
+ * Gets the indentation of an element (whitespace after the last line break before it)
+ */
+function getIndent(doc: XmlDocument, element: XmlElement): string {
+  const siblings = findParent(doc, element)?.children ?? doc.children;
+  const previous = siblings[siblings.indexOf(element) - 1];
+  if (previous && previous.type === 'text') {
+    const lineStart = previous.value.lastIndexOf('\n');
+    if (lineStart !== -1 && previous.value.slice(lineStart + 1).trim() === '') {
+      return previous.value.slice(lineStart + 1);
+    }
+  }
+  return '';
+}
+
+/**
+ * Gets the indentation for children of an element (copied from existing children if any)
+ */
+function getChildIndent(doc: XmlDocument, parent: XmlElement): string {
+  for (let i = 0; i < parent.children.length - 1; i++) {
+    const node = parent.children[i];
+    if (node.type === 'text' && node.value.includes('\n') && node.value.trim() === '') {
+      return node.value.slice(node.value.lastIndexOf('\n') + 1);
+    }
+  }
+  return `${getIndent(doc, parent)}${detectIndentUnit(doc)}`;
+}
+
+/**
+ * Detects the document's indentation unit (smallest non-empty indentation)
+ */
+function detectIndentUnit(doc: XmlDocument): string {
+  const indents = serializeXml(doc).match(/\n([ \t]+)</g) || [];
+  const smallest = indents
+    .map(indent => indent.slice(1, -1))
+    .sort((a, b) => a.length - b.length)[0];
+  return smallest || DEFAULT_INDENT;
+}
+
+/**
+ * Detects the document's line break style
+ */
+function detectLineBreak(doc: XmlDocument): string {
+  return serializeXml(doc).includes('\r\n') ? '\r\n' : '\n';
+}
@@ -1,7 +1,7 @@
 import React, { useEffect } from 'react';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { initCore } from '@rns/runtime/core-init';
+import { initCoreAsync } from '@rns/runtime/core-init';
 // @rns-marker:imports:start
 // Plugin imports will be injected here
 // @rns-marker:imports:end
@@ -13,7 +13,7 @@ import { initCore } from '@rns/runtime/core-init';
  */
 export default function App() {
   useEffect(() => {
-    initCore();
+    initCoreAsync();
   }, []);
 
   return (
@@ -4,12 +4,14 @@
  * OWNERSHIP: CORE
  * 
  * PLUGIN-FREE GUARANTEE:
- * - Only imports from @rns/core (no plugin dependencies)
+ * - Only imports from @rns/core and react-native (no plugin dependencies)
  * - initNetInfoBridge() is a stub (no NetInfo required)
  * - Plugins can extend initialization via runtime hooks, NOT modify this file
+ * - Async/conditional plugin steps run in initCoreAsync() (dependency order, per-step timing)
  */
 
-import { logger, initNetInfoBridge } from '@rns/core';
+import { Platform } from 'react-native';
+import { logger, initNetInfoBridge, featureFlagsRegistry } from '@rns/core';
 // Initialize I18n early (section 28 - CORE)
 // Import ensures i18n instance is initialized on app startup
 import '@rns/core/i18n';
@@ -45,4 +47,107 @@ export function initCore(): void {
   logger.info('CORE initialized');
 }
 
+/**
+ * Async/conditional initialization step (injected by plugins, run by initCoreAsync)
+ */
+export interface AsyncInitStep {
+  /** Contributing capability ID (what dependsOn refers to) */
+  id: string;
+  run: () => unknown;
+  /** Only run on these platforms */
+  platforms?: string[];
+  /** Only run when this feature flag is true */
+  featureFlag?: string;
+  /** Fail the step after this many milliseconds */
+  timeoutMs?: number;
+  /** Capability IDs whose steps must complete first */
+  dependsOn?: string[];
+}
+
+const asyncInitSteps: AsyncInitStep[] = [
+  // @rns-marker:async-init-steps:start
+  // Plugin async initialization steps will be injected here
+  // @rns-marker:async-init-steps:end
+];
+
+let asyncInit: Promise<void> | null = null;
+
+/**
+ * Initialize CORE, then run async/conditional init steps in dependency order
+ * Resolves once every step has completed, failed or timed out (failed and skipped steps are
+ * logged and skip the steps depending on them); rejects if initCore() throws. Safe to call
+ * more than once.
+ */
+export function initCoreAsync(): Promise<void> {
+  if (!asyncInit) {
+    asyncInit = new Promise<void>(resolve => {
+      if (!initialized) {
+        initCore();
+      }
+      resolve(runAsyncInitSteps(asyncInitSteps));
+    });
+  }
+  return asyncInit;
+}
 
+async function runAsyncInitSteps(steps: AsyncInitStep[]): Promise<void> {
+  const skipped = new Set<string>();
+  const flags: Record<string, unknown> = featureFlagsRegistry.getAll();
+  const pending = steps.filter(step => {
+    if (step.platforms && !step.platforms.includes(Platform.OS)) {
+      logger.info(`[init] ${step.id} skipped (not on ${Platform.OS})`);
+      skipped.add(step.id);
+      return false;
+    }
+    if (step.featureFlag && flags[step.featureFlag] !== true) {
+      logger.info(`[init] ${step.id} skipped (feature flag ${step.featureFlag} is off)`);
+      skipped.add(step.id);
+      return false;
+    }
+    return true;
+  });
+  const failed = new Set<string>();
+  const started = Date.now();
+
+  while (pending.length > 0) {
+    // Next step whose dependencies have all run (declaration order otherwise)
+    const index = pending.findIndex(step =>
+      !(step.dependsOn || []).some(dependency => pending.some(other => other !== step && other.id === dependency))
+    );
+    if (index < 0) {
+      logger.error(`[init] dependsOn cycle, not run: ${pending.map(step => step.id).join(', ')}`);
+      break;
+    }
+    const [step] = pending.splice(index, 1);
+
+    // Steps that did not run (failed, skipped or blocked) block their dependents
+    const blockedBy = (step.dependsOn || []).find(dependency => failed.has(dependency) || skipped.has(dependency));
+    if (blockedBy) {
+      skipped.add(step.id);
+      logger.warn(`[init] ${step.id} skipped (${blockedBy} ${failed.has(blockedBy) ? 'failed' : 'was skipped'})`);
+      continue;
+    }
+
+    const stepStarted = Date.now();
+    try {
+      await withTimeout(Promise.resolve().then(step.run), step.timeoutMs);
+      logger.info(`[init] ${step.id} completed in ${Date.now() - stepStarted}ms`);
+    } catch (error) {
+      failed.add(step.id);
+      logger.error(`[init] ${step.id} failed after ${Date.now() - stepStarted}ms`, error);
+    }
+  }
+
+  logger.info(`[init] async init finished in ${Date.now() - started}ms`);
+}
+
+function withTimeout(promise: Promise<unknown>, timeoutMs?: number): Promise<unknown> {
+  if (!timeoutMs) {
+    return promise;
+  }
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
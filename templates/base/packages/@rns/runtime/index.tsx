@@ -15,9 +15,9 @@
  * - Plugins can replace MinimalUI but must maintain RnsApp export contract
  */
 
-import React, { useEffect } from 'react';
+import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
-import { initCore } from './core-init';
+import { SplashScreen, useCoreReady } from './splash';
 import { ThemeProvider } from '@rns/core/theme';
 
 // @rns-marker:imports:start
@@ -29,19 +29,14 @@ import { ThemeProvider } from '@rns/core/theme';
  * Plugins can extend this via registries/hooks without modifying CORE
  */
 function RootProvider({ children }: { children: React.ReactNode }): React.ReactElement {
-  // Initialize CORE exactly once when provider mounts
-  useEffect(() => {
-    initCore();
-  }, []);
-
   // Wrap with ThemeProvider (CORE - section 29)
   // ThemeProvider must wrap all UI components to provide theme context
   return (
     <ThemeProvider>
       {/* @rns-marker:providers:start */}
       {/* Plugin providers will wrap children here */}
-      {/* @rns-marker:providers:end */}
       {children}
+      {/* @rns-marker:providers:end */}
     </ThemeProvider>
   );
 }
@@ -67,6 +62,12 @@ function MinimalUI(): React.ReactElement {
  * Provides minimal composition that can be extended via plugins
  */
 export function RnsApp(): React.ReactElement {
+  // Splash until CORE init (incl. async/conditional plugin init steps) completes
+  const ready = useCoreReady();
+  if (!ready) {
+    return <SplashScreen />;
+  }
+
   // @rns-marker:root:start
   return (
     <RootProvider>
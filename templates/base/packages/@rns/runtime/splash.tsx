@@ -0,0 +1,61 @@
+/**
+ * FILE: packages/@rns/runtime/splash.tsx
+ * PURPOSE: Splash/loading state shown by RnsApp until CORE init completes
+ * OWNERSHIP: CORE
+ *
+ * PLUGIN-FREE GUARANTEE:
+ * - Only imports React Native core (react, react-native) and @rns/core
+ * - Waits for initCoreAsync(): CORE init plus async/conditional plugin init steps
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, ActivityIndicator, StyleSheet } from 'react-native';
+import { logger } from '@rns/core';
+import { initCoreAsync } from './core-init';
+
+/**
+ * Runs CORE init once (initCoreAsync) and reports when the app can render
+ * Failed or timed-out plugin steps are logged by initCoreAsync and don't block the app; if init
+ * itself throws, the error is logged and the app renders anyway
+ */
+export function useCoreReady(): boolean {
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    initCoreAsync()
+      .catch(error => {
+        logger.error('[init] CORE init failed', error);
+      })
+      .then(() => {
+        if (mounted) {
+          setReady(true);
+        }
+      });
+    return () => {
+      mounted = false;
+    };
+  }, []);
+
+  return ready;
+}
+
+/**
+ * Minimal splash (loading indicator) rendered while init steps run
+ */
+export function SplashScreen(): React.ReactElement {
+  return (
+    <View style={styles.container}>
+      <ActivityIndicator size="large" color="#666666" />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+});
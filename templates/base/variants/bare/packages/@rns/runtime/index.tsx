@@ -6,10 +6,10 @@
  * Note: The Expo target keeps the plugin-free MinimalUI runtime.
  */
 
-import React, { useEffect } from 'react';
+import React from 'react';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
-import { initCore } from './core-init';
+import { SplashScreen, useCoreReady } from './splash';
 import { ThemeProvider } from '@rns/core/theme';
 import { RnsNavigationRoot } from '@rns/navigation';
 
@@ -18,23 +18,25 @@ import { RnsNavigationRoot } from '@rns/navigation';
 // @rns-marker:imports:end
 
 function RootProvider({ children }: { children: React.ReactNode }): React.ReactElement {
-  useEffect(() => {
-    initCore();
-  }, []);
-
   // Wrap with ThemeProvider (CORE - section 29)
   // ThemeProvider must wrap all UI components to provide theme context
   return (
     <ThemeProvider>
       {/* @rns-marker:providers:start */}
       {/* Plugin providers will wrap children here */}
-      {/* @rns-marker:providers:end */}
       {children}
+      {/* @rns-marker:providers:end */}
     </ThemeProvider>
   );
 }
 
 export function RnsApp(): React.ReactElement {
+  // Splash until CORE init (incl. async/conditional plugin init steps) completes
+  const ready = useCoreReady();
+  if (!ready) {
+    return <SplashScreen />;
+  }
+
   // @rns-marker:root:start
   return (
     <RootProvider>